@@ -0,0 +1,182 @@
+/**
+ * PHI De-identification Check
+ *
+ * Run with: npx tsx scripts/check-phi-deidentification.ts
+ *
+ * Runs each PHI case below through the de-identification layer used by
+ * `callModel` and checks that:
+ * - every PHI value is gone from the outbound text
+ * - text that must survive (lab values, drug doses, years) is untouched
+ * - re-identifying the outbound text restores the original exactly
+ * - the same value gets the same surrogate in a second request
+ * Exits non-zero when any case fails. No model is called.
+ */
+
+import {
+    deidentifyRequest,
+    withPatientIdentifiers,
+    PHI_CATEGORIES,
+    type PatientIdentifiers,
+    type PhiCategory,
+} from "../src/lib/ai/providers";
+
+interface PhiCase {
+    name: string;
+    text: string;
+    // Must not appear in the outbound text
+    phi: string[];
+    // Must appear unchanged in the outbound text
+    keep?: string[];
+    identifiers?: PatientIdentifiers;
+    categories?: PhiCategory[];
+}
+
+const PATIENT: PatientIdentifiers = {
+    subjectId: "patient-001",
+    name: "Margaret O'Neill",
+    mrn: "A1029384",
+    phone: "(415) 555-0142",
+    email: "m.oneill@example.com",
+    address: "42 Harbor View Road, Sausalito, CA 94965",
+};
+
+const CASES: PhiCase[] = [
+    {
+        name: "known patient name, full and in parts",
+        text: "Patient: Margaret O'Neill, 67y female. Ms. O'Neill reports chest pain; Margaret denies dyspnea.",
+        phi: ["Margaret", "O'Neill"],
+        keep: ["67y female", "chest pain"],
+        identifiers: PATIENT,
+    },
+    {
+        name: "name matched regardless of case and spacing",
+        text: "MARGARET O'NEILL was seen by cardiology. margaret  o'neill follows up in 2 weeks.",
+        phi: ["MARGARET O'NEILL", "margaret  o'neill"],
+        keep: ["cardiology", "2 weeks"],
+        identifiers: PATIENT,
+    },
+    {
+        name: "name family-first, in capitals and with ^ or comma",
+        text: "BROWN^MAY, 58F, referred by cardiology. Brown, May consented. MRS. BROWN is anxious.",
+        phi: ["BROWN^MAY", "Brown, May", "BROWN"],
+        keep: ["58F", "cardiology", "consented"],
+        identifiers: { subjectId: "patient-002", name: "May Brown" },
+    },
+    {
+        name: "name part that is also a month",
+        text: "May Brown was seen May 3, 2024 and is to follow up in May.",
+        phi: ["May Brown", "May 3, 2024"],
+        keep: ["follow up in May"],
+        identifiers: { subjectId: "patient-002", name: "May Brown" },
+    },
+    {
+        name: "other people by title",
+        text: "Accompanied by her husband Mr. Daniel Reyes. Mrs Alvarez (neighbour) called 911.",
+        phi: ["Daniel Reyes", "Alvarez"],
+        keep: ["husband", "911"],
+    },
+    {
+        name: "known and labelled MRNs",
+        text: "MRN: A1029384. Prior records under medical record number ZX-77812.",
+        phi: ["A1029384", "ZX-77812"],
+        identifiers: PATIENT,
+    },
+    {
+        name: "SSN",
+        text: "SSN 123-45-6789 on the referral form.",
+        phi: ["123-45-6789"],
+    },
+    {
+        name: "phone numbers in common formats",
+        text: "Call (415) 555-0142, 415-555-0199, 415.555.0100 or +1 212 555 0123.",
+        phi: ["(415) 555-0142", "415-555-0199", "415.555.0100", "212 555 0123"],
+    },
+    {
+        name: "email",
+        text: "Results sent to m.oneill@example.com and j_doe+clinic@mail.example.org.",
+        phi: ["m.oneill@example.com", "j_doe+clinic@mail.example.org"],
+    },
+    {
+        name: "known and street addresses",
+        text: "Lives at 42 Harbor View Road, Sausalito, CA 94965. Previously 1730 W. Elm Street Apt 4B.",
+        phi: ["42 Harbor View Road", "1730 W. Elm Street Apt 4B"],
+        identifiers: PATIENT,
+    },
+    {
+        name: "exact dates in ISO, US, long and DICOM formats",
+        text: "DOB 1958-03-14T00:00:00.000Z. Admitted 11/02/2025, discharged November 5, 2025. Study date 20251103.",
+        phi: ["1958-03-14", "11/02/2025", "November 5, 2025", "20251103"],
+        keep: ["T00:00:00.000Z"],
+        identifiers: PATIENT,
+    },
+    {
+        name: "clinical values are not PHI",
+        text: "Troponin 0.09 ng/mL, BP 142/88, HR 104, metformin 500 mg BID since 2019. ICD-10 I21.4, eGFR 58.",
+        phi: [],
+        keep: ["0.09 ng/mL", "142/88", "HR 104", "500 mg BID", "2019", "I21.4", "eGFR 58"],
+        identifiers: PATIENT,
+    },
+    {
+        name: "policy limits the categories replaced",
+        text: "Margaret O'Neill, MRN A1029384, seen 2025-11-02.",
+        phi: ["Margaret O'Neill"],
+        keep: ["A1029384", "2025-11-02"],
+        identifiers: PATIENT,
+        categories: ["name"],
+    },
+];
+
+async function outbound(phiCase: PhiCase) {
+    const run = async () => deidentifyRequest(
+        { task: "phi-check", prompt: phiCase.text },
+        phiCase.categories ?? PHI_CATEGORIES
+    );
+    return phiCase.identifiers ? withPatientIdentifiers(phiCase.identifiers, run) : run();
+}
+
+async function checkCase(phiCase: PhiCase): Promise<string[]> {
+    const problems: string[] = [];
+    const first = await outbound(phiCase);
+    const second = await outbound(phiCase);
+    const sent = first.request.prompt as string;
+
+    for (const value of phiCase.phi) {
+        if (sent.includes(value)) problems.push(`PHI sent: "${value}"`);
+    }
+    for (const value of phiCase.keep ?? []) {
+        if (!sent.includes(value)) problems.push(`Clinical text changed: "${value}"`);
+    }
+    if (phiCase.phi.length > 0 && first.replaced === 0) {
+        problems.push("Nothing was replaced");
+    }
+    if (second.request.prompt !== sent) {
+        problems.push("Surrogates differ between requests");
+    }
+    const restored = first.reidentify(sent);
+    if (restored.replace(/\s+/g, " ") !== phiCase.text.replace(/\s+/g, " ")) {
+        problems.push(`Re-identified text differs:\n      ${restored}`);
+    }
+    return problems;
+}
+
+async function main() {
+    let failed = 0;
+    for (const phiCase of CASES) {
+        const problems = await checkCase(phiCase);
+        if (problems.length === 0) {
+            console.log(`   ✓ ${phiCase.name}`);
+        } else {
+            failed++;
+            console.log(`   ✗ ${phiCase.name}`);
+            for (const problem of problems) console.log(`      ${problem}`);
+        }
+    }
+
+    console.log(`\n${CASES.length - failed}/${CASES.length} PHI cases passed`);
+    if (failed > 0) process.exit(1);
+}
+
+main().catch((e) => {
+    console.error(e);
+    process.exit(1);
+});
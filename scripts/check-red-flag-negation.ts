@@ -0,0 +1,91 @@
+/**
+ * Red-Flag Negation Check
+ *
+ * Run with: npx tsx scripts/check-red-flag-negation.ts
+ *
+ * Runs each presentation below through the default red-flag rules and checks
+ * that the rules expected to fire do, and that symptoms the patient denies
+ * don't fire them. A denial only covers its own clause: in "no headache but
+ * sudden slurred speech" the slurred speech still counts. Exits non-zero when
+ * any case fails. No database is used.
+ */
+
+import {
+    DEFAULT_RED_FLAG_RULES,
+    evaluateRedFlagRules,
+    type RedFlagContext,
+    type RedFlagRule,
+} from "../src/lib/red-flags";
+
+interface NegationCase {
+    symptoms: string;
+    // Rules that must fire
+    fires: string[];
+    // Rules that must not fire
+    silent?: string[];
+}
+
+const CHEST_PAIN = "Chest pain with diabetes over 50";
+const HEADACHE = "Sudden severe headache";
+const STROKE = "Focal neurological deficit";
+
+// Over 50 with diabetes, so the chest pain rule turns on the symptoms alone
+const PATIENT: RedFlagContext = {
+    age: 64,
+    gender: "male",
+    currentSymptoms: "",
+    currentVitalSigns: null,
+    medicalHistory: [
+        { id: "h1", type: "condition", clinicalStatus: "active", description: "Type 2 diabetes mellitus", icd10Code: "E11.9" },
+    ],
+    medications: [],
+};
+
+const CASES: NegationCase[] = [
+    { symptoms: "no headache but sudden slurred speech", fires: [STROKE], silent: [HEADACHE] },
+    { symptoms: "denies fever but has crushing chest pain", fires: [CHEST_PAIN] },
+    { symptoms: "Denies nausea and facial droop noted by wife", fires: [STROKE] },
+    { symptoms: "No vomiting; however chest tightness since 6am", fires: [CHEST_PAIN] },
+    { symptoms: "denies palpitations, reports chest pressure on exertion", fires: [CHEST_PAIN] },
+    { symptoms: "Never had a headache like this, worst headache of my life", fires: [HEADACHE] },
+    { symptoms: "I have never felt chest pain like this before", fires: [CHEST_PAIN] },
+    { symptoms: "no chest pain", fires: [], silent: [CHEST_PAIN] },
+    { symptoms: "Denies chest pain or shortness of breath", fires: [], silent: [CHEST_PAIN] },
+    { symptoms: "Cough for 3 days, negative for slurred speech", fires: [], silent: [STROKE] },
+    { symptoms: "without thunderclap onset; gradual tension headache", fires: [], silent: [HEADACHE] },
+];
+
+const RULES: RedFlagRule[] = DEFAULT_RED_FLAG_RULES.map((rule, index) => ({ ...rule, id: `default-${index}`, enabled: true }));
+
+function checkCase(negationCase: NegationCase): string[] {
+    const hits = evaluateRedFlagRules(RULES, { ...PATIENT, currentSymptoms: negationCase.symptoms });
+    const fired = new Set(hits.map(hit => hit.name));
+
+    const problems: string[] = [];
+    for (const name of negationCase.fires) {
+        if (!fired.has(name)) problems.push(`Did not fire: ${name}`);
+    }
+    for (const name of negationCase.silent ?? []) {
+        if (fired.has(name)) problems.push(`Fired on a denied symptom: ${name}`);
+    }
+    return problems;
+}
+
+function main() {
+    let failed = 0;
+    for (const negationCase of CASES) {
+        const problems = checkCase(negationCase);
+        if (problems.length === 0) {
+            console.log(`   ✓ ${negationCase.symptoms}`);
+        } else {
+            failed++;
+            console.log(`   ✗ ${negationCase.symptoms}`);
+            for (const problem of problems) console.log(`      ${problem}`);
+        }
+    }
+
+    console.log(`\n${CASES.length - failed}/${CASES.length} red-flag negation cases passed`);
+    if (failed > 0) process.exit(1);
+}
+
+main();
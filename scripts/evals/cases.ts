@@ -0,0 +1,334 @@
+/**
+ * Evaluation Cases - curated synthetic presentations with expected outcomes
+ *
+ * Every case is fictional. Expected values are what a reviewing clinician
+ * would accept:
+ * - `urgency`: the overall urgency the report should carry
+ * - `primaryDiagnosis`: keywords, any of which in the primary diagnosis counts as a match
+ * - `icd10Codes`: codes the coding agent should suggest; a category ("I21")
+ *   matches any code below it ("I21.09")
+ * - `redFlags`: findings the diagnosis must call out, each matched by any of its keywords
+ */
+
+import type {
+    PatientContext,
+    MedicalHistoryContext,
+    MedicationContext,
+    ScanAnalysisResult,
+} from "../../src/lib/ai/agents";
+
+export type Urgency = "LOW" | "MEDIUM" | "HIGH" | "CRITICAL";
+
+export interface ExpectedRedFlag {
+    label: string;
+    keywords: string[];
+}
+
+export interface EvalCase {
+    id: string;
+    title: string;
+    patient: PatientContext;
+    // Pre-analyzed imaging, so cases don't depend on the vision model
+    scans: ScanAnalysisResult[];
+    expected: {
+        urgency: Urgency;
+        primaryDiagnosis: string[];
+        icd10Codes: string[];
+        redFlags: ExpectedRedFlag[];
+    };
+}
+
+function condition(description: string, icd10Code: string | null, type = "condition"): MedicalHistoryContext {
+    return {
+        id: `hx-${description.toLowerCase().replace(/[^a-z0-9]+/g, "-")}`,
+        type,
+        clinicalStatus: "active",
+        description,
+        icd10Code,
+    };
+}
+
+function medication(name: string, dosage: string, frequency: string, reason?: string): MedicationContext {
+    return {
+        id: `med-${name.toLowerCase().replace(/[^a-z0-9]+/g, "-")}`,
+        name,
+        dosage,
+        frequency,
+        status: "active",
+        reason: reason ?? null,
+    };
+}
+
+function syntheticPatient(input: {
+    id: string;
+    name: string;
+    age: number;
+    gender: string;
+    symptoms: string;
+    history?: MedicalHistoryContext[];
+    medications?: MedicationContext[];
+}): PatientContext {
+    const birthYear = new Date().getFullYear() - input.age;
+    return {
+        id: `eval-${input.id}`,
+        name: input.name,
+        age: input.age,
+        gender: input.gender,
+        dateOfBirth: `${birthYear}-01-01`,
+        medicalHistorySummary: null,
+        encounters: [],
+        medicalHistory: input.history ?? [],
+        medications: input.medications ?? [],
+        externalReports: [],
+        currentSymptoms: input.symptoms,
+    };
+}
+
+function scanFinding(input: {
+    id: string;
+    scanType: string;
+    bodyPart: string;
+    findings: string;
+    abnormalities: string[];
+    severity: ScanAnalysisResult["severity"];
+}): ScanAnalysisResult {
+    return {
+        scanId: `eval-scan-${input.id}`,
+        scanType: input.scanType,
+        bodyPart: input.bodyPart,
+        findings: input.findings,
+        abnormalities: input.abnormalities,
+        severity: input.severity,
+        confidence: 0.9,
+        recommendations: [],
+        rawAnalysis: input.findings,
+        status: "ok",
+    };
+}
+
+export const EVAL_CASES: EvalCase[] = [
+    {
+        id: "stemi",
+        title: "Inferior STEMI in a diabetic smoker",
+        patient: syntheticPatient({
+            id: "stemi",
+            name: "Eval Patient A",
+            age: 62,
+            gender: "Male",
+            symptoms: "Crushing substernal chest pain radiating to the jaw for 45 minutes, diaphoretic and nauseated. " +
+                "Paramedic ECG shows ST elevation in leads II, III and aVF. BP 98/60, HR 52.",
+            history: [
+                condition("Type 2 diabetes mellitus", "E11.9"),
+                condition("Hyperlipidemia", "E78.5"),
+                condition("Current smoker, 40 pack-years", null, "social_history"),
+            ],
+            medications: [
+                medication("Metformin", "1000 mg", "twice daily", "Type 2 diabetes"),
+                medication("Atorvastatin", "40 mg", "nightly", "Hyperlipidemia"),
+            ],
+        }),
+        scans: [],
+        expected: {
+            urgency: "CRITICAL",
+            primaryDiagnosis: ["myocardial infarction", "stemi", "acute coronary syndrome"],
+            icd10Codes: ["I21"],
+            redFlags: [
+                { label: "ST elevation", keywords: ["st elevation", "st-elevation", "stemi"] },
+                { label: "Hypotension / bradycardia", keywords: ["hypotension", "bradycardia", "shock"] },
+            ],
+        },
+    },
+    {
+        id: "pulmonary-embolism",
+        title: "Pulmonary embolism after long-haul travel",
+        patient: syntheticPatient({
+            id: "pulmonary-embolism",
+            name: "Eval Patient B",
+            age: 34,
+            gender: "Female",
+            symptoms: "Sudden pleuritic chest pain and shortness of breath since this morning, two days after a 14-hour flight. " +
+                "Left calf swollen and tender. HR 118, SpO2 89% on room air.",
+            history: [condition("Combined oral contraceptive use", null, "social_history")],
+            medications: [medication("Ethinylestradiol/levonorgestrel", "30/150 mcg", "daily", "Contraception")],
+        }),
+        scans: [
+            scanFinding({
+                id: "pulmonary-embolism",
+                scanType: "CT",
+                bodyPart: "Chest",
+                findings: "CT pulmonary angiogram: filling defects in the right main and left lower lobe pulmonary arteries. " +
+                    "RV/LV ratio 1.1.",
+                abnormalities: ["Bilateral pulmonary emboli", "Right ventricular strain"],
+                severity: "SEVERE",
+            }),
+        ],
+        expected: {
+            urgency: "CRITICAL",
+            primaryDiagnosis: ["pulmonary embolism", "pulmonary emboli"],
+            icd10Codes: ["I26"],
+            redFlags: [
+                { label: "Hypoxia", keywords: ["hypoxia", "hypoxemia", "desaturation", "spo2"] },
+                { label: "Right heart strain", keywords: ["right ventricular", "rv strain", "right heart"] },
+            ],
+        },
+    },
+    {
+        id: "stroke",
+        title: "Acute ischemic stroke within the thrombolysis window",
+        patient: syntheticPatient({
+            id: "stroke",
+            name: "Eval Patient C",
+            age: 71,
+            gender: "Female",
+            symptoms: "Sudden right-sided weakness and slurred speech noticed by family 50 minutes ago. " +
+                "Right facial droop, right arm drift. Glucose 6.2 mmol/L.",
+            history: [
+                condition("Atrial fibrillation", "I48.91"),
+                condition("Essential hypertension", "I10"),
+            ],
+            medications: [medication("Amlodipine", "5 mg", "daily", "Hypertension")],
+        }),
+        scans: [
+            scanFinding({
+                id: "stroke",
+                scanType: "CT",
+                bodyPart: "Head",
+                findings: "Non-contrast CT head: no intracranial hemorrhage. Hyperdense left MCA sign.",
+                abnormalities: ["Hyperdense left middle cerebral artery"],
+                severity: "SEVERE",
+            }),
+        ],
+        expected: {
+            urgency: "CRITICAL",
+            primaryDiagnosis: ["stroke", "cerebral infarction", "cerebrovascular accident"],
+            icd10Codes: ["I63"],
+            redFlags: [
+                { label: "Focal neurological deficit", keywords: ["weakness", "hemiparesis", "facial droop", "dysarthria", "neurological deficit"] },
+                { label: "Untreated atrial fibrillation", keywords: ["atrial fibrillation", "anticoagula"] },
+            ],
+        },
+    },
+    {
+        id: "appendicitis",
+        title: "Acute appendicitis in a young adult",
+        patient: syntheticPatient({
+            id: "appendicitis",
+            name: "Eval Patient D",
+            age: 22,
+            gender: "Male",
+            symptoms: "Periumbilical pain for 18 hours that has migrated to the right lower quadrant, with anorexia and one episode of vomiting. " +
+                "Temperature 38.1 C, rebound tenderness at McBurney's point.",
+        }),
+        scans: [
+            scanFinding({
+                id: "appendicitis",
+                scanType: "ULTRASOUND",
+                bodyPart: "Abdomen",
+                findings: "Non-compressible, dilated appendix measuring 9 mm with periappendiceal fat stranding. No free fluid.",
+                abnormalities: ["Dilated non-compressible appendix"],
+                severity: "MODERATE",
+            }),
+        ],
+        expected: {
+            urgency: "HIGH",
+            primaryDiagnosis: ["appendicitis"],
+            icd10Codes: ["K35"],
+            redFlags: [
+                { label: "Peritoneal signs", keywords: ["rebound", "peritoni", "guarding"] },
+            ],
+        },
+    },
+    {
+        id: "community-pneumonia",
+        title: "Community-acquired pneumonia, stable",
+        patient: syntheticPatient({
+            id: "community-pneumonia",
+            name: "Eval Patient E",
+            age: 48,
+            gender: "Female",
+            symptoms: "Productive cough with green sputum, fever to 38.6 C and right-sided pleuritic pain for 4 days. " +
+                "RR 20, SpO2 95% on room air, BP 124/78, alert and oriented.",
+        }),
+        scans: [
+            scanFinding({
+                id: "community-pneumonia",
+                scanType: "X-RAY",
+                bodyPart: "Chest",
+                findings: "Right lower lobe airspace consolidation with air bronchograms. No effusion.",
+                abnormalities: ["Right lower lobe consolidation"],
+                severity: "MILD",
+            }),
+        ],
+        expected: {
+            urgency: "MEDIUM",
+            primaryDiagnosis: ["pneumonia"],
+            icd10Codes: ["J18"],
+            redFlags: [],
+        },
+    },
+    {
+        id: "dka",
+        title: "Diabetic ketoacidosis in type 1 diabetes",
+        patient: syntheticPatient({
+            id: "dka",
+            name: "Eval Patient F",
+            age: 19,
+            gender: "Female",
+            symptoms: "Two days of vomiting, abdominal pain, polyuria and increasing drowsiness after missing insulin doses. " +
+                "Kussmaul breathing, fruity breath. Glucose 28 mmol/L, urine ketones 3+, HR 124.",
+            history: [condition("Type 1 diabetes mellitus", "E10.9")],
+            medications: [
+                medication("Insulin glargine", "20 units", "nightly", "Type 1 diabetes"),
+                medication("Insulin aspart", "sliding scale", "with meals", "Type 1 diabetes"),
+            ],
+        }),
+        scans: [],
+        expected: {
+            urgency: "CRITICAL",
+            primaryDiagnosis: ["ketoacidosis", "dka"],
+            icd10Codes: ["E10.1"],
+            redFlags: [
+                { label: "Altered mental status", keywords: ["drowsi", "altered mental", "confusion", "consciousness"] },
+                { label: "Kussmaul respiration / acidosis", keywords: ["kussmaul", "acidosis"] },
+            ],
+        },
+    },
+    {
+        id: "ankle-sprain",
+        title: "Lateral ankle sprain",
+        patient: syntheticPatient({
+            id: "ankle-sprain",
+            name: "Eval Patient G",
+            age: 27,
+            gender: "Male",
+            symptoms: "Rolled right ankle inward playing basketball yesterday. Swelling and tenderness over the anterior talofibular ligament, " +
+                "able to bear weight for four steps. No bony tenderness at the malleoli.",
+        }),
+        scans: [],
+        expected: {
+            urgency: "LOW",
+            primaryDiagnosis: ["sprain"],
+            icd10Codes: ["S93.4"],
+            redFlags: [],
+        },
+    },
+    {
+        id: "uncomplicated-uti",
+        title: "Uncomplicated cystitis",
+        patient: syntheticPatient({
+            id: "uncomplicated-uti",
+            name: "Eval Patient H",
+            age: 31,
+            gender: "Female",
+            symptoms: "Dysuria, urinary frequency and suprapubic discomfort for 2 days. No fever, no flank pain, not pregnant. " +
+                "Urine dipstick positive for leukocytes and nitrites.",
+        }),
+        scans: [],
+        expected: {
+            urgency: "LOW",
+            primaryDiagnosis: ["cystitis", "urinary tract infection", "uti"],
+            icd10Codes: ["N30.0"],
+            redFlags: [],
+        },
+    },
+];
@@ -0,0 +1,183 @@
+/**
+ * Evaluation Report - the JSON written for every run, and its HTML rendering
+ *
+ * Runs are compared metric by metric against a baseline run (an earlier JSON
+ * report), so a prompt or model change shows up as a delta.
+ */
+
+import type { AgentId } from "../../src/lib/ai/providers";
+import type { CaseScore, SummaryMetrics } from "./scoring";
+import type { Urgency } from "./cases";
+
+export interface CaseResult {
+    id: string;
+    title: string;
+    expected: {
+        urgency: Urgency;
+        primaryDiagnosis: string[];
+        icd10Codes: string[];
+        redFlags: string[];
+    };
+    // Absent when the pipeline threw before a report was compiled
+    actual?: {
+        overallUrgency: Urgency;
+        diagnosisUrgency: Urgency;
+        primaryDiagnosis: string;
+        icd10Codes: string[];
+        redFlags: string[];
+        analysisStatus: string;
+        agentIssues: string[];
+    };
+    score: CaseScore | null;
+    error?: string;
+    promptVersions: string[];
+    tokens: number;
+    costUsd: number;
+    latencyMs: number;
+}
+
+export interface EvalRun {
+    label: string;
+    startedAt: string;
+    finishedAt: string;
+    // "provider/model" for each agent the pipeline ran
+    models: Partial<Record<AgentId, string>>;
+    promptVersions: string[];
+    summary: SummaryMetrics;
+    cases: CaseResult[];
+    baseline?: {
+        label: string;
+        startedAt: string;
+        summary: SummaryMetrics;
+    };
+}
+
+// Metrics shown in the comparison table; `higherIsBetter` colors the delta
+const METRICS: { key: keyof SummaryMetrics; label: string; format: "percent" | "usd" | "number"; higherIsBetter?: boolean }[] = [
+    { key: "urgencyAccuracy", label: "Urgency agreement", format: "percent", higherIsBetter: true },
+    { key: "diagnosisUrgencyAccuracy", label: "Diagnosis agent urgency agreement", format: "percent", higherIsBetter: true },
+    { key: "underTriageRate", label: "Under-triage rate", format: "percent", higherIsBetter: false },
+    { key: "overTriageRate", label: "Over-triage rate", format: "percent", higherIsBetter: false },
+    { key: "primaryDiagnosisAccuracy", label: "Primary diagnosis match", format: "percent", higherIsBetter: true },
+    { key: "icd10Precision", label: "ICD-10 precision", format: "percent", higherIsBetter: true },
+    { key: "icd10Recall", label: "ICD-10 recall", format: "percent", higherIsBetter: true },
+    { key: "redFlagRecall", label: "Red flag recall", format: "percent", higherIsBetter: true },
+    { key: "failedCases", label: "Failed cases", format: "number", higherIsBetter: false },
+    { key: "totalTokens", label: "Total tokens", format: "number" },
+    { key: "totalCostUsd", label: "Total cost", format: "usd" },
+    { key: "avgLatencyMs", label: "Avg latency per case (ms)", format: "number" },
+];
+
+function formatMetric(value: number | null, format: "percent" | "usd" | "number"): string {
+    if (value === null) return "-";
+    switch (format) {
+        case "percent":
+            return `${(value * 100).toFixed(1)}%`;
+        case "usd":
+            return `$${value.toFixed(4)}`;
+        default:
+            return value.toLocaleString("en-US");
+    }
+}
+
+function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
+}
+
+/**
+ * Metric deltas against the baseline (null when either side has no value)
+ */
+export function compareToBaseline(run: EvalRun): { key: keyof SummaryMetrics; delta: number | null }[] {
+    return METRICS.map(({ key }) => {
+        const current = run.summary[key];
+        const previous = run.baseline?.summary[key] ?? null;
+        return { key, delta: current !== null && previous !== null ? current - previous : null };
+    });
+}
+
+/**
+ * Console table of the run's metrics, with deltas when there is a baseline
+ */
+export function formatSummary(run: EvalRun): string {
+    const deltas = compareToBaseline(run);
+    return METRICS.map(({ key, label, format }, i) => {
+        const delta = deltas[i].delta;
+        const change = run.baseline && delta !== null && delta !== 0
+            ? ` (${delta > 0 ? "+" : ""}${formatMetric(delta, format)})`
+            : "";
+        return `   ${label.padEnd(36)} ${formatMetric(run.summary[key], format)}${change}`;
+    }).join("\n");
+}
+
+export function renderHtmlReport(run: EvalRun): string {
+    const deltas = compareToBaseline(run);
+
+    const metricRows = METRICS.map(({ key, label, format, higherIsBetter }, i) => {
+        const delta = deltas[i].delta;
+        let deltaCell = "";
+        if (run.baseline) {
+            const improved = delta !== null && higherIsBetter !== undefined && delta !== 0
+                ? (delta > 0) === higherIsBetter
+                : null;
+            const color = improved === null ? "" : improved ? "good" : "bad";
+            deltaCell = `<td>${formatMetric(run.baseline.summary[key], format)}</td>` +
+                `<td class="${color}">${delta === null ? "-" : `${delta > 0 ? "+" : ""}${formatMetric(delta, format)}`}</td>`;
+        }
+        return `<tr><th>${label}</th><td>${formatMetric(run.summary[key], format)}</td>${deltaCell}</tr>`;
+    }).join("\n");
+
+    const caseRows = run.cases.map(c => {
+        const score = c.score;
+        const mark = (ok: boolean | undefined) => (ok ? `<span class="good">&#10003;</span>` : `<span class="bad">&#10007;</span>`);
+        if (!c.actual || !score) {
+            return `<tr><td>${escapeHtml(c.title)}</td><td colspan="5" class="bad">${escapeHtml(c.error ?? "No report")}</td></tr>`;
+        }
+        return `<tr>
+<td>${escapeHtml(c.title)}${c.actual.analysisStatus !== "ok" ? ` <span class="bad">(${escapeHtml(c.actual.analysisStatus)})</span>` : ""}</td>
+<td>${mark(score.urgencyMatch)} ${c.actual.overallUrgency} <small>expected ${c.expected.urgency}</small></td>
+<td>${mark(score.primaryDiagnosisMatch)} ${escapeHtml(c.actual.primaryDiagnosis)}</td>
+<td>${escapeHtml(c.actual.icd10Codes.join(", ") || "-")} <small>expected ${escapeHtml(c.expected.icd10Codes.join(", "))}</small></td>
+<td>${score.redFlags.missed.length > 0 ? `<span class="bad">missed ${escapeHtml(score.redFlags.missed.join(", "))}</span>` : mark(true)}</td>
+<td>${c.tokens.toLocaleString("en-US")} / $${c.costUsd.toFixed(4)} / ${c.latencyMs} ms</td>
+</tr>`;
+    }).join("\n");
+
+    const models = Object.entries(run.models).map(([agent, model]) => `${agent}: ${escapeHtml(model ?? "")}`).join(" &middot; ");
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Agent evaluation - ${escapeHtml(run.label)}</title>
+<style>
+body { font-family: system-ui, sans-serif; margin: 2rem; color: #1f2937; }
+table { border-collapse: collapse; margin-bottom: 2rem; }
+th, td { border: 1px solid #e5e7eb; padding: 0.4rem 0.7rem; text-align: left; vertical-align: top; font-size: 0.9rem; }
+small { color: #6b7280; display: block; }
+.good { color: #15803d; }
+.bad { color: #b91c1c; }
+</style>
+</head>
+<body>
+<h1>Agent evaluation: ${escapeHtml(run.label)}</h1>
+<p>${escapeHtml(run.startedAt)} &middot; ${run.cases.length} cases${run.baseline ? ` &middot; baseline ${escapeHtml(run.baseline.label)} (${escapeHtml(run.baseline.startedAt)})` : ""}</p>
+<p><small>${models}</small></p>
+<p><small>Prompts: ${escapeHtml(run.promptVersions.join(", ") || "-")}</small></p>
+<h2>Summary</h2>
+<table>
+<tr><th>Metric</th><th>${escapeHtml(run.label)}</th>${run.baseline ? `<th>${escapeHtml(run.baseline.label)}</th><th>Delta</th>` : ""}</tr>
+${metricRows}
+</table>
+<h2>Cases</h2>
+<table>
+<tr><th>Case</th><th>Urgency</th><th>Primary diagnosis</th><th>ICD-10</th><th>Red flags</th><th>Tokens / cost / latency</th></tr>
+${caseRows}
+</table>
+</body>
+</html>
+`;
+}
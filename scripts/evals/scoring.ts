@@ -0,0 +1,135 @@
+/**
+ * Evaluation Scoring - compares an orchestrated report against a case's expectations
+ */
+
+import type { OrchestratedMedicalReport } from "../../src/lib/ai/agents";
+import type { EvalCase, Urgency } from "./cases";
+
+const URGENCY_RANK: Record<Urgency, number> = { LOW: 0, MEDIUM: 1, HIGH: 2, CRITICAL: 3 };
+
+export interface CaseScore {
+    urgencyMatch: boolean;
+    // Urgency from the diagnosis agent alone, before scan severity and red flags are applied
+    diagnosisUrgencyMatch: boolean;
+    // Predicted minus expected urgency rank: negative is under-triage, positive over-triage
+    urgencyError: number;
+    primaryDiagnosisMatch: boolean;
+    icd10: {
+        predicted: string[];
+        matchedPredicted: number;
+        matchedExpected: number;
+        expected: number;
+        // null when nothing was predicted / expected
+        precision: number | null;
+        recall: number | null;
+    };
+    redFlags: {
+        found: string[];
+        missed: string[];
+        recall: number | null;
+    };
+}
+
+export interface SummaryMetrics {
+    cases: number;
+    failedCases: number;
+    urgencyAccuracy: number;
+    diagnosisUrgencyAccuracy: number;
+    underTriageRate: number;
+    overTriageRate: number;
+    primaryDiagnosisAccuracy: number;
+    // Micro-averaged over all cases
+    icd10Precision: number | null;
+    icd10Recall: number | null;
+    redFlagRecall: number | null;
+    totalTokens: number;
+    totalCostUsd: number;
+    avgLatencyMs: number;
+}
+
+function normalizeCode(code: string): string {
+    return code.toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+// An expected category ("I21") covers every code below it ("I21.09")
+function codeMatches(predicted: string, expected: string): boolean {
+    return normalizeCode(predicted).startsWith(normalizeCode(expected));
+}
+
+function ratio(numerator: number, denominator: number): number | null {
+    return denominator > 0 ? numerator / denominator : null;
+}
+
+/**
+ * Score one report against its case
+ */
+export function scoreCase(evalCase: EvalCase, report: OrchestratedMedicalReport): CaseScore {
+    const { expected } = evalCase;
+    const { diagnosis, coding } = report;
+
+    const primary = diagnosis.primaryDiagnosis.toLowerCase();
+    const predictedCodes = coding.icd10Codes.map(c => c.code);
+    const matchedPredicted = predictedCodes.filter(code => expected.icd10Codes.some(e => codeMatches(code, e))).length;
+    const matchedExpected = expected.icd10Codes.filter(e => predictedCodes.some(code => codeMatches(code, e))).length;
+
+    const redFlagText = diagnosis.redFlags.join("\n").toLowerCase();
+    const found: string[] = [];
+    const missed: string[] = [];
+    for (const flag of expected.redFlags) {
+        (flag.keywords.some(k => redFlagText.includes(k.toLowerCase())) ? found : missed).push(flag.label);
+    }
+
+    return {
+        urgencyMatch: report.overallUrgency === expected.urgency,
+        diagnosisUrgencyMatch: diagnosis.urgencyLevel === expected.urgency,
+        urgencyError: URGENCY_RANK[report.overallUrgency] - URGENCY_RANK[expected.urgency],
+        primaryDiagnosisMatch: expected.primaryDiagnosis.some(k => primary.includes(k.toLowerCase())),
+        icd10: {
+            predicted: predictedCodes,
+            matchedPredicted,
+            matchedExpected,
+            expected: expected.icd10Codes.length,
+            precision: ratio(matchedPredicted, predictedCodes.length),
+            recall: ratio(matchedExpected, expected.icd10Codes.length),
+        },
+        redFlags: {
+            found,
+            missed,
+            recall: ratio(found.length, expected.redFlags.length),
+        },
+    };
+}
+
+/**
+ * Aggregate case scores into run-level metrics
+ */
+export function summarizeScores(results: {
+    score: CaseScore | null;
+    tokens: number;
+    costUsd: number;
+    latencyMs: number;
+}[]): SummaryMetrics {
+    const scores = results.flatMap(r => (r.score ? [r.score] : []));
+    const rate = (predicate: (score: CaseScore) => boolean) =>
+        scores.length > 0 ? scores.filter(predicate).length / scores.length : 0;
+    const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+
+    const redFlagsFound = sum(scores.map(s => s.redFlags.found.length));
+    const redFlagsExpected = sum(scores.map(s => s.redFlags.found.length + s.redFlags.missed.length));
+
+    return {
+        cases: results.length,
+        failedCases: results.length - scores.length,
+        urgencyAccuracy: rate(s => s.urgencyMatch),
+        diagnosisUrgencyAccuracy: rate(s => s.diagnosisUrgencyMatch),
+        underTriageRate: rate(s => s.urgencyError < 0),
+        overTriageRate: rate(s => s.urgencyError > 0),
+        primaryDiagnosisAccuracy: rate(s => s.primaryDiagnosisMatch),
+        icd10Precision: ratio(sum(scores.map(s => s.icd10.matchedPredicted)), sum(scores.map(s => s.icd10.predicted.length))),
+        icd10Recall: ratio(sum(scores.map(s => s.icd10.matchedExpected)), sum(scores.map(s => s.icd10.expected))),
+        redFlagRecall: ratio(redFlagsFound, redFlagsExpected),
+        totalTokens: sum(results.map(r => r.tokens)),
+        totalCostUsd: sum(results.map(r => r.costUsd)),
+        avgLatencyMs: results.length > 0 ? Math.round(sum(results.map(r => r.latencyMs)) / results.length) : 0,
+    };
+}
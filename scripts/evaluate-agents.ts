@@ -0,0 +1,179 @@
+/**
+ * Agent Evaluation Harness
+ *
+ * Run with: npx tsx scripts/evaluate-agents.ts [--label <name>] [--cases <id,id>] [--baseline <report.json>] [--out <dir>]
+ *
+ * Runs the curated synthetic cases in scripts/evals/cases.ts through the
+ * orchestrator's analysis steps (history -> diagnosis -> coding -> executive
+ * summary) against whichever providers are configured (LLM_PROVIDER,
+ * LLM_MODEL_<AGENT>, ...), then scores:
+ * - urgency agreement (overall and from the diagnosis agent), under/over-triage
+ * - primary diagnosis match
+ * - ICD-10 precision and recall
+ * - red flag recall
+ *
+ * Writes <out>/<label>-<timestamp>.json and .html (default out: eval-results/).
+ * Pass an earlier JSON report as --baseline to compare a prompt or model change.
+ * Nothing is written to patient records; model usage is still accounted.
+ * The response cache is off, so every case is answered by the provider.
+ */
+
+import "dotenv/config";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import {
+    runHistoryAnalysis,
+    runDiagnosis,
+    runCoding,
+    runExecutiveSummary,
+    compileReport,
+    verifyReportMentions,
+    type OrchestratedMedicalReport,
+} from "../src/lib/ai/agents";
+import { withAgentTracing, describeAgentModel, type AgentTraceRecord } from "../src/lib/ai/providers";
+import { EVAL_CASES, type EvalCase } from "./evals/cases";
+import { scoreCase, summarizeScores } from "./evals/scoring";
+import { renderHtmlReport, formatSummary, type CaseResult, type EvalRun } from "./evals/report";
+
+// Responses cached by an earlier run would hide changes in the models being evaluated
+process.env.LLM_CACHE_TTL_HOURS = "0";
+
+function parseArgs(argv: string[]): { label: string; cases: string[] | null; baseline: string | null; out: string } {
+    const args: Record<string, string> = {};
+    for (let i = 0; i < argv.length; i++) {
+        if (argv[i].startsWith("--") && argv[i + 1] !== undefined) {
+            args[argv[i].slice(2)] = argv[++i];
+        }
+    }
+    return {
+        label: args.label ?? process.env.LLM_PROVIDER ?? "default",
+        cases: args.cases ? args.cases.split(",").map(id => id.trim()) : null,
+        baseline: args.baseline ?? null,
+        out: args.out ?? "eval-results",
+    };
+}
+
+/**
+ * Run one case through the analysis steps, collecting the traces of every model call
+ */
+async function evaluateCase(evalCase: EvalCase): Promise<CaseResult> {
+    const startedAt = Date.now();
+    const { patient, scans } = evalCase;
+
+    let report: OrchestratedMedicalReport | null = null;
+    let traces: AgentTraceRecord[] = [];
+    let error: string | undefined;
+    try {
+        ({ result: report, traces } = await withAgentTracing(async () => {
+            const clinicalHistory = await runHistoryAnalysis(patient);
+            const diagnosis = await runDiagnosis(patient, clinicalHistory, scans);
+            const coding = await runCoding(diagnosis, scans.map(s => s.scanType), true);
+            const summary = await runExecutiveSummary(patient, clinicalHistory, scans, diagnosis, coding);
+            return verifyReportMentions(compileReport({
+                encounterId: `eval-${evalCase.id}`,
+                patientId: patient.id,
+                patientContext: patient,
+                clinicalHistory,
+                scanAnalyses: scans,
+                diagnosis,
+                coding,
+                summary,
+                scansAnalyzed: scans.length > 0,
+                codesGenerated: true,
+                startedAt,
+            }), patient);
+        }));
+    } catch (e) {
+        error = e instanceof Error ? e.message : String(e);
+    }
+
+    const base = {
+        id: evalCase.id,
+        title: evalCase.title,
+        expected: {
+            ...evalCase.expected,
+            redFlags: evalCase.expected.redFlags.map(f => f.label),
+        },
+        promptVersions: [...new Set(traces.map(t => t.promptVersion))],
+        tokens: traces.reduce((sum, t) => sum + t.inputTokens + t.outputTokens, 0),
+        costUsd: traces.reduce((sum, t) => sum + t.costUsd, 0),
+        latencyMs: Date.now() - startedAt,
+    };
+
+    if (!report) {
+        return { ...base, score: null, error };
+    }
+
+    return {
+        ...base,
+        actual: {
+            overallUrgency: report.overallUrgency,
+            diagnosisUrgency: report.diagnosis.urgencyLevel,
+            primaryDiagnosis: report.diagnosis.primaryDiagnosis,
+            icd10Codes: report.coding.icd10Codes.map(c => c.code),
+            redFlags: report.diagnosis.redFlags,
+            analysisStatus: report.analysisStatus,
+            agentIssues: report.agentIssues,
+        },
+        score: scoreCase(evalCase, report),
+    };
+}
+
+async function main() {
+    const options = parseArgs(process.argv.slice(2));
+    const cases = options.cases ? EVAL_CASES.filter(c => options.cases!.includes(c.id)) : EVAL_CASES;
+    if (cases.length === 0) {
+        throw new Error(`No evaluation cases match ${options.cases?.join(", ")}`);
+    }
+
+    console.log(`🧪 Evaluating ${cases.length} case(s) as "${options.label}"...\n`);
+    const startedAt = new Date().toISOString();
+
+    // Cases run one at a time to stay within provider rate limits
+    const results: CaseResult[] = [];
+    for (const evalCase of cases) {
+        const result = await evaluateCase(evalCase);
+        results.push(result);
+        const status = result.score
+            ? `urgency ${result.actual?.overallUrgency} (expected ${evalCase.expected.urgency}), ` +
+              `diagnosis ${result.score.primaryDiagnosisMatch ? "✓" : "✗"}`
+            : `❌ ${result.error}`;
+        console.log(`   ${evalCase.id}: ${status}`);
+    }
+
+    const run: EvalRun = {
+        label: options.label,
+        startedAt,
+        finishedAt: new Date().toISOString(),
+        models: {
+            history: describeAgentModel("history"),
+            diagnosis: describeAgentModel("diagnosis"),
+            coding: describeAgentModel("coding"),
+            orchestrator: describeAgentModel("orchestrator"),
+        },
+        promptVersions: [...new Set(results.flatMap(r => r.promptVersions))].sort(),
+        summary: summarizeScores(results),
+        cases: results,
+    };
+
+    if (options.baseline) {
+        const baseline = JSON.parse(await readFile(options.baseline, "utf-8")) as EvalRun;
+        run.baseline = { label: baseline.label, startedAt: baseline.startedAt, summary: baseline.summary };
+    }
+
+    await mkdir(options.out, { recursive: true });
+    const fileName = `${options.label.replace(/[^\w.-]+/g, "-")}-${startedAt.replace(/[:.]/g, "-")}`;
+    const jsonPath = path.join(options.out, `${fileName}.json`);
+    const htmlPath = path.join(options.out, `${fileName}.html`);
+    await writeFile(jsonPath, JSON.stringify(run, null, 2));
+    await writeFile(htmlPath, renderHtmlReport(run));
+
+    console.log(`\n📊 Results${run.baseline ? ` (vs ${run.baseline.label})` : ""}:`);
+    console.log(formatSummary(run));
+    console.log(`\n📄 ${jsonPath}\n📄 ${htmlPath}`);
+}
+
+main().catch((e) => {
+    console.error(e);
+    process.exit(1);
+});
@@ -0,0 +1,83 @@
+/**
+ * Code Table Import Script
+ *
+ * Run with: npx tsx scripts/import-code-tables.ts --icd10 <icd10cm_order_YYYY.txt> [--cpt <cpt-file.txt>]
+ *
+ * Loads the ICD-10-CM and CPT reference tables that suggested codes are
+ * validated against (see src/lib/medical-codes.ts):
+ * - ICD-10-CM: the CMS order file from the annual release
+ *   (https://www.cms.gov/medicare/coding-billing/icd-10-codes)
+ * - CPT: the AMA data file (licensed separately), one code and description per line
+ *
+ * Each given table is replaced as a whole, so re-run it with every new release.
+ */
+
+import "dotenv/config";
+import { readFile } from "fs/promises";
+import { prisma } from "../src/lib/db";
+import { parseIcd10CmOrderFile, parseCptFile } from "../src/lib/medical-codes";
+
+const BATCH_SIZE = 5000;
+// Replacing a full release takes a while on a remote database
+const TRANSACTION_TIMEOUT_MS = 10 * 60 * 1000;
+
+function parseArgs(argv: string[]): { icd10: string | null; cpt: string | null } {
+    const args: Record<string, string> = {};
+    for (let i = 0; i < argv.length; i++) {
+        if (argv[i].startsWith("--") && argv[i + 1] !== undefined) {
+            args[argv[i].slice(2)] = argv[++i];
+        }
+    }
+    return { icd10: args.icd10 ?? null, cpt: args.cpt ?? null };
+}
+
+async function importIcd10(file: string) {
+    const rows = parseIcd10CmOrderFile(await readFile(file, "utf-8"));
+    const billable = rows.filter(row => row.billable).length;
+    console.log(`📖 ${rows.length} ICD-10-CM codes read (${billable} billable, ${rows.length - billable} headers)`);
+
+    await prisma.$transaction(async (tx) => {
+        await tx.icd10CmEntry.deleteMany();
+        for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+            await tx.icd10CmEntry.createMany({ data: rows.slice(i, i + BATCH_SIZE) });
+        }
+    }, { timeout: TRANSACTION_TIMEOUT_MS });
+
+    console.log("✅ ICD-10-CM table replaced");
+}
+
+async function importCpt(file: string) {
+    const rows = parseCptFile(await readFile(file, "utf-8"));
+    if (rows.length === 0) {
+        throw new Error(`No CPT codes found in ${file}`);
+    }
+    console.log(`📖 ${rows.length} CPT codes read`);
+
+    await prisma.$transaction(async (tx) => {
+        await tx.cptEntry.deleteMany();
+        for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+            // The AMA files can list a code once per description variant
+            await tx.cptEntry.createMany({ data: rows.slice(i, i + BATCH_SIZE), skipDuplicates: true });
+        }
+    }, { timeout: TRANSACTION_TIMEOUT_MS });
+
+    console.log("✅ CPT table replaced");
+}
+
+async function main() {
+    const { icd10, cpt } = parseArgs(process.argv.slice(2));
+    if (!icd10 && !cpt) {
+        console.error("Usage: npx tsx scripts/import-code-tables.ts --icd10 <icd10cm_order_YYYY.txt> [--cpt <cpt-file.txt>]");
+        process.exit(1);
+    }
+
+    if (icd10) await importIcd10(icd10);
+    if (cpt) await importCpt(cpt);
+
+    await prisma.$disconnect();
+}
+
+main().catch((e) => {
+    console.error(e);
+    process.exit(1);
+});
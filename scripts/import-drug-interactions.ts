@@ -0,0 +1,97 @@
+/**
+ * Drug Interaction Dataset Import Script
+ *
+ * Run with: npx tsx scripts/import-drug-interactions.ts [--file <dataset.json>]
+ *
+ * Loads the dataset the interaction checker uses (see src/lib/drug-interactions.ts).
+ * Defaults to the starter dataset in scripts/data/drug-interactions.json; a
+ * licensed interaction database can be exported to the same format:
+ * - concepts: drugs with their RxNorm code, brand names/synonyms and classes
+ * - classes: drug classes with their synonyms and cross-reactive classes
+ *   (used for allergy checks)
+ * - interactions: pairs of drugs or classes with a severity
+ *   (contraindicated | major | moderate | minor), description and management
+ *
+ * The tables are replaced as a whole.
+ */
+
+import "dotenv/config";
+import { readFile } from "fs/promises";
+import { prisma } from "../src/lib/db";
+import type { InteractionDataset } from "../src/lib/drug-interactions";
+
+const DEFAULT_FILE = "scripts/data/drug-interactions.json";
+const SEVERITIES = ["contraindicated", "major", "moderate", "minor"];
+
+function parseArgs(argv: string[]): { file: string } {
+    const args: Record<string, string> = {};
+    for (let i = 0; i < argv.length; i++) {
+        if (argv[i].startsWith("--") && argv[i + 1] !== undefined) {
+            args[argv[i].slice(2)] = argv[++i];
+        }
+    }
+    return { file: args.file ?? DEFAULT_FILE };
+}
+
+/**
+ * Lower-case every name so matching is case-insensitive, and check that
+ * interactions only reference known drugs and classes
+ */
+function normalizeDataset(dataset: InteractionDataset): InteractionDataset {
+    const lower = (values: string[] = []) => values.map(v => v.trim().toLowerCase()).filter(Boolean);
+
+    const concepts = dataset.concepts.map(c => ({
+        name: c.name.trim().toLowerCase(),
+        rxcui: c.rxcui?.trim() || null,
+        synonyms: lower(c.synonyms),
+        classes: lower(c.classes),
+    }));
+    const classNames = new Set([...concepts.flatMap(c => c.classes), ...lower(dataset.classes.map(c => c.name))]);
+    const classes = [...classNames].map(name => {
+        const entry = dataset.classes.find(c => c.name.trim().toLowerCase() === name);
+        return { name, synonyms: lower(entry?.synonyms), crossReactive: lower(entry?.crossReactive) };
+    });
+
+    const agents = new Set([...concepts.map(c => c.name), ...classNames]);
+    const interactions = dataset.interactions.map(rule => {
+        const [agentA, agentB] = lower([rule.agentA, rule.agentB]);
+        for (const agent of [agentA, agentB]) {
+            if (!agents.has(agent)) {
+                throw new Error(`Interaction references unknown drug or class "${agent}"`);
+            }
+        }
+        if (!SEVERITIES.includes(rule.severity)) {
+            throw new Error(`Interaction ${agentA} + ${agentB} has unknown severity "${rule.severity}"`);
+        }
+        return { agentA, agentB, severity: rule.severity, description: rule.description, management: rule.management ?? null };
+    });
+
+    return { concepts, classes, interactions };
+}
+
+async function main() {
+    const { file } = parseArgs(process.argv.slice(2));
+    const dataset = normalizeDataset(JSON.parse(await readFile(file, "utf-8")) as InteractionDataset);
+    console.log(
+        `📖 ${dataset.concepts.length} drugs, ${dataset.classes.length} classes and ` +
+        `${dataset.interactions.length} interactions read from ${file}`
+    );
+
+    await prisma.$transaction(async (tx) => {
+        await tx.drugInteraction.deleteMany();
+        await tx.drugConcept.deleteMany();
+        await tx.drugClass.deleteMany();
+        await tx.drugConcept.createMany({ data: dataset.concepts });
+        await tx.drugClass.createMany({ data: dataset.classes });
+        // A pair listed twice keeps its first entry
+        await tx.drugInteraction.createMany({ data: dataset.interactions, skipDuplicates: true });
+    });
+
+    console.log("✅ Drug interaction dataset replaced");
+    await prisma.$disconnect();
+}
+
+main().catch((e) => {
+    console.error(e);
+    process.exit(1);
+});
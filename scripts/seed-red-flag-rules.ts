@@ -0,0 +1,24 @@
+/**
+ * Red-Flag Rule Seed Script
+ *
+ * Run with: npx tsx scripts/seed-red-flag-rules.ts
+ *
+ * Adds the default red-flag rules (DEFAULT_RED_FLAG_RULES in src/lib/red-flags.ts)
+ * that aren't stored yet. Rules are matched by name, so rules an admin has
+ * edited are left alone; a deleted default rule is added back.
+ */
+
+import "dotenv/config";
+import { prisma } from "../src/lib/db";
+import { DEFAULT_RED_FLAG_RULES, seedDefaultRedFlagRules } from "../src/lib/red-flags";
+
+async function main() {
+    const created = await seedDefaultRedFlagRules();
+    console.log(`✅ ${created} of ${DEFAULT_RED_FLAG_RULES.length} default red-flag rules added`);
+    await prisma.$disconnect();
+}
+
+main().catch((e) => {
+    console.error(e);
+    process.exit(1);
+});
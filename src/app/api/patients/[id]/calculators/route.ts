@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/db";
+import { invalidatePatientResponses } from "@/lib/ai/providers";
+import { gatherPatientContext } from "@/lib/ai/agents/orchestrator";
+import {
+    isCalculatorId,
+    listCalculators,
+    runCalculator,
+    validateCalculatorInputs,
+} from "@/lib/clinical-calculators";
+import type { CalculatorId, CalculatorInputs } from "@/lib/ai/agents/types";
+
+// GET /api/patients/[id]/calculators - Run clinical calculators against the patient record
+// Query: encounterId (defaults to the latest encounter), calculator (comma-separated ids;
+// defaults to the calculators the presentation calls for)
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        const { id: patientId } = await params;
+        const searchParams = request.nextUrl.searchParams;
+        const encounterId = searchParams.get("encounterId") || undefined;
+        const requested = searchParams.get("calculator")?.split(",").map(id => id.trim()).filter(Boolean) ?? [];
+
+        const unknown = requested.filter(id => !isCalculatorId(id));
+        if (unknown.length > 0) {
+            return NextResponse.json(
+                { error: `Unknown calculator: ${unknown.join(", ")}`, calculators: listCalculators().map(c => c.id) },
+                { status: 400 }
+            );
+        }
+
+        const patient = await prisma.patient.findUnique({
+            where: { id: patientId },
+            select: { id: true },
+        });
+        if (!patient) {
+            return NextResponse.json({ error: "Patient not found" }, { status: 404 });
+        }
+
+        const encounter = await prisma.encounter.findFirst({
+            where: { patientId, ...(encounterId ? { id: encounterId } : {}) },
+            orderBy: { createdAt: "desc" },
+            select: { id: true, calculatorInputs: true },
+        });
+        if (encounterId && !encounter) {
+            return NextResponse.json({ error: "Encounter not found" }, { status: 404 });
+        }
+
+        const context = await gatherPatientContext(patientId, encounter?.id);
+        const clinicianInputs = (encounter?.calculatorInputs ?? {}) as CalculatorInputs;
+        const results = requested.length > 0
+            ? (requested as CalculatorId[]).map(id => runCalculator(id, context, clinicianInputs[id]))
+            : context.calculatorResults ?? [];
+
+        return NextResponse.json({ encounterId: encounter?.id ?? null, results });
+    } catch (error) {
+        console.error("Error running clinical calculators:", error);
+        return NextResponse.json(
+            { error: "Failed to run clinical calculators" },
+            { status: 500 }
+        );
+    }
+}
+
+// POST /api/patients/[id]/calculators - Save clinician-entered calculator inputs and rescore
+// Body: { encounterId, calculatorId, inputs: { [inputId]: boolean | number } }
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        const { id: patientId } = await params;
+        const body = await request.json();
+
+        if (!body.encounterId || typeof body.calculatorId !== "string") {
+            return NextResponse.json(
+                { error: "encounterId and calculatorId are required" },
+                { status: 400 }
+            );
+        }
+        if (!isCalculatorId(body.calculatorId)) {
+            return NextResponse.json({ error: `Unknown calculator: ${body.calculatorId}` }, { status: 400 });
+        }
+
+        const calculatorId: CalculatorId = body.calculatorId;
+        const { values, errors } = validateCalculatorInputs(calculatorId, body.inputs);
+        if (errors.length > 0) {
+            return NextResponse.json(
+                { error: `Invalid calculator inputs: ${errors.join("; ")}` },
+                { status: 400 }
+            );
+        }
+
+        const encounter = await prisma.encounter.findFirst({
+            where: { id: body.encounterId, patientId },
+            select: { id: true, calculatorInputs: true },
+        });
+        if (!encounter) {
+            return NextResponse.json({ error: "Encounter not found" }, { status: 404 });
+        }
+
+        // Merge with earlier entries so inputs can be supplied a few at a time
+        const stored = (encounter.calculatorInputs ?? {}) as CalculatorInputs;
+        const calculatorInputs: CalculatorInputs = {
+            ...stored,
+            [calculatorId]: { ...stored[calculatorId], ...values },
+        };
+        await prisma.encounter.update({
+            where: { id: encounter.id },
+            data: { calculatorInputs },
+        });
+
+        const context = await gatherPatientContext(patientId, encounter.id);
+        const result = runCalculator(calculatorId, context, calculatorInputs[calculatorId]);
+
+        await invalidatePatientResponses(patientId);
+        return NextResponse.json({ result });
+    } catch (error) {
+        console.error("Error saving calculator inputs:", error);
+        return NextResponse.json(
+            { error: "Failed to save calculator inputs" },
+            { status: 500 }
+        );
+    }
+}
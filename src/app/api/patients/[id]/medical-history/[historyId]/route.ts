@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { prisma } from "@/lib/db";
+import { invalidatePatientResponses } from "@/lib/ai/providers";
 
 // DELETE /api/patients/[id]/medical-history/[historyId] - Delete a medical history entry
 export async function DELETE(
@@ -35,6 +36,7 @@ export async function DELETE(
             where: { id: historyId },
         });
 
+        await invalidatePatientResponses(patientId);
         return NextResponse.json({ success: true });
     } catch (error) {
         console.error("Error deleting medical history:", error);
@@ -91,6 +93,7 @@ export async function PATCH(
             },
         });
 
+        await invalidatePatientResponses(patientId);
         return NextResponse.json(updatedEntry);
     } catch (error) {
         console.error("Error updating medical history:", error);
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { prisma } from "@/lib/db";
+import { invalidatePatientResponses } from "@/lib/ai/providers";
 
 // GET /api/patients/[id]/medical-history - Get all medical history for a patient
 export async function GET(
@@ -78,6 +79,7 @@ export async function POST(
             },
         });
 
+        await invalidatePatientResponses(patientId);
         return NextResponse.json(historyEntry, { status: 201 });
     } catch (error) {
         console.error("Error creating medical history:", error);
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { prisma } from "@/lib/db";
+import { invalidatePatientResponses } from "@/lib/ai/providers";
 
 // DELETE /api/patients/[id]/medications/[medicationId] - Delete a medication
 export async function DELETE(
@@ -35,6 +36,7 @@ export async function DELETE(
             where: { id: medicationId },
         });
 
+        await invalidatePatientResponses(patientId);
         return NextResponse.json({ success: true });
     } catch (error) {
         console.error("Error deleting medication:", error);
@@ -96,6 +98,7 @@ export async function PATCH(
             },
         });
 
+        await invalidatePatientResponses(patientId);
         return NextResponse.json(updatedMedication);
     } catch (error) {
         console.error("Error updating medication:", error);
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { checkNewMedication } from "@/lib/drug-interactions";
+
+// GET /api/patients/[id]/medications/interactions - Check a medication before adding it
+// Query: name (required), genericName, rxNormCode
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        const { id: patientId } = await params;
+        const searchParams = request.nextUrl.searchParams;
+        const name = searchParams.get("name")?.trim();
+        if (!name) {
+            return NextResponse.json({ error: "Medication name is required" }, { status: 400 });
+        }
+
+        const result = await checkNewMedication(patientId, {
+            name,
+            genericName: searchParams.get("genericName")?.trim() || null,
+            rxNormCode: searchParams.get("rxNormCode")?.trim() || null,
+        });
+
+        return NextResponse.json(result);
+    } catch (error) {
+        console.error("Error checking medication interactions:", error);
+        return NextResponse.json(
+            { error: "Failed to check medication interactions" },
+            { status: 500 }
+        );
+    }
+}
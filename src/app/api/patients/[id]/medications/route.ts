@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { prisma } from "@/lib/db";
+import { invalidatePatientResponses } from "@/lib/ai/providers";
 
 // GET /api/patients/[id]/medications - Get all medications for a patient
 export async function GET(
@@ -86,6 +87,7 @@ export async function POST(
             },
         });
 
+        await invalidatePatientResponses(patientId);
         return NextResponse.json(medication, { status: 201 });
     } catch (error) {
         console.error("Error creating medication:", error);
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/db";
+import { invalidatePatientResponses } from "@/lib/ai/providers";
+
+// POST /api/patients/[id]/reports/[reportId]/approve - Release a quarantined report into agent context
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string; reportId: string }> }
+) {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        const { id: patientId, reportId } = await params;
+
+        // Verify the report belongs to this patient
+        const report = await prisma.externalReport.findFirst({
+            where: {
+                id: reportId,
+                patientId,
+            },
+        });
+
+        if (!report) {
+            return NextResponse.json(
+                { error: "Report not found" },
+                { status: 404 }
+            );
+        }
+
+        if (!report.quarantined) {
+            return NextResponse.json(
+                { error: "Report is not quarantined" },
+                { status: 409 }
+            );
+        }
+
+        // The reason is kept with the reviewer, as a record of what was approved
+        const approved = await prisma.externalReport.update({
+            where: { id: reportId },
+            data: {
+                quarantined: false,
+                quarantineReviewedBy: userId,
+                quarantineReviewedAt: new Date(),
+            },
+        });
+
+        console.log(`[Reports] Report ${reportId} released from quarantine by ${userId}`);
+        await invalidatePatientResponses(patientId);
+        return NextResponse.json(approved);
+    } catch (error) {
+        console.error("Error approving report:", error);
+        return NextResponse.json(
+            { error: "Failed to approve report" },
+            { status: 500 }
+        );
+    }
+}
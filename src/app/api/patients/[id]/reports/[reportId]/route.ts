@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { prisma } from "@/lib/db";
+import { invalidatePatientResponses } from "@/lib/ai/providers";
+import { detectReportInstructions, quarantineReason } from "@/lib/untrusted-content";
 
 // DELETE /api/patients/[id]/reports/[reportId] - Delete an external report
 export async function DELETE(
@@ -35,6 +37,7 @@ export async function DELETE(
             where: { id: reportId },
         });
 
+        await invalidatePatientResponses(patientId);
         return NextResponse.json({ success: true });
     } catch (error) {
         console.error("Error deleting report:", error);
@@ -74,27 +77,45 @@ export async function PATCH(
             );
         }
 
+        const content = {
+            title: body.title ?? existing.title,
+            description: body.description ?? existing.description,
+            providerName: body.providerName ?? existing.providerName,
+            extractedData: body.extractedData ?? existing.extractedData,
+            findings: body.findings ?? existing.findings,
+            conclusion: body.conclusion ?? existing.conclusion,
+        };
+
+        // Edited text is checked again; new instruction-like text quarantines the
+        // report (again), and removing it doesn't lift a quarantine without approval
+        const reason = quarantineReason(detectReportInstructions(content));
+        if (reason) {
+            console.warn(`[Reports] Quarantining report ${reportId} for patient ${patientId}: ${reason}`);
+        }
+
         // Update the report
         const updatedReport = await prisma.externalReport.update({
             where: { id: reportId },
             data: {
+                ...content,
                 type: body.type ?? existing.type,
-                title: body.title ?? existing.title,
-                description: body.description ?? existing.description,
                 reportDate: body.reportDate ? new Date(body.reportDate) : existing.reportDate,
-                providerName: body.providerName ?? existing.providerName,
                 providerAddress: body.providerAddress ?? existing.providerAddress,
                 providerPhone: body.providerPhone ?? existing.providerPhone,
                 fileUrl: body.fileUrl ?? existing.fileUrl,
                 fileType: body.fileType ?? existing.fileType,
-                extractedData: body.extractedData ?? existing.extractedData,
-                findings: body.findings ?? existing.findings,
-                conclusion: body.conclusion ?? existing.conclusion,
                 status: body.status ?? existing.status,
                 loincCode: body.loincCode ?? existing.loincCode,
+                ...(reason && {
+                    quarantined: true,
+                    quarantineReason: reason,
+                    quarantineReviewedBy: null,
+                    quarantineReviewedAt: null,
+                }),
             },
         });
 
+        await invalidatePatientResponses(patientId);
         return NextResponse.json(updatedReport);
     } catch (error) {
         console.error("Error updating report:", error);
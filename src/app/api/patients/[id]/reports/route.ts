@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { prisma } from "@/lib/db";
+import { invalidatePatientResponses } from "@/lib/ai/providers";
+import { detectReportInstructions, quarantineReason } from "@/lib/untrusted-content";
 import { GoogleGenerativeAI } from "@google/generative-ai";
 
 const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || "");
@@ -64,6 +66,12 @@ export async function POST(
             );
         }
 
+        // Reports with instruction-like text are quarantined until a clinician approves them
+        const reason = quarantineReason(detectReportInstructions(body));
+        if (reason) {
+            console.warn(`[Reports] Quarantining report "${body.title}" for patient ${patientId}: ${reason}`);
+        }
+
         // Create external report entry (FHIR DiagnosticReport compliant)
         const report = await prisma.externalReport.create({
             data: {
@@ -82,9 +90,12 @@ export async function POST(
                 conclusion: body.conclusion || null,
                 status: body.status || "final",
                 loincCode: body.loincCode || null,
+                quarantined: reason !== null,
+                quarantineReason: reason,
             },
         });
 
+        await invalidatePatientResponses(patientId);
         return NextResponse.json(report, { status: 201 });
     } catch (error) {
         console.error("Error creating report:", error);
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { prisma } from "@/lib/db";
+import { invalidatePatientResponses } from "@/lib/ai/providers";
 
 export async function GET(
     request: NextRequest,
@@ -74,6 +75,7 @@ export async function PATCH(
             },
         });
 
+        await invalidatePatientResponses(id);
         return NextResponse.json(updatedPatient);
     } catch (error) {
         console.error("Error updating patient:", error);
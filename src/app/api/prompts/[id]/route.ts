@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/db";
+import { isAdmin } from "@/lib/auth";
+import { invalidatePromptCache } from "@/lib/ai/prompts";
+
+// PATCH /api/prompts/[id] - Change the rollout share of a prompt version
+// (templates are immutable; new wording is a new version)
+export async function PATCH(
+    req: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+        if (!(await isAdmin())) {
+            return NextResponse.json({ error: "Admin access required" }, { status: 403 });
+        }
+
+        const { id } = await params;
+        const { rolloutPercent, notes } = await req.json();
+
+        if (!Number.isInteger(rolloutPercent) || rolloutPercent < 0 || rolloutPercent > 100) {
+            return NextResponse.json(
+                { error: "rolloutPercent must be an integer between 0 and 100" },
+                { status: 400 }
+            );
+        }
+
+        const promptVersion = await prisma.promptVersion.findUnique({ where: { id } });
+        if (!promptVersion) {
+            return NextResponse.json(
+                { error: "Prompt version not found" },
+                { status: 404 }
+            );
+        }
+
+        const others = await prisma.promptVersion.findMany({
+            where: { name: promptVersion.name, id: { not: id } },
+        });
+        const rolledOut = others.reduce((sum, v) => sum + v.rolloutPercent, 0);
+        if (rolledOut + rolloutPercent > 100) {
+            return NextResponse.json(
+                { error: `Rollout exceeds 100% (${rolledOut}% already assigned to other versions)` },
+                { status: 400 }
+            );
+        }
+
+        const updated = await prisma.promptVersion.update({
+            where: { id },
+            data: {
+                rolloutPercent,
+                ...(notes !== undefined && { notes }),
+            },
+        });
+
+        invalidatePromptCache(promptVersion.name);
+
+        return NextResponse.json(updated);
+    } catch (error) {
+        console.error("Error updating prompt version:", error);
+        return NextResponse.json(
+            { error: "Failed to update prompt version" },
+            { status: 500 }
+        );
+    }
+}
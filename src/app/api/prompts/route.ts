@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/db";
+import { isAdmin } from "@/lib/auth";
+import {
+    getPromptDefinition,
+    invalidatePromptCache,
+    listPromptDefinitions,
+    validateTemplate,
+} from "@/lib/ai/prompts";
+
+// GET /api/prompts - List registered prompts with their stored versions and rollout
+export async function GET() {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        const storedVersions = await prisma.promptVersion.findMany({
+            orderBy: { createdAt: "desc" },
+        });
+
+        const prompts = listPromptDefinitions().map(definition => {
+            const versions = storedVersions.filter(v => v.name === definition.name);
+            const rolledOut = versions.reduce((sum, v) => sum + v.rolloutPercent, 0);
+            return {
+                name: definition.name,
+                description: definition.description,
+                variables: definition.variables,
+                defaultVersion: definition.version,
+                defaultTemplate: definition.template,
+                // Share of calls still using the version in code
+                defaultRolloutPercent: Math.max(0, 100 - rolledOut),
+                versions,
+            };
+        });
+
+        return NextResponse.json(prompts);
+    } catch (error) {
+        console.error("Error fetching prompts:", error);
+        return NextResponse.json(
+            { error: "Failed to fetch prompts" },
+            { status: 500 }
+        );
+    }
+}
+
+// POST /api/prompts - Create a new version of a registered prompt
+export async function POST(req: NextRequest) {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+        if (!(await isAdmin())) {
+            return NextResponse.json({ error: "Admin access required" }, { status: 403 });
+        }
+
+        const body = await req.json();
+        const { name, version, template, notes } = body;
+        const rolloutPercent = body.rolloutPercent ?? 0;
+
+        if (!name || !version || !template) {
+            return NextResponse.json(
+                { error: "Name, version, and template are required" },
+                { status: 400 }
+            );
+        }
+
+        const definition = getPromptDefinition(name);
+        if (!definition) {
+            return NextResponse.json(
+                { error: `Unknown prompt "${name}"` },
+                { status: 404 }
+            );
+        }
+
+        if (version === definition.version) {
+            return NextResponse.json(
+                { error: `Version "${version}" is the default version in code` },
+                { status: 409 }
+            );
+        }
+
+        const problems = validateTemplate(definition, template);
+        if (problems.length > 0) {
+            return NextResponse.json(
+                { error: `Invalid template: ${problems.join("; ")}`, variables: definition.variables },
+                { status: 400 }
+            );
+        }
+
+        if (!Number.isInteger(rolloutPercent) || rolloutPercent < 0 || rolloutPercent > 100) {
+            return NextResponse.json(
+                { error: "rolloutPercent must be an integer between 0 and 100" },
+                { status: 400 }
+            );
+        }
+
+        const existing = await prisma.promptVersion.findMany({ where: { name } });
+        if (existing.some(v => v.version === version)) {
+            return NextResponse.json(
+                { error: `Version "${version}" of "${name}" already exists` },
+                { status: 409 }
+            );
+        }
+
+        const rolledOut = existing.reduce((sum, v) => sum + v.rolloutPercent, 0);
+        if (rolledOut + rolloutPercent > 100) {
+            return NextResponse.json(
+                { error: `Rollout exceeds 100% (${rolledOut}% already assigned to other versions)` },
+                { status: 400 }
+            );
+        }
+
+        const promptVersion = await prisma.promptVersion.create({
+            data: {
+                name,
+                version,
+                template,
+                rolloutPercent,
+                notes: notes || null,
+                createdBy: userId,
+            },
+        });
+
+        invalidatePromptCache(name);
+
+        return NextResponse.json(promptVersion, { status: 201 });
+    } catch (error) {
+        console.error("Error creating prompt version:", error);
+        return NextResponse.json(
+            { error: "Failed to create prompt version" },
+            { status: 500 }
+        );
+    }
+}
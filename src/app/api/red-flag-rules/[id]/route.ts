@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/db";
+import { isAdmin } from "@/lib/auth";
+import { invalidateRedFlagRules, validateRedFlagRule } from "@/lib/red-flags";
+
+// PATCH /api/red-flag-rules/[id] - Update a red-flag rule (admins only)
+// Body: any of name, description, message, minimumUrgency, conditions, enabled
+export async function PATCH(
+    req: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+        if (!(await isAdmin())) {
+            return NextResponse.json({ error: "Admin access required" }, { status: 403 });
+        }
+
+        const { id } = await params;
+        const existing = await prisma.redFlagRule.findUnique({ where: { id } });
+        if (!existing) {
+            return NextResponse.json({ error: "Rule not found" }, { status: 404 });
+        }
+
+        // Validate the rule as it will be saved
+        const body = await req.json();
+        const { rule, errors } = validateRedFlagRule({ ...existing, ...body });
+        if (!rule) {
+            return NextResponse.json(
+                { error: `Invalid rule: ${errors.join("; ")}` },
+                { status: 400 }
+            );
+        }
+
+        if (rule.name !== existing.name) {
+            const clash = await prisma.redFlagRule.findUnique({ where: { name: rule.name } });
+            if (clash) {
+                return NextResponse.json(
+                    { error: `A rule named "${rule.name}" already exists` },
+                    { status: 409 }
+                );
+            }
+        }
+
+        const updated = await prisma.redFlagRule.update({
+            where: { id },
+            data: { ...rule, updatedBy: userId },
+        });
+
+        invalidateRedFlagRules();
+
+        return NextResponse.json(updated);
+    } catch (error) {
+        console.error("Error updating red-flag rule:", error);
+        return NextResponse.json(
+            { error: "Failed to update red-flag rule" },
+            { status: 500 }
+        );
+    }
+}
+
+// DELETE /api/red-flag-rules/[id] - Delete a red-flag rule (admins only)
+export async function DELETE(
+    req: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+        if (!(await isAdmin())) {
+            return NextResponse.json({ error: "Admin access required" }, { status: 403 });
+        }
+
+        const { id } = await params;
+        const existing = await prisma.redFlagRule.findUnique({ where: { id } });
+        if (!existing) {
+            return NextResponse.json({ error: "Rule not found" }, { status: 404 });
+        }
+
+        await prisma.redFlagRule.delete({ where: { id } });
+
+        invalidateRedFlagRules();
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error("Error deleting red-flag rule:", error);
+        return NextResponse.json(
+            { error: "Failed to delete red-flag rule" },
+            { status: 500 }
+        );
+    }
+}
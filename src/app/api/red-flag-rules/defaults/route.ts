@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { isAdmin } from "@/lib/auth";
+import { seedDefaultRedFlagRules } from "@/lib/red-flags";
+
+// POST /api/red-flag-rules/defaults - Add any default rules that are missing (admins only)
+export async function POST() {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+        if (!(await isAdmin())) {
+            return NextResponse.json({ error: "Admin access required" }, { status: 403 });
+        }
+
+        const created = await seedDefaultRedFlagRules(userId);
+
+        return NextResponse.json({ created });
+    } catch (error) {
+        console.error("Error restoring default red-flag rules:", error);
+        return NextResponse.json(
+            { error: "Failed to restore default red-flag rules" },
+            { status: 500 }
+        );
+    }
+}
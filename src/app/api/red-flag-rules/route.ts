@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/db";
+import { isAdmin } from "@/lib/auth";
+import { invalidateRedFlagRules, validateRedFlagRule } from "@/lib/red-flags";
+
+// GET /api/red-flag-rules - List red-flag rules, including disabled ones
+export async function GET() {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        const rules = await prisma.redFlagRule.findMany({
+            orderBy: { createdAt: "asc" },
+        });
+
+        return NextResponse.json({ rules, canEdit: await isAdmin() });
+    } catch (error) {
+        console.error("Error fetching red-flag rules:", error);
+        return NextResponse.json(
+            { error: "Failed to fetch red-flag rules" },
+            { status: 500 }
+        );
+    }
+}
+
+// POST /api/red-flag-rules - Create a red-flag rule (admins only)
+export async function POST(req: NextRequest) {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+        if (!(await isAdmin())) {
+            return NextResponse.json({ error: "Admin access required" }, { status: 403 });
+        }
+
+        const { rule, errors } = validateRedFlagRule(await req.json());
+        if (!rule) {
+            return NextResponse.json(
+                { error: `Invalid rule: ${errors.join("; ")}` },
+                { status: 400 }
+            );
+        }
+
+        const existing = await prisma.redFlagRule.findUnique({ where: { name: rule.name } });
+        if (existing) {
+            return NextResponse.json(
+                { error: `A rule named "${rule.name}" already exists` },
+                { status: 409 }
+            );
+        }
+
+        const created = await prisma.redFlagRule.create({
+            data: { ...rule, createdBy: userId, updatedBy: userId },
+        });
+
+        invalidateRedFlagRules();
+
+        return NextResponse.json(created, { status: 201 });
+    } catch (error) {
+        console.error("Error creating red-flag rule:", error);
+        return NextResponse.json(
+            { error: "Failed to create red-flag rule" },
+            { status: 500 }
+        );
+    }
+}
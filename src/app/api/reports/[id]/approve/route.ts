@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
 import { auth } from "@clerk/nextjs/server";
+import { transitionTriageReport } from "@/lib/triage";
 
 // POST /api/reports/[id]/approve - Approve/finalize a triage report
 export async function POST(
@@ -27,11 +28,14 @@ export async function POST(
             );
         }
 
-        // Update report status to FINALIZED
-        const updatedReport = await prisma.triageReport.update({
-            where: { id },
-            data: { status: "FINALIZED" },
-        });
+        // Only a completed DRAFT can be finalized
+        const updatedReport = await transitionTriageReport(id, "FINALIZED");
+        if (!updatedReport) {
+            return NextResponse.json(
+                { error: `Cannot finalize a report with status ${report.status}` },
+                { status: 409 }
+            );
+        }
 
         return NextResponse.json({
             success: true,
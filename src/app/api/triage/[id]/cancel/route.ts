@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/db";
+import { inngest } from "@/inngest/client";
+import { transitionTriageReport } from "@/lib/triage";
+
+// POST /api/triage/[id]/cancel - Cancel a triage report that is still PROCESSING
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        const { id } = await params;
+
+        const triageReport = await prisma.triageReport.findUnique({
+            where: { id },
+        });
+
+        if (!triageReport) {
+            return NextResponse.json(
+                { error: "Triage Report not found" },
+                { status: 404 }
+            );
+        }
+
+        const updated = await transitionTriageReport(id, "CANCELLED");
+        if (!updated) {
+            return NextResponse.json(
+                { error: `Cannot cancel a report with status ${triageReport.status}` },
+                { status: 409 }
+            );
+        }
+
+        // Stop the running workflow. The report is already CANCELLED, so even if
+        // this fails the workflow cannot overwrite it with a result.
+        try {
+            await inngest.send({
+                name: "triage.cancelled",
+                data: { triageReportId: id },
+            });
+        } catch (inngestError) {
+            console.error("Failed to cancel triage workflow:", inngestError);
+        }
+
+        return NextResponse.json({ success: true, triageReportId: id, status: updated.status });
+    } catch (error) {
+        console.error("Error cancelling triage report:", error);
+        return NextResponse.json(
+            { error: "Failed to cancel triage report" },
+            { status: 500 }
+        );
+    }
+}
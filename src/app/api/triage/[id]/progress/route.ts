@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/db";
+
+export const dynamic = "force-dynamic";
+
+const POLL_INTERVAL_MS = 1000;
+// Streams are closed after this long; EventSource reconnects and resumes from Last-Event-ID
+const MAX_STREAM_MS = 5 * 60 * 1000;
+
+// GET /api/triage/[id]/progress - Server-sent events with the analysis progress of a triage report
+//
+// Emits `progress` events (one per completed agent step, with its partial result)
+// and a final `status` event once the report leaves PROCESSING.
+// (`stream-error` is used for server errors, as `error` is reserved by EventSource.)
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const { userId } = await auth();
+    if (!userId) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const triageReport = await prisma.triageReport.findUnique({
+        where: { id },
+        select: { id: true },
+    });
+
+    if (!triageReport) {
+        return NextResponse.json(
+            { error: "Triage Report not found" },
+            { status: 404 }
+        );
+    }
+
+    const encoder = new TextEncoder();
+    let cursor = Number(request.headers.get("last-event-id")) || 0;
+
+    const stream = new ReadableStream({
+        async start(controller) {
+            const send = (event: string, data: unknown, eventId?: number) => {
+                controller.enqueue(encoder.encode(
+                    `${eventId ? `id: ${eventId}\n` : ""}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+                ));
+            };
+
+            const startedAt = Date.now();
+
+            try {
+                while (!request.signal.aborted && Date.now() - startedAt < MAX_STREAM_MS) {
+                    // Read the status before the events: progress is written before the
+                    // report leaves PROCESSING, so no event can be missed on the last pass
+                    const current = await prisma.triageReport.findUnique({
+                        where: { id },
+                        select: { status: true, urgencyLevel: true, failureReason: true },
+                    });
+
+                    const events = await prisma.triageProgressEvent.findMany({
+                        where: { triageReportId: id, id: { gt: cursor } },
+                        orderBy: { id: "asc" },
+                    });
+
+                    for (const event of events) {
+                        send("progress", {
+                            step: event.step,
+                            message: event.message,
+                            data: event.data,
+                            createdAt: event.createdAt.toISOString(),
+                        }, event.id);
+                        cursor = event.id;
+                    }
+
+                    if (!current || current.status !== "PROCESSING") {
+                        send("status", current ?? { status: "DELETED" });
+                        break;
+                    }
+
+                    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+                }
+            } catch (error) {
+                console.error("Error streaming triage progress:", error);
+                send("stream-error", { error: "Failed to stream triage progress" });
+            } finally {
+                controller.close();
+            }
+        },
+    });
+
+    return new Response(stream, {
+        headers: {
+            "Content-Type": "text/event-stream",
+            "Cache-Control": "no-cache, no-transform",
+            Connection: "keep-alive",
+        },
+    });
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/db";
+import {
+    canTransition,
+    clearTriageProgress,
+    requestTriageAnalysis,
+    transitionTriageReport,
+} from "@/lib/triage";
+
+// POST /api/triage/[id]/retry - Re-run the analysis of a FAILED or CANCELLED triage report
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { userId } = await auth();
+        if (!userId) {
+            return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+        }
+
+        const { id } = await params;
+
+        const triageReport = await prisma.triageReport.findUnique({
+            where: { id },
+            include: { encounter: true },
+        });
+
+        if (!triageReport) {
+            return NextResponse.json(
+                { error: "Triage Report not found" },
+                { status: 404 }
+            );
+        }
+
+        if (!canTransition(triageReport.status, "PROCESSING")) {
+            return NextResponse.json(
+                { error: `Cannot retry a report with status ${triageReport.status}` },
+                { status: 409 }
+            );
+        }
+
+        // Reset to the same placeholder state as a new triage request
+        const updated = await transitionTriageReport(id, "PROCESSING", {
+            summary: "AI Analysis in progress...",
+            urgencyLevel: "PENDING",
+            recommendedAction: "Please wait for AI analysis to complete.",
+            failureReason: null,
+        });
+
+        if (!updated) {
+            return NextResponse.json(
+                { error: "Triage Report status changed, please refresh" },
+                { status: 409 }
+            );
+        }
+
+        await clearTriageProgress(id);
+
+        const status = await requestTriageAnalysis(id, {
+            encounterId: triageReport.encounterId,
+            patientId: triageReport.encounter.patientId,
+            symptoms: triageReport.encounter.symptoms || "",
+            voiceTranscript: triageReport.encounter.voiceTranscript || undefined,
+            scanIds: triageReport.scanIds,
+        });
+
+        return NextResponse.json({ success: true, triageReportId: id, status });
+    } catch (error) {
+        console.error("Error retrying triage report:", error);
+        return NextResponse.json(
+            { error: "Failed to retry triage report" },
+            { status: 500 }
+        );
+    }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
-import { inngest } from "@/inngest/client";
+import { requestTriageAnalysis } from "@/lib/triage";
+import { validateVitalSigns } from "@/lib/early-warning";
 import { auth } from "@clerk/nextjs/server";
 
 export async function POST(req: NextRequest) {
@@ -13,6 +14,15 @@ export async function POST(req: NextRequest) {
         const body = await req.json();
         const { patientId, name, dob, gender, symptoms, voiceTranscript, scanIds } = body;
 
+        // Vitals are optional; out-of-range values are rejected rather than scored
+        const { vitals, errors: vitalErrors } = validateVitalSigns(body.vitalSigns);
+        if (vitalErrors.length > 0) {
+            return NextResponse.json(
+                { error: `Invalid vital signs: ${vitalErrors.join("; ")}` },
+                { status: 400 }
+            );
+        }
+
         let patient;
 
         // Use existing patient if ID provided, otherwise create new
@@ -57,6 +67,7 @@ export async function POST(req: NextRequest) {
                 patientId: patient.id,
                 symptoms,
                 voiceTranscript: voiceTranscript || null,
+                vitalSigns: vitals ? { ...vitals } : undefined,
                 encounterType: "ambulatory",
                 status: "in-progress",
             },
@@ -72,32 +83,26 @@ export async function POST(req: NextRequest) {
                 suggestedICD10: [],
                 suggestedCPT: [],
                 status: "PROCESSING",
+                scanIds: scanIds || [],
             }
         });
 
         // Send Event to Orchestrator (Inngest)
-        try {
-            await inngest.send({
-                name: "triage.requested",
-                data: {
-                    encounterId: encounter.id,
-                    patientId: patient.id,
-                    symptoms,
-                    voiceTranscript,
-                    triageReportId: triageReport.id,
-                    scanIds: scanIds || [], // Pass selected scan IDs
-                },
-            });
-        } catch (inngestError) {
-            console.error("Failed to trigger triage:", inngestError);
-            // Don't fail the request if Inngest fails, but maybe update status to FAILED?
-        }
+        // If it cannot be queued the report is marked FAILED and can be retried from the queue
+        const status = await requestTriageAnalysis(triageReport.id, {
+            encounterId: encounter.id,
+            patientId: patient.id,
+            symptoms,
+            voiceTranscript,
+            scanIds: scanIds || [], // Pass selected scan IDs
+        });
 
         return NextResponse.json({
             success: true,
             encounterId: encounter.id,
             patientId: patient.id,
             triageReportId: triageReport.id,
+            status,
         });
     } catch (error) {
         console.error("Triage Error:", error);
@@ -13,11 +13,13 @@ import {
     Brain,
     Plus,
     Upload,
+    DollarSign,
 } from "lucide-react";
 import Link from "next/link";
 import { useState } from "react";
 import { useRouter } from "next/navigation";
 import { StartTriageModal, AddPatientModal, UploadScanModal } from "@/components/modals";
+import { cn } from "@/lib/utils";
 
 interface DashboardClientProps {
     data: {
@@ -32,6 +34,19 @@ interface DashboardClientProps {
             avgResponse: string;
             casesProcessed: number;
         };
+        usage: {
+            tokensToday: number;
+            costTodayUsd: number;
+            monthCostUsd: number;
+            budgetUsd: number | null;
+            budgetStatus: string;
+            byAgent: Array<{
+                agent: string;
+                calls: number;
+                tokens: number;
+                costUsd: number;
+            }>;
+        };
         recentReports: Array<{
             id: string;
             name: string;
@@ -61,6 +76,8 @@ interface Scan {
     fileUrl: string;
 }
 
+const formatUsd = (amount: number) => `$${amount.toFixed(2)}`;
+
 const urgencyColors: Record<string, string> = {
     CRITICAL: "bg-danger/10 text-danger border-danger/20",
     HIGH: "bg-warning/10 text-warning border-warning/20",
@@ -176,6 +193,25 @@ export function DashboardClient({ data, recentCases, patients }: DashboardClient
                 </div>
             </div>
 
+            {/* Monthly Model Budget Alert */}
+            {data.usage.budgetUsd !== null && data.usage.budgetStatus !== "ok" && (
+                <div className={cn(
+                    "flex items-center gap-3 rounded-xl border px-4 py-3 text-sm",
+                    data.usage.budgetStatus === "exceeded"
+                        ? "border-danger/20 bg-danger/10 text-danger"
+                        : "border-warning/20 bg-warning/10 text-warning"
+                )}>
+                    <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                    <span>
+                        {data.usage.budgetStatus === "exceeded" ? "Monthly AI budget exceeded" : "Approaching monthly AI budget"}
+                        {": "}
+                        <span className="font-semibold">{formatUsd(data.usage.monthCostUsd)}</span>
+                        {" of "}
+                        {formatUsd(data.usage.budgetUsd)} spent this month
+                    </span>
+                </div>
+            )}
+
             {/* Stats Row */}
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
                 {stats.map((stat, index) => (
@@ -346,6 +382,65 @@ export function DashboardClient({ data, recentCases, patients }: DashboardClient
                         </div>
                     </motion.div>
 
+                    {/* Model Usage Card */}
+                    <motion.div
+                        initial={{ opacity: 0, y: 20 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        transition={{ delay: 0.65 }}
+                        className="rounded-2xl border border-border bg-surface-1 p-6"
+                    >
+                        <div className="flex items-center gap-3 mb-4">
+                            <div className="flex h-10 w-10 items-center justify-center rounded-xl bg-info/10">
+                                <DollarSign className="h-5 w-5 text-info" />
+                            </div>
+                            <div>
+                                <h3 className="font-semibold text-foreground">Model Usage</h3>
+                                <p className="text-xs text-muted-foreground">Tokens and estimated cost</p>
+                            </div>
+                        </div>
+                        <div className="space-y-4">
+                            <div className="flex justify-between text-sm">
+                                <span className="text-muted-foreground">Today</span>
+                                <span className="text-foreground font-medium">
+                                    {data.usage.tokensToday.toLocaleString()} tokens • {formatUsd(data.usage.costTodayUsd)}
+                                </span>
+                            </div>
+                            <div>
+                                <div className="flex justify-between text-sm mb-1">
+                                    <span className="text-muted-foreground">This Month</span>
+                                    <span className="text-foreground font-medium">
+                                        {formatUsd(data.usage.monthCostUsd)}
+                                        {data.usage.budgetUsd !== null && ` / ${formatUsd(data.usage.budgetUsd)}`}
+                                    </span>
+                                </div>
+                                {data.usage.budgetUsd !== null && (
+                                    <div className="h-2 bg-surface-3 rounded-full overflow-hidden">
+                                        <div
+                                            className={cn(
+                                                "h-full rounded-full",
+                                                data.usage.budgetStatus === "exceeded" ? "bg-danger" :
+                                                    data.usage.budgetStatus === "warning" ? "bg-warning" : "bg-info"
+                                            )}
+                                            style={{ width: `${Math.min(100, (data.usage.monthCostUsd / data.usage.budgetUsd) * 100)}%` }}
+                                        />
+                                    </div>
+                                )}
+                            </div>
+                            {data.usage.byAgent.length > 0 && (
+                                <div className="space-y-2 border-t border-border pt-4">
+                                    {data.usage.byAgent.map((row) => (
+                                        <div key={row.agent} className="flex justify-between text-xs">
+                                            <span className="text-muted-foreground capitalize">{row.agent}</span>
+                                            <span className="text-foreground">
+                                                {row.tokens.toLocaleString()} tokens • {formatUsd(row.costUsd)}
+                                            </span>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    </motion.div>
+
                     {/* Recent Reports Card */}
                     <motion.div
                         initial={{ opacity: 0, y: 20 }}
@@ -30,6 +30,19 @@ interface DashboardStats {
         avgResponse: string;
         casesProcessed: number;
     };
+    usage: {
+        tokensToday: number;
+        costTodayUsd: number;
+        monthCostUsd: number;
+        budgetUsd: number | null;
+        budgetStatus: string;
+        byAgent: Array<{
+            agent: string;
+            calls: number;
+            tokens: number;
+            costUsd: number;
+        }>;
+    };
     recentReports: Array<{
         id: string;
         name: string;
@@ -64,6 +77,14 @@ export default async function DashboardPage() {
                 avgResponse: "0s",
                 casesProcessed: 0,
             },
+            usage: {
+                tokensToday: 0,
+                costTodayUsd: 0,
+                monthCostUsd: 0,
+                budgetUsd: null,
+                budgetStatus: "ok",
+                byAgent: [],
+            },
             recentReports: [],
         };
         recentCases = [];
@@ -117,6 +117,8 @@ export default async function PatientPage({ params }: PatientPageProps) {
             findings: r.findings,
             conclusion: r.conclusion,
             fileUrl: r.fileUrl,
+            quarantined: r.quarantined,
+            quarantineReason: r.quarantineReason,
         })),
     };
 
@@ -29,6 +29,7 @@ import {
     ClipboardList,
     ChevronDown,
     ChevronUp,
+    ShieldAlert,
 } from "lucide-react";
 import { useState, useEffect } from "react";
 import {
@@ -50,6 +51,7 @@ import {
     AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { DicomViewer } from "@/components/ui/dicom-viewer";
+import { recordAnchor } from "@/lib/citations";
 
 interface Scan {
     id: string;
@@ -111,6 +113,9 @@ interface ExternalReport {
     findings: string | null;
     conclusion: string | null;
     fileUrl: string | null;
+    // Held out of AI analysis until approved (instruction-like text found)
+    quarantined: boolean;
+    quarantineReason: string | null;
 }
 
 interface Patient {
@@ -219,8 +224,9 @@ function ScanThumbnail({ scan, onClick }: { scan: Scan; onClick: () => void }) {
 
     return (
         <div
+            id={recordAnchor("Scan", scan.id)}
             onClick={onClick}
-            className="group relative aspect-video rounded-lg bg-surface-2 overflow-hidden cursor-pointer hover:ring-2 hover:ring-primary/50 transition-all"
+            className="group relative aspect-video rounded-lg bg-surface-2 overflow-hidden cursor-pointer hover:ring-2 hover:ring-primary/50 transition-all scroll-mt-24 target:ring-2 target:ring-primary"
         >
             {isLoading ? (
                 <div className="h-full w-full flex items-center justify-center">
@@ -336,6 +342,7 @@ export function PatientDetailClient({ patient }: PatientDetailClientProps) {
     const [selectedScan, setSelectedScan] = useState<Scan | null>(null);
     const [deletingMedication, setDeletingMedication] = useState<string | null>(null);
     const [deletingReport, setDeletingReport] = useState<string | null>(null);
+    const [approvingReport, setApprovingReport] = useState<string | null>(null);
     const [deleteConfirm, setDeleteConfirm] = useState<{
         isOpen: boolean;
         type: 'triage' | 'external' | 'medication';
@@ -397,6 +404,20 @@ export function PatientDetailClient({ patient }: PatientDetailClientProps) {
         });
     };
 
+    const handleApproveReport = async (reportId: string) => {
+        setApprovingReport(reportId);
+        try {
+            const response = await fetch(`/api/patients/${patient.id}/reports/${reportId}/approve`, {
+                method: "POST",
+            });
+            if (response.ok) router.refresh();
+        } catch (error) {
+            console.error("Failed to approve report:", error);
+        } finally {
+            setApprovingReport(null);
+        }
+    };
+
     const handleDeleteTriageReport = (reportId: string) => {
         setDeleteConfirm({
             isOpen: true,
@@ -587,7 +608,7 @@ export function PatientDetailClient({ patient }: PatientDetailClientProps) {
                         {patient.medicalHistory.length > 0 ? (
                             <div className="space-y-2 max-h-48 overflow-y-auto">
                                 {patient.medicalHistory.map((item) => (
-                                    <div key={item.id} className="p-2 rounded-lg bg-surface-2 text-sm">
+                                    <div key={item.id} id={recordAnchor("MedicalHistory", item.id)} className="p-2 rounded-lg bg-surface-2 text-sm scroll-mt-24 target:ring-2 target:ring-primary">
                                         <div className="flex items-center justify-between">
                                             <span className="font-medium text-foreground">{item.description}</span>
                                             <span className={cn(
@@ -718,7 +739,7 @@ export function PatientDetailClient({ patient }: PatientDetailClientProps) {
                         ) : (
                             <div className="space-y-3 max-h-64 overflow-y-auto">
                                 {patient.medications.map((med) => (
-                                    <div key={med.id} className="group p-3 rounded-lg bg-surface-2 hover:bg-surface-3 transition-colors">
+                                    <div key={med.id} id={recordAnchor("Medication", med.id)} className="group p-3 rounded-lg bg-surface-2 hover:bg-surface-3 transition-colors scroll-mt-24 target:ring-2 target:ring-primary">
                                         <div className="flex items-start justify-between">
                                             <div className="flex-1">
                                                 <div className="flex items-center gap-2">
@@ -801,7 +822,7 @@ export function PatientDetailClient({ patient }: PatientDetailClientProps) {
                         ) : (
                             <div className="space-y-3 max-h-64 overflow-y-auto">
                                 {patient.externalReports.map((report) => (
-                                    <div key={report.id} className="group p-3 rounded-lg bg-surface-2 hover:bg-surface-3 transition-colors">
+                                    <div key={report.id} id={recordAnchor("ExternalReport", report.id)} className="group p-3 rounded-lg bg-surface-2 hover:bg-surface-3 transition-colors scroll-mt-24 target:ring-2 target:ring-primary">
                                         <div className="flex items-start justify-between">
                                             <div className="flex-1">
                                                 <div className="flex items-center gap-2">
@@ -817,6 +838,29 @@ export function PatientDetailClient({ patient }: PatientDetailClientProps) {
                                                 {report.conclusion && (
                                                     <p className="text-xs text-muted mt-1 line-clamp-1">{report.conclusion}</p>
                                                 )}
+                                                {report.quarantined && (
+                                                    <div className="mt-2 rounded-lg bg-warning/10 px-2.5 py-2 text-xs text-warning">
+                                                        <p className="flex items-center gap-1.5 font-medium">
+                                                            <ShieldAlert className="h-3.5 w-3.5 shrink-0" />
+                                                            Quarantined - not used in AI analysis
+                                                        </p>
+                                                        {report.quarantineReason && (
+                                                            <p className="mt-1 line-clamp-3 text-muted-foreground">{report.quarantineReason}</p>
+                                                        )}
+                                                        <button
+                                                            onClick={() => handleApproveReport(report.id)}
+                                                            disabled={approvingReport === report.id}
+                                                            className="mt-1.5 flex items-center gap-1 font-medium text-primary hover:text-primary/80 transition-colors disabled:opacity-50"
+                                                        >
+                                                            {approvingReport === report.id ? (
+                                                                <Loader2 className="h-3 w-3 animate-spin" />
+                                                            ) : (
+                                                                <CheckCircle2 className="h-3 w-3" />
+                                                            )}
+                                                            Approve for analysis
+                                                        </button>
+                                                    </div>
+                                                )}
                                             </div>
                                             <button
                                                 onClick={() => handleDeleteExternalReport(report.id)}
@@ -875,7 +919,7 @@ export function PatientDetailClient({ patient }: PatientDetailClientProps) {
                     ) : (
                         <div className="space-y-8">
                             {patient.encounters.map((encounter, encIndex) => (
-                                <div key={encounter.id} className="relative">
+                                <div key={encounter.id} id={recordAnchor("Encounter", encounter.id)} className="relative rounded-lg scroll-mt-24 target:ring-2 target:ring-primary">
                                     {/* Encounter Connector Line */}
                                     {encIndex !== patient.encounters.length - 1 && (
                                         <div className="absolute left-[19px] top-10 bottom-0 w-0.5 bg-border -z-10" />
@@ -10,8 +10,14 @@ interface QueueItem {
     age: number;
     symptoms: string;
     urgency: string;
+    esiLevel: number | null;
+    esiDisagreement: string | null;
     waitTime: string;
     aiConfidence: number;
+    analysisStatus: string;
+    triageReportId: string | null;
+    reportStatus: string | null;
+    failureReason: string | null;
     arrivalTime: string;
 }
 
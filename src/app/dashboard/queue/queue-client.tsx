@@ -10,8 +10,14 @@ import {
     Search,
     RefreshCw,
     Inbox,
+    AlertTriangle,
+    RotateCcw,
+    XCircle,
+    Loader2,
+    ArrowUpDown,
 } from "lucide-react";
 import Link from "next/link";
+import { useRouter } from "next/navigation";
 import { useState } from "react";
 
 interface QueueItem {
@@ -21,11 +27,30 @@ interface QueueItem {
     age: number;
     symptoms: string;
     urgency: string;
+    esiLevel: number | null;
+    esiDisagreement: string | null;
     waitTime: string;
     aiConfidence: number;
+    analysisStatus: string;
+    triageReportId: string | null;
+    reportStatus: string | null;
+    failureReason: string | null;
     arrivalTime: string;
 }
 
+// Shown when the AI analysis contains fallback content
+const analysisStatusBadges: Record<string, { label: string; className: string }> = {
+    degraded: { label: "AI Degraded", className: "bg-warning/10 text-warning" },
+    failed: { label: "AI Failed", className: "bg-danger/10 text-danger" },
+};
+
+// Triage lifecycle states that need the doctor's attention in the queue
+const reportStatusBadges: Record<string, { label: string; className: string }> = {
+    PROCESSING: { label: "Analyzing", className: "bg-info/10 text-info" },
+    FAILED: { label: "Analysis Failed", className: "bg-danger/10 text-danger" },
+    CANCELLED: { label: "Cancelled", className: "bg-surface-3 text-muted-foreground" },
+};
+
 interface QueueClientProps {
     queueItems: QueueItem[];
 }
@@ -37,6 +62,31 @@ const urgencyColors: Record<string, string> = {
     LOW: "bg-success text-primary-foreground",
 };
 
+const esiColors: Record<number, string> = {
+    1: "bg-danger/10 text-danger",
+    2: "bg-warning/10 text-warning",
+    3: "bg-info/10 text-info",
+    4: "bg-success/10 text-success",
+    5: "bg-success/10 text-success",
+};
+
+type SortKey = "arrival" | "urgency" | "esi";
+
+const sortOptions: { value: SortKey; label: string }[] = [
+    { value: "arrival", label: "Newest" },
+    { value: "urgency", label: "AI Urgency" },
+    { value: "esi", label: "ESI" },
+];
+
+const urgencyRank: Record<string, number> = { CRITICAL: 0, HIGH: 1, MEDIUM: 2, LOW: 3 };
+
+// Items without a value sort last; ties keep the arrival order
+const sortComparators: Record<SortKey, ((a: QueueItem, b: QueueItem) => number) | null> = {
+    arrival: null,
+    urgency: (a, b) => (urgencyRank[a.urgency] ?? 4) - (urgencyRank[b.urgency] ?? 4),
+    esi: (a, b) => (a.esiLevel ?? 6) - (b.esiLevel ?? 6),
+};
+
 const urgencyBorder: Record<string, string> = {
     CRITICAL: "border-l-danger",
     HIGH: "border-l-warning",
@@ -47,6 +97,34 @@ const urgencyBorder: Record<string, string> = {
 export function QueueClient({ queueItems }: QueueClientProps) {
     const [filter, setFilter] = useState<string>("all");
     const [searchQuery, setSearchQuery] = useState("");
+    const [sortBy, setSortBy] = useState<SortKey>("arrival");
+    const [pendingReportId, setPendingReportId] = useState<string | null>(null);
+    const router = useRouter();
+
+    // Retry or cancel the triage analysis (buttons sit inside the item link)
+    const handleLifecycleAction = async (
+        event: React.MouseEvent,
+        triageReportId: string,
+        action: "retry" | "cancel"
+    ) => {
+        event.preventDefault();
+        event.stopPropagation();
+        setPendingReportId(triageReportId);
+        try {
+            const response = await fetch(`/api/triage/${triageReportId}/${action}`, {
+                method: "POST",
+            });
+            if (!response.ok) {
+                const data = await response.json();
+                console.error(`Failed to ${action} triage:`, data.error);
+            }
+            router.refresh();
+        } catch (error) {
+            console.error(`Failed to ${action} triage:`, error);
+        } finally {
+            setPendingReportId(null);
+        }
+    };
 
     const filteredItems = queueItems
         .filter(item => filter === "all" || item.urgency === filter)
@@ -55,6 +133,8 @@ export function QueueClient({ queueItems }: QueueClientProps) {
             item.patient.toLowerCase().includes(searchQuery.toLowerCase()) ||
             item.symptoms.toLowerCase().includes(searchQuery.toLowerCase())
         );
+    const comparator = sortComparators[sortBy];
+    const sortedItems = comparator ? [...filteredItems].sort(comparator) : filteredItems;
 
     return (
         <div className="space-y-6">
@@ -111,11 +191,29 @@ export function QueueClient({ queueItems }: QueueClientProps) {
                         </button>
                     ))}
                 </div>
+
+                <div className="flex items-center gap-2">
+                    <ArrowUpDown className="h-4 w-4 text-muted" />
+                    {sortOptions.map((option) => (
+                        <button
+                            key={option.value}
+                            onClick={() => setSortBy(option.value)}
+                            className={cn(
+                                "rounded-lg px-3 py-1.5 text-xs font-semibold uppercase transition-colors",
+                                sortBy === option.value
+                                    ? "bg-primary text-primary-foreground"
+                                    : "bg-surface-2 text-muted-foreground hover:bg-surface-3"
+                            )}
+                        >
+                            {option.label}
+                        </button>
+                    ))}
+                </div>
             </div>
 
             {/* Queue List */}
             <div className="space-y-3">
-                {filteredItems.length === 0 ? (
+                {sortedItems.length === 0 ? (
                     <motion.div
                         initial={{ opacity: 0, y: 20 }}
                         animate={{ opacity: 1, y: 0 }}
@@ -130,7 +228,7 @@ export function QueueClient({ queueItems }: QueueClientProps) {
                         </p>
                     </motion.div>
                 ) : (
-                    filteredItems.map((item, index) => (
+                    sortedItems.map((item, index) => (
                         <motion.div
                             key={item.id}
                             initial={{ opacity: 0, y: 10 }}
@@ -158,10 +256,69 @@ export function QueueClient({ queueItems }: QueueClientProps) {
                                         <p className="text-lg font-semibold text-foreground">{item.patient}</p>
                                         <span className="text-sm text-muted-foreground">{item.age} years</span>
                                         <span className="font-mono text-xs text-muted">{item.id}</span>
+                                        {item.esiLevel !== null && (
+                                            <span className={cn(
+                                                "rounded-lg px-2 py-0.5 text-xs font-semibold",
+                                                esiColors[item.esiLevel]
+                                            )}>
+                                                ESI {item.esiLevel}
+                                            </span>
+                                        )}
+                                        {item.esiDisagreement && (
+                                            <span
+                                                title={item.esiDisagreement}
+                                                className="inline-flex items-center gap-1 rounded-lg bg-warning/10 px-2 py-0.5 text-xs font-medium text-warning"
+                                            >
+                                                <AlertTriangle className="h-3 w-3" />
+                                                ESI / AI Mismatch
+                                            </span>
+                                        )}
+                                        {analysisStatusBadges[item.analysisStatus] && (
+                                            <span className={cn(
+                                                "inline-flex items-center gap-1 rounded-lg px-2 py-0.5 text-xs font-medium",
+                                                analysisStatusBadges[item.analysisStatus].className
+                                            )}>
+                                                <AlertTriangle className="h-3 w-3" />
+                                                {analysisStatusBadges[item.analysisStatus].label}
+                                            </span>
+                                        )}
+                                        {item.reportStatus && reportStatusBadges[item.reportStatus] && (
+                                            <span className={cn(
+                                                "rounded-lg px-2 py-0.5 text-xs font-medium",
+                                                reportStatusBadges[item.reportStatus].className
+                                            )}>
+                                                {reportStatusBadges[item.reportStatus].label}
+                                            </span>
+                                        )}
                                     </div>
                                     <p className="text-sm text-muted-foreground">{item.symptoms}</p>
+                                    {item.reportStatus === "FAILED" && item.failureReason && (
+                                        <p className="mt-1 text-xs text-danger">{item.failureReason}</p>
+                                    )}
                                 </div>
 
+                                {/* Lifecycle Actions */}
+                                {item.triageReportId && (item.reportStatus === "PROCESSING" || item.reportStatus === "FAILED" || item.reportStatus === "CANCELLED") && (
+                                    <button
+                                        onClick={(e) => handleLifecycleAction(
+                                            e,
+                                            item.triageReportId!,
+                                            item.reportStatus === "PROCESSING" ? "cancel" : "retry"
+                                        )}
+                                        disabled={pendingReportId === item.triageReportId}
+                                        className="flex items-center gap-2 rounded-lg border border-border bg-surface-1 px-3 py-2 text-xs font-medium text-foreground transition-colors hover:bg-surface-3 disabled:opacity-50"
+                                    >
+                                        {pendingReportId === item.triageReportId ? (
+                                            <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                                        ) : item.reportStatus === "PROCESSING" ? (
+                                            <XCircle className="h-3.5 w-3.5" />
+                                        ) : (
+                                            <RotateCcw className="h-3.5 w-3.5" />
+                                        )}
+                                        {item.reportStatus === "PROCESSING" ? "Cancel" : "Retry"}
+                                    </button>
+                                )}
+
                                 {/* AI Analysis */}
                                 <div className="flex items-center gap-6">
                                     <div className="text-center">
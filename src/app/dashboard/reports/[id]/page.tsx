@@ -1,6 +1,20 @@
 import { prisma } from "@/lib/db";
 import { notFound } from "next/navigation";
 import { ReportPageClient } from "./report-page-client";
+import type {
+    CalculatorResult,
+    ClinicalHistoryAnalysis,
+    CodingResult,
+    DiagnosisResult,
+    EarlyWarningScores,
+    EsiAssessment,
+    InteractionAlert,
+    ScanAnalysisResult,
+    UnsupportedMention,
+    VerifiedCitation,
+    VitalSigns,
+} from "@/lib/ai/agents/types";
+import type { ContextManifest } from "@/lib/ai/providers/types";
 
 interface PageProps {
     params: Promise<{ id: string }>;
@@ -29,6 +43,10 @@ export default async function ReportDetailPage({ params }: PageProps) {
                     },
                 },
             },
+            orchestratedReport: true,
+            agentTraces: {
+                orderBy: { startedAt: "asc" },
+            },
         },
     });
 
@@ -54,6 +72,10 @@ export default async function ReportDetailPage({ params }: PageProps) {
                         },
                     },
                 },
+                orchestratedReport: true,
+                agentTraces: {
+                    orderBy: { startedAt: "asc" },
+                },
             },
         });
     }
@@ -67,18 +89,53 @@ export default async function ReportDetailPage({ params }: PageProps) {
         id: report.id,
         summary: report.summary,
         urgencyLevel: report.urgencyLevel,
+        esi: report.esiAssessment as unknown as EsiAssessment | null,
         recommendedAction: report.recommendedAction || "",
         reasoningChain: report.reasoningChain,
         confidenceScore: report.confidenceScore || 0,
+        analysisStatus: report.analysisStatus,
+        agentIssues: report.agentIssues,
+        failureReason: report.failureReason,
         suggestedICD10: report.suggestedICD10 || [],
         suggestedCPT: report.suggestedCPT || [],
         status: report.status,
         createdAt: report.createdAt.toISOString(),
+        analysis: report.orchestratedReport ? {
+            clinicalHistory: report.orchestratedReport.clinicalHistory as unknown as ClinicalHistoryAnalysis,
+            // Reports saved before the interaction checker have none
+            interactionAlerts: (report.orchestratedReport.interactionAlerts ?? []) as unknown as InteractionAlert[],
+            earlyWarningScores: report.orchestratedReport.earlyWarningScores as unknown as EarlyWarningScores | null,
+            calculatorResults: (report.orchestratedReport.calculatorResults ?? []) as unknown as CalculatorResult[],
+            citations: (report.orchestratedReport.citations ?? []) as unknown as VerifiedCitation[],
+            unsupportedMentions: (report.orchestratedReport.unsupportedMentions ?? []) as unknown as UnsupportedMention[],
+            scanAnalyses: report.orchestratedReport.scanAnalyses as unknown as ScanAnalysisResult[],
+            diagnosis: report.orchestratedReport.diagnosis as unknown as DiagnosisResult,
+            coding: report.orchestratedReport.coding as unknown as CodingResult,
+            agentsUsed: report.orchestratedReport.agentsUsed,
+            processingTimeMs: report.orchestratedReport.processingTimeMs,
+            totalTokens: report.orchestratedReport.inputTokens + report.orchestratedReport.outputTokens,
+            costUsd: report.orchestratedReport.costUsd,
+        } : null,
+        agentTraces: report.agentTraces.map((t: typeof report.agentTraces[number]) => ({
+            id: t.id,
+            agent: t.agent,
+            task: t.task,
+            provider: t.provider,
+            model: t.model,
+            promptVersion: t.promptVersion,
+            latencyMs: t.latencyMs,
+            totalTokens: t.inputTokens + t.outputTokens,
+            costUsd: t.costUsd,
+            error: t.error,
+            context: t.contextManifest as unknown as ContextManifest | null,
+            cached: t.cached,
+        })),
         encounter: {
             id: report.encounter.id,
             symptoms: report.encounter.symptoms || "",
             voiceTranscript: report.encounter.voiceTranscript,
             chiefComplaint: report.encounter.chiefComplaint,
+            vitalSigns: report.encounter.vitalSigns as VitalSigns | null,
             createdAt: report.encounter.createdAt.toISOString(),
             patient: {
                 id: report.encounter.patient.id,
@@ -14,28 +14,90 @@ import {
     User,
     Stethoscope,
     Pill,
+    ShieldAlert,
+    ScanLine,
+    History,
+    Cpu,
+    AlertTriangle,
+    Activity,
+    Calculator,
 } from "lucide-react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { useState } from "react";
+import { TriageProgress } from "@/components/ui/triage-progress";
+import { InteractionAlertList } from "@/components/ui/interaction-alerts";
+import { ClinicalCalculatorList } from "@/components/ui/clinical-calculators";
+import { EvidenceCitationChips } from "@/components/ui/evidence-citations";
+import { formatVitalSigns } from "@/lib/early-warning";
+import type {
+    CalculatorResult,
+    ClinicalHistoryAnalysis,
+    CodingResult,
+    DiagnosisResult,
+    EarlyWarningScores,
+    EsiAssessment,
+    InteractionAlert,
+    ScanAnalysisResult,
+    UnsupportedMention,
+    VerifiedCitation,
+    VitalSigns,
+} from "@/lib/ai/agents/types";
+import type { ContextManifest } from "@/lib/ai/providers/types";
 
 interface ReportPageClientProps {
     report: {
         id: string;
         summary: string;
         urgencyLevel: string;
+        // Emergency Severity Index (null for reports generated before it was calculated)
+        esi: EsiAssessment | null;
         recommendedAction: string;
         reasoningChain: string | null;
         confidenceScore: number;
+        analysisStatus: string;
+        agentIssues: string[];
+        failureReason: string | null;
         suggestedICD10: string[];
         suggestedCPT: string[];
         status: string;
         createdAt: string;
+        // Full structured agent output (null for reports generated before it was stored)
+        analysis: {
+            clinicalHistory: ClinicalHistoryAnalysis;
+            interactionAlerts: InteractionAlert[];
+            earlyWarningScores: EarlyWarningScores | null;
+            calculatorResults: CalculatorResult[];
+            citations: VerifiedCitation[];
+            unsupportedMentions: UnsupportedMention[];
+            scanAnalyses: ScanAnalysisResult[];
+            diagnosis: DiagnosisResult;
+            coding: CodingResult;
+            agentsUsed: string[];
+            processingTimeMs: number;
+            totalTokens: number;
+            costUsd: number;
+        } | null;
+        agentTraces: {
+            id: string;
+            agent: string;
+            task: string;
+            provider: string;
+            model: string;
+            promptVersion: string;
+            latencyMs: number;
+            totalTokens: number;
+            costUsd: number;
+            error: string | null;
+            context: ContextManifest | null;
+            cached: boolean;
+        }[];
         encounter: {
             id: string;
             symptoms: string;
             voiceTranscript: string | null;
             chiefComplaint: string | null;
+            vitalSigns: VitalSigns | null;
             createdAt: string;
             patient: {
                 id: string;
@@ -66,6 +128,133 @@ const urgencyColors: Record<string, string> = {
     LOW: "bg-success text-primary-foreground",
 };
 
+const statusColors: Record<string, string> = {
+    PROCESSING: "bg-info/10 text-info",
+    DRAFT: "bg-warning/10 text-warning",
+    FAILED: "bg-danger/10 text-danger",
+    CANCELLED: "bg-surface-3 text-muted-foreground",
+    FINALIZED: "bg-success/10 text-success",
+};
+
+// Shown when the AI analysis contains fallback content
+const analysisStatusBadges: Record<string, { label: string; className: string }> = {
+    degraded: { label: "AI Degraded", className: "bg-warning/10 text-warning" },
+    failed: { label: "AI Failed", className: "bg-danger/10 text-danger" },
+};
+
+const esiColors: Record<number, string> = {
+    1: "bg-danger/10 text-danger",
+    2: "bg-warning/10 text-warning",
+    3: "bg-info/10 text-info",
+    4: "bg-success/10 text-success",
+    5: "bg-success/10 text-success",
+};
+
+const news2RiskColors: Record<string, string> = {
+    high: "bg-danger/10 text-danger",
+    medium: "bg-warning/10 text-warning",
+    "low-medium": "bg-info/10 text-info",
+    low: "bg-success/10 text-success",
+};
+
+const severityColors: Record<string, string> = {
+    SEVERE: "bg-danger/10 text-danger",
+    MODERATE: "bg-warning/10 text-warning",
+    MILD: "bg-info/10 text-info",
+    NORMAL: "bg-success/10 text-success",
+};
+
+function FindingList({ title, items }: { title: string; items: string[] }) {
+    if (items.length === 0) return null;
+    return (
+        <div>
+            <p className="text-xs font-medium uppercase text-muted">{title}</p>
+            <ul className="mt-1 space-y-1">
+                {items.map((item, i) => (
+                    <li key={i} className="flex gap-2 text-sm text-foreground">
+                        <span className="mt-2 h-1.5 w-1.5 shrink-0 rounded-full bg-muted" />
+                        {item}
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+}
+
+function EvidenceList({ citations, patientId, className }: { citations: VerifiedCitation[]; patientId: string; className?: string }) {
+    if (citations.length === 0) return null;
+    return (
+        <div className={className}>
+            <p className="mb-2 text-xs font-medium uppercase text-muted">Evidence</p>
+            <EvidenceCitationChips citations={citations} patientId={patientId} />
+        </div>
+    );
+}
+
+const mentionFields: Record<UnsupportedMention["field"], string> = {
+    executiveSummary: "Summary",
+    reasoning: "Diagnostic reasoning",
+    patientSummary: "Patient summary",
+};
+
+function UnsupportedMentionList({ mentions }: { mentions: UnsupportedMention[] }) {
+    return (
+        <div className="border-t border-border bg-warning/5 px-6 py-4">
+            <p className="flex items-center gap-2 text-xs font-medium uppercase text-warning">
+                <AlertTriangle className="h-3.5 w-3.5" />
+                Not supported by the patient record
+            </p>
+            <ul className="mt-2 space-y-1.5 text-sm">
+                {mentions.map((mention, i) => (
+                    <li key={i} className="text-muted-foreground">
+                        <span className="font-medium text-foreground">{mention.term}</span>
+                        {" - "}
+                        {mention.kind === "medication" ? "not in the medication list" : "not in the medical history"}
+                        {" "}
+                        <span className="text-xs">
+                            ({mentionFields[mention.field]}, {mention.action === "removed" ? "sentence removed" : "marked in text"})
+                        </span>
+                        {mention.action === "removed" && (
+                            <p className="mt-0.5 text-xs italic">&ldquo;{mention.sentence}&rdquo;</p>
+                        )}
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+}
+
+function ContextManifestDetails({ manifest }: { manifest: ContextManifest }) {
+    const groups = [
+        { label: "Included", refs: manifest.included },
+        { label: "Summarized", refs: manifest.summarized },
+        { label: "Dropped", refs: manifest.dropped },
+    ].filter(group => group.refs.length > 0);
+
+    return (
+        <details className="mt-0.5 text-muted-foreground">
+            <summary className="cursor-pointer">
+                Context: {manifest.included.length} records, {manifest.summarized.length} summarized, {manifest.dropped.length} dropped
+                ({manifest.usedTokens.toLocaleString()}/{manifest.budgetTokens.toLocaleString()} tokens)
+            </summary>
+            {groups.map(group => (
+                <p key={group.label} className="mt-1 font-mono">
+                    <span className="font-sans font-medium">{group.label}:</span> {group.refs.join(", ")}
+                </p>
+            ))}
+        </details>
+    );
+}
+
+function ValidationNotice({ error }: { error?: string | null }) {
+    if (!error) return null;
+    return (
+        <p className="mb-4 rounded-lg bg-warning/10 px-3 py-2 text-xs text-warning">
+            Model output could not be validated; fallback content shown. {error}
+        </p>
+    );
+}
+
 function calculateAge(dateOfBirth: string): number {
     const today = new Date();
     const dob = new Date(dateOfBirth);
@@ -84,6 +273,10 @@ export function ReportPageClient({ report }: ReportPageClientProps) {
     const patient = report.encounter.patient;
     const age = calculateAge(patient.dateOfBirth);
     const activeMedications = patient.medications.filter(m => m.status === "active");
+    const analysis = report.analysis;
+    // Stored with the analysis (reports saved before vitals were captured have none)
+    const earlyWarning = analysis?.earlyWarningScores ?? null;
+    const emLevel = analysis?.coding.emLevel;
 
     const handleApprove = async () => {
         setIsApproving(true);
@@ -129,12 +322,19 @@ export function ReportPageClient({ report }: ReportPageClientProps) {
                         </span>
                         <span className={cn(
                             "rounded-lg px-2 py-0.5 text-xs font-medium",
-                            report.status === "DRAFT"
-                                ? "bg-warning/10 text-warning"
-                                : "bg-success/10 text-success"
+                            statusColors[report.status] || statusColors.DRAFT
                         )}>
                             {report.status}
                         </span>
+                        {analysisStatusBadges[report.analysisStatus] && (
+                            <span className={cn(
+                                "inline-flex items-center gap-1 rounded-lg px-2 py-0.5 text-xs font-medium",
+                                analysisStatusBadges[report.analysisStatus].className
+                            )}>
+                                <AlertTriangle className="h-3 w-3" />
+                                {analysisStatusBadges[report.analysisStatus].label}
+                            </span>
+                        )}
                     </div>
                     <p className="mt-1 text-sm text-muted-foreground">
                         Generated by Med-Gemini AI on {new Date(report.createdAt).toLocaleDateString()} at{" "}
@@ -161,6 +361,61 @@ export function ReportPageClient({ report }: ReportPageClientProps) {
                 </div>
             </div>
 
+            {/* Live Analysis Progress */}
+            {report.status === "PROCESSING" && (
+                <div className="glass-card p-6">
+                    <h3 className="mb-4 flex items-center gap-2 font-semibold text-foreground">
+                        <Brain className="h-5 w-5 text-primary" />
+                        AI Analysis in Progress
+                    </h3>
+                    <TriageProgress
+                        key={report.id}
+                        triageReportId={report.id}
+                        onComplete={() => router.refresh()}
+                    />
+                </div>
+            )}
+
+            {/* Failed Analysis */}
+            {report.status === "FAILED" && (
+                <div className="rounded-lg border border-danger/20 bg-danger/5 p-4">
+                    <p className="flex items-center gap-2 text-sm font-semibold text-danger">
+                        <AlertTriangle className="h-4 w-4" />
+                        AI analysis failed - retry it from the triage queue
+                    </p>
+                    {report.failureReason && (
+                        <p className="mt-2 text-sm text-muted-foreground">{report.failureReason}</p>
+                    )}
+                </div>
+            )}
+
+            {/* Degraded Analysis Warning */}
+            {report.analysisStatus !== "ok" && (
+                <div className={cn(
+                    "rounded-lg border p-4",
+                    report.analysisStatus === "failed"
+                        ? "border-danger/20 bg-danger/5"
+                        : "border-warning/20 bg-warning/5"
+                )}>
+                    <p className={cn(
+                        "flex items-center gap-2 text-sm font-semibold",
+                        report.analysisStatus === "failed" ? "text-danger" : "text-warning"
+                    )}>
+                        <AlertTriangle className="h-4 w-4" />
+                        {report.analysisStatus === "failed"
+                            ? "AI diagnosis failed - the content below is fallback text, not an analysis"
+                            : "Parts of this report are fallback content or based on incomplete input"}
+                    </p>
+                    {report.agentIssues.length > 0 && (
+                        <ul className="mt-2 space-y-1 text-sm text-muted-foreground">
+                            {report.agentIssues.map((issue, i) => (
+                                <li key={i}>{issue}</li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            )}
+
             {/* Main Content Grid */}
             <div className="grid gap-6 lg:grid-cols-3">
                 {/* Left Column - Patient & Encounter Info */}
@@ -234,6 +489,48 @@ export function ReportPageClient({ report }: ReportPageClientProps) {
                                     {report.encounter.chiefComplaint || report.encounter.symptoms}
                                 </p>
                             </div>
+                            {report.encounter.vitalSigns && (
+                                <div>
+                                    <p className="text-xs font-medium uppercase text-muted">
+                                        Vital Signs
+                                    </p>
+                                    <p className="mt-1 text-sm text-foreground">
+                                        {formatVitalSigns(report.encounter.vitalSigns)}
+                                    </p>
+                                </div>
+                            )}
+                            {earlyWarning && (
+                                <div>
+                                    <p className="text-xs font-medium uppercase text-muted">
+                                        Early-Warning Scores
+                                    </p>
+                                    <div className="mt-1 flex flex-wrap gap-2">
+                                        <span className={cn("rounded px-2 py-0.5 text-xs font-medium", news2RiskColors[earlyWarning.news2.risk])}>
+                                            NEWS2 {earlyWarning.news2.score}
+                                            {earlyWarning.news2.missing.length > 0 && " (partial)"}
+                                        </span>
+                                        <span className={cn(
+                                            "rounded px-2 py-0.5 text-xs font-medium",
+                                            earlyWarning.qsofa.positive ? "bg-danger/10 text-danger" : "bg-surface-3 text-muted-foreground"
+                                        )}>
+                                            qSOFA {earlyWarning.qsofa.score}
+                                        </span>
+                                        {earlyWarning.shockIndex && (
+                                            <span className={cn(
+                                                "rounded px-2 py-0.5 text-xs font-medium",
+                                                earlyWarning.shockIndex.elevated ? "bg-warning/10 text-warning" : "bg-surface-3 text-muted-foreground"
+                                            )}>
+                                                Shock index {earlyWarning.shockIndex.value}
+                                            </span>
+                                        )}
+                                    </div>
+                                    {earlyWarning.escalationReasons.length > 0 && (
+                                        <p className="mt-2 text-xs text-muted-foreground">
+                                            Urgency at least {earlyWarning.urgencyFloor}: {earlyWarning.escalationReasons.join("; ")}
+                                        </p>
+                                    )}
+                                </div>
+                            )}
                             {report.encounter.voiceTranscript && (
                                 <div>
                                     <p className="text-xs font-medium uppercase text-muted">
@@ -311,8 +608,91 @@ export function ReportPageClient({ report }: ReportPageClientProps) {
                         <div className="p-6 prose-report">
                             <ReactMarkdown>{report.summary}</ReactMarkdown>
                         </div>
+                        {report.analysis && report.analysis.unsupportedMentions.length > 0 && (
+                            <UnsupportedMentionList mentions={report.analysis.unsupportedMentions} />
+                        )}
                     </div>
 
+                    {/* ESI acuity, flagged when it disagrees with the urgency */}
+                    {report.esi && (
+                        <div className="glass-card p-6">
+                            <h3 className="mb-4 flex items-center gap-2 font-semibold text-foreground">
+                                <Activity className="h-5 w-5 text-primary" />
+                                Emergency Severity Index
+                                <span className={cn("ml-auto rounded px-2 py-0.5 font-mono text-sm font-bold", esiColors[report.esi.level])}>
+                                    ESI {report.esi.level}
+                                </span>
+                            </h3>
+                            {report.esi.disagreement && (
+                                <p className="mb-4 flex items-center gap-2 rounded-lg bg-warning/10 px-3 py-2 text-xs text-warning">
+                                    <AlertTriangle className="h-4 w-4 shrink-0" />
+                                    {report.esi.disagreement}. Review the acuity before acting on either.
+                                </p>
+                            )}
+                            <div className="grid gap-4 md:grid-cols-2">
+                                <FindingList
+                                    title={`Decision Point ${report.esi.decisionPoint}`}
+                                    items={report.esi.rationale}
+                                />
+                                <FindingList title="Expected Resources" items={report.esi.estimatedResources} />
+                            </div>
+                        </div>
+                    )}
+
+                    {/* Clinical calculators given to the diagnosis agent */}
+                    {analysis && analysis.calculatorResults.length > 0 && (
+                        <div className="glass-card p-6">
+                            <h3 className="mb-4 flex items-center gap-2 font-semibold text-foreground">
+                                <Calculator className="h-5 w-5 text-primary" />
+                                Clinical Calculators
+                            </h3>
+                            <ClinicalCalculatorList
+                                results={analysis.calculatorResults}
+                                patientId={patient.id}
+                                encounterId={report.encounter.id}
+                            />
+                        </div>
+                    )}
+
+                    {/* Diagnosis */}
+                    {analysis && (
+                        <div className="glass-card p-6">
+                            <h3 className="mb-4 flex items-center gap-2 font-semibold text-foreground">
+                                <Stethoscope className="h-5 w-5 text-primary" />
+                                Diagnosis
+                                <span className="ml-auto font-mono text-sm text-muted-foreground">
+                                    {Math.round(analysis.diagnosis.confidence * 100)}%
+                                </span>
+                            </h3>
+                            <ValidationNotice error={analysis.diagnosis.validationError} />
+                            <div className="space-y-4">
+                                <div>
+                                    <p className="text-xs font-medium uppercase text-muted">Primary Diagnosis</p>
+                                    <p className="mt-1 font-medium text-foreground">{analysis.diagnosis.primaryDiagnosis}</p>
+                                </div>
+                                <FindingList title="Differential Diagnoses" items={analysis.diagnosis.differentialDiagnoses} />
+                                {analysis.diagnosis.redFlags.length > 0 && (
+                                    <div className="rounded-lg border border-danger/20 bg-danger/5 p-3">
+                                        <p className="mb-2 flex items-center gap-2 text-xs font-semibold uppercase text-danger">
+                                            <ShieldAlert className="h-4 w-4" />
+                                            Red Flags
+                                        </p>
+                                        <ul className="space-y-1">
+                                            {analysis.diagnosis.redFlags.map((flag, i) => (
+                                                <li key={i} className="text-sm text-foreground">{flag}</li>
+                                            ))}
+                                        </ul>
+                                    </div>
+                                )}
+                                <FindingList title="Follow-up" items={analysis.diagnosis.followUpRecommendations} />
+                                <EvidenceList
+                                    citations={analysis.citations.filter(c => c.agent === "diagnosis")}
+                                    patientId={patient.id}
+                                />
+                            </div>
+                        </div>
+                    )}
+
                     {/* Recommended Actions */}
                     <div className="glass-card p-6">
                         <h3 className="mb-4 flex items-center gap-2 font-semibold text-foreground">
@@ -365,6 +745,189 @@ export function ReportPageClient({ report }: ReportPageClientProps) {
                             )}
                         </div>
                     </div>
+
+                    {/* Calculated E/M level with its medical decision making */}
+                    {emLevel && (
+                        <div className="glass-card p-5">
+                            <h4 className="mb-1 text-sm font-semibold uppercase tracking-wider text-muted">
+                                E/M Level
+                            </h4>
+                            <p className="mb-3 text-sm text-foreground">
+                                <span className="font-mono text-success">{emLevel.code}</span>
+                                <span className="ml-2 text-muted-foreground">{emLevel.explanation}</span>
+                            </p>
+                            <dl className="grid gap-2 text-xs md:grid-cols-3">
+                                {(["problems", "data", "risk"] as const).map((element) => (
+                                    <div key={element} className="rounded-lg bg-surface-2 p-3">
+                                        <dt className="font-semibold capitalize text-foreground">
+                                            {element}: {emLevel.elements[element].level.toLowerCase()}
+                                        </dt>
+                                        <dd className="mt-1 text-muted-foreground">
+                                            {emLevel.elements[element].rationale}
+                                        </dd>
+                                    </div>
+                                ))}
+                            </dl>
+                        </div>
+                    )}
+
+                    {/* Suggestions rejected by code table validation */}
+                    {analysis?.coding.rejectedCodes && analysis.coding.rejectedCodes.length > 0 && (
+                        <div className="glass-card border border-warning/30 p-5">
+                            <h4 className="mb-1 flex items-center gap-2 text-sm font-semibold uppercase tracking-wider text-warning">
+                                <AlertTriangle className="h-4 w-4" />
+                                Rejected Code Suggestions
+                            </h4>
+                            <p className="mb-3 text-xs text-muted-foreground">
+                                These codes failed validation against the code tables and were not added to the report.
+                            </p>
+                            <ul className="space-y-3">
+                                {analysis.coding.rejectedCodes.map((rejected) => (
+                                    <li key={`${rejected.system}-${rejected.code}`} className="text-sm">
+                                        <p>
+                                            <span className="font-mono text-xs text-warning">{rejected.system} {rejected.code}</span>
+                                            <span className="ml-2 text-muted-foreground">{rejected.description}</span>
+                                        </p>
+                                        <p className="text-xs text-muted-foreground">{rejected.reason}</p>
+                                        {rejected.alternatives && rejected.alternatives.length > 0 && (
+                                            <ul className="mt-1 space-y-0.5 pl-4">
+                                                {rejected.alternatives.map((alternative) => (
+                                                    <li key={alternative} className="font-mono text-xs text-info">
+                                                        {alternative}
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                        )}
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+
+                    {/* Clinical History Analysis */}
+                    {analysis && (
+                        <div className="glass-card p-6">
+                            <h3 className="mb-4 flex items-center gap-2 font-semibold text-foreground">
+                                <History className="h-5 w-5 text-info" />
+                                Clinical History Analysis
+                            </h3>
+                            <ValidationNotice error={analysis.clinicalHistory.validationError} />
+                            <p className="mb-4 text-sm leading-relaxed text-muted-foreground">
+                                {analysis.clinicalHistory.contextSummary}
+                            </p>
+                            {analysis.interactionAlerts.length > 0 && (
+                                <div className="mb-4">
+                                    <p className="mb-2 text-xs font-medium uppercase text-muted">Interaction Alerts</p>
+                                    <InteractionAlertList alerts={analysis.interactionAlerts} />
+                                </div>
+                            )}
+                            <div className="grid gap-4 md:grid-cols-2">
+                                <FindingList title="Risk Factors" items={analysis.clinicalHistory.riskFactors} />
+                                <FindingList title="Relevant Conditions" items={analysis.clinicalHistory.relevantConditions} />
+                                <FindingList title="Medication Interactions" items={analysis.clinicalHistory.medicationInteractions} />
+                                <FindingList title="Contraindications" items={analysis.clinicalHistory.contraindications} />
+                                <FindingList title="Lab Findings" items={analysis.clinicalHistory.relevantLabFindings} />
+                                <FindingList title="Report Insights" items={analysis.clinicalHistory.reportInsights} />
+                            </div>
+                            <EvidenceList
+                                citations={analysis.citations.filter(c => c.agent === "history")}
+                                patientId={patient.id}
+                                className="mt-4"
+                            />
+                        </div>
+                    )}
+
+                    {/* Scan Analyses */}
+                    {analysis && analysis.scanAnalyses.length > 0 && (
+                        <div className="glass-card p-6">
+                            <h3 className="mb-4 flex items-center gap-2 font-semibold text-foreground">
+                                <ScanLine className="h-5 w-5 text-primary" />
+                                Imaging Analysis
+                            </h3>
+                            <div className="space-y-4">
+                                {analysis.scanAnalyses.map(scan => (
+                                    <div key={scan.scanId} className="rounded-lg border border-border p-4">
+                                        <div className="mb-2 flex items-center gap-2">
+                                            <span className="text-sm font-semibold text-foreground">
+                                                {scan.scanType}{scan.bodyPart ? ` - ${scan.bodyPart}` : ""}
+                                            </span>
+                                            <span className={cn(
+                                                "rounded-lg px-2 py-0.5 text-xs font-medium",
+                                                severityColors[scan.severity]
+                                            )}>
+                                                {scan.severity}
+                                            </span>
+                                            <span className="ml-auto font-mono text-xs text-muted-foreground">
+                                                {Math.round(scan.confidence * 100)}%
+                                            </span>
+                                        </div>
+                                        <ValidationNotice error={scan.validationError} />
+                                        <p className="mb-3 text-sm text-muted-foreground">{scan.findings}</p>
+                                        <FindingList title="Abnormalities" items={scan.abnormalities} />
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
+                    {/* Agent Activity */}
+                    {(analysis || report.agentTraces.length > 0) && (
+                        <div className="glass-card p-6">
+                            <h3 className="mb-4 flex items-center gap-2 font-semibold text-foreground">
+                                <Cpu className="h-5 w-5 text-muted-foreground" />
+                                Agent Activity
+                                {analysis && (
+                                    <span className="ml-auto text-sm font-normal text-muted-foreground">
+                                        {(analysis.processingTimeMs / 1000).toFixed(1)}s total •{" "}
+                                        {analysis.totalTokens.toLocaleString()} tokens • ${analysis.costUsd.toFixed(4)}
+                                    </span>
+                                )}
+                            </h3>
+                            {analysis && (
+                                <div className="mb-4 flex flex-wrap gap-2">
+                                    {analysis.agentsUsed.map(agent => (
+                                        <span key={agent} className="rounded-lg bg-surface-2 px-2 py-1 text-xs text-muted-foreground">
+                                            {agent}
+                                        </span>
+                                    ))}
+                                </div>
+                            )}
+                            {report.agentTraces.length > 0 && (
+                                <table className="w-full text-left text-xs">
+                                    <thead className="text-muted">
+                                        <tr>
+                                            <th className="pb-2 font-medium">Task</th>
+                                            <th className="pb-2 font-medium">Model</th>
+                                            <th className="pb-2 font-medium">Prompt</th>
+                                            <th className="pb-2 text-right font-medium">Tokens</th>
+                                            <th className="pb-2 text-right font-medium">Cost</th>
+                                            <th className="pb-2 text-right font-medium">Latency</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="divide-y divide-border">
+                                        {report.agentTraces.map(trace => (
+                                            <tr key={trace.id} className={cn(trace.error && "text-danger")}>
+                                                <td className="py-2">
+                                                    <span className="text-foreground">{trace.task}</span>
+                                                    <span className="ml-1 text-muted-foreground">({trace.agent})</span>
+                                                    {trace.cached && (
+                                                        <span className="ml-1 rounded bg-surface-2 px-1.5 py-0.5 text-muted-foreground">cached</span>
+                                                    )}
+                                                    {trace.error && <p className="mt-0.5">{trace.error}</p>}
+                                                    {trace.context && <ContextManifestDetails manifest={trace.context} />}
+                                                </td>
+                                                <td className="py-2 font-mono text-muted-foreground">{trace.provider}/{trace.model}</td>
+                                                <td className="py-2 font-mono text-muted-foreground">{trace.promptVersion}</td>
+                                                <td className="py-2 text-right font-mono text-muted-foreground">{trace.totalTokens.toLocaleString()}</td>
+                                                <td className="py-2 text-right font-mono text-muted-foreground">${trace.costUsd.toFixed(4)}</td>
+                                                <td className="py-2 text-right font-mono text-muted-foreground">{trace.latencyMs}ms</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            )}
+                        </div>
+                    )}
                 </div>
             </div>
         </div>
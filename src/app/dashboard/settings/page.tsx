@@ -21,9 +21,11 @@ import {
     Mail,
     Eye,
     EyeOff,
+    ShieldAlert,
 } from "lucide-react";
+import { RedFlagRulesSettings } from "./red-flag-rules";
 
-type SettingsSection = "main" | "profile" | "security" | "appearance";
+type SettingsSection = "main" | "profile" | "security" | "appearance" | "red-flags";
 
 function SettingsContent() {
     const { user, isLoaded } = useUser();
@@ -36,7 +38,7 @@ function SettingsContent() {
 
     useEffect(() => {
         const section = searchParams.get("section");
-        if (section && ["profile", "security", "appearance"].includes(section)) {
+        if (section && ["profile", "security", "appearance", "red-flags"].includes(section)) {
             setActiveSection(section as SettingsSection);
         }
     }, [searchParams]);
@@ -266,6 +268,20 @@ function SettingsContent() {
                             </div>
                             <ChevronRight className="h-5 w-5 text-muted group-hover:text-primary transition-colors" />
                         </button>
+
+                        <button
+                            onClick={() => setActiveSection("red-flags")}
+                            className="group flex w-full items-center gap-4 rounded-xl border border-border bg-surface-1 p-4 text-left transition-all hover:border-primary/30 hover:bg-surface-2"
+                        >
+                            <div className="flex h-11 w-11 items-center justify-center rounded-xl bg-surface-2 text-muted-foreground group-hover:bg-primary/10 group-hover:text-primary transition-colors">
+                                <ShieldAlert className="h-5 w-5" />
+                            </div>
+                            <div className="flex-1">
+                                <p className="font-medium text-foreground">Red-Flag Rules</p>
+                                <p className="text-sm text-muted-foreground">Rules that force a minimum urgency</p>
+                            </div>
+                            <ChevronRight className="h-5 w-5 text-muted group-hover:text-primary transition-colors" />
+                        </button>
                     </div>
                 </motion.div>
             </div>
@@ -565,6 +581,26 @@ function SettingsContent() {
                     </div>
                 </motion.div>
             )}
+
+            {/* Red-Flag Rules Section */}
+            {activeSection === "red-flags" && (
+                <motion.div
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    className="space-y-6"
+                >
+                    <div>
+                        <h1 className="text-2xl font-bold text-foreground font-display">
+                            Red-Flag Rules
+                        </h1>
+                        <p className="mt-1 text-muted-foreground">
+                            Rules checked on every analysis; a match adds a red flag and raises urgency to at least the rule&apos;s minimum
+                        </p>
+                    </div>
+
+                    <RedFlagRulesSettings />
+                </motion.div>
+            )}
         </div>
     );
 }
@@ -0,0 +1,453 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { cn } from "@/lib/utils";
+import { Loader2, Pencil, Plus, RotateCcw, ShieldAlert, Trash2, X } from "lucide-react";
+import { CONSCIOUSNESS_LEVELS, VITAL_SIGN_RANGES } from "@/lib/early-warning";
+import type {
+    ComparisonOperator,
+    RedFlagCondition,
+    RedFlagRule,
+    RedFlagVital,
+} from "@/lib/red-flags";
+import type { ConsciousnessLevel } from "@/lib/ai/agents/types";
+
+const CONDITION_LABELS: Record<RedFlagCondition["type"], string> = {
+    symptom: "Symptom mentions",
+    vital: "Vital sign",
+    consciousness: "Consciousness",
+    age: "Age",
+    gender: "Gender",
+    condition: "Active condition",
+    medication: "Active medication",
+    diagnosis: "Diagnosis considered",
+};
+
+const OPERATORS: ComparisonOperator[] = ["<", "<=", ">", ">="];
+
+// Form state for one condition; keywords are edited as comma-separated text
+interface ConditionDraft {
+    type: RedFlagCondition["type"];
+    keywords: string;
+    vital: RedFlagVital;
+    operator: ComparisonOperator;
+    value: string;
+    gender: "male" | "female";
+    levels: ConsciousnessLevel[];
+}
+
+interface RuleDraft {
+    id: string | null;
+    name: string;
+    description: string;
+    message: string;
+    minimumUrgency: "HIGH" | "CRITICAL";
+    enabled: boolean;
+    conditions: ConditionDraft[];
+}
+
+const EMPTY_CONDITION: ConditionDraft = {
+    type: "symptom",
+    keywords: "",
+    vital: "heartRate",
+    operator: ">",
+    value: "",
+    gender: "female",
+    levels: [],
+};
+
+function toDraft(rule: RedFlagRule | null): RuleDraft {
+    if (!rule) {
+        return {
+            id: null,
+            name: "",
+            description: "",
+            message: "",
+            minimumUrgency: "HIGH",
+            enabled: true,
+            conditions: [{ ...EMPTY_CONDITION }],
+        };
+    }
+    return {
+        id: rule.id,
+        name: rule.name,
+        description: rule.description ?? "",
+        message: rule.message,
+        minimumUrgency: rule.minimumUrgency,
+        enabled: rule.enabled,
+        conditions: rule.conditions.map(condition => ({
+            ...EMPTY_CONDITION,
+            ...condition,
+            keywords: "keywords" in condition ? condition.keywords.join(", ") : "",
+            value: "value" in condition ? String(condition.value) : "",
+        })),
+    };
+}
+
+function fromDraft(draft: ConditionDraft): RedFlagCondition {
+    const keywords = draft.keywords.split(",").map(k => k.trim()).filter(Boolean);
+    switch (draft.type) {
+        case "vital":
+            return { type: "vital", vital: draft.vital, operator: draft.operator, value: Number(draft.value) };
+        case "age":
+            return { type: "age", operator: draft.operator, value: Number(draft.value) };
+        case "gender":
+            return { type: "gender", gender: draft.gender };
+        case "consciousness":
+            return { type: "consciousness", levels: draft.levels };
+        default:
+            return { type: draft.type, keywords };
+    }
+}
+
+function describeCondition(condition: RedFlagCondition): string {
+    switch (condition.type) {
+        case "vital": {
+            const { label, unit } = VITAL_SIGN_RANGES[condition.vital];
+            return `${label} ${condition.operator} ${condition.value} ${unit}`;
+        }
+        case "age":
+            return `Age ${condition.operator} ${condition.value}`;
+        case "gender":
+            return `Gender is ${condition.gender}`;
+        case "consciousness":
+            return `Consciousness: ${condition.levels.join(" or ")}`;
+        default:
+            return `${CONDITION_LABELS[condition.type]}: ${condition.keywords.join(", ")}`;
+    }
+}
+
+const inputClassName =
+    "w-full rounded-lg border border-border bg-surface-2 px-3 py-2 text-sm text-foreground placeholder:text-muted focus:border-primary focus:outline-none";
+
+/**
+ * Red-flag rules list, with the editor for admins
+ */
+export function RedFlagRulesSettings() {
+    const [rules, setRules] = useState<RedFlagRule[]>([]);
+    const [canEdit, setCanEdit] = useState(false);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [draft, setDraft] = useState<RuleDraft | null>(null);
+
+    const loadRules = async () => {
+        try {
+            const response = await fetch("/api/red-flag-rules");
+            const data = await response.json();
+            if (!response.ok) throw new Error(data.error || "Failed to load rules");
+            setRules(data.rules);
+            setCanEdit(data.canEdit);
+        } catch (err) {
+            console.error("Failed to load red-flag rules:", err);
+            setError(err instanceof Error ? err.message : "Failed to load rules");
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        loadRules();
+    }, []);
+
+    const request = async (url: string, init: RequestInit) => {
+        setIsSaving(true);
+        setError(null);
+        try {
+            const response = await fetch(url, {
+                ...init,
+                headers: { "Content-Type": "application/json" },
+            });
+            const data = await response.json();
+            if (!response.ok) throw new Error(data.error || "Request failed");
+            await loadRules();
+            return true;
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Request failed");
+            return false;
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleSave = async () => {
+        if (!draft) return;
+        const body = JSON.stringify({
+            name: draft.name,
+            description: draft.description,
+            message: draft.message,
+            minimumUrgency: draft.minimumUrgency,
+            enabled: draft.enabled,
+            conditions: draft.conditions.map(fromDraft),
+        });
+        const saved = draft.id
+            ? await request(`/api/red-flag-rules/${draft.id}`, { method: "PATCH", body })
+            : await request("/api/red-flag-rules", { method: "POST", body });
+        if (saved) setDraft(null);
+    };
+
+    const updateCondition = (index: number, changes: Partial<ConditionDraft>) => {
+        setDraft(prev => prev && {
+            ...prev,
+            conditions: prev.conditions.map((c, i) => i === index ? { ...c, ...changes } : c),
+        });
+    };
+
+    if (isLoading) {
+        return (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Loading rules...
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-4">
+            {error && (
+                <p className="rounded-xl border border-danger/20 bg-danger/10 p-3 text-sm text-danger">{error}</p>
+            )}
+
+            {canEdit ? (
+                <div className="flex gap-2">
+                    <button
+                        onClick={() => setDraft(toDraft(null))}
+                        disabled={isSaving}
+                        className="flex items-center gap-2 rounded-xl bg-primary px-4 py-2 text-sm font-semibold text-primary-foreground transition-colors hover:bg-primary/90 disabled:opacity-50"
+                    >
+                        <Plus className="h-4 w-4" />
+                        New Rule
+                    </button>
+                    <button
+                        onClick={() => request("/api/red-flag-rules/defaults", { method: "POST" })}
+                        disabled={isSaving}
+                        className="flex items-center gap-2 rounded-xl border border-border px-4 py-2 text-sm font-medium text-foreground transition-colors hover:bg-surface-2 disabled:opacity-50"
+                    >
+                        <RotateCcw className="h-4 w-4" />
+                        Restore Default Rules
+                    </button>
+                </div>
+            ) : (
+                <p className="text-sm text-muted-foreground">Only admins can edit red-flag rules.</p>
+            )}
+
+            {/* Editor */}
+            {draft && (
+                <div className="rounded-2xl border border-primary/30 bg-surface-1 p-6 space-y-4">
+                    <div className="flex items-center justify-between">
+                        <h3 className="font-semibold text-foreground">{draft.id ? "Edit Rule" : "New Rule"}</h3>
+                        <button onClick={() => setDraft(null)} className="text-muted hover:text-foreground">
+                            <X className="h-4 w-4" />
+                        </button>
+                    </div>
+                    <input
+                        value={draft.name}
+                        onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                        placeholder="Rule name"
+                        className={inputClassName}
+                    />
+                    <input
+                        value={draft.message}
+                        onChange={(e) => setDraft({ ...draft, message: e.target.value })}
+                        placeholder="Red flag shown in the report, e.g. Possible stroke: activate the stroke pathway"
+                        className={inputClassName}
+                    />
+                    <input
+                        value={draft.description}
+                        onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                        placeholder="Description (optional)"
+                        className={inputClassName}
+                    />
+                    <div className="flex items-center gap-4">
+                        <label className="flex items-center gap-2 text-sm text-foreground">
+                            Minimum urgency
+                            <select
+                                value={draft.minimumUrgency}
+                                onChange={(e) => setDraft({ ...draft, minimumUrgency: e.target.value as RuleDraft["minimumUrgency"] })}
+                                className="rounded-lg border border-border bg-surface-2 px-2 py-1.5 text-sm text-foreground"
+                            >
+                                <option value="HIGH">HIGH</option>
+                                <option value="CRITICAL">CRITICAL</option>
+                            </select>
+                        </label>
+                        <label className="flex items-center gap-2 text-sm text-foreground">
+                            <input
+                                type="checkbox"
+                                checked={draft.enabled}
+                                onChange={(e) => setDraft({ ...draft, enabled: e.target.checked })}
+                            />
+                            Enabled
+                        </label>
+                    </div>
+
+                    <div className="space-y-2">
+                        <p className="text-xs font-medium uppercase text-muted">All of these conditions</p>
+                        {draft.conditions.map((condition, i) => (
+                            <div key={i} className="flex flex-wrap items-center gap-2 rounded-xl bg-surface-2 p-3">
+                                <select
+                                    value={condition.type}
+                                    onChange={(e) => updateCondition(i, { type: e.target.value as ConditionDraft["type"] })}
+                                    className="rounded-lg border border-border bg-surface-1 px-2 py-1.5 text-sm text-foreground"
+                                >
+                                    {Object.entries(CONDITION_LABELS).map(([value, label]) => (
+                                        <option key={value} value={value}>{label}</option>
+                                    ))}
+                                </select>
+
+                                {condition.type === "vital" && (
+                                    <select
+                                        value={condition.vital}
+                                        onChange={(e) => updateCondition(i, { vital: e.target.value as RedFlagVital })}
+                                        className="rounded-lg border border-border bg-surface-1 px-2 py-1.5 text-sm text-foreground"
+                                    >
+                                        {Object.entries(VITAL_SIGN_RANGES).map(([key, range]) => (
+                                            <option key={key} value={key}>{range.label} ({range.unit})</option>
+                                        ))}
+                                    </select>
+                                )}
+                                {(condition.type === "vital" || condition.type === "age") && (
+                                    <>
+                                        <select
+                                            value={condition.operator}
+                                            onChange={(e) => updateCondition(i, { operator: e.target.value as ComparisonOperator })}
+                                            className="rounded-lg border border-border bg-surface-1 px-2 py-1.5 text-sm text-foreground"
+                                        >
+                                            {OPERATORS.map(op => <option key={op} value={op}>{op}</option>)}
+                                        </select>
+                                        <input
+                                            type="number"
+                                            value={condition.value}
+                                            onChange={(e) => updateCondition(i, { value: e.target.value })}
+                                            className="w-24 rounded-lg border border-border bg-surface-1 px-2 py-1.5 text-sm text-foreground"
+                                        />
+                                    </>
+                                )}
+                                {condition.type === "gender" && (
+                                    <select
+                                        value={condition.gender}
+                                        onChange={(e) => updateCondition(i, { gender: e.target.value as ConditionDraft["gender"] })}
+                                        className="rounded-lg border border-border bg-surface-1 px-2 py-1.5 text-sm text-foreground"
+                                    >
+                                        <option value="female">Female</option>
+                                        <option value="male">Male</option>
+                                    </select>
+                                )}
+                                {condition.type === "consciousness" && CONSCIOUSNESS_LEVELS.map(level => (
+                                    <label key={level.value} className="flex items-center gap-1 text-xs text-foreground">
+                                        <input
+                                            type="checkbox"
+                                            checked={condition.levels.includes(level.value)}
+                                            onChange={(e) => updateCondition(i, {
+                                                levels: e.target.checked
+                                                    ? [...condition.levels, level.value]
+                                                    : condition.levels.filter(l => l !== level.value),
+                                            })}
+                                        />
+                                        {level.label}
+                                    </label>
+                                ))}
+                                {["symptom", "condition", "medication", "diagnosis"].includes(condition.type) && (
+                                    <input
+                                        value={condition.keywords}
+                                        onChange={(e) => updateCondition(i, { keywords: e.target.value })}
+                                        placeholder={condition.type === "condition" ? "Keywords or ICD-10 prefixes, comma-separated" : "Keywords, comma-separated"}
+                                        className="min-w-[16rem] flex-1 rounded-lg border border-border bg-surface-1 px-2 py-1.5 text-sm text-foreground placeholder:text-muted"
+                                    />
+                                )}
+
+                                {draft.conditions.length > 1 && (
+                                    <button
+                                        onClick={() => setDraft({ ...draft, conditions: draft.conditions.filter((_, j) => j !== i) })}
+                                        className="ml-auto text-muted hover:text-danger"
+                                    >
+                                        <Trash2 className="h-4 w-4" />
+                                    </button>
+                                )}
+                            </div>
+                        ))}
+                        <button
+                            onClick={() => setDraft({ ...draft, conditions: [...draft.conditions, { ...EMPTY_CONDITION }] })}
+                            className="flex items-center gap-1 text-sm text-primary hover:underline"
+                        >
+                            <Plus className="h-3 w-3" />
+                            Add condition
+                        </button>
+                    </div>
+
+                    <button
+                        onClick={handleSave}
+                        disabled={isSaving || !draft.name.trim() || !draft.message.trim()}
+                        className="flex items-center gap-2 rounded-xl bg-primary px-6 py-3 text-sm font-semibold text-primary-foreground transition-colors hover:bg-primary/90 disabled:opacity-50"
+                    >
+                        {isSaving && <Loader2 className="h-4 w-4 animate-spin" />}
+                        Save Rule
+                    </button>
+                </div>
+            )}
+
+            {/* Rules */}
+            {rules.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No red-flag rules are configured.</p>
+            ) : (
+                <div className="space-y-2">
+                    {rules.map((rule) => (
+                        <div
+                            key={rule.id}
+                            className={cn(
+                                "rounded-xl border border-border bg-surface-1 p-4",
+                                !rule.enabled && "opacity-60"
+                            )}
+                        >
+                            <div className="flex items-center gap-2">
+                                <ShieldAlert className="h-4 w-4 shrink-0 text-danger" />
+                                <p className="font-medium text-foreground">{rule.name}</p>
+                                <span className={cn(
+                                    "rounded px-2 py-0.5 text-xs font-medium",
+                                    rule.minimumUrgency === "CRITICAL" ? "bg-danger/10 text-danger" : "bg-warning/10 text-warning"
+                                )}>
+                                    {rule.minimumUrgency}
+                                </span>
+                                {!rule.enabled && (
+                                    <span className="rounded bg-surface-3 px-2 py-0.5 text-xs text-muted-foreground">Disabled</span>
+                                )}
+                                {canEdit && (
+                                    <div className="ml-auto flex items-center gap-2">
+                                        <button
+                                            onClick={() => request(`/api/red-flag-rules/${rule.id}`, {
+                                                method: "PATCH",
+                                                body: JSON.stringify({ enabled: !rule.enabled }),
+                                            })}
+                                            disabled={isSaving}
+                                            className="text-xs text-muted-foreground hover:text-foreground"
+                                        >
+                                            {rule.enabled ? "Disable" : "Enable"}
+                                        </button>
+                                        <button onClick={() => setDraft(toDraft(rule))} className="text-muted hover:text-foreground">
+                                            <Pencil className="h-4 w-4" />
+                                        </button>
+                                        <button
+                                            onClick={() => request(`/api/red-flag-rules/${rule.id}`, { method: "DELETE" })}
+                                            disabled={isSaving}
+                                            className="text-muted hover:text-danger"
+                                        >
+                                            <Trash2 className="h-4 w-4" />
+                                        </button>
+                                    </div>
+                                )}
+                            </div>
+                            <p className="mt-1 text-sm text-foreground">{rule.message}</p>
+                            {rule.description && <p className="mt-0.5 text-xs text-muted-foreground">{rule.description}</p>}
+                            <ul className="mt-2 flex flex-wrap gap-1.5">
+                                {rule.conditions.map((condition, i) => (
+                                    <li key={i} className="rounded bg-surface-2 px-2 py-0.5 text-xs text-muted-foreground">
+                                        {describeCondition(condition)}
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,18 @@
+import { NextRequest } from "next/server";
+import { FhirError, fhirBaseUrl, fhirResponse, patientEverything, requireFhirUser, withFhirErrors } from "@/lib/fhir";
+
+// GET /fhir/r4/Patient/[id]/$everything - The patient's whole record as a Bundle
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ resourceType: string; id: string }> }
+) {
+    return withFhirErrors(async () => {
+        await requireFhirUser();
+
+        const { resourceType, id } = await params;
+        if (resourceType !== "Patient") {
+            throw new FhirError(404, "not-supported", `$everything is not supported on ${resourceType}`);
+        }
+        return fhirResponse(await patientEverything(id, fhirBaseUrl(request)));
+    });
+}
@@ -0,0 +1,15 @@
+import { NextRequest } from "next/server";
+import { fhirResponse, getResourceHandler, requireFhirUser, withFhirErrors } from "@/lib/fhir";
+
+// GET /fhir/r4/[resourceType]/[id] - Read a resource
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ resourceType: string; id: string }> }
+) {
+    return withFhirErrors(async () => {
+        await requireFhirUser();
+
+        const { resourceType, id } = await params;
+        return fhirResponse(await getResourceHandler(resourceType).read(id));
+    });
+}
@@ -0,0 +1,47 @@
+import { NextRequest } from "next/server";
+import {
+    fhirBaseUrl,
+    fhirResponse,
+    getResourceHandler,
+    parseSearchQuery,
+    readResource,
+    requireFhirUser,
+    searchsetBundle,
+    withFhirErrors,
+} from "@/lib/fhir";
+
+// GET /fhir/r4/[resourceType] - Search resources of a type, as a searchset Bundle
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ resourceType: string }> }
+) {
+    return withFhirErrors(async () => {
+        await requireFhirUser();
+
+        const { resourceType } = await params;
+        const handler = getResourceHandler(resourceType);
+        const query = parseSearchQuery(request.nextUrl.searchParams, handler.searchParams);
+
+        const { resources, total } = await handler.search(query);
+        return fhirResponse(searchsetBundle(new URL(request.url), resources, total, query));
+    });
+}
+
+// POST /fhir/r4/[resourceType] - Create a resource
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ resourceType: string }> }
+) {
+    return withFhirErrors(async () => {
+        await requireFhirUser();
+
+        const { resourceType } = await params;
+        const handler = getResourceHandler(resourceType);
+        const resource = await handler.create(await readResource(request));
+
+        return fhirResponse(resource, {
+            status: 201,
+            headers: { Location: `${fhirBaseUrl(request)}/${resource.resourceType}/${resource.id}` },
+        });
+    });
+}
@@ -0,0 +1,7 @@
+import { NextRequest } from "next/server";
+import { capabilityStatement, fhirBaseUrl, fhirResponse, RESOURCE_HANDLERS } from "@/lib/fhir";
+
+// GET /fhir/r4/metadata - FHIR CapabilityStatement (public, per the FHIR specification)
+export async function GET(request: NextRequest) {
+    return fhirResponse(capabilityStatement(fhirBaseUrl(request), RESOURCE_HANDLERS));
+}
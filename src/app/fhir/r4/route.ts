@@ -0,0 +1,11 @@
+import { NextRequest } from "next/server";
+import { fhirBaseUrl, fhirResponse, importBundle, readResource, requireFhirUser, withFhirErrors } from "@/lib/fhir";
+
+// POST /fhir/r4 - Import a transaction or collection Bundle of patient records
+export async function POST(request: NextRequest) {
+    return withFhirErrors(async () => {
+        await requireFhirUser();
+
+        return fhirResponse(await importBundle(await readResource(request), fhirBaseUrl(request)));
+    });
+}
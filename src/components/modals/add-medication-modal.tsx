@@ -3,6 +3,8 @@
 import { useEffect, useState } from "react";
 import { motion, AnimatePresence } from "motion/react";
 import { X, Pill, Plus, Loader2 } from "lucide-react";
+import { InteractionAlertList } from "@/components/ui/interaction-alerts";
+import type { InteractionAlert } from "@/lib/ai/agents/types";
 
 interface AddMedicationModalProps {
     isOpen: boolean;
@@ -23,6 +25,16 @@ const routeOptions = [
     { value: "other", label: "Other" },
 ];
 
+// Wait for the user to stop typing before checking interactions
+const INTERACTION_CHECK_DELAY_MS = 500;
+
+interface InteractionCheck {
+    // The name and generic name the result was checked for
+    query: string;
+    alerts: InteractionAlert[];
+    recognized: boolean;
+}
+
 const frequencyOptions = [
     { value: "once daily", label: "Once daily" },
     { value: "twice daily", label: "Twice daily" },
@@ -57,6 +69,8 @@ export function AddMedicationModal({
     const [prescribedBy, setPrescribedBy] = useState("");
     const [notes, setNotes] = useState("");
 
+    const [interactionCheck, setInteractionCheck] = useState<InteractionCheck | null>(null);
+
     // Reset form when modal opens
     useEffect(() => {
         if (isOpen) {
@@ -73,6 +87,41 @@ export function AddMedicationModal({
         }
     }, [isOpen]);
 
+    // Check the medication against the patient's active medications and allergies as it is typed
+    const interactionQuery = `${name.trim()}|${genericName.trim()}`;
+    useEffect(() => {
+        if (!isOpen || name.trim().length < 3) return;
+
+        const controller = new AbortController();
+        const timer = setTimeout(async () => {
+            try {
+                const params = new URLSearchParams({ name: name.trim() });
+                if (genericName.trim()) params.set("genericName", genericName.trim());
+                const response = await fetch(
+                    `/api/patients/${patientId}/medications/interactions?${params}`,
+                    { signal: controller.signal }
+                );
+                if (!response.ok) return;
+
+                const data = await response.json();
+                setInteractionCheck({ query: interactionQuery, alerts: data.alerts, recognized: data.recognized });
+            } catch (err) {
+                // The check is advisory; a failure doesn't block adding the medication
+                if (!controller.signal.aborted) {
+                    console.error("Interaction check failed:", err);
+                }
+            }
+        }, INTERACTION_CHECK_DELAY_MS);
+
+        return () => {
+            clearTimeout(timer);
+            controller.abort();
+        };
+    }, [isOpen, patientId, name, genericName, interactionQuery]);
+
+    // Results for an earlier name are not shown
+    const currentCheck = interactionCheck?.query === interactionQuery ? interactionCheck : null;
+
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         setIsLoading(true);
@@ -187,6 +236,21 @@ export function AddMedicationModal({
                                 />
                             </div>
 
+                            {/* Interaction Alerts */}
+                            {currentCheck && currentCheck.alerts.length > 0 && (
+                                <div>
+                                    <p className="mb-2 text-sm font-medium text-foreground">
+                                        Interaction Alerts
+                                    </p>
+                                    <InteractionAlertList alerts={currentCheck.alerts} />
+                                </div>
+                            )}
+                            {currentCheck && !currentCheck.recognized && (
+                                <p className="text-xs text-muted-foreground">
+                                    Not found in the interaction dataset; no interaction check was possible.
+                                </p>
+                            )}
+
                             {/* Dosage & Frequency */}
                             <div className="grid grid-cols-2 gap-4">
                                 <div>
@@ -2,7 +2,8 @@
 
 import { useEffect, useState, useRef } from "react";
 import { motion, AnimatePresence } from "motion/react";
-import { X, FileText, Plus, Loader2, Upload, Sparkles, Check } from "lucide-react";
+import { X, FileText, Plus, Loader2, Upload, Sparkles, Check, ShieldAlert } from "lucide-react";
+import type { InstructionFinding } from "@/lib/untrusted-content";
 
 interface AddReportModalProps {
     isOpen: boolean;
@@ -42,6 +43,8 @@ export function AddReportModal({
     const [conclusion, setConclusion] = useState("");
     const [fileUrl, setFileUrl] = useState("");
     const [fileType, setFileType] = useState<string | null>(null);
+    const [extractedData, setExtractedData] = useState<Record<string, unknown> | null>(null);
+    const [instructionFindings, setInstructionFindings] = useState<InstructionFinding[]>([]);
 
     // Reset form when modal opens
     useEffect(() => {
@@ -54,6 +57,8 @@ export function AddReportModal({
             setConclusion("");
             setFileUrl("");
             setFileType(null);
+            setExtractedData(null);
+            setInstructionFindings([]);
             setError(null);
             setExtractionSuccess(false);
         }
@@ -130,7 +135,7 @@ export function AddReportModal({
                 throw new Error(data.error || "Failed to extract data");
             }
 
-            const { formData } = await response.json();
+            const { formData, instructionFindings } = await response.json();
 
             // Auto-fill form with extracted data
             if (formData.type) setType(formData.type);
@@ -139,6 +144,8 @@ export function AddReportModal({
             if (formData.providerName) setProviderName(formData.providerName);
             if (formData.findings) setFindings(formData.findings);
             if (formData.conclusion) setConclusion(formData.conclusion);
+            setExtractedData(formData.extractedData ?? null);
+            setInstructionFindings(instructionFindings ?? []);
 
             setExtractionSuccess(true);
         } catch (err) {
@@ -166,6 +173,7 @@ export function AddReportModal({
                     conclusion: conclusion || null,
                     fileUrl: fileUrl || null,
                     fileType: fileType || null,
+                    extractedData,
                 }),
             });
 
@@ -295,6 +303,23 @@ export function AddReportModal({
                                 )}
                             </div>
 
+                            {instructionFindings.length > 0 && (
+                                <div className="rounded-md border border-warning/20 bg-warning/10 p-3 text-sm text-warning">
+                                    <p className="flex items-center gap-2 font-medium">
+                                        <ShieldAlert className="h-4 w-4 shrink-0" />
+                                        This document contains text that reads like instructions to the AI
+                                    </p>
+                                    <ul className="mt-2 space-y-1 text-xs">
+                                        {instructionFindings.map((finding, i) => (
+                                            <li key={i}>&ldquo;{finding.excerpt}&rdquo;</li>
+                                        ))}
+                                    </ul>
+                                    <p className="mt-2 text-xs">
+                                        The report will be quarantined and left out of AI analysis until it is approved on the patient page.
+                                    </p>
+                                </div>
+                            )}
+
                             {/* Report Type & Title */}
                             <div className="grid grid-cols-2 gap-4">
                                 <div>
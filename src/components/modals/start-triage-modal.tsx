@@ -2,6 +2,8 @@
 
 import { useState, useEffect } from "react";
 import { Modal, ModalBody, ModalFooter } from "@/components/ui/modal";
+import { TriageProgress } from "@/components/ui/triage-progress";
+import Link from "next/link";
 import { motion } from "motion/react";
 import {
     User,
@@ -15,8 +17,14 @@ import {
     ChevronDown,
     Image,
     CheckCircle2,
+    Activity,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import {
+    CONSCIOUSNESS_LEVELS,
+    calculateEarlyWarningScores,
+    validateVitalSigns,
+} from "@/lib/early-warning";
 
 interface Patient {
     id: string;
@@ -37,15 +45,47 @@ interface Scan {
     };
 }
 
+interface StartedTriage {
+    encounterId: string;
+    patientId: string;
+    triageReportId: string;
+}
+
 interface StartTriageModalProps {
     isOpen: boolean;
     onClose: () => void;
     patients: Patient[];
     selectedPatientId?: string;
-    onSuccess?: (result: { encounterId: string; patientId: string }) => void;
+    // Called when the triage is started and again when its analysis finishes
+    onSuccess?: (result: StartedTriage) => void;
     availableScans?: Scan[];
 }
 
+const emptyVitals = {
+    bloodPressureSystolic: "",
+    bloodPressureDiastolic: "",
+    heartRate: "",
+    respiratoryRate: "",
+    oxygenSaturation: "",
+    temperature: "",
+    consciousness: "",
+    supplementalOxygen: false,
+};
+
+const vitalFields: { key: keyof typeof emptyVitals; label: string; placeholder: string }[] = [
+    { key: "bloodPressureSystolic", label: "Systolic BP (mmHg)", placeholder: "120" },
+    { key: "bloodPressureDiastolic", label: "Diastolic BP (mmHg)", placeholder: "80" },
+    { key: "heartRate", label: "Heart Rate (bpm)", placeholder: "75" },
+    { key: "respiratoryRate", label: "Resp. Rate (/min)", placeholder: "16" },
+    { key: "oxygenSaturation", label: "SpO2 (%)", placeholder: "98" },
+    { key: "temperature", label: "Temperature (°C)", placeholder: "37.0" },
+];
+
+const urgencyFloorStyles: Record<string, string> = {
+    CRITICAL: "bg-danger/10 border-danger/20 text-danger",
+    HIGH: "bg-warning/10 border-warning/20 text-warning",
+};
+
 // Modern input styling
 const inputBaseStyles = "w-full h-11 rounded-lg border border-border bg-surface-2 px-3 pr-10 text-sm text-foreground transition-all duration-200 focus:border-primary focus:outline-none focus:ring-2 focus:ring-primary/20 disabled:opacity-50 disabled:cursor-not-allowed";
 const labelStyles = "block text-sm font-medium text-foreground mb-2.5";
@@ -64,9 +104,12 @@ export function StartTriageModal({
         voiceTranscript: "",
     });
     const [selectedScanIds, setSelectedScanIds] = useState<string[]>([]);
+    const [vitalInputs, setVitalInputs] = useState(emptyVitals);
     const [isRecording, setIsRecording] = useState(false);
     const [isProcessing, setIsProcessing] = useState(false);
     const [error, setError] = useState("");
+    // Set once the triage is started; the modal then shows live analysis progress
+    const [startedTriage, setStartedTriage] = useState<StartedTriage | null>(null);
 
     // Update patientId when selectedPatientId changes or modal opens
     useEffect(() => {
@@ -139,6 +182,15 @@ export function StartTriageModal({
         }
     };
 
+    // Validated on every change so the scores preview as the vitals are entered
+    const vitalCheck = validateVitalSigns({
+        ...vitalInputs,
+        supplementalOxygen: vitalInputs.supplementalOxygen || undefined,
+    });
+    // An unticked box counts as room air once any other vital is entered
+    const vitals = vitalCheck.vitals ? { supplementalOxygen: false, ...vitalCheck.vitals } : null;
+    const earlyWarning = calculateEarlyWarningScores(vitals);
+
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         setIsProcessing(true);
@@ -155,6 +207,7 @@ export function StartTriageModal({
                     symptoms: formData.symptoms,
                     voiceTranscript: formData.voiceTranscript || undefined,
                     scanIds: selectedScanIds.length > 0 ? selectedScanIds : undefined,
+                    vitalSigns: vitals ?? undefined,
                 }),
             });
 
@@ -165,7 +218,7 @@ export function StartTriageModal({
 
             const result = await response.json();
             onSuccess?.(result);
-            handleClose();
+            setStartedTriage(result);
         } catch (err) {
             setError(err instanceof Error ? err.message : "Something went wrong");
         } finally {
@@ -178,11 +231,54 @@ export function StartTriageModal({
         if (isRecording) stopRecording();
         setFormData({ patientId: "", symptoms: "", voiceTranscript: "" });
         setSelectedScanIds([]);
+        setVitalInputs(emptyVitals);
         setError("");
+        setStartedTriage(null);
         onClose();
     };
 
-    const isFormValid = formData.patientId && formData.symptoms;
+    const isFormValid = formData.patientId && formData.symptoms && vitalCheck.errors.length === 0;
+
+    if (startedTriage) {
+        return (
+            <Modal
+                isOpen={isOpen}
+                onClose={handleClose}
+                title="AI Triage in Progress"
+                description="Results appear as each agent completes"
+                size="lg"
+            >
+                <ModalBody className="space-y-4">
+                    <p className="text-sm text-muted-foreground">
+                        The analysis runs in the background - you can close this window and
+                        find the report in the triage queue.
+                    </p>
+                    <TriageProgress
+                        key={startedTriage.triageReportId}
+                        triageReportId={startedTriage.triageReportId}
+                        onComplete={() => onSuccess?.(startedTriage)}
+                    />
+                </ModalBody>
+                <ModalFooter>
+                    <button
+                        type="button"
+                        onClick={handleClose}
+                        className="rounded-xl border border-border bg-surface-2 px-4 py-2.5 text-sm font-medium text-foreground hover:bg-surface-3 transition-colors"
+                    >
+                        Close
+                    </button>
+                    <Link
+                        href={`/dashboard/reports/${startedTriage.triageReportId}`}
+                        onClick={handleClose}
+                        className="flex items-center gap-2 rounded-xl btn-triage-gradient px-5 py-2.5 text-sm font-semibold"
+                    >
+                        <FileText className="h-4 w-4" />
+                        View Report
+                    </Link>
+                </ModalFooter>
+            </Modal>
+        );
+    }
 
     return (
         <Modal
@@ -265,6 +361,95 @@ export function StartTriageModal({
                         />
                     </div>
 
+                    {/* Vital Signs */}
+                    <div>
+                        <label className={labelStyles}>
+                            <span className="flex items-center gap-2">
+                                <Activity className="h-3.5 w-3.5 text-muted" />
+                                Vital Signs <span className="text-muted font-normal">(Optional)</span>
+                            </span>
+                        </label>
+                        <div className="rounded-xl border border-border bg-surface-2/50 p-4 space-y-3">
+                            <div className="grid grid-cols-3 gap-3">
+                                {vitalFields.map((field) => (
+                                    <div key={field.key}>
+                                        <p className="mb-1 text-xs text-muted-foreground">{field.label}</p>
+                                        <input
+                                            type="number"
+                                            inputMode="decimal"
+                                            step="any"
+                                            value={vitalInputs[field.key] as string}
+                                            onChange={(e) => setVitalInputs({ ...vitalInputs, [field.key]: e.target.value })}
+                                            placeholder={field.placeholder}
+                                            disabled={isProcessing}
+                                            className={cn(inputBaseStyles, "h-9 pr-3")}
+                                        />
+                                    </div>
+                                ))}
+                            </div>
+                            <div className="grid grid-cols-2 gap-3">
+                                <div>
+                                    <p className="mb-1 text-xs text-muted-foreground">Consciousness (ACVPU)</p>
+                                    <div className="relative">
+                                        <select
+                                            value={vitalInputs.consciousness}
+                                            onChange={(e) => setVitalInputs({ ...vitalInputs, consciousness: e.target.value })}
+                                            disabled={isProcessing}
+                                            className={cn(inputBaseStyles, "h-9 appearance-none cursor-pointer")}
+                                        >
+                                            <option value="">Not assessed</option>
+                                            {CONSCIOUSNESS_LEVELS.map((level) => (
+                                                <option key={level.value} value={level.value}>
+                                                    {level.label}
+                                                </option>
+                                            ))}
+                                        </select>
+                                        <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted pointer-events-none" />
+                                    </div>
+                                </div>
+                                <label className="flex items-end gap-2 pb-2 text-sm text-foreground cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={vitalInputs.supplementalOxygen}
+                                        onChange={(e) => setVitalInputs({ ...vitalInputs, supplementalOxygen: e.target.checked })}
+                                        disabled={isProcessing}
+                                        className="h-4 w-4 accent-primary"
+                                    />
+                                    On supplemental oxygen
+                                </label>
+                            </div>
+
+                            {vitalCheck.errors.length > 0 && (
+                                <ul className="space-y-0.5 text-xs text-danger">
+                                    {vitalCheck.errors.map((message) => (
+                                        <li key={message}>{message}</li>
+                                    ))}
+                                </ul>
+                            )}
+
+                            {earlyWarning && vitalCheck.errors.length === 0 && (
+                                <div
+                                    className={cn(
+                                        "rounded-lg border px-3 py-2 text-xs",
+                                        urgencyFloorStyles[earlyWarning.urgencyFloor] ?? "bg-surface-3 border-border text-muted-foreground"
+                                    )}
+                                >
+                                    <p className="font-medium">
+                                        NEWS2 {earlyWarning.news2.score}
+                                        {earlyWarning.news2.missing.length > 0 && " (partial)"}
+                                        {" · "}qSOFA {earlyWarning.qsofa.score}
+                                        {earlyWarning.shockIndex && ` · Shock index ${earlyWarning.shockIndex.value}`}
+                                    </p>
+                                    {earlyWarning.escalationReasons.length > 0 && (
+                                        <p className="mt-0.5">
+                                            Urgency will be at least {earlyWarning.urgencyFloor}: {earlyWarning.escalationReasons.join("; ")}
+                                        </p>
+                                    )}
+                                </div>
+                            )}
+                        </div>
+                    </div>
+
                     {/* Scans Selection - Only show when patient is selected and has scans */}
                     {formData.patientId && patientScans.length > 0 && (
                         <div>
@@ -0,0 +1,172 @@
+"use client";
+
+import { useState } from "react";
+import { Calculator, Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { CalculatorInputDefinition, CalculatorInputValue, CalculatorResult } from "@/lib/ai/agents/types";
+
+interface ClinicalCalculatorListProps {
+    results: CalculatorResult[];
+    patientId: string;
+    encounterId: string;
+    className?: string;
+}
+
+// Select value for a missing input: "" until chosen, then "yes"/"no" or an option's points
+function parseInputValue(input: CalculatorInputDefinition, raw: string): CalculatorInputValue | undefined {
+    if (raw === "") return undefined;
+    if (input.options) return Number(raw);
+    return raw === "yes";
+}
+
+function formatPoints(points: number): string {
+    return `${points >= 0 ? "+" : ""}${points}`;
+}
+
+/**
+ * Entry form for the inputs a calculator still needs from the clinician
+ */
+function MissingInputsForm({
+    result,
+    patientId,
+    encounterId,
+    onScored,
+}: {
+    result: CalculatorResult;
+    patientId: string;
+    encounterId: string;
+    onScored: (result: CalculatorResult) => void;
+}) {
+    const [entries, setEntries] = useState<Record<string, string>>({});
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const inputs: Record<string, CalculatorInputValue> = {};
+    for (const input of result.missingInputs) {
+        const value = parseInputValue(input, entries[input.id] ?? "");
+        if (value !== undefined) inputs[input.id] = value;
+    }
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        setError(null);
+        try {
+            const response = await fetch(`/api/patients/${patientId}/calculators`, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ encounterId, calculatorId: result.calculatorId, inputs }),
+            });
+            const data = await response.json();
+            if (!response.ok) {
+                throw new Error(data.error || "Failed to save inputs");
+            }
+            setEntries({});
+            onScored(data.result);
+        } catch (err) {
+            console.error("Calculator input save failed:", err);
+            setError(err instanceof Error ? err.message : "Failed to save inputs");
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="mt-3 space-y-2 rounded-md border border-dashed border-border p-3">
+            <p className="text-xs font-medium uppercase text-muted">Needed from the clinician</p>
+            {result.missingInputs.map((input) => (
+                <label key={input.id} className="flex items-center justify-between gap-3 text-xs text-foreground">
+                    <span>
+                        {input.label}
+                        {input.points !== undefined && (
+                            <span className="ml-1 text-muted-foreground">({formatPoints(input.points)})</span>
+                        )}
+                    </span>
+                    <select
+                        value={entries[input.id] ?? ""}
+                        onChange={(e) => setEntries(prev => ({ ...prev, [input.id]: e.target.value }))}
+                        className="rounded-md border border-border bg-surface-2 px-2 py-1 text-xs text-foreground focus:border-primary focus:outline-none"
+                    >
+                        <option value="">-</option>
+                        {input.options
+                            ? input.options.map(option => (
+                                <option key={option.value} value={option.value}>
+                                    {option.label} ({formatPoints(option.value)})
+                                </option>
+                            ))
+                            : (
+                                <>
+                                    <option value="yes">Yes</option>
+                                    <option value="no">No</option>
+                                </>
+                            )}
+                    </select>
+                </label>
+            ))}
+            {error && <p className="text-xs text-danger">{error}</p>}
+            <div className="flex justify-end">
+                <button
+                    type="button"
+                    onClick={handleSave}
+                    disabled={isSaving || Object.keys(inputs).length === 0}
+                    className="flex items-center gap-1.5 rounded-md bg-primary px-3 py-1 text-xs font-medium text-primary-foreground disabled:opacity-50"
+                >
+                    {isSaving && <Loader2 className="h-3 w-3 animate-spin" />}
+                    Save and rescore
+                </button>
+            </div>
+        </div>
+    );
+}
+
+/**
+ * Clinical calculator scores with their inputs, and forms for the inputs the
+ * record couldn't supply (saved to the encounter for the next analysis)
+ */
+export function ClinicalCalculatorList({ results: initialResults, patientId, encounterId, className }: ClinicalCalculatorListProps) {
+    const [results, setResults] = useState(initialResults);
+
+    if (results.length === 0) return null;
+
+    const replaceResult = (updated: CalculatorResult) =>
+        setResults(prev => prev.map(r => r.calculatorId === updated.calculatorId ? updated : r));
+
+    return (
+        <ul className={cn("space-y-3", className)}>
+            {results.map((result) => (
+                <li key={result.calculatorId} className="rounded-md border border-border bg-surface-2 px-3 py-2">
+                    <div className="flex items-center gap-2 text-sm font-medium text-foreground">
+                        <Calculator className="h-4 w-4 shrink-0 text-primary" />
+                        {result.name}
+                        <span className={cn(
+                            "ml-auto rounded px-2 py-0.5 font-mono text-xs font-bold",
+                            result.complete ? "bg-primary/10 text-primary" : "bg-surface-3 text-muted-foreground"
+                        )}>
+                            {result.complete ? result.score : `${result.score} (partial)`}
+                        </span>
+                    </div>
+                    {result.interpretation && (
+                        <p className="mt-1 text-xs text-foreground">{result.interpretation}</p>
+                    )}
+                    {result.inputs.length > 0 && (
+                        <ul className="mt-2 space-y-0.5">
+                            {result.inputs.map((input) => (
+                                <li key={input.id} className="text-xs text-muted-foreground">
+                                    <span className="font-mono">{formatPoints(input.points)}</span> {input.label}
+                                    <span className="ml-1 opacity-70">- {input.source}</span>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                    {result.missingInputs.length > 0 && (
+                        <MissingInputsForm
+                            result={result}
+                            patientId={patientId}
+                            encounterId={encounterId}
+                            onScored={replaceResult}
+                        />
+                    )}
+                </li>
+            ))}
+        </ul>
+    );
+}
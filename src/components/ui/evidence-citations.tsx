@@ -0,0 +1,137 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { AlertTriangle, ExternalLink, FileText, History, Pill, ScanLine, Stethoscope } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Modal, ModalBody, ModalFooter } from "@/components/ui/modal";
+import { recordAnchor } from "@/lib/citations";
+import type { CitationSourceType, VerifiedCitation } from "@/lib/ai/agents/types";
+
+interface EvidenceCitationChipsProps {
+    citations: VerifiedCitation[];
+    patientId: string;
+    className?: string;
+}
+
+const sourceIcons: Record<CitationSourceType, typeof FileText> = {
+    MedicalHistory: History,
+    Medication: Pill,
+    ExternalReport: FileText,
+    Scan: ScanLine,
+    Encounter: Stethoscope,
+};
+
+const sourceLabels: Record<CitationSourceType, string> = {
+    MedicalHistory: "Medical history",
+    Medication: "Medication",
+    ExternalReport: "External report",
+    Scan: "Scan",
+    Encounter: "Encounter",
+};
+
+/**
+ * Record text with the cited quote highlighted (shown plain when it isn't found verbatim)
+ */
+function HighlightedText({ text, quote }: { text: string; quote: string }) {
+    const start = quote ? text.toLowerCase().indexOf(quote.toLowerCase()) : -1;
+    if (start < 0) return <>{text}</>;
+    return (
+        <>
+            {text.slice(0, start)}
+            <mark className="rounded bg-primary/20 px-0.5 text-foreground">{text.slice(start, start + quote.length)}</mark>
+            {text.slice(start + quote.length)}
+        </>
+    );
+}
+
+/**
+ * Chips linking AI claims to the records they cite; a chip opens the record
+ * with the quoted text, and unverified citations are marked with the reason
+ */
+export function EvidenceCitationChips({ citations, patientId, className }: EvidenceCitationChipsProps) {
+    const [selected, setSelected] = useState<VerifiedCitation | null>(null);
+
+    if (citations.length === 0) return null;
+
+    return (
+        <>
+            <div className={cn("flex flex-wrap gap-1.5", className)}>
+                {citations.map((citation, i) => {
+                    const Icon = citation.sourceType ? sourceIcons[citation.sourceType] : AlertTriangle;
+                    return (
+                        <button
+                            key={i}
+                            type="button"
+                            onClick={() => setSelected(citation)}
+                            title={citation.verified ? citation.claim : `${citation.claim} (unverified: ${citation.issue})`}
+                            className={cn(
+                                "flex max-w-full items-center gap-1.5 rounded-full border px-2.5 py-0.5 text-xs transition-colors",
+                                citation.verified
+                                    ? "border-primary/20 bg-primary/5 text-foreground hover:bg-primary/10"
+                                    : "border-warning/30 bg-warning/10 text-warning hover:bg-warning/20"
+                            )}
+                        >
+                            <Icon className="h-3 w-3 shrink-0" />
+                            <span className="truncate">{citation.claim}</span>
+                            {!citation.verified && <AlertTriangle className="h-3 w-3 shrink-0" />}
+                        </button>
+                    );
+                })}
+            </div>
+
+            <Modal
+                isOpen={selected !== null}
+                onClose={() => setSelected(null)}
+                title={selected?.record?.label ?? "Unresolved citation"}
+                description={selected?.sourceType ? sourceLabels[selected.sourceType] : undefined}
+                size="lg"
+            >
+                {selected && (
+                    <>
+                        <ModalBody className="space-y-4">
+                            <div>
+                                <p className="text-xs font-medium uppercase text-muted">Claim</p>
+                                <p className="mt-1 text-sm text-foreground">{selected.claim}</p>
+                            </div>
+                            {!selected.verified && (
+                                <p className="flex items-start gap-2 rounded-lg bg-warning/10 px-3 py-2 text-xs text-warning">
+                                    <AlertTriangle className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+                                    Not verified: {selected.issue}
+                                </p>
+                            )}
+                            {selected.quote && (
+                                <div>
+                                    <p className="text-xs font-medium uppercase text-muted">Quoted by the AI</p>
+                                    <p className="mt-1 text-sm italic text-muted-foreground">&ldquo;{selected.quote}&rdquo;</p>
+                                </div>
+                            )}
+                            {selected.record && (
+                                <div>
+                                    <p className="text-xs font-medium uppercase text-muted">
+                                        Record as analyzed
+                                        {selected.record.date && ` (${new Date(selected.record.date).toLocaleDateString()})`}
+                                    </p>
+                                    <p className="mt-1 whitespace-pre-wrap rounded-lg bg-surface-2 p-3 text-sm text-foreground">
+                                        <HighlightedText text={selected.record.text} quote={selected.quote} />
+                                    </p>
+                                </div>
+                            )}
+                        </ModalBody>
+                        {selected.record && selected.sourceType && selected.sourceId && (
+                            <ModalFooter>
+                                <Link
+                                    href={`/dashboard/patients/${patientId}#${recordAnchor(selected.sourceType, selected.sourceId)}`}
+                                    className="flex items-center gap-2 rounded-lg bg-primary px-4 py-2 text-sm font-medium text-primary-foreground transition-colors hover:bg-primary/90"
+                                >
+                                    <ExternalLink className="h-4 w-4" />
+                                    Open in patient record
+                                </Link>
+                            </ModalFooter>
+                        )}
+                    </>
+                )}
+            </Modal>
+        </>
+    );
+}
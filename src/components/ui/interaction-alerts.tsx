@@ -0,0 +1,46 @@
+"use client";
+
+import { AlertTriangle, ShieldAlert } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { InteractionAlert, InteractionSeverity } from "@/lib/ai/agents/types";
+
+const severityStyles: Record<InteractionSeverity, { label: string; className: string }> = {
+    contraindicated: { label: "Contraindicated", className: "border-danger/30 bg-danger/10 text-danger" },
+    major: { label: "Major", className: "border-warning/30 bg-warning/10 text-warning" },
+    moderate: { label: "Moderate", className: "border-info/30 bg-info/10 text-info" },
+    minor: { label: "Minor", className: "border-border bg-surface-2 text-muted-foreground" },
+};
+
+/**
+ * Severity-graded drug-drug and drug-allergy alerts from the interaction checker
+ */
+export function InteractionAlertList({ alerts, className }: { alerts: InteractionAlert[]; className?: string }) {
+    if (alerts.length === 0) return null;
+    return (
+        <ul className={cn("space-y-2", className)}>
+            {alerts.map((alert, i) => {
+                const style = severityStyles[alert.severity] ?? severityStyles.moderate;
+                const Icon = alert.kind === "drug-allergy" ? ShieldAlert : AlertTriangle;
+                return (
+                    <li key={i} className={cn("rounded-md border px-3 py-2", style.className)}>
+                        <div className="flex items-center gap-2 text-sm font-medium">
+                            <Icon className="h-4 w-4 shrink-0" />
+                            <span className="text-xs font-semibold uppercase">{style.label}</span>
+                            <span className="text-foreground">
+                                {alert.kind === "drug-allergy"
+                                    ? `${alert.medications[0]} - allergy: ${alert.allergy}`
+                                    : alert.medications.join(" + ")}
+                            </span>
+                        </div>
+                        <p className="mt-1 text-xs text-muted-foreground">{alert.description}</p>
+                        {alert.management && (
+                            <p className="mt-0.5 text-xs text-muted-foreground">
+                                <span className="font-medium text-foreground">Management:</span> {alert.management}
+                            </p>
+                        )}
+                    </li>
+                );
+            })}
+        </ul>
+    );
+}
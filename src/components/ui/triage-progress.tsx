@@ -0,0 +1,183 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { motion } from "motion/react";
+import { CheckCircle2, Circle, Loader2, AlertTriangle, XCircle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { AnalysisStep } from "@/lib/ai/agents/types";
+
+interface ProgressEvent {
+    step: AnalysisStep;
+    message: string;
+    data: Record<string, unknown> | null;
+    createdAt: string;
+}
+
+interface FinalStatus {
+    status: string;
+    urgencyLevel?: string;
+    failureReason?: string | null;
+}
+
+interface TriageProgressProps {
+    triageReportId: string;
+    // Called once the report leaves PROCESSING (DRAFT, FAILED, CANCELLED)
+    onComplete?: (status: string) => void;
+    className?: string;
+}
+
+const STEPS: { step: AnalysisStep; label: string }[] = [
+    { step: "history", label: "Clinical history" },
+    { step: "scans", label: "Imaging" },
+    { step: "diagnosis", label: "Diagnosis" },
+    { step: "coding", label: "Medical coding" },
+    { step: "summary", label: "Executive summary" },
+];
+
+/**
+ * Subscribe to the progress stream of a triage analysis
+ * (mount with a `key` per report so state starts fresh for each one)
+ */
+export function useTriageProgress(triageReportId: string | null) {
+    const [events, setEvents] = useState<ProgressEvent[]>([]);
+    const [finalStatus, setFinalStatus] = useState<FinalStatus | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!triageReportId) return;
+
+        const source = new EventSource(`/api/triage/${triageReportId}/progress`);
+
+        source.addEventListener("progress", (e) => {
+            const event = JSON.parse((e as MessageEvent).data) as ProgressEvent;
+            // A retried step replaces its earlier event
+            setEvents(prev => [...prev.filter(p => p.step !== event.step), event]);
+        });
+
+        source.addEventListener("status", (e) => {
+            setFinalStatus(JSON.parse((e as MessageEvent).data));
+            source.close();
+        });
+
+        source.addEventListener("stream-error", (e) => {
+            setError(JSON.parse((e as MessageEvent).data).error);
+            source.close();
+        });
+
+        return () => source.close();
+    }, [triageReportId]);
+
+    return { events, finalStatus, error };
+}
+
+function describePartialResult(event: ProgressEvent): string | null {
+    const data = event.data;
+    if (!data) return null;
+
+    switch (event.step) {
+        case "history":
+            return typeof data.contextSummary === "string" ? data.contextSummary : null;
+        case "scans": {
+            const scans = (data.scans as { scanType: string; severity: string }[] | undefined) ?? [];
+            return scans.length > 0 ? scans.map(s => `${s.scanType}: ${s.severity}`).join(", ") : null;
+        }
+        case "diagnosis":
+            return `${data.primaryDiagnosis} (${data.urgencyLevel})`;
+        case "coding": {
+            const codes = [...((data.icd10Codes as string[]) ?? []), ...((data.cptCodes as string[]) ?? [])];
+            return codes.length > 0 ? codes.join(", ") : null;
+        }
+        default:
+            return null;
+    }
+}
+
+/**
+ * Live step-by-step progress of a triage analysis with partial results
+ */
+export function TriageProgress({ triageReportId, onComplete, className }: TriageProgressProps) {
+    const { events, finalStatus, error } = useTriageProgress(triageReportId);
+    const notifiedRef = useRef(false);
+
+    useEffect(() => {
+        if (finalStatus && !notifiedRef.current) {
+            notifiedRef.current = true;
+            onComplete?.(finalStatus.status);
+        }
+    }, [finalStatus, onComplete]);
+
+    const isRunning = !finalStatus && !error;
+    const activeIndex = STEPS.findIndex(s => !events.some(e => e.step === s.step));
+
+    return (
+        <div className={cn("space-y-3", className)}>
+            {STEPS.map(({ step, label }, index) => {
+                const event = events.find(e => e.step === step);
+                const isActive = isRunning && index === activeIndex;
+                const degraded = event?.data?.status && event.data.status !== "ok";
+                const partial = event ? describePartialResult(event) : null;
+
+                return (
+                    <motion.div
+                        key={step}
+                        initial={{ opacity: 0, y: 5 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        transition={{ delay: index * 0.05 }}
+                        className="flex items-start gap-3"
+                    >
+                        {event ? (
+                            degraded ? (
+                                <AlertTriangle className="mt-0.5 h-4 w-4 flex-shrink-0 text-warning" />
+                            ) : (
+                                <CheckCircle2 className="mt-0.5 h-4 w-4 flex-shrink-0 text-success" />
+                            )
+                        ) : isActive ? (
+                            <Loader2 className="mt-0.5 h-4 w-4 flex-shrink-0 animate-spin text-primary" />
+                        ) : (
+                            <Circle className="mt-0.5 h-4 w-4 flex-shrink-0 text-muted" />
+                        )}
+                        <div className="min-w-0 flex-1">
+                            <p className={cn(
+                                "text-sm font-medium",
+                                event || isActive ? "text-foreground" : "text-muted-foreground"
+                            )}>
+                                {label}
+                                {event && (
+                                    <span className="ml-2 font-normal text-muted-foreground">{event.message}</span>
+                                )}
+                            </p>
+                            {partial && (
+                                <p className="mt-0.5 line-clamp-2 text-xs text-muted-foreground">{partial}</p>
+                            )}
+                        </div>
+                    </motion.div>
+                );
+            })}
+
+            {finalStatus?.status === "DRAFT" && (
+                <p className="flex items-center gap-2 rounded-lg bg-success/10 px-3 py-2 text-sm text-success">
+                    <CheckCircle2 className="h-4 w-4" />
+                    Analysis complete{finalStatus.urgencyLevel ? ` - ${finalStatus.urgencyLevel} urgency` : ""}
+                </p>
+            )}
+            {finalStatus?.status === "FAILED" && (
+                <p className="flex items-center gap-2 rounded-lg bg-danger/10 px-3 py-2 text-sm text-danger">
+                    <XCircle className="h-4 w-4 flex-shrink-0" />
+                    Analysis failed{finalStatus.failureReason ? `: ${finalStatus.failureReason}` : ""}
+                </p>
+            )}
+            {finalStatus?.status === "CANCELLED" && (
+                <p className="flex items-center gap-2 rounded-lg bg-surface-3 px-3 py-2 text-sm text-muted-foreground">
+                    <XCircle className="h-4 w-4" />
+                    Analysis cancelled
+                </p>
+            )}
+            {error && (
+                <p className="flex items-center gap-2 rounded-lg bg-warning/10 px-3 py-2 text-sm text-warning">
+                    <AlertTriangle className="h-4 w-4" />
+                    {error}
+                </p>
+            )}
+        </div>
+    );
+}
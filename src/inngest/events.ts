@@ -22,6 +22,13 @@ type TriageRequested = {
     };
 };
 
+// Triage Cancelled - stops the running triage workflow for a report
+type TriageCancelled = {
+    data: {
+        triageReportId: string;
+    };
+};
+
 // Full Analysis Request - comprehensive multi-agent analysis
 // Used for manual re-analysis or scheduled analysis
 type FullAnalysisRequested = {
@@ -58,11 +65,24 @@ type ReportGenerated = {
     };
 };
 
+// Budget Alert - monthly model spend reached the alert threshold or the budget
+type BudgetAlert = {
+    data: {
+        status: "warning" | "exceeded";
+        spentUsd: number;
+        budgetUsd: number;
+        alertThreshold: number;
+        month: string; // YYYY-MM (UTC)
+    };
+};
+
 export type Events = {
     "triage.requested": TriageRequested;
+    "triage.cancelled": TriageCancelled;
     "analysis.full.requested": FullAnalysisRequested;
     "scan.uploaded": ScanUploaded;
     "report.generated": ReportGenerated;
+    "usage.budget.alert": BudgetAlert;
 };
 
 export const eventSchemas = new EventSchemas().fromRecord<Events>();
@@ -10,13 +10,130 @@
  * - Scan Analysis: Triggered on scan upload for immediate AI analysis
  */
 
+import type { GetStepTools } from "inngest";
 import { inngest } from "./client";
 import { prisma } from "@/lib/db";
 import {
-    orchestrateFullAnalysis,
-    formatCodesForDisplay,
     analyzeSingleScan,
+    toTriageReportFields,
+    saveOrchestratedReport,
+    prepareAnalysis,
+    runHistoryAnalysis,
+    runScanAnalysis,
+    reportScanProgress,
+    runDiagnosis,
+    runCoding,
+    updateLongitudinalHistory,
+    runExecutiveSummary,
+    compileReport,
+    verifyReportMentions,
+    patientIdentifiers,
+    SCAN_ANALYSIS_CONCURRENCY,
+    type AnalysisOptions,
+    type ScanAnalysisResult,
 } from "@/lib/ai/agents";
+import { withAgentTracing, withPatientIdentifiers, type AgentTraceRecord } from "@/lib/ai/providers";
+import { transitionTriageReport, recordTriageProgress } from "@/lib/triage";
+
+/**
+ * Run the multi-agent analysis as individually memoized steps, so a failed
+ * step is retried on its own instead of rerunning every model call.
+ * Scans are analyzed in parallel batches, and the longitudinal summary runs
+ * alongside coding. Every model call is traced.
+ */
+async function runAnalysisSteps(
+    step: GetStepTools<typeof inngest>,
+    encounterId: string,
+    patientId: string,
+    options: AnalysisOptions
+) {
+    const traces: AgentTraceRecord[] = [];
+    const generateCodes = options.generateCodes !== false;
+
+    // Gather context once; later steps (and their retries) all see the same snapshot
+    const { startedAt, prepared } = await step.run("gather-context", async () => ({
+        startedAt: Date.now(),
+        prepared: await prepareAnalysis(encounterId, patientId, options),
+    }));
+    const { patientContext, scans, encounterScanTypes } = prepared;
+
+    // Model calls are traced and see the patient's identifiers, so they can be replaced before sending
+    const identifiers = patientIdentifiers(patientContext);
+    const traced = <T>(fn: () => Promise<T>) => withAgentTracing(() => withPatientIdentifiers(identifiers, fn));
+
+    const history = await step.run("analyze-history", () =>
+        traced(() => runHistoryAnalysis(patientContext, options.onProgress))
+    );
+    traces.push(...history.traces);
+    const clinicalHistory = history.result;
+
+    const scanAnalyses: ScanAnalysisResult[] = [];
+    for (let i = 0; i < scans.length; i += SCAN_ANALYSIS_CONCURRENCY) {
+        const batch = await Promise.all(
+            scans.slice(i, i + SCAN_ANALYSIS_CONCURRENCY).map(scan =>
+                step.run(`analyze-scan-${scan.id}`, () =>
+                    traced(() => runScanAnalysis(scan, clinicalHistory.contextSummary))
+                )
+            )
+        );
+        for (const { result, traces: scanTraces } of batch) {
+            traces.push(...scanTraces);
+            if (result) scanAnalyses.push(result);
+        }
+    }
+    await step.run("report-scan-progress", () => reportScanProgress(scanAnalyses, options.onProgress));
+
+    const diagnosisStep = await step.run("generate-diagnosis", () =>
+        traced(() => runDiagnosis(patientContext, clinicalHistory, scanAnalyses, options.onProgress))
+    );
+    traces.push(...diagnosisStep.traces);
+    const diagnosis = diagnosisStep.result;
+
+    // The longitudinal summary only needs the patient context, so it runs alongside coding
+    const [codingStep, longitudinalStep] = await Promise.all([
+        step.run("generate-codes", () =>
+            traced(() => runCoding(diagnosis, encounterScanTypes, generateCodes, options.onProgress))
+        ),
+        options.updatePatientHistory !== false
+            ? step.run("update-longitudinal-summary", () =>
+                traced(() => updateLongitudinalHistory(patientContext))
+            )
+            : null,
+    ]);
+    traces.push(...codingStep.traces, ...(longitudinalStep?.traces ?? []));
+    const coding = codingStep.result;
+
+    const summaryStep = await step.run("generate-executive-summary", () =>
+        traced(() => runExecutiveSummary(
+            patientContext,
+            clinicalHistory,
+            scanAnalyses,
+            diagnosis,
+            coding,
+            options.onProgress
+        ))
+    );
+    traces.push(...summaryStep.traces);
+
+    // Compiled in a step so the report ID and timings stay fixed across replays
+    const compiled = await step.run("compile-report", () => compileReport({
+        encounterId,
+        patientId,
+        patientContext,
+        clinicalHistory,
+        scanAnalyses,
+        diagnosis,
+        coding,
+        summary: summaryStep.result,
+        scansAnalyzed: scans.length > 0,
+        codesGenerated: generateCodes,
+        startedAt,
+    }));
+
+    const report = await step.run("verify-mentions", () => verifyReportMentions(compiled, patientContext));
+
+    return { report, traces };
+}
 
 /**
  * Workflow 1: Full Triage Analysis
@@ -35,6 +152,18 @@ export const generateTriageReport = inngest.createFunction(
     {
         id: "generate-triage-report",
         retries: 2,
+        // Stop when the doctor cancels this report
+        cancelOn: [{ event: "triage.cancelled", match: "data.triageReportId" }],
+        // All retries exhausted: mark the report FAILED instead of leaving it PROCESSING
+        onFailure: async ({ event, error }) => {
+            const { triageReportId } = event.data.event.data;
+            if (!triageReportId) return;
+
+            console.error(`[Inngest] Triage analysis failed for report ${triageReportId}:`, error.message);
+            await transitionTriageReport(triageReportId, "FAILED", {
+                failureReason: error.message,
+            });
+        },
     },
     { event: "triage.requested" },
     async ({ event, step }) => {
@@ -55,36 +184,25 @@ export const generateTriageReport = inngest.createFunction(
         });
 
         // Step 2: Run the full multi-agent analysis
-        // This is where all AI agents are invoked
-        const report = await step.run("orchestrate-analysis", async () => {
-            return await orchestrateFullAnalysis(encounterId, patientId, {
-                analyzeScans: analyzeScans !== false,
-                scanIds: scanIds,
-                generateCodes: generateCodes !== false,
-                updatePatientHistory: true,
-            });
+        // This is where all AI agents are invoked, one step per agent call
+        const { report, traces } = await runAnalysisSteps(step, encounterId, patientId, {
+            analyzeScans: analyzeScans !== false,
+            scanIds: scanIds,
+            generateCodes: generateCodes !== false,
+            updatePatientHistory: true,
+            // Streamed to the browser by /api/triage/[id]/progress
+            onProgress: triageReportId
+                ? (progress) => recordTriageProgress(triageReportId, progress)
+                : undefined,
         });
 
         // Step 3: Save the triage report to database (update if exists)
         const savedReport = await step.run("save-report", async () => {
-            const { icd10Display, cptDisplay } = formatCodesForDisplay(report.coding);
-
             if (triageReportId) {
-                // Update the specifically requested report (created in API)
+                // Complete the specifically requested report (created in API).
+                // Null if it was cancelled while the analysis was running.
                 console.log(`[Inngest] Updating specific triage report: ${triageReportId}`);
-                return await prisma.triageReport.update({
-                    where: { id: triageReportId },
-                    data: {
-                        summary: report.executiveSummary,
-                        urgencyLevel: report.overallUrgency,
-                        recommendedAction: report.diagnosis.recommendedActions.map(action => `- ${action}`).join("\n"),
-                        reasoningChain: report.reasoningChain,
-                        confidenceScore: report.overallConfidence,
-                        suggestedICD10: icd10Display,
-                        suggestedCPT: cptDisplay,
-                        status: "DRAFT", // Or FINALIZED depending on flow
-                    },
-                });
+                return await transitionTriageReport(triageReportId, "DRAFT", toTriageReportFields(report));
             }
 
             // Fallback: Check for existing draft report for this encounter
@@ -100,34 +218,31 @@ export const generateTriageReport = inngest.createFunction(
                 // Update existing draft instead of creating duplicate
                 return await prisma.triageReport.update({
                     where: { id: existingReport.id },
-                    data: {
-                        summary: report.executiveSummary,
-                        urgencyLevel: report.overallUrgency,
-                        recommendedAction: report.diagnosis.recommendedActions.map(action => `- ${action}`).join("\n"),
-                        reasoningChain: report.reasoningChain,
-                        confidenceScore: report.overallConfidence,
-                        suggestedICD10: icd10Display,
-                        suggestedCPT: cptDisplay,
-                    },
+                    data: toTriageReportFields(report),
                 });
             }
 
             return await prisma.triageReport.create({
                 data: {
                     encounterId,
-                    summary: report.executiveSummary,
-                    urgencyLevel: report.overallUrgency,
-                    recommendedAction: report.diagnosis.recommendedActions.map(action => `- ${action}`).join("\n"),
-                    reasoningChain: report.reasoningChain,
-                    confidenceScore: report.overallConfidence,
-                    suggestedICD10: icd10Display,
-                    suggestedCPT: cptDisplay,
+                    ...toTriageReportFields(report),
                     status: "DRAFT",
                 },
             });
         });
 
-        // Step 4: Emit report generated event for downstream processing
+        if (!savedReport) {
+            console.log(`[Inngest] Triage report ${triageReportId} is no longer processing, discarding analysis`);
+            return { success: false, cancelled: true, reportId: triageReportId };
+        }
+
+        // Step 4: Store the full agent output and model call traces with the report
+        await step.run("save-agent-output", async () => {
+            await saveOrchestratedReport(savedReport.id, report, traces);
+            return { success: true, traces: traces.length };
+        });
+
+        // Step 5: Emit report generated event for downstream processing
         await step.sendEvent("emit-report-generated", {
             name: "report.generated",
             data: {
@@ -194,18 +309,14 @@ export const runFullAnalysis = inngest.createFunction(
         }
 
         // Step 2: Run full orchestrated analysis
-        const report = await step.run("orchestrate-full-analysis", async () => {
-            return await orchestrateFullAnalysis(encounterId, patientId, {
-                analyzeScans: includeScans !== false,
-                generateCodes: generateCodes !== false,
-                updatePatientHistory: true,
-            });
+        const { report, traces } = await runAnalysisSteps(step, encounterId, patientId, {
+            analyzeScans: includeScans !== false,
+            generateCodes: generateCodes !== false,
+            updatePatientHistory: true,
         });
 
         // Step 3: Update or create triage report
         const savedReport = await step.run("save-or-update-report", async () => {
-            const { icd10Display, cptDisplay } = formatCodesForDisplay(report.coding);
-
             // Check for existing report to update
             const existing = await prisma.triageReport.findFirst({
                 where: { encounterId },
@@ -216,35 +327,27 @@ export const runFullAnalysis = inngest.createFunction(
                 // Update existing draft
                 return await prisma.triageReport.update({
                     where: { id: existing.id },
-                    data: {
-                        summary: report.executiveSummary,
-                        urgencyLevel: report.overallUrgency,
-                        recommendedAction: report.diagnosis.recommendedActions.map(action => `- ${action}`).join("\n"),
-                        reasoningChain: report.reasoningChain,
-                        confidenceScore: report.overallConfidence,
-                        suggestedICD10: icd10Display,
-                        suggestedCPT: cptDisplay,
-                    },
+                    data: toTriageReportFields(report),
                 });
             } else {
                 // Create new report
                 return await prisma.triageReport.create({
                     data: {
                         encounterId,
-                        summary: report.executiveSummary,
-                        urgencyLevel: report.overallUrgency,
-                        recommendedAction: report.diagnosis.recommendedActions.map(action => `- ${action}`).join("\n"),
-                        reasoningChain: report.reasoningChain,
-                        confidenceScore: report.overallConfidence,
-                        suggestedICD10: icd10Display,
-                        suggestedCPT: cptDisplay,
+                        ...toTriageReportFields(report),
                         status: "DRAFT",
                     },
                 });
             }
         });
 
-        // Step 4: Emit completion event
+        // Step 4: Store the full agent output and model call traces with the report
+        await step.run("save-agent-output", async () => {
+            await saveOrchestratedReport(savedReport.id, report, traces);
+            return { success: true, traces: traces.length };
+        });
+
+        // Step 5: Emit completion event
         await step.sendEvent("emit-report-generated", {
             name: "report.generated",
             data: {
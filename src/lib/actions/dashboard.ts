@@ -2,6 +2,8 @@
 
 import { prisma } from "@/lib/db";
 import { auth } from "@clerk/nextjs/server";
+import { getUsageSummary } from "@/lib/ai/providers";
+import type { EsiAssessment } from "@/lib/ai/agents/types";
 
 export async function getDashboardStats() {
     const { userId } = await auth();
@@ -16,6 +18,7 @@ export async function getDashboardStats() {
         criticalReports,
         allReports,
         recentReports,
+        usage,
     ] = await Promise.all([
         prisma.patient.count(),
         prisma.encounter.count({
@@ -52,6 +55,7 @@ export async function getDashboardStats() {
                 },
             },
         }),
+        getUsageSummary(),
     ]);
 
     // Calculate average confidence score
@@ -90,9 +94,17 @@ export async function getDashboardStats() {
         },
         aiPerformance: {
             accuracyRate: avgConfidence ? Math.round(avgConfidence * 100) : 0,
-            avgResponse: "1.2s",
+            avgResponse: usage.avgLatencyMs !== null ? `${(usage.avgLatencyMs / 1000).toFixed(1)}s` : "-",
             casesProcessed: allReports.length,
         },
+        usage: {
+            tokensToday: usage.tokensToday,
+            costTodayUsd: usage.costTodayUsd,
+            monthCostUsd: usage.monthCostUsd,
+            budgetUsd: usage.budgetUsd,
+            budgetStatus: usage.budgetStatus,
+            byAgent: usage.byAgent,
+        },
         recentReports: recentReports.map((report: typeof recentReports[number]) => ({
             id: report.id,
             name: report.summary.replace(/[*_#\[\]]/g, "").slice(0, 30) + "...",
@@ -131,8 +143,17 @@ export async function getTriageQueue() {
             age: calculateAge(encounter.patient.dateOfBirth),
             symptoms: encounter.symptoms,
             urgency: latestReport?.urgencyLevel || "MEDIUM",
+            esiLevel: latestReport?.esiLevel ?? null,
+            // Why the ESI level and the urgency disagree, if they do
+            esiDisagreement: latestReport?.esiDisagreement
+                ? (latestReport.esiAssessment as unknown as EsiAssessment | null)?.disagreement ?? "ESI level and urgency disagree"
+                : null,
             waitTime: `${waitTime}m`,
-            aiConfidence: Math.round((latestReport?.confidenceScore || 0.85) * 100),
+            aiConfidence: Math.round((latestReport?.confidenceScore ?? 0) * 100),
+            analysisStatus: latestReport?.analysisStatus ?? "ok",
+            triageReportId: latestReport?.id ?? null,
+            reportStatus: latestReport?.status ?? null,
+            failureReason: latestReport?.failureReason ?? null,
             arrivalTime: formatTime(encounter.createdAt),
         };
     });
@@ -199,7 +220,7 @@ export async function getRecentCases(limit = 5) {
             age: calculateAge(encounter.patient.dateOfBirth),
             symptoms: encounter.symptoms,
             urgency: latestReport?.urgencyLevel || "MEDIUM",
-            aiConfidence: Math.round((latestReport?.confidenceScore || 0.85) * 100),
+            aiConfidence: Math.round((latestReport?.confidenceScore ?? 0) * 100),
             waitTime: `${waitTime}m`,
         };
     });
@@ -258,7 +279,7 @@ export async function getReports() {
         urgency: report.urgencyLevel,
         summary: report.summary,
         recommendedAction: report.recommendedAction,
-        aiConfidence: Math.round((report.confidenceScore || 0.85) * 100),
+        aiConfidence: Math.round((report.confidenceScore ?? 0) * 100),
         status: report.status,
         suggestedICD10: report.suggestedICD10,
         suggestedCPT: report.suggestedCPT,
@@ -5,135 +5,78 @@
  * recommended procedures. Uses Gemini 3 Flash for fast processing.
  */
 
-import { GoogleGenerativeAI } from "@google/generative-ai";
-import { CodingResult, ICD10Code, CPTCode, DiagnosisResult } from "./types";
-
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || "");
+import { z } from "zod";
+import { renderPrompt, MEDICAL_CODING_PROMPT, IMAGING_CODES_PROMPT } from "@/lib/ai/prompts";
+import { validateSuggestedCodes } from "@/lib/medical-codes";
+import { CodingResult, CPTCode, DiagnosisResult } from "./types";
+import { CodingOutputSchema, CPTCodeSchema } from "./schemas";
+import { generateStructured, describeAgentError } from "./structured-output";
 
 export async function generateMedicalCodes(
     diagnosis: DiagnosisResult,
     scanTypes: string[],
     proceduresPerformed: string[]
 ): Promise<CodingResult> {
-    const model = genAI.getGenerativeModel({ model: "gemini-3-flash-preview" });
-
     const startTime = Date.now();
 
-    const prompt = `You are a medical coding specialist AI. Generate accurate ICD-10 and CPT codes based on the clinical information provided.
-
-## Primary Diagnosis
-${diagnosis.primaryDiagnosis}
-
-## Differential Diagnoses
-${diagnosis.differentialDiagnoses.join("\n- ")}
-
-## Recommended Actions/Procedures
-${diagnosis.recommendedActions.join("\n- ")}
-
-## Imaging Studies Performed
-${scanTypes.length > 0 ? scanTypes.join(", ") : "None"}
-
-## Additional Procedures
-${proceduresPerformed.length > 0 ? proceduresPerformed.join(", ") : "None documented"}
-
-## Urgency Level
-${diagnosis.urgencyLevel}
-
-## Coding Requirements
-Generate appropriate medical codes for billing and documentation purposes.
-
-Respond with ONLY valid JSON in this exact format:
-{
-    "icd10Codes": [
-        {"code": "CODE", "description": "Description", "isPrimary": true},
-        {"code": "CODE", "description": "Description", "isPrimary": false}
-    ],
-    "cptCodes": [
-        {"code": "CODE", "description": "Description", "units": 1}
-    ],
-    "confidence": 0.0-1.0
-}
-
-Include:
-- Primary ICD-10 diagnosis code (isPrimary: true)
-- 2-4 secondary ICD-10 codes for documented conditions
-- CPT codes for all imaging studies and procedures
-- Evaluation and management (E/M) codes as appropriate`;
+    const { text: prompt, promptVersion } = await renderPrompt(MEDICAL_CODING_PROMPT, {
+        primaryDiagnosis: diagnosis.primaryDiagnosis,
+        differentialDiagnoses: diagnosis.differentialDiagnoses.join("\n- "),
+        recommendedActions: diagnosis.recommendedActions.join("\n- "),
+        imagingStudies: scanTypes.length > 0 ? scanTypes.join(", ") : "None",
+        additionalProcedures: proceduresPerformed.length > 0 ? proceduresPerformed.join(", ") : "None documented",
+        urgencyLevel: diagnosis.urgencyLevel,
+    });
 
     try {
-        const result = await model.generateContent(prompt);
-        const response = result.response.text();
-
-        // Parse JSON from response
-        const jsonMatch = response.match(/\{[\s\S]*\}/);
-        if (!jsonMatch) {
-            throw new Error("Failed to parse coding response");
-        }
-
-        const parsed = JSON.parse(jsonMatch[0]);
+        const { data } = await generateStructured(
+            "coding",
+            { task: "medical-coding", promptVersion, prompt },
+            CodingOutputSchema
+        );
+
+        // Unknown and non-billable codes are surfaced to the coder instead of suggested
+        const validated = await validateSuggestedCodes(
+            data.icd10Codes,
+            data.cptCodes.map(code => ({ ...code, units: code.units ?? 1 }))
+        );
 
         const processingTime = Date.now() - startTime;
         console.log(`[CodingAgent] Generated codes in ${processingTime}ms`);
 
+        // Every suggestion rejected: nothing usable to suggest, which the clinician must see
+        const allRejected = validated.rejectedCodes.length > 0
+            && validated.icd10Codes.length === 0
+            && validated.cptCodes.length === 0;
+
         return {
-            icd10Codes: validateICD10Codes(parsed.icd10Codes),
-            cptCodes: validateCPTCodes(parsed.cptCodes),
-            confidence: typeof parsed.confidence === "number"
-                ? Math.min(1, Math.max(0, parsed.confidence))
-                : 0.80,
+            icd10Codes: validated.icd10Codes.slice(0, 6), // Limit to 6 codes
+            cptCodes: validated.cptCodes.slice(0, 10), // Limit to 10 codes
+            confidence: data.confidence,
+            status: allRejected ? "degraded" : "ok",
+            validationError: allRejected
+                ? `All suggested codes failed code table validation: ${validated.rejectedCodes
+                    .map(c => `${c.system} ${c.code} (${c.reason})`)
+                    .join("; ")}`
+                : null,
+            promptVersion,
+            rejectedCodes: validated.rejectedCodes,
+            verifiedCodeSystems: validated.verifiedCodeSystems,
         };
     } catch (error) {
         console.error("[CodingAgent] Error generating codes:", error);
 
-        // Return minimal fallback codes
+        // Suggest no codes rather than placeholders - the coder must code manually
         return {
-            icd10Codes: [
-                { code: "R69", description: "Illness, unspecified", isPrimary: true },
-            ],
-            cptCodes: [
-                { code: "99201", description: "Office or other outpatient visit, new patient", units: 1 },
-            ],
+            icd10Codes: [],
+            cptCodes: [],
             confidence: 0,
+            status: "failed",
+            validationError: describeAgentError(error),
         };
     }
 }
 
-/**
- * Validate and normalize ICD-10 codes
- */
-function validateICD10Codes(codes: unknown): ICD10Code[] {
-    if (!Array.isArray(codes)) return [];
-
-    return codes
-        .filter((code): code is Record<string, unknown> =>
-            typeof code === "object" && code !== null
-        )
-        .map((code) => ({
-            code: String(code.code || "R69"),
-            description: String(code.description || "Unspecified"),
-            isPrimary: Boolean(code.isPrimary),
-        }))
-        .slice(0, 6); // Limit to 6 codes
-}
-
-/**
- * Validate and normalize CPT codes
- */
-function validateCPTCodes(codes: unknown): CPTCode[] {
-    if (!Array.isArray(codes)) return [];
-
-    return codes
-        .filter((code): code is Record<string, unknown> =>
-            typeof code === "object" && code !== null
-        )
-        .map((code) => ({
-            code: String(code.code || "99201"),
-            description: String(code.description || "Unspecified service"),
-            units: typeof code.units === "number" ? code.units : 1,
-        }))
-        .slice(0, 10); // Limit to 10 codes
-}
-
 /**
  * Generate codes specifically for imaging studies
  */
@@ -142,21 +85,19 @@ export async function generateImagingCodes(
     bodyPart: string,
     isWithContrast: boolean = false
 ): Promise<CPTCode[]> {
-    const model = genAI.getGenerativeModel({ model: "gemini-3-flash-preview" });
-
-    const prompt = `Generate the appropriate CPT code for this imaging study:
-- Type: ${scanType}
-- Body Part: ${bodyPart}
-- With Contrast: ${isWithContrast ? "Yes" : "No"}
-
-Respond with ONLY a JSON array:
-[{"code": "XXXXX", "description": "Description", "units": 1}]`;
+    const { text: prompt, promptVersion } = await renderPrompt(IMAGING_CODES_PROMPT, {
+        scanType,
+        bodyPart,
+        withContrast: isWithContrast ? "Yes" : "No",
+    });
 
     try {
-        const result = await model.generateContent(prompt);
-        const response = result.response.text();
-        const parsed = JSON.parse(response.replace(/```json\n?|\n?```/g, "").trim());
-        return validateCPTCodes(parsed);
+        const { data } = await generateStructured(
+            "coding",
+            { task: "imaging-codes", promptVersion, prompt },
+            z.array(CPTCodeSchema)
+        );
+        return data.map(code => ({ ...code, units: code.units ?? 1 }));
     } catch {
         // Common fallback codes for imaging
         const fallbackCodes: Record<string, CPTCode> = {
@@ -0,0 +1,330 @@
+/**
+ * Context Budget - token-aware selection of patient records for agent prompts
+ *
+ * A long patient record does not fit one prompt. `buildContext` fits it to a
+ * token budget:
+ * - records are ranked by relevance to the current complaint (shared terms and
+ *   body systems) and by recency; active medications, allergies and active
+ *   conditions are pinned ahead of everything else
+ * - records are included in full, in rank order, while they fit
+ * - the rest are summarized in chunks by the history model, and the summaries
+ *   summarized again until they fit the share of the budget kept for them.
+ *   Summaries are cached per patient (ContextSummary), keyed by a hash of the
+ *   summary prompt, so unchanged records are not summarized twice
+ * - a ContextManifest lists the records included, summarized and dropped; it
+ *   is recorded in the trace of the model call that uses the context
+ *
+ * Budget configuration:
+ * - HISTORY_CONTEXT_TOKEN_BUDGET: tokens of patient records in the history prompt (default 12000)
+ */
+
+import { createHash } from "crypto";
+import { callModel, type ContextManifest } from "@/lib/ai/providers";
+import { renderPrompt, CONTEXT_SUMMARY_PROMPT } from "@/lib/ai/prompts";
+
+export interface ContextItem {
+    // Record reference, e.g. "ExternalReport/abc123"
+    ref: string;
+    // Prompt section the record is placed in
+    section: string;
+    // The record as formatted for the prompt
+    text: string;
+    date: string | null;
+    // Ranked ahead of all other records
+    pinned?: boolean;
+}
+
+export interface BuiltContext {
+    // Included records by section, in the order they were given
+    sections: Record<string, string[]>;
+    // Summary of the records that did not fit ("" when everything fit)
+    overflowSummary: string;
+    manifest: ContextManifest;
+}
+
+interface SummaryUnit {
+    refs: string[];
+    text: string;
+}
+
+const DEFAULT_HISTORY_BUDGET = 12000;
+// Share of the budget kept for the overflow summary when not everything fits
+const SUMMARY_SHARE = 0.2;
+// Most text summarized in one model call
+const CHUNK_TOKENS = 6000;
+// Rounds of summarizing summaries before the result is cut to fit
+const MAX_SUMMARY_LEVELS = 3;
+// Smallest summary asked of the model, in words
+const MIN_SUMMARY_WORDS = 60;
+
+// Ranking weights: relevance to the complaint against recency
+const RELEVANCE_WEIGHT = 0.65;
+const RECENCY_HALF_LIFE_DAYS = 365;
+const UNDATED_RECENCY = 0.3;
+
+const STOPWORDS = new Set([
+    "and", "are", "but", "for", "from", "had", "has", "have", "her", "his", "not", "now", "patient",
+    "she", "that", "the", "then", "this", "was", "were", "with", "without", "reports", "since",
+    "days", "weeks", "today", "also", "very", "some",
+]);
+
+// Word prefixes by body system; a complaint touching a system makes records about it relevant
+const BODY_SYSTEMS: Record<string, string[]> = {
+    cardiovascular: ["chest", "cardi", "heart", "palpit", "angina", "tropon", "ecg", "ekg", "coron", "myocard", "arrhyth", "atrial", "hypert", "synco", "chole", "statin", "echo"],
+    respiratory: ["breath", "dyspn", "cough", "wheez", "asthma", "copd", "pneum", "lung", "pulmon", "oxyge", "spiro", "inhal"],
+    neurological: ["headac", "dizz", "seizu", "stroke", "weakn", "numbn", "confus", "migra", "neuro", "vision", "speech", "synco"],
+    gastrointestinal: ["abdom", "nause", "vomit", "diarr", "const", "bowel", "liver", "hepat", "gastr", "pancr", "lipas", "stool", "bleed"],
+    renal: ["urin", "kidney", "renal", "creat", "egfr", "dysur", "flank", "bladd"],
+    endocrine: ["diabe", "gluco", "insul", "hba1c", "a1c", "thyro", "tsh", "metfo", "sugar"],
+    musculoskeletal: ["back", "joint", "fract", "fall", "sprain", "arthr", "knee", "hip", "should"],
+    infectious: ["fever", "chill", "infec", "sepsi", "cultu", "antib", "wbc"],
+};
+
+/**
+ * Rough token count of text (about four characters per token)
+ */
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+export function getHistoryContextBudget(): number {
+    const value = Number(process.env.HISTORY_CONTEXT_TOKEN_BUDGET);
+    return Number.isFinite(value) && value > 0 ? Math.floor(value) : DEFAULT_HISTORY_BUDGET;
+}
+
+// Lowercase words of a record, without references and delimiter tags
+function wordsOf(text: string): string[] {
+    return (text
+        .replace(/<\/?untrusted_input[^>]*>/g, " ")
+        .replace(/\[[A-Za-z]+\/[^\]\s]+\]/g, " ")
+        .toLowerCase()
+        .match(/[a-z][a-z0-9]+/g) ?? [])
+        .filter(word => word.length >= 3 && !STOPWORDS.has(word));
+}
+
+// Short prefix so "palpitations" matches "palpitation" and "diabetic" matches "diabetes"
+function stem(word: string): string {
+    return word.length > 5 ? word.slice(0, 5) : word;
+}
+
+function relevance(words: string[], complaintTerms: string[], relatedTerms: string[]): number {
+    const mentions = (term: string) => words.some(word => word.startsWith(term));
+    const direct = complaintTerms.filter(mentions).length;
+    const related = relatedTerms.filter(mentions).length;
+    return 1 - Math.pow(0.5, direct + related / 2);
+}
+
+function recency(date: string | null, now: Date): number {
+    const time = date ? Date.parse(date) : NaN;
+    if (Number.isNaN(time)) return UNDATED_RECENCY;
+    const ageDays = Math.max(0, (now.getTime() - time) / 86_400_000);
+    return Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+}
+
+/**
+ * Records in the order they should be included: pinned first, then by
+ * relevance to the complaint and recency
+ */
+export function rankContextItems(
+    items: ContextItem[],
+    complaint: string,
+    now: Date = new Date()
+): Array<ContextItem & { score: number }> {
+    const complaintWords = wordsOf(complaint);
+    const complaintTerms = [...new Set(complaintWords.map(stem))];
+    const relatedTerms = [...new Set(
+        Object.values(BODY_SYSTEMS)
+            .filter(system => system.some(term => complaintWords.some(word => word.startsWith(term))))
+            .flat()
+    )].filter(term => !complaintTerms.includes(term));
+
+    return items
+        .map(item => ({
+            ...item,
+            score: RELEVANCE_WEIGHT * relevance(wordsOf(item.text), complaintTerms, relatedTerms)
+                + (1 - RELEVANCE_WEIGHT) * recency(item.date, now),
+        }))
+        .sort((a, b) => Number(b.pinned ?? false) - Number(a.pinned ?? false) || b.score - a.score);
+}
+
+function selectWithinBudget(ranked: ContextItem[], budgetTokens: number) {
+    const included = new Set<string>();
+    let usedTokens = 0;
+    for (const item of ranked) {
+        const tokens = estimateTokens(item.text);
+        if (usedTokens + tokens > budgetTokens) continue;
+        included.add(item.ref);
+        usedTokens += tokens;
+    }
+    return { included, usedTokens };
+}
+
+/**
+ * Fit a patient's records to a token budget, summarizing those that don't fit
+ */
+export async function buildContext(
+    patientId: string,
+    items: ContextItem[],
+    options: { complaint: string; budgetTokens: number }
+): Promise<BuiltContext> {
+    const { budgetTokens } = options;
+    const ranked = rankContextItems(items, options.complaint);
+
+    let summaryBudget = 0;
+    let selection = selectWithinBudget(ranked, budgetTokens);
+    if (selection.included.size < items.length) {
+        summaryBudget = Math.floor(budgetTokens * SUMMARY_SHARE);
+        selection = selectWithinBudget(ranked, budgetTokens - summaryBudget);
+    }
+
+    // Overflow keeps the given order, so the same older records form the same chunks (and cache hits)
+    const overflow = items.filter(item => !selection.included.has(item.ref));
+    let overflowSummary = "";
+    let summarized: string[] = [];
+    let dropped: string[] = [];
+    if (overflow.length > 0) {
+        try {
+            overflowSummary = await summarizeRecords(patientId, overflow, summaryBudget);
+            summarized = overflow.map(item => item.ref);
+        } catch (error) {
+            console.error(`[ContextBudget] Could not summarize ${overflow.length} records for patient ${patientId}:`, error);
+            dropped = overflow.map(item => item.ref);
+        }
+        console.log(`[ContextBudget] ${selection.included.size} of ${items.length} records fit ${budgetTokens} tokens; ${summarized.length} summarized, ${dropped.length} dropped`);
+    }
+
+    const sections: Record<string, string[]> = {};
+    for (const item of items) {
+        if (selection.included.has(item.ref)) {
+            (sections[item.section] ??= []).push(item.text);
+        }
+    }
+
+    return {
+        sections,
+        overflowSummary,
+        manifest: {
+            budgetTokens,
+            usedTokens: selection.usedTokens + estimateTokens(overflowSummary),
+            included: items.filter(item => selection.included.has(item.ref)).map(item => item.ref),
+            summarized,
+            dropped,
+        },
+    };
+}
+
+/**
+ * Summarize records hierarchically: chunks of records, then chunks of those
+ * summaries, until the result fits the budget
+ */
+async function summarizeRecords(patientId: string, items: ContextItem[], budgetTokens: number): Promise<string> {
+    let units: SummaryUnit[] = items.map(item => ({ refs: [item.ref], text: item.text }));
+    let level = 0;
+    do {
+        const chunks = chunkUnits(units);
+        const targetWords = Math.max(MIN_SUMMARY_WORDS, Math.floor((budgetTokens * 0.75) / chunks.length));
+        units = await Promise.all(chunks.map(chunk => summarizeChunk(patientId, chunk, level, targetWords)));
+        level++;
+    } while (totalTokens(units) > budgetTokens && level <= MAX_SUMMARY_LEVELS);
+
+    return fitToBudget(units.map(unit => unit.text).join("\n"), budgetTokens);
+}
+
+function totalTokens(units: SummaryUnit[]): number {
+    return units.reduce((sum, unit) => sum + estimateTokens(unit.text), 0);
+}
+
+// Group units into chunks of at most CHUNK_TOKENS; a unit larger than that is cut
+function chunkUnits(units: SummaryUnit[]): SummaryUnit[] {
+    const chunks: SummaryUnit[] = [];
+    let current: SummaryUnit | null = null;
+    for (const unit of units) {
+        const text = estimateTokens(unit.text) > CHUNK_TOKENS
+            ? `${unit.text.slice(0, CHUNK_TOKENS * 4)}...`
+            : unit.text;
+        if (current && estimateTokens(current.text) + estimateTokens(text) <= CHUNK_TOKENS) {
+            current.refs.push(...unit.refs);
+            current.text += `\n\n${text}`;
+        } else {
+            current = { refs: [...unit.refs], text };
+            chunks.push(current);
+        }
+    }
+    return chunks;
+}
+
+// Keep whole lines of the summary while they fit
+function fitToBudget(text: string, budgetTokens: number): string {
+    if (estimateTokens(text) <= budgetTokens) return text;
+    const kept: string[] = [];
+    let tokens = 0;
+    for (const line of text.split("\n")) {
+        tokens += estimateTokens(line) + 1;
+        if (tokens > budgetTokens) break;
+        kept.push(line);
+    }
+    return kept.join("\n");
+}
+
+async function summarizeChunk(
+    patientId: string,
+    chunk: SummaryUnit,
+    level: number,
+    targetWords: number
+): Promise<SummaryUnit> {
+    const { text: prompt, promptVersion } = await renderPrompt(CONTEXT_SUMMARY_PROMPT, {
+        records: chunk.text,
+        targetWords: String(targetWords),
+    }, { rolloutKey: patientId });
+    const cacheKey = createHash("sha256").update(prompt).digest("hex");
+
+    const cached = await readCachedSummary(patientId, cacheKey);
+    if (cached !== null) {
+        return { refs: chunk.refs, text: cached };
+    }
+
+    const { text } = await callModel("history", { task: "context-summary", promptVersion, prompt });
+    const summary = text.trim();
+    await writeCachedSummary({ patientId, cacheKey, level, sourceRefs: chunk.refs, summary, promptVersion });
+    return { refs: chunk.refs, text: summary };
+}
+
+// Loaded on first use so records that fit the budget need no database
+async function getPrisma() {
+    const { prisma } = await import("@/lib/db");
+    return prisma;
+}
+
+// The cache is best-effort: a failed lookup or write only costs a model call
+async function readCachedSummary(patientId: string, cacheKey: string): Promise<string | null> {
+    try {
+        const prisma = await getPrisma();
+        const cached = await prisma.contextSummary.findUnique({
+            where: { patientId_cacheKey: { patientId, cacheKey } },
+        });
+        return cached?.summary ?? null;
+    } catch (error) {
+        console.warn("[ContextBudget] Could not read the summary cache:", error);
+        return null;
+    }
+}
+
+async function writeCachedSummary(entry: {
+    patientId: string;
+    cacheKey: string;
+    level: number;
+    sourceRefs: string[];
+    summary: string;
+    promptVersion: string;
+}): Promise<void> {
+    try {
+        const prisma = await getPrisma();
+        await prisma.contextSummary.upsert({
+            where: { patientId_cacheKey: { patientId: entry.patientId, cacheKey: entry.cacheKey } },
+            create: entry,
+            update: { summary: entry.summary },
+        });
+    } catch (error) {
+        console.warn("[ContextBudget] Could not write the summary cache:", error);
+    }
+}
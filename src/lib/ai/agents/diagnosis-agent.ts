@@ -6,30 +6,35 @@
  * Uses Gemini 3 Pro for advanced reasoning capabilities.
  */
 
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import { callModel } from "@/lib/ai/providers";
+import { renderPrompt, DIAGNOSIS_PROMPT, QUICK_ASSESSMENT_PROMPT } from "@/lib/ai/prompts";
 import {
     DiagnosisResult,
+    EarlyWarningScores,
     PatientContext,
     ScanAnalysisResult,
     ClinicalHistoryAnalysis,
 } from "./types";
-
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || "");
+import { DiagnosisOutputSchema } from "./schemas";
+import { formatEarlyWarningScores, formatVitalSigns } from "@/lib/early-warning";
+import { formatCalculatorResults } from "@/lib/clinical-calculators";
+import { formatRedFlagHits } from "@/lib/red-flags";
+import { delimitUntrusted } from "@/lib/untrusted-content";
+import { collectCitationSources, formatCitationSources, recordRef } from "@/lib/citations";
+import { generateStructured, describeAgentError } from "./structured-output";
 
 export async function generateDiagnosis(
     patient: PatientContext,
     clinicalHistory: ClinicalHistoryAnalysis,
     scanResults: ScanAnalysisResult[]
 ): Promise<DiagnosisResult> {
-    const model = genAI.getGenerativeModel({ model: "gemini-3-pro-preview" });
-
     const startTime = Date.now();
 
     // Format scan findings for the prompt
     const scanSummary = scanResults.length > 0
         ? scanResults
             .map((scan) => `
-### ${scan.scanType} Scan Analysis
+### ${scan.scanType} Scan Analysis [${recordRef("Scan", scan.scanId)}]
 - **Findings**: ${scan.findings}
 - **Abnormalities**: ${scan.abnormalities.join(", ") || "None identified"}
 - **Severity**: ${scan.severity}
@@ -38,95 +43,37 @@ export async function generateDiagnosis(
             .join("\n")
         : "No imaging studies available for this encounter.";
 
-    const prompt = `You are an expert clinical diagnostician AI. Your role is to synthesize all available patient information to generate accurate diagnoses with clear clinical reasoning.
-
-## Patient Profile
-- **Name**: ${patient.name}
-- **Age**: ${patient.age} years old
-- **Gender**: ${patient.gender}
-
-## Current Presentation
-**Chief Complaint/Symptoms**: ${patient.currentSymptoms}
-${patient.voiceTranscript ? `**Patient's Own Description**: "${patient.voiceTranscript}"` : ""}
-
-## Clinical History Analysis
-**Context Summary**: ${clinicalHistory.contextSummary}
-
-**Risk Factors**: ${clinicalHistory.riskFactors.join(", ") || "None identified"}
-
-**Relevant Pre-existing Conditions**: ${clinicalHistory.relevantConditions.join(", ") || "None documented"}
-
-**Age-Related Considerations**: ${clinicalHistory.ageRelatedConsiderations.join("; ")}
-
-**Gender-Specific Factors**: ${clinicalHistory.genderSpecificFactors.join("; ") || "None specific"}
-
-**Contraindications**: ${clinicalHistory.contraindications.join(", ") || "None identified"}
-
-## Imaging Results
-${scanSummary}
-
-## Diagnostic Task
-Based on ALL available information, provide a comprehensive diagnostic assessment. Your reasoning should:
-1. Consider the patient's age, gender, and risk profile
-2. Integrate imaging findings with clinical presentation
-3. Account for the patient's medical history
-4. Identify any red flags requiring immediate attention
-5. Suggest appropriate follow-up
-
-Respond with ONLY valid JSON in this exact format:
-{
-    "primaryDiagnosis": "Most likely diagnosis with brief supporting rationale",
-    "differentialDiagnoses": ["Second most likely", "Third most likely", "Fourth possibility"],
-    "confidence": 0.0-1.0,
-    "reasoning": "Detailed step-by-step clinical reasoning explaining how you arrived at this diagnosis (3-4 paragraphs)",
-    "urgencyLevel": "One of: LOW, MEDIUM, HIGH, CRITICAL",
-    "recommendedActions": [
-        "**IMMEDIATE:** [Most urgent action - use this format for critical items]",
-        "**DIAGNOSTIC:** [Lab tests or imaging to order]",
-        "**THERAPEUTIC:** [Treatment to initiate]",
-        "**MONITORING:** [What to watch for]"
-    ],
-    "followUpRecommendations": ["When to follow up", "What to monitor", "Specialist referrals if needed"],
-    "redFlags": ["Any warning signs that require immediate attention - empty array if none"]
-}
-
-IMPORTANT: For recommendedActions, format each action as "**CATEGORY:** action details" where CATEGORY is one of: IMMEDIATE, DIAGNOSTIC, THERAPEUTIC, MONITORING, CONSULT. This helps physicians quickly scan priorities.`;
+    const { text: prompt, promptVersion } = await renderPrompt(DIAGNOSIS_PROMPT, {
+        patientName: patient.name,
+        patientAge: String(patient.age),
+        patientGender: patient.gender,
+        symptoms: delimitUntrusted("symptoms", patient.currentSymptoms),
+        voiceTranscript: delimitUntrusted("voice transcript", patient.voiceTranscript),
+        vitalSigns: patient.currentVitalSigns ? formatVitalSigns(patient.currentVitalSigns) : "Not recorded for this encounter",
+        earlyWarningScores: patient.earlyWarningScores ? formatEarlyWarningScores(patient.earlyWarningScores) : "",
+        calculatorResults: formatCalculatorResults(patient.calculatorResults ?? []),
+        redFlagRules: formatRedFlagHits(patient.redFlagHits ?? []),
+        contextSummary: clinicalHistory.contextSummary,
+        riskFactors: clinicalHistory.riskFactors.join(", ") || "None identified",
+        relevantConditions: clinicalHistory.relevantConditions.join(", ") || "None documented",
+        ageConsiderations: clinicalHistory.ageRelatedConsiderations.join("; "),
+        genderFactors: clinicalHistory.genderSpecificFactors.join("; ") || "None specific",
+        contraindications: clinicalHistory.contraindications.join(", ") || "None identified",
+        imagingResults: scanSummary,
+        sourceRecords: delimitUntrusted("patient records", formatCitationSources(collectCitationSources(patient, scanResults))),
+    }, { rolloutKey: patient.id });
 
     try {
-        const result = await model.generateContent(prompt);
-        const response = result.response.text();
-
-        // Parse JSON from response
-        const jsonMatch = response.match(/\{[\s\S]*\}/);
-        if (!jsonMatch) {
-            throw new Error("Failed to parse diagnosis response");
-        }
-
-        const parsed = JSON.parse(jsonMatch[0]);
+        const { data } = await generateStructured(
+            "diagnosis",
+            { task: "diagnosis", promptVersion, prompt },
+            DiagnosisOutputSchema
+        );
 
         const processingTime = Date.now() - startTime;
         console.log(`[DiagnosisAgent] Generated diagnosis in ${processingTime}ms`);
 
-        return {
-            primaryDiagnosis: parsed.primaryDiagnosis || "Diagnosis pending further evaluation",
-            differentialDiagnoses: Array.isArray(parsed.differentialDiagnoses)
-                ? parsed.differentialDiagnoses
-                : [],
-            confidence: typeof parsed.confidence === "number"
-                ? Math.min(1, Math.max(0, parsed.confidence))
-                : 0.75,
-            reasoning: parsed.reasoning || "Clinical reasoning available upon request.",
-            urgencyLevel: ["LOW", "MEDIUM", "HIGH", "CRITICAL"].includes(parsed.urgencyLevel)
-                ? parsed.urgencyLevel
-                : "MEDIUM",
-            recommendedActions: Array.isArray(parsed.recommendedActions)
-                ? parsed.recommendedActions
-                : [],
-            followUpRecommendations: Array.isArray(parsed.followUpRecommendations)
-                ? parsed.followUpRecommendations
-                : [],
-            redFlags: Array.isArray(parsed.redFlags) ? parsed.redFlags : [],
-        };
+        return { ...data, status: "ok", promptVersion };
     } catch (error) {
         console.error("[DiagnosisAgent] Error generating diagnosis:", error);
 
@@ -147,16 +94,21 @@ IMPORTANT: For recommendedActions, format each action as "**CATEGORY:** action d
                 "Return immediately if symptoms worsen",
             ],
             redFlags: [],
+            status: "failed",
+            validationError: describeAgentError(error),
         };
     }
 }
 
 /**
- * Determine urgency level based on multiple factors
+ * Determine urgency level based on multiple factors.
+ * Deranged early-warning scores and red-flag rule hits escalate the urgency
+ * whatever the model concluded.
  */
 export function calculateOverallUrgency(
     scanResults: ScanAnalysisResult[],
-    diagnosis: DiagnosisResult
+    diagnosis: DiagnosisResult,
+    earlyWarningScores?: EarlyWarningScores | null
 ): "LOW" | "MEDIUM" | "HIGH" | "CRITICAL" {
     // Check for severe scan findings
     const hasSevereScan = scanResults.some((scan) => scan.severity === "SEVERE");
@@ -165,11 +117,15 @@ export function calculateOverallUrgency(
     // Check for red flags
     const hasRedFlags = diagnosis.redFlags.length > 0;
 
+    const scoreFloor = earlyWarningScores?.urgencyFloor ?? "LOW";
+    // Rule hits are also in redFlags, so they are at least HIGH
+    const ruleCritical = diagnosis.ruleBasedRedFlags?.some(hit => hit.minimumUrgency === "CRITICAL") ?? false;
+
     // Priority mapping
-    if (diagnosis.urgencyLevel === "CRITICAL" || hasSevereScan) {
+    if (diagnosis.urgencyLevel === "CRITICAL" || hasSevereScan || scoreFloor === "CRITICAL" || ruleCritical) {
         return "CRITICAL";
     }
-    if (diagnosis.urgencyLevel === "HIGH" || hasRedFlags || hasModerateScan) {
+    if (diagnosis.urgencyLevel === "HIGH" || hasRedFlags || hasModerateScan || scoreFloor === "HIGH") {
         return "HIGH";
     }
     if (diagnosis.urgencyLevel === "MEDIUM") {
@@ -186,19 +142,14 @@ export async function generateQuickAssessment(
     patientAge: number,
     patientGender: string
 ): Promise<{ urgency: string; keyConsiderations: string[] }> {
-    const model = genAI.getGenerativeModel({ model: "gemini-3-pro-preview" });
-
-    const prompt = `Quick triage assessment for a ${patientAge}y ${patientGender} patient presenting with: ${symptoms}
-
-Provide a brief JSON response:
-{
-    "urgency": "LOW/MEDIUM/HIGH/CRITICAL",
-    "keyConsiderations": ["List 2-3 key clinical considerations"]
-}`;
+    const { text: prompt, promptVersion } = await renderPrompt(QUICK_ASSESSMENT_PROMPT, {
+        patientAge: String(patientAge),
+        patientGender,
+        symptoms: delimitUntrusted("symptoms", symptoms),
+    });
 
     try {
-        const result = await model.generateContent(prompt);
-        const response = result.response.text();
+        const { text: response } = await callModel("diagnosis", { task: "quick-assessment", promptVersion, prompt });
         const jsonMatch = response.match(/\{[\s\S]*\}/);
 
         if (jsonMatch) {
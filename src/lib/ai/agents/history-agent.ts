@@ -11,167 +11,156 @@
  * - External reports (EHR/FHIR DiagnosticReport)
  */
 
-import { GoogleGenerativeAI } from "@google/generative-ai";
-import { ClinicalHistoryAnalysis, PatientContext } from "./types";
-
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || "");
+import { callModel } from "@/lib/ai/providers";
+import { renderPrompt, HISTORY_ANALYSIS_PROMPT, LONGITUDINAL_SUMMARY_PROMPT } from "@/lib/ai/prompts";
+import { ClinicalHistoryAnalysis, InteractionAlert, PatientContext } from "./types";
+import { ClinicalHistoryOutputSchema } from "./schemas";
+import { generateStructured, describeAgentError } from "./structured-output";
+import { recordRef } from "@/lib/citations";
+import { delimitUntrusted } from "@/lib/untrusted-content";
+import { buildContext, getHistoryContextBudget, type ContextItem } from "./context-budget";
+
+// Section text when a section's records were all summarized
+const SUMMARIZED_SECTION = "Summarized under Summary of Remaining Records";
 
 export async function analyzePatientHistory(
     patient: PatientContext
 ): Promise<ClinicalHistoryAnalysis> {
-    const model = genAI.getGenerativeModel({ model: "gemini-3-pro-preview" });
-
     const startTime = Date.now();
 
-    // Build comprehensive patient context from encounters
-    const encounterHistory = patient.encounters
-        .map((enc, i) => {
-            const scanInfo = enc.scans.length > 0
-                ? `Scans: ${enc.scans.map(s => `${s.type}${s.bodyPart ? ` (${s.bodyPart})` : ""}`).join(", ")}`
-                : "No scans";
-            const triageInfo = enc.triageReport
-                ? `Triage: ${enc.triageReport.urgencyLevel} - ${enc.triageReport.summary.slice(0, 200)}`
-                : "";
-            return `Encounter ${i + 1} (${enc.createdAt}):
+    // Each record becomes a context item tagged with its reference ([Type/id]) so
+    // findings can cite it; text entered by patients or taken from documents is
+    // delimited as untrusted. The items are fitted to the token budget below.
+    const encounterItems: ContextItem[] = patient.encounters.map((enc, i) => {
+        const scanInfo = enc.scans.length > 0
+            ? `Scans: ${enc.scans.map(s => `${s.type}${s.bodyPart ? ` (${s.bodyPart})` : ""} [${recordRef("Scan", s.id)}]`).join(", ")}`
+            : "No scans";
+        const triageInfo = enc.triageReport ? `Triage: ${enc.triageReport.urgencyLevel}` : "";
+        return {
+            ref: recordRef("Encounter", enc.id),
+            section: "encounters",
+            date: enc.createdAt,
+            text: `Encounter ${i + 1} (${enc.createdAt}) [${recordRef("Encounter", enc.id)}]:
   - Type: ${enc.encounterType || "ambulatory"}
-  - Chief Complaint: ${enc.chiefComplaint || enc.symptoms}
-  ${enc.voiceTranscript ? `- Voice Notes: ${enc.voiceTranscript}` : ""}
+  - Chief Complaint: ${delimitUntrusted("chief complaint", enc.chiefComplaint || enc.symptoms)}
+  ${enc.voiceTranscript ? `- Voice Notes: ${delimitUntrusted("voice transcript", enc.voiceTranscript)}` : ""}
   - ${scanInfo}
-  ${triageInfo}`;
-        })
-        .join("\n\n");
+  ${triageInfo}`,
+        };
+    });
 
-    // Build previous triage reports summary for trend analysis
-    const previousTriageReports = patient.encounters
+    // Previous triage reports, for trend analysis
+    const triageItems: ContextItem[] = patient.encounters
         .filter(enc => enc.triageReport)
-        .map(enc => enc.triageReport!)
-        .slice(0, 5) // Last 5 triage reports
-        .map((report, i) => {
-            return `Previous Report ${i + 1}:
+        .map(enc => {
+            const report = enc.triageReport!;
+            return {
+                ref: `TriageReport/${report.id}`,
+                section: "triage",
+                date: enc.createdAt,
+                text: `Previous Report (${enc.createdAt}):
   - Urgency: ${report.urgencyLevel}
   - Confidence: ${report.confidenceScore ? `${Math.round(report.confidenceScore * 100)}%` : 'N/A'}
-  - Summary: ${report.summary.slice(0, 300)}
-  - Recommended Action: ${report.recommendedAction || 'N/A'}`;
-        })
-        .join("\n\n");
-
-    // Build structured medical history (EHR/FHIR Condition compliant)
-    const medicalHistoryStr = patient.medicalHistory && patient.medicalHistory.length > 0
-        ? patient.medicalHistory.map(h => {
-            const dateStr = h.onsetDate ? ` (since ${h.onsetDate})` : "";
-            const statusStr = h.clinicalStatus !== "active" ? ` [${h.clinicalStatus}]` : "";
-            const severityStr = h.severity ? ` - ${h.severity}` : "";
-            const codeStr = h.icd10Code ? ` (ICD-10: ${h.icd10Code})` : "";
-            return `- [${h.type}] ${h.description}${dateStr}${statusStr}${severityStr}${codeStr}`;
-        }).join("\n")
-        : "No structured medical history on file";
-
-    // Build current medications list (EHR/FHIR MedicationStatement compliant)
-    const medicationsStr = patient.medications && patient.medications.length > 0
-        ? patient.medications
-            .filter(m => m.status === "active")
-            .map(m => {
-                const dosageStr = m.dosage ? ` ${m.dosage}` : "";
-                const freqStr = m.frequency ? ` ${m.frequency}` : "";
-                const routeStr = m.route ? ` (${m.route})` : "";
-                const reasonStr = m.reason ? ` - for ${m.reason}` : "";
-                return `- ${m.name}${dosageStr}${freqStr}${routeStr}${reasonStr}`;
-            }).join("\n")
-        : "No current medications on file";
-
-    // Build external reports summary (EHR/FHIR DiagnosticReport compliant)
-    const reportsStr = patient.externalReports && patient.externalReports.length > 0
-        ? patient.externalReports
-            .slice(0, 10) // Most recent 10 reports
-            .map(r => {
-                const findingsStr = r.findings ? ` - Findings: ${r.findings.slice(0, 200)}` : "";
-                const conclusionStr = r.conclusion ? ` Conclusion: ${r.conclusion.slice(0, 200)}` : "";
-                return `- [${r.type}] ${r.title} (${r.reportDate})${findingsStr}${conclusionStr}`;
-            }).join("\n")
-        : "No external reports on file";
-
-    const prompt = `You are a clinical history analyst AI. Your role is to thoroughly analyze a patient's complete medical record and identify all clinically relevant factors that could influence diagnosis and treatment.
-
-## Patient Information
-- **Name**: ${patient.name}
-- **Age**: ${patient.age} years old
-- **Gender**: ${patient.gender}
-- **Date of Birth**: ${patient.dateOfBirth}
-${patient.mrn ? `- **MRN**: ${patient.mrn}` : ""}
-
-## Structured Medical History (EHR)
-${medicalHistoryStr}
-
-## Current Medications
-${medicationsStr}
-
-## External Medical Reports (Lab, Pathology, Radiology, etc.)
-${reportsStr}
-
-## Legacy Medical History Summary
-${patient.medicalHistorySummary || "No legacy summary available"}
-
-## Current Presentation
-- **Presenting Symptoms**: ${patient.currentSymptoms}
-${patient.voiceTranscript ? `- **Patient's Own Words**: ${patient.voiceTranscript}` : ""}
-
-## Previous Encounters
-${encounterHistory || "No previous encounters on record"}
-
-## Previous Triage Reports (for trend analysis)
-${previousTriageReports || "No previous triage reports on file"}
-
-## Task
-Analyze ALL available information (medical history, medications, external reports, encounters) and provide a comprehensive clinical context assessment. Consider:
-1. How the patient's age affects risk profiles and differential diagnoses
-2. Gender-specific health considerations
-3. Patterns in their medical history
-4. Previous conditions that may be recurring or related
-5. Medication interactions and contraindications
-6. Lab findings and report insights that are relevant to the current presentation
-7. Red flags or warning signs based on their complete record
-
-Respond with ONLY valid JSON in this exact format:
-{
-    "riskFactors": ["List of identified risk factors based on complete history"],
-    "relevantConditions": ["Pre-existing conditions relevant to current presentation"],
-    "medicationInteractions": ["Potential medication concerns based on current meds and presentation"],
-    "contraindications": ["Treatment approaches to avoid based on history and medications"],
-    "contextSummary": "A narrative summary of clinically relevant context (2-3 paragraphs)",
-    "ageRelatedConsiderations": ["Specific considerations based on the patient's age group"],
-    "genderSpecificFactors": ["Any gender-specific health factors to consider"],
-    "relevantLabFindings": ["Key lab values or test results from external reports that are relevant"],
-    "reportInsights": ["Important insights from external reports that should inform diagnosis"],
-    "previousTriageAnalysis": "Analysis of previous triage reports - whether condition is improving, stable, or declining. Include specific observations about trends."
-}`;
+  - Summary: ${report.summary}
+  - Recommended Action: ${report.recommendedAction || 'N/A'}`,
+            };
+        });
+
+    // Structured medical history (EHR/FHIR Condition compliant); allergies and
+    // active conditions are always considered first
+    const historyItems: ContextItem[] = (patient.medicalHistory ?? []).map(h => {
+        const dateStr = h.onsetDate ? ` (since ${h.onsetDate})` : "";
+        const statusStr = h.clinicalStatus !== "active" ? ` [${h.clinicalStatus}]` : "";
+        const severityStr = h.severity ? ` - ${h.severity}` : "";
+        const codeStr = h.icd10Code ? ` (ICD-10: ${h.icd10Code})` : "";
+        return {
+            ref: recordRef("MedicalHistory", h.id),
+            section: "history",
+            date: h.onsetDate ?? null,
+            pinned: h.type === "allergy"
+                || (h.type === "condition" && (h.clinicalStatus === "active" || h.clinicalStatus === "recurrence")),
+            text: `- [${recordRef("MedicalHistory", h.id)}] [${h.type}] ${h.description}${dateStr}${statusStr}${severityStr}${codeStr}`,
+        };
+    });
+
+    // Current medications (EHR/FHIR MedicationStatement compliant)
+    const medicationItems: ContextItem[] = (patient.medications ?? [])
+        .filter(m => m.status === "active")
+        .map(m => {
+            const dosageStr = m.dosage ? ` ${m.dosage}` : "";
+            const freqStr = m.frequency ? ` ${m.frequency}` : "";
+            const routeStr = m.route ? ` (${m.route})` : "";
+            const reasonStr = m.reason ? ` - for ${m.reason}` : "";
+            return {
+                ref: recordRef("Medication", m.id),
+                section: "medications",
+                date: m.startDate ?? null,
+                pinned: true,
+                text: `- [${recordRef("Medication", m.id)}] ${m.name}${dosageStr}${freqStr}${routeStr}${reasonStr}`,
+            };
+        });
+
+    // External reports (EHR/FHIR DiagnosticReport compliant)
+    const reportItems: ContextItem[] = (patient.externalReports ?? []).map(r => {
+        const findingsStr = r.findings ? ` - Findings: ${delimitUntrusted("report findings", r.findings)}` : "";
+        const conclusionStr = r.conclusion ? ` Conclusion: ${delimitUntrusted("report conclusion", r.conclusion)}` : "";
+        return {
+            ref: recordRef("ExternalReport", r.id),
+            section: "reports",
+            date: r.reportDate,
+            text: `- [${recordRef("ExternalReport", r.id)}] [${r.type}] ${r.title} (${r.reportDate})${findingsStr}${conclusionStr}`,
+        };
+    });
+
+    const items = [...medicationItems, ...historyItems, ...reportItems, ...encounterItems, ...triageItems];
+    const context = await buildContext(patient.id, items, {
+        complaint: [patient.currentSymptoms, patient.voiceTranscript].filter(Boolean).join(" "),
+        budgetTokens: getHistoryContextBudget(),
+    });
+    const section = (name: string, separator: string, emptyText: string) =>
+        context.sections[name]?.join(separator)
+        ?? (items.some(item => item.section === name) ? SUMMARIZED_SECTION : emptyText);
+
+    // Alerts from the rule-based interaction checker, most severe first
+    const interactionAlerts = (patient.interactionAlerts ?? []).map(describeInteractionAlert);
+    const interactionAlertsStr = interactionAlerts.length > 0
+        ? interactionAlerts.map(a => `- ${a}`).join("\n")
+        : "No interactions found by the rule-based checker";
+
+    const { text: prompt, promptVersion } = await renderPrompt(HISTORY_ANALYSIS_PROMPT, {
+        patientName: patient.name,
+        patientAge: String(patient.age),
+        patientGender: patient.gender,
+        dateOfBirth: patient.dateOfBirth,
+        mrn: patient.mrn || "",
+        medicalHistory: section("history", "\n", "No structured medical history on file"),
+        medications: section("medications", "\n", "No current medications on file"),
+        interactionAlerts: interactionAlertsStr,
+        externalReports: section("reports", "\n", "No external reports on file"),
+        legacySummary: patient.medicalHistorySummary || "No legacy summary available",
+        symptoms: delimitUntrusted("symptoms", patient.currentSymptoms),
+        voiceTranscript: delimitUntrusted("voice transcript", patient.voiceTranscript),
+        encounterHistory: section("encounters", "\n\n", "No previous encounters on record"),
+        previousTriageReports: section("triage", "\n\n", "No previous triage reports on file"),
+        olderRecordsSummary: delimitUntrusted("records summary", context.overflowSummary),
+    }, { rolloutKey: patient.id });
 
     try {
-        const result = await model.generateContent(prompt);
-        const response = result.response.text();
-
-        // Parse JSON from response
-        const jsonMatch = response.match(/\{[\s\S]*\}/);
-        if (!jsonMatch) {
-            throw new Error("Failed to parse clinical history analysis");
-        }
-
-        const parsed = JSON.parse(jsonMatch[0]);
+        const { data } = await generateStructured(
+            "history",
+            { task: "history-analysis", promptVersion, prompt, context: context.manifest },
+            ClinicalHistoryOutputSchema
+        );
 
         const processingTime = Date.now() - startTime;
         console.log(`[HistoryAgent] Analyzed patient history in ${processingTime}ms`);
 
         return {
             patientId: patient.id,
-            riskFactors: Array.isArray(parsed.riskFactors) ? parsed.riskFactors : [],
-            relevantConditions: Array.isArray(parsed.relevantConditions) ? parsed.relevantConditions : [],
-            medicationInteractions: Array.isArray(parsed.medicationInteractions) ? parsed.medicationInteractions : [],
-            contraindications: Array.isArray(parsed.contraindications) ? parsed.contraindications : [],
-            contextSummary: parsed.contextSummary || "Clinical context analysis completed.",
-            ageRelatedConsiderations: Array.isArray(parsed.ageRelatedConsiderations) ? parsed.ageRelatedConsiderations : [],
-            genderSpecificFactors: Array.isArray(parsed.genderSpecificFactors) ? parsed.genderSpecificFactors : [],
-            relevantLabFindings: Array.isArray(parsed.relevantLabFindings) ? parsed.relevantLabFindings : [],
-            reportInsights: Array.isArray(parsed.reportInsights) ? parsed.reportInsights : [],
-            previousTriageAnalysis: parsed.previousTriageAnalysis || null,
+            ...data,
+            previousTriageAnalysis: data.previousTriageAnalysis || null,
+            status: "ok",
+            promptVersion,
         };
     } catch (error) {
         console.error("[HistoryAgent] Error analyzing patient history:", error);
@@ -181,7 +170,7 @@ Respond with ONLY valid JSON in this exact format:
             patientId: patient.id,
             riskFactors: patient.age > 60 ? ["Advanced age"] : [],
             relevantConditions: patient.medicalHistory?.map(h => h.description) || [],
-            medicationInteractions: [],
+            medicationInteractions: interactionAlerts,
             contraindications: [],
             contextSummary: `Patient is a ${patient.age}-year-old ${patient.gender} presenting with: ${patient.currentSymptoms}. ${patient.medicalHistorySummary || "Limited medical history available."}`,
             ageRelatedConsiderations: getAgeConsiderations(patient.age),
@@ -189,10 +178,24 @@ Respond with ONLY valid JSON in this exact format:
             relevantLabFindings: [],
             reportInsights: [],
             previousTriageAnalysis: null,
+            status: "failed",
+            validationError: describeAgentError(error),
         };
     }
 }
 
+/**
+ * One-line description of an interaction alert, e.g.
+ * "[MAJOR] warfarin + ibuprofen: Additive bleeding risk. Management: ..."
+ */
+function describeInteractionAlert(alert: InteractionAlert): string {
+    const subject = alert.kind === "drug-allergy"
+        ? `${alert.medications[0]} with documented allergy "${alert.allergy}"`
+        : alert.medications.join(" + ");
+    const management = alert.management ? ` Management: ${alert.management}` : "";
+    return `[${alert.severity.toUpperCase()}] ${subject}: ${alert.description}.${management}`;
+}
+
 /**
  * Get age-related clinical considerations
  */
@@ -239,8 +242,6 @@ function getAgeConsiderations(age: number): string[] {
 export async function generateLongitudinalSummary(
     patient: PatientContext
 ): Promise<string> {
-    const model = genAI.getGenerativeModel({ model: "gemini-3-pro-preview" });
-
     // Include structured history in summary
     const conditionsSummary = patient.medicalHistory && patient.medicalHistory.length > 0
         ? patient.medicalHistory
@@ -258,27 +259,22 @@ export async function generateLongitudinalSummary(
 
     const encounterSummaries = patient.encounters
         .slice(0, 10) // Last 10 encounters
-        .map((enc) => `${enc.createdAt}: ${enc.symptoms}`)
+        .map((enc) => `${enc.createdAt}: ${delimitUntrusted("symptoms", enc.symptoms)}`)
         .join("\n");
 
-    const prompt = `Summarize this patient's longitudinal medical history in 3-4 concise sentences suitable for a medical chart. Include key chronic conditions, patterns, medications, and relevant history.
-
-Patient: ${patient.name}, ${patient.age}y ${patient.gender}
-
-Active Conditions: ${conditionsSummary || "None documented"}
-Current Medications: ${medsSummary || "None documented"}
-
-Recent Encounters:
-${encounterSummaries}
-
-Current Medical History Summary:
-${patient.medicalHistorySummary || "None documented"}
-
-Provide a concise, clinical summary:`;
+    const { text: prompt, promptVersion } = await renderPrompt(LONGITUDINAL_SUMMARY_PROMPT, {
+        patientName: patient.name,
+        patientAge: String(patient.age),
+        patientGender: patient.gender,
+        activeConditions: conditionsSummary || "None documented",
+        medications: medsSummary || "None documented",
+        recentEncounters: encounterSummaries,
+        currentSummary: patient.medicalHistorySummary || "None documented",
+    }, { rolloutKey: patient.id });
 
     try {
-        const result = await model.generateContent(prompt);
-        return result.response.text().trim();
+        const { text } = await callModel("history", { task: "longitudinal-summary", promptVersion, prompt });
+        return text.trim();
     } catch (error) {
         console.error("[HistoryAgent] Error generating longitudinal summary:", error);
         return patient.medicalHistorySummary || "";
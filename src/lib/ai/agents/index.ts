@@ -35,6 +35,25 @@ export {
     orchestrateFullAnalysis,
     gatherPatientContext,
     analyzeSingleScan,
+    // Individual steps, run as separate Inngest steps by the workflows
+    prepareAnalysis,
+    runHistoryAnalysis,
+    runScanAnalysis,
+    reportScanProgress,
+    runDiagnosis,
+    runCoding,
+    updateLongitudinalHistory,
+    runExecutiveSummary,
+    compileReport,
+    verifyReportMentions,
+    patientIdentifiers,
+    SCAN_ANALYSIS_CONCURRENCY,
+} from "./orchestrator";
+export type {
+    AnalysisOptions,
+    AnalysisScan,
+    PreparedAnalysis,
+    ExecutiveSummary,
 } from "./orchestrator";
 
 // Scan Agent - Medical image analysis
@@ -62,3 +81,9 @@ export {
     generateImagingCodes,
     formatCodesForDisplay,
 } from "./coding-agent";
+
+// Report Store - Persistence of orchestrated reports and agent traces
+export {
+    toTriageReportFields,
+    saveOrchestratedReport,
+} from "./report-store";
@@ -0,0 +1,105 @@
+/**
+ * Report Store - persists orchestrated reports and their agent traces
+ *
+ * A TriageReport keeps the denormalized fields the dashboard lists and sorts
+ * on; the complete OrchestratedMedicalReport and one AgentTrace row per model
+ * call are stored alongside it so the full agent output can be rendered and
+ * audited later.
+ */
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import type { AgentTraceRecord } from "@/lib/ai/providers";
+import { formatCodesForDisplay } from "./coding-agent";
+import { OrchestratedMedicalReport } from "./types";
+
+/**
+ * TriageReport columns derived from an orchestrated report
+ */
+export function toTriageReportFields(report: OrchestratedMedicalReport) {
+    const { icd10Display, cptDisplay } = formatCodesForDisplay(report.coding);
+
+    return {
+        summary: report.executiveSummary,
+        urgencyLevel: report.overallUrgency,
+        esiLevel: report.esi.level,
+        esiAssessment: report.esi as unknown as Prisma.InputJsonValue,
+        esiDisagreement: report.esi.disagreement !== null,
+        recommendedAction: report.diagnosis.recommendedActions.map(action => `- ${action}`).join("\n"),
+        reasoningChain: report.reasoningChain,
+        confidenceScore: report.overallConfidence,
+        analysisStatus: report.analysisStatus,
+        agentIssues: report.agentIssues,
+        suggestedICD10: icd10Display,
+        suggestedCPT: cptDisplay,
+    };
+}
+
+/**
+ * Store the full orchestrated report and its traces for a triage report.
+ * Re-running an analysis replaces both, so they always describe the same run.
+ */
+export async function saveOrchestratedReport(
+    triageReportId: string,
+    report: OrchestratedMedicalReport,
+    traces: AgentTraceRecord[]
+): Promise<void> {
+    const data = {
+        reportId: report.reportId,
+        generatedAt: new Date(report.generatedAt),
+        patientSummary: report.patientSummary as Prisma.InputJsonValue,
+        clinicalHistory: report.clinicalHistory as unknown as Prisma.InputJsonValue,
+        interactionAlerts: report.interactionAlerts as unknown as Prisma.InputJsonValue,
+        earlyWarningScores: report.earlyWarningScores
+            ? report.earlyWarningScores as unknown as Prisma.InputJsonValue
+            : Prisma.DbNull,
+        calculatorResults: report.calculatorResults as unknown as Prisma.InputJsonValue,
+        citations: report.citations as unknown as Prisma.InputJsonValue,
+        unsupportedMentions: report.unsupportedMentions as unknown as Prisma.InputJsonValue,
+        scanAnalyses: report.scanAnalyses as unknown as Prisma.InputJsonValue,
+        diagnosis: report.diagnosis as unknown as Prisma.InputJsonValue,
+        coding: report.coding as unknown as Prisma.InputJsonValue,
+        executiveSummary: report.executiveSummary,
+        overallUrgency: report.overallUrgency,
+        overallConfidence: report.overallConfidence,
+        reasoningChain: report.reasoningChain,
+        agentsUsed: report.agentsUsed,
+        processingTimeMs: report.processingTimeMs,
+        inputTokens: traces.reduce((sum, trace) => sum + trace.inputTokens, 0),
+        outputTokens: traces.reduce((sum, trace) => sum + trace.outputTokens, 0),
+        costUsd: traces.reduce((sum, trace) => sum + trace.costUsd, 0),
+    };
+
+    await prisma.$transaction([
+        prisma.orchestratedReport.upsert({
+            where: { triageReportId },
+            create: { triageReportId, ...data },
+            update: data,
+        }),
+        prisma.agentTrace.deleteMany({ where: { triageReportId } }),
+        prisma.agentTrace.createMany({
+            data: traces.map(trace => ({
+                triageReportId,
+                agent: trace.agent,
+                task: trace.task,
+                provider: trace.provider,
+                model: trace.model,
+                promptVersion: trace.promptVersion,
+                inputHash: trace.inputHash,
+                rawOutput: trace.rawOutput,
+                latencyMs: trace.latencyMs,
+                error: trace.error,
+                startedAt: new Date(trace.startedAt),
+                inputTokens: trace.inputTokens,
+                outputTokens: trace.outputTokens,
+                costUsd: trace.costUsd,
+                contextManifest: trace.context
+                    ? trace.context as unknown as Prisma.InputJsonValue
+                    : Prisma.DbNull,
+                cached: trace.cached,
+            })),
+        }),
+    ]);
+
+    console.log(`[ReportStore] Saved orchestrated report ${report.reportId} with ${traces.length} agent traces`);
+}
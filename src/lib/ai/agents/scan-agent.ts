@@ -1,80 +1,17 @@
 /**
  * Medical Scan Agent - GPT-5 Mini with Vision
  * 
- * This agent specializes in analyzing medical images using OpenAI's GPT-5 Mini
- * with vision capabilities. It can process X-rays, MRIs, CT scans, dermatology
- * images, and ultrasounds.
+ * This agent specializes in analyzing medical images using a vision-capable
+ * model (OpenAI by default, see LLM_PROVIDER_SCAN). It can process X-rays,
+ * MRIs, CT scans, dermatology images, and ultrasounds.
  */
 
-import OpenAI from "openai";
 import * as dicomParser from 'dicom-parser';
+import { ModelContentPart } from "@/lib/ai/providers";
+import { renderPrompt, SCAN_ANALYSIS_PROMPTS } from "@/lib/ai/prompts";
 import { ScanAnalysisResult } from "./types";
-
-const openai = new OpenAI({
-    apiKey: process.env.OPENAI_API_KEY || "",
-});
-
-const SCAN_TYPE_PROMPTS: Record<string, string> = {
-    "X-RAY": `You are an expert radiologist AI assistant specializing in X-ray analysis. 
-Analyze this X-ray image and provide a detailed clinical assessment.
-
-Focus on:
-- Bone structure and alignment
-- Soft tissue abnormalities
-- Cardiac silhouette (if chest X-ray)
-- Lung fields and parenchyma (if chest X-ray)
-- Joint spaces and articular surfaces (if extremity)
-- Any foreign bodies or implants
-- Signs of fractures, dislocations, or degenerative changes`,
-
-    "MRI": `You are an expert radiologist AI assistant specializing in MRI analysis.
-Analyze this MRI image and provide a detailed clinical assessment.
-
-Focus on:
-- Tissue contrast and signal intensity
-- Anatomical structures and their boundaries
-- Any masses, lesions, or abnormal findings
-- Edema or inflammation patterns
-- Vascular structures
-- Neural structures (if applicable)
-- Comparison with normal anatomy`,
-
-    "CT": `You are an expert radiologist AI assistant specializing in CT scan analysis.
-Analyze this CT image and provide a detailed clinical assessment.
-
-Focus on:
-- Cross-sectional anatomy
-- Density measurements and contrast enhancement
-- Organ morphology and size
-- Vascular structures and patency
-- Any masses, nodules, or lesions
-- Bone windows analysis (if applicable)
-- Signs of acute pathology`,
-
-    "DERM": `You are an expert dermatologist AI assistant specializing in skin lesion analysis.
-Analyze this dermatological image and provide a detailed clinical assessment.
-
-Focus on:
-- ABCDE criteria (Asymmetry, Border, Color, Diameter, Evolution)
-- Lesion morphology and characteristics
-- Distribution pattern
-- Surface texture and features
-- Color variations within the lesion
-- Comparison to common benign vs malignant patterns
-- Signs requiring urgent attention`,
-
-    "ULTRASOUND": `You are an expert sonographer AI assistant specializing in ultrasound analysis.
-Analyze this ultrasound image and provide a detailed clinical assessment.
-
-Focus on:
-- Echogenicity patterns
-- Anatomical landmarks and orientation
-- Fluid collections or cysts
-- Solid masses and their characteristics
-- Blood flow patterns (if Doppler)
-- Organ size and morphology
-- Comparison with normal sonographic appearance`,
-};
+import { ScanAnalysisOutputSchema } from "./schemas";
+import { generateStructured, describeAgentError } from "./structured-output";
 
 // Helper to extract text from DICOM buffer
 function extractDicomData(byteArray: Uint8Array) {
@@ -118,24 +55,16 @@ export async function analyzeScanWithVision(
     const useDicomMetadataOnly = isDicom && !previewUrl;
 
     let systemPrompt = "";
-    let userContent: any[] = [];
+    let userContent: ModelContentPart[] = [];
 
     // Prompt selection
-    const typePrompt = SCAN_TYPE_PROMPTS[scanType] || SCAN_TYPE_PROMPTS["X-RAY"];
-    const basePrompt = `${typePrompt}
-    
-${bodyPart ? `This is a ${scanType} scan of the ${bodyPart}.` : ""}
-${clinicalContext ? `\nClinical Context:\n${clinicalContext}` : ""}
-
-Provide your analysis in the following JSON format (respond ONLY with valid JSON, no markdown):
-{
-    "findings": "Detailed description of all findings",
-    "abnormalities": ["List of specific abnormalities found"],
-    "severity": "One of: NORMAL, MILD, MODERATE, SEVERE",
-    "confidence": 0.0-1.0,
-    "recommendations": ["List of clinical recommendations"],
-    "detailedAnalysis": "Step-by-step radiological analysis"
-}`;
+    const promptDefinition =
+        SCAN_ANALYSIS_PROMPTS[scanType as keyof typeof SCAN_ANALYSIS_PROMPTS] || SCAN_ANALYSIS_PROMPTS["X-RAY"];
+    const { text: basePrompt, promptVersion } = await renderPrompt(promptDefinition, {
+        scanType,
+        bodyPart: bodyPart || "",
+        clinicalContext: clinicalContext || "",
+    });
 
     try {
         if (useDicomMetadataOnly) {
@@ -212,88 +141,37 @@ ${dicomContext}` : ""}
                 },
                 {
                     type: "image_url",
-                    image_url: {
-                        url: visionUrl,
-                        detail: "high",
-                    },
+                    url: visionUrl,
+                    detail: "high",
                 },
             ];
         }
 
-        console.log(`[ScanAgent] Sending request to OpenAI (${useDicomMetadataOnly ? "DICOM Metadata" : "Vision"})...`);
-
-        const response = await openai.chat.completions.create({
-            model: "gpt-4o",
-            messages: [
-                {
-                    role: "system",
-                    content: systemPrompt,
-                },
-                {
-                    role: "user",
-                    content: userContent,
-                },
-            ],
-            max_completion_tokens: 2000,
-            response_format: {
-                type: "json_schema",
-                json_schema: {
-                    name: "scan_analysis",
-                    strict: true,
-                    schema: {
-                        type: "object",
-                        properties: {
-                            findings: { type: "string" },
-                            abnormalities: { type: "array", items: { type: "string" } },
-                            severity: { type: "string", enum: ["NORMAL", "MILD", "MODERATE", "SEVERE"] },
-                            confidence: { type: "number" },
-                            recommendations: { type: "array", items: { type: "string" } },
-                            detailedAnalysis: { type: "string" }
-                        },
-                        required: ["findings", "abnormalities", "severity", "confidence", "recommendations", "detailedAnalysis"],
-                        additionalProperties: false
-                    }
+        console.log(`[ScanAgent] Sending request to model (${useDicomMetadataOnly ? "DICOM Metadata" : "Vision"})...`);
+
+        const { data: parsed, rawOutput } = await generateStructured("scan", {
+            task: "scan-analysis",
+            promptVersion,
+            system: systemPrompt,
+            prompt: userContent,
+            maxOutputTokens: 2000,
+            responseSchema: {
+                name: "scan_analysis",
+                schema: {
+                    type: "object",
+                    properties: {
+                        findings: { type: "string" },
+                        abnormalities: { type: "array", items: { type: "string" } },
+                        severity: { type: "string", enum: ["NORMAL", "MILD", "MODERATE", "SEVERE"] },
+                        confidence: { type: "number" },
+                        recommendations: { type: "array", items: { type: "string" } },
+                        detailedAnalysis: { type: "string" }
+                    },
+                    required: ["findings", "abnormalities", "severity", "confidence", "recommendations", "detailedAnalysis"],
+                    additionalProperties: false
                 }
             },
-        });
-
-        // Detailed logging for debugging
-        console.log("[ScanAgent] OpenAI Response Info:", {
-            id: response.id,
-            model: response.model,
-            usage: response.usage,
-            finish_reason: response.choices[0]?.finish_reason,
-        });
-
-        const choice = response.choices[0];
-        const content = choice?.message?.content || "";
-        const refusal = choice?.message?.refusal;
-
-        if (refusal) {
-            console.error("[ScanAgent] Model refused to generate analysis:", refusal);
-            throw new Error(`Model refusal: ${refusal}`);
-        }
-
-        if (!content) {
-            console.error("[ScanAgent] Received empty content from model.");
-            throw new Error("Empty response content from AI model");
-        }
-
-        let parsed;
-        try {
-            parsed = JSON.parse(content);
-        } catch (error) {
-            console.error("[ScanAgent] Failed to parse JSON content:", error);
-            console.debug("[ScanAgent] Raw content:", content);
-            parsed = {
-                findings: "Analysis failed to produce structured output.",
-                abnormalities: [],
-                severity: "NORMAL",
-                confidence: 0,
-                recommendations: [],
-                detailedAnalysis: "The AI model encountered an error while structuring the analysis."
-            };
-        }
+        }, ScanAnalysisOutputSchema);
 
         const processingTime = Date.now() - startTime;
         console.log(`[ScanAgent] Analyzed ${scanType} scan (${isDicom ? 'DICOM' : 'Image'}) in ${processingTime}ms`);
@@ -301,16 +179,15 @@ ${dicomContext}` : ""}
         return {
             scanId: "", // Will be set by caller
             scanType,
-            findings: parsed.findings || "Analysis completed based on available data.",
-            abnormalities: Array.isArray(parsed.abnormalities) ? parsed.abnormalities : [],
-            severity: ["NORMAL", "MILD", "MODERATE", "SEVERE"].includes(parsed.severity)
-                ? parsed.severity
-                : "NORMAL",
-            confidence: typeof parsed.confidence === "number"
-                ? Math.min(1, Math.max(0, parsed.confidence))
-                : 0.85,
-            recommendations: Array.isArray(parsed.recommendations) ? parsed.recommendations : [],
-            rawAnalysis: parsed.detailedAnalysis || content,
+            findings: parsed.findings,
+            abnormalities: parsed.abnormalities,
+            severity: parsed.severity,
+            confidence: parsed.confidence,
+            recommendations: parsed.recommendations,
+            rawAnalysis: parsed.detailedAnalysis || rawOutput,
+            // Without pixel data the model can only reason from metadata and context
+            status: useDicomMetadataOnly ? "degraded" : "ok",
+            promptVersion,
         };
     } catch (error) {
         console.error("[ScanAgent] Error analyzing scan:", error);
@@ -329,6 +206,8 @@ ${dicomContext}` : ""}
                 "Correlate with clinical findings",
             ],
             rawAnalysis: "Automated analysis unavailable - please review manually.",
+            status: "failed",
+            validationError: describeAgentError(error),
         };
     }
 }
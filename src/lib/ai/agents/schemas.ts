@@ -0,0 +1,83 @@
+/**
+ * Runtime schemas for agent model outputs
+ *
+ * Each schema describes the JSON an agent asks its model to return. Responses
+ * are validated against these before they are turned into the result types in
+ * ./types, so malformed output is caught (and repaired or recorded) instead of
+ * being silently patched with placeholder values.
+ */
+
+import { z } from "zod";
+
+const stringList = z.array(z.string());
+const confidence = z.number().min(0).max(1);
+
+// ICD-10-CM: letter, two characters, optional dot and up to four more (e.g. R07.9, S72.001A)
+const ICD10_PATTERN = /^[A-Z][0-9][0-9A-Z](\.[0-9A-Z]{1,4})?$/;
+// CPT: four digits plus a digit or Category II/III suffix (e.g. 99213, 0042T)
+const CPT_PATTERN = /^[0-9]{4}[0-9FTU]$/;
+
+// Record reference an agent gives for a claim; checked against the record afterwards
+export const EvidenceCitationSchema = z.object({
+    claim: z.string().min(1),
+    source: z.string().min(1),
+    quote: z.string(),
+});
+
+export const ScanAnalysisOutputSchema = z.object({
+    findings: z.string().min(1),
+    abnormalities: stringList,
+    severity: z.enum(["NORMAL", "MILD", "MODERATE", "SEVERE"]),
+    confidence,
+    recommendations: stringList,
+    detailedAnalysis: z.string(),
+});
+
+export const ClinicalHistoryOutputSchema = z.object({
+    riskFactors: stringList,
+    relevantConditions: stringList,
+    medicationInteractions: stringList,
+    contraindications: stringList,
+    contextSummary: z.string().min(1),
+    ageRelatedConsiderations: stringList,
+    genderSpecificFactors: stringList,
+    relevantLabFindings: stringList,
+    reportInsights: stringList,
+    previousTriageAnalysis: z.string().nullish(),
+    citations: z.array(EvidenceCitationSchema).default([]),
+});
+
+export const DiagnosisOutputSchema = z.object({
+    primaryDiagnosis: z.string().min(1),
+    differentialDiagnoses: stringList,
+    confidence,
+    reasoning: z.string().min(1),
+    urgencyLevel: z.enum(["LOW", "MEDIUM", "HIGH", "CRITICAL"]),
+    recommendedActions: stringList,
+    followUpRecommendations: stringList,
+    redFlags: stringList,
+    citations: z.array(EvidenceCitationSchema).default([]),
+});
+
+export const ICD10CodeSchema = z.object({
+    code: z.string().trim().toUpperCase().regex(ICD10_PATTERN, "Not a valid ICD-10-CM code format"),
+    description: z.string().min(1),
+    isPrimary: z.boolean(),
+});
+
+export const CPTCodeSchema = z.object({
+    code: z.string().trim().toUpperCase().regex(CPT_PATTERN, "Not a valid CPT code format"),
+    description: z.string().min(1),
+    units: z.number().int().positive().optional(),
+});
+
+export const CodingOutputSchema = z.object({
+    icd10Codes: z.array(ICD10CodeSchema),
+    cptCodes: z.array(CPTCodeSchema),
+    confidence,
+});
+
+export type ScanAnalysisOutput = z.infer<typeof ScanAnalysisOutputSchema>;
+export type ClinicalHistoryOutput = z.infer<typeof ClinicalHistoryOutputSchema>;
+export type DiagnosisOutput = z.infer<typeof DiagnosisOutputSchema>;
+export type CodingOutput = z.infer<typeof CodingOutputSchema>;
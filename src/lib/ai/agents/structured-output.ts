@@ -0,0 +1,126 @@
+/**
+ * Structured Output - schema-validated model calls with repair/retry
+ *
+ * Calls an agent's model, extracts the JSON payload and validates it against a
+ * schema. When the output is not valid JSON or fails validation, the model is
+ * asked again with the validation errors so it can repair its answer. If every
+ * attempt fails a StructuredOutputError is thrown carrying the issues and the
+ * raw output, so callers can record exactly why the result is unusable.
+ * Only output that passes validation is kept in the response cache.
+ */
+
+import { z } from "zod";
+import { callModel, AgentId, ModelRequest } from "@/lib/ai/providers";
+
+const DEFAULT_MAX_ATTEMPTS = 2;
+
+export class StructuredOutputError extends Error {
+    constructor(
+        message: string,
+        public readonly issues: string[],
+        public readonly rawOutput: string,
+        public readonly attempts: number
+    ) {
+        super(message);
+        this.name = "StructuredOutputError";
+    }
+}
+
+export interface StructuredOutput<T> {
+    data: T;
+    rawOutput: string;
+    attempts: number;
+}
+
+/**
+ * Pull the JSON value out of a model response (handles code fences and leading prose)
+ */
+export function extractJson(text: string): unknown {
+    const unfenced = text.replace(/```(?:json)?\n?|\n?```/g, "").trim();
+    try {
+        return JSON.parse(unfenced);
+    } catch {
+        const match = unfenced.match(/\{[\s\S]*\}|\[[\s\S]*\]/);
+        if (!match) {
+            throw new Error("Response does not contain JSON");
+        }
+        return JSON.parse(match[0]);
+    }
+}
+
+function formatIssues(error: z.ZodError): string[] {
+    return error.issues.map(issue =>
+        `${issue.path.length > 0 ? issue.path.join(".") : "(root)"}: ${issue.message}`
+    );
+}
+
+function withRepairInstructions(request: ModelRequest, rawOutput: string, issues: string[]): ModelRequest {
+    const note = `
+
+## Correction Required
+Your previous response could not be used because it did not match the required format:
+${issues.map(issue => `- ${issue}`).join("\n")}
+
+Previous response:
+${rawOutput.slice(0, 4000)}
+
+Respond again with ONLY valid JSON in the exact format requested above.`;
+
+    return {
+        ...request,
+        prompt: typeof request.prompt === "string"
+            ? request.prompt + note
+            : [...request.prompt, { type: "text", text: note }],
+    };
+}
+
+/**
+ * Call a model and validate its JSON output against a schema, retrying with repair instructions
+ */
+export async function generateStructured<S extends z.ZodType>(
+    agent: AgentId,
+    request: ModelRequest,
+    schema: S,
+    options: { maxAttempts?: number } = {}
+): Promise<StructuredOutput<z.infer<S>>> {
+    const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+    let currentRequest = request;
+    let issues: string[] = [];
+    let rawOutput = "";
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+        const response = await callModel(agent, currentRequest, { deferCache: true });
+        rawOutput = response.text;
+
+        try {
+            const parsed = schema.safeParse(extractJson(rawOutput));
+            if (parsed.success) {
+                await response.commitCache();
+                return { data: parsed.data, rawOutput, attempts: attempt };
+            }
+            issues = formatIssues(parsed.error);
+        } catch (error) {
+            issues = [`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`];
+        }
+
+        console.warn(`[StructuredOutput] ${request.task} attempt ${attempt}/${maxAttempts} failed validation:`, issues);
+        currentRequest = withRepairInstructions(request, rawOutput, issues);
+    }
+
+    throw new StructuredOutputError(
+        `${request.task} output failed validation after ${maxAttempts} attempts`,
+        issues,
+        rawOutput,
+        maxAttempts
+    );
+}
+
+/**
+ * Describe why an agent call failed, for recording on the agent result
+ */
+export function describeAgentError(error: unknown): string {
+    if (error instanceof StructuredOutputError) {
+        return `${error.message}: ${error.issues.join("; ")}`;
+    }
+    return error instanceof Error ? error.message : String(error);
+}
@@ -43,6 +43,19 @@ export interface PatientContext {
     // Current presentation
     currentSymptoms: string;
     voiceTranscript?: string;
+
+    // Rule-based drug-drug and drug-allergy alerts for the active medications
+    interactionAlerts?: InteractionAlert[];
+
+    // Vitals recorded for the current encounter and the scores computed from them
+    currentVitalSigns?: VitalSigns | null;
+    earlyWarningScores?: EarlyWarningScores | null;
+
+    // Clinical calculators the presentation calls for, with inputs from the record and the clinician
+    calculatorResults?: CalculatorResult[];
+
+    // Red-flag rules the presentation triggers before the diagnosis
+    redFlagHits?: RedFlagHit[];
 }
 
 // Medical History (FHIR Condition)
@@ -76,6 +89,20 @@ export interface MedicationContext {
     notes?: string | null;
 }
 
+export type InteractionSeverity = "contraindicated" | "major" | "moderate" | "minor";
+
+// Alert from the rule-based interaction checker (src/lib/drug-interactions.ts)
+export interface InteractionAlert {
+    kind: "drug-drug" | "drug-allergy";
+    severity: InteractionSeverity;
+    // Medication names as recorded, one for drug-allergy alerts
+    medications: string[];
+    // Allergy entry description (drug-allergy alerts only)
+    allergy?: string;
+    description: string;
+    management?: string | null;
+}
+
 // External Report (FHIR DiagnosticReport)
 export interface ExternalReportContext {
     id: string;
@@ -102,15 +129,151 @@ export interface EncounterContext {
     triageReport?: TriageReportContext | null;
 }
 
+// AVPU scale with new confusion (ACVPU), as used by NEWS2
+export type ConsciousnessLevel = "alert" | "confusion" | "voice" | "pain" | "unresponsive";
+
 export interface VitalSigns {
-    bloodPressureSystolic?: number;
-    bloodPressureDiastolic?: number;
-    heartRate?: number;
-    temperature?: number;
-    weight?: number;
-    height?: number;
-    respiratoryRate?: number;
-    oxygenSaturation?: number;
+    bloodPressureSystolic?: number; // mmHg
+    bloodPressureDiastolic?: number; // mmHg
+    heartRate?: number; // beats/min
+    temperature?: number; // °C
+    weight?: number; // kg
+    height?: number; // cm
+    respiratoryRate?: number; // breaths/min
+    oxygenSaturation?: number; // %
+    supplementalOxygen?: boolean;
+    consciousness?: ConsciousnessLevel;
+}
+
+export type EsiLevel = 1 | 2 | 3 | 4 | 5;
+
+// Emergency Severity Index (ESI v4) acuity (src/lib/esi.ts)
+export interface EsiAssessment {
+    level: EsiLevel;
+    // Decision point that assigned the level: A life-saving intervention,
+    // B high-risk situation, C resource count, D danger-zone vitals
+    decisionPoint: "A" | "B" | "C" | "D";
+    rationale: string[];
+    // Distinct ESI resource types the visit is expected to need
+    estimatedResources: string[];
+    dangerZoneVitals: string[];
+    // Overall urgency of the report and why it falls outside the ESI level's range (null when they agree)
+    urgency: "LOW" | "MEDIUM" | "HIGH" | "CRITICAL";
+    disagreement: string | null;
+}
+
+// Early-warning scores computed from the vitals (src/lib/early-warning.ts)
+export interface EarlyWarningScores {
+    news2: {
+        score: number;
+        // low (0-4), low-medium (a single parameter scoring 3), medium (5-6), high (7+)
+        risk: "low" | "low-medium" | "medium" | "high";
+        // Points per parameter, e.g. { respiratoryRate: 3, heartRate: 1 }
+        components: Partial<Record<keyof VitalSigns, number>>;
+        // Parameters that weren't recorded; the score is then a lower bound
+        missing: (keyof VitalSigns)[];
+    };
+    qsofa: {
+        score: number;
+        positive: boolean; // 2 or more criteria
+        criteria: string[];
+        missing: (keyof VitalSigns)[];
+    };
+    shockIndex: {
+        value: number;
+        elevated: boolean; // 1.0 or more
+    } | null;
+    // Minimum overall urgency the scores call for, with the reasons
+    urgencyFloor: "LOW" | "MEDIUM" | "HIGH" | "CRITICAL";
+    escalationReasons: string[];
+}
+
+// Red-flag rule that matched (src/lib/red-flags.ts)
+export interface RedFlagHit {
+    ruleId: string;
+    name: string;
+    // Red flag text merged into DiagnosisResult.redFlags
+    message: string;
+    minimumUrgency: "HIGH" | "CRITICAL";
+    // What satisfied each condition, e.g. 'Symptoms mention "chest pain"'
+    matched: string[];
+}
+
+// Patient records an agent can cite, referenced as "Type/id" (e.g. "MedicalHistory/clx123")
+export type CitationSourceType = "MedicalHistory" | "Medication" | "ExternalReport" | "Scan" | "Encounter";
+
+// Citation as returned by an agent
+export interface EvidenceCitation {
+    claim: string;
+    source: string;
+    // Text from the record that supports the claim
+    quote: string;
+}
+
+// Cited record as the agents saw it, for display next to the claim
+export interface CitedRecord {
+    label: string;
+    date: string | null;
+    text: string;
+}
+
+// Citation checked against the patient record (src/lib/citations.ts)
+export interface VerifiedCitation {
+    agent: "history" | "diagnosis";
+    claim: string;
+    quote: string;
+    sourceType: CitationSourceType | null;
+    sourceId: string | null;
+    verified: boolean;
+    // Why verification failed (null when verified)
+    issue: string | null;
+    // Null when the reference doesn't resolve to a record of this patient
+    record: CitedRecord | null;
+}
+
+// Medication or condition that generated text asserts but the patient record doesn't have
+// (src/lib/hallucination-guard.ts)
+export interface UnsupportedMention {
+    field: "executiveSummary" | "reasoning" | "patientSummary";
+    kind: "medication" | "condition";
+    // As written in the text
+    term: string;
+    sentence: string;
+    reason: string;
+    // annotated: marked in the text; removed: the sentence or entry was dropped
+    action: "annotated" | "removed";
+}
+
+export type CalculatorId = "heart" | "wells-pe" | "wells-dvt" | "curb-65" | "cha2ds2-vasc" | "gcs" | "perc" | "centor";
+
+// Yes/no criteria are booleans, scored choices the points of the chosen option
+export type CalculatorInputValue = boolean | number;
+
+// Clinician-entered calculator inputs, by calculator and input id (stored on the encounter)
+export type CalculatorInputs = Partial<Record<CalculatorId, Record<string, CalculatorInputValue>>>;
+
+export interface CalculatorInputDefinition {
+    id: string;
+    label: string;
+    // Points for a yes/no criterion that is present
+    points?: number;
+    // Scored choices, valued in points
+    options?: { value: number; label: string }[];
+}
+
+// Clinical calculator result (src/lib/clinical-calculators.ts)
+export interface CalculatorResult {
+    calculatorId: CalculatorId;
+    name: string;
+    // Points from the known inputs; only final when complete
+    score: number;
+    complete: boolean;
+    // Risk category and recommendation (null while missing inputs could change it)
+    interpretation: string | null;
+    // Known inputs with their points and where the value came from (record or clinician)
+    inputs: { id: string; label: string; value: CalculatorInputValue; points: number; source: string }[];
+    // Inputs the clinician still needs to enter
+    missingInputs: CalculatorInputDefinition[];
 }
 
 export interface ScanContext {
@@ -139,6 +302,12 @@ export interface TriageReportContext {
 // Agent Output Types
 // ============================================================================
 
+// Quality of an agent result, so fallback content is never mistaken for analysis:
+// - ok:       validated model output
+// - degraded: model output based on incomplete input (e.g. DICOM metadata without pixels)
+// - failed:   the agent produced no analysis; the result is fallback content
+export type AgentResultStatus = "ok" | "degraded" | "failed";
+
 export interface ScanAnalysisResult {
     scanId: string;
     scanType: string;
@@ -150,6 +319,11 @@ export interface ScanAnalysisResult {
     confidence: number;
     recommendations: string[];
     rawAnalysis: string;
+    status: AgentResultStatus;
+    // Set when the model output failed validation and this is fallback content
+    validationError?: string | null;
+    // Prompt template that produced the result ("name@version"), see src/lib/ai/prompts
+    promptVersion?: string;
 }
 
 export interface ClinicalHistoryAnalysis {
@@ -166,6 +340,13 @@ export interface ClinicalHistoryAnalysis {
     reportInsights: string[];
     // New: Previous triage trend analysis
     previousTriageAnalysis?: string | null;
+    // Records the findings above came from, as returned by the model
+    citations?: EvidenceCitation[];
+    status: AgentResultStatus;
+    // Set when the model output failed validation and this is fallback content
+    validationError?: string | null;
+    // Prompt template that produced the result ("name@version"), see src/lib/ai/prompts
+    promptVersion?: string;
 }
 
 export interface DiagnosisResult {
@@ -177,12 +358,66 @@ export interface DiagnosisResult {
     recommendedActions: string[];
     followUpRecommendations: string[];
     redFlags: string[];
+    // Red-flag rule hits merged into redFlags; they set a minimum overall urgency
+    ruleBasedRedFlags?: RedFlagHit[];
+    // Records the reasoning relies on, as returned by the model
+    citations?: EvidenceCitation[];
+    status: AgentResultStatus;
+    // Set when the model output failed validation and this is fallback content
+    validationError?: string | null;
+    // Prompt template that produced the result ("name@version"), see src/lib/ai/prompts
+    promptVersion?: string;
 }
 
 export interface CodingResult {
     icd10Codes: ICD10Code[];
     cptCodes: CPTCode[];
     confidence: number;
+    status: AgentResultStatus;
+    // Set when the model output failed validation; no codes are suggested in that case
+    validationError?: string | null;
+    // Prompt template that produced the result ("name@version"), see src/lib/ai/prompts
+    promptVersion?: string;
+    // Suggestions that failed code table validation, kept out of the suggested codes
+    rejectedCodes?: RejectedCode[];
+    // Code systems whose reference table was available to validate against
+    verifiedCodeSystems?: CodeSystem[];
+    // Deterministic E/M level (see src/lib/em-level.ts); its code leads `cptCodes`
+    emLevel?: EMLevelRecommendation;
+}
+
+export type MDMLevel = "STRAIGHTFORWARD" | "LOW" | "MODERATE" | "HIGH";
+
+export interface MDMElement {
+    level: MDMLevel;
+    rationale: string;
+}
+
+export interface EMLevelRecommendation {
+    code: string;
+    description: string;
+    setting: "office" | "emergency";
+    // Office visits only; ED codes don't distinguish new and established patients
+    patientStatus?: "new" | "established";
+    // Medical decision making: the level met by two of the three elements
+    mdmLevel: MDMLevel;
+    elements: {
+        problems: MDMElement;
+        data: MDMElement;
+        risk: MDMElement;
+    };
+    explanation: string;
+}
+
+export type CodeSystem = "ICD-10-CM" | "CPT";
+
+export interface RejectedCode {
+    system: CodeSystem;
+    code: string;
+    description: string;
+    reason: string;
+    // Billable codes below a header code, for the coder to choose from
+    alternatives?: string[];
 }
 
 export interface ICD10Code {
@@ -197,6 +432,21 @@ export interface CPTCode {
     units?: number;
 }
 
+// ============================================================================
+// Analysis Progress
+// ============================================================================
+
+export type AnalysisStep = "history" | "scans" | "diagnosis" | "coding" | "summary";
+
+export interface AnalysisProgressEvent {
+    step: AnalysisStep;
+    message: string;
+    // Partial result from the completed step, shown while the analysis continues
+    data?: Record<string, unknown>;
+}
+
+export type AnalysisProgressHandler = (event: AnalysisProgressEvent) => Promise<void> | void;
+
 // ============================================================================
 // Final Orchestrated Report
 // ============================================================================
@@ -220,6 +470,24 @@ export interface OrchestratedMedicalReport {
     // Clinical History Analysis
     clinicalHistory: ClinicalHistoryAnalysis;
 
+    // Rule-based medication alerts the history agent was given
+    interactionAlerts: InteractionAlert[];
+
+    // Early-warning scores from the encounter vitals (null when none were recorded)
+    earlyWarningScores: EarlyWarningScores | null;
+
+    // Emergency Severity Index acuity, compared with the overall urgency
+    esi: EsiAssessment;
+
+    // Clinical calculator scores the diagnosis agent was given
+    calculatorResults: CalculatorResult[];
+
+    // History and diagnosis citations, checked against the patient record
+    citations: VerifiedCitation[];
+
+    // Medications and conditions asserted in the generated text without a matching record
+    unsupportedMentions: UnsupportedMention[];
+
     // Scan Analyses
     scanAnalyses: ScanAnalysisResult[];
 
@@ -235,6 +503,10 @@ export interface OrchestratedMedicalReport {
     // Overall Assessment
     overallUrgency: "LOW" | "MEDIUM" | "HIGH" | "CRITICAL";
     overallConfidence: number;
+    // Worst agent status ("failed" only when the diagnosis itself failed)
+    analysisStatus: AgentResultStatus;
+    // One entry per degraded or failed agent, with the reason
+    agentIssues: string[];
 
     // Reasoning Chain (for doctor review)
     reasoningChain: string;
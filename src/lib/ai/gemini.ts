@@ -1,10 +1,6 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
-
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || "");
+import { callModel } from "@/lib/ai/providers";
 
 export async function retrieveLongitudinalContext(patientId: string): Promise<string> {
-    const model = genAI.getGenerativeModel({ model: "gemini-3-pro-preview" });
-
     // In a real system, this would query the patient's EHR data
     // For now, we simulate retrieving and summarizing patient history
     const prompt = `You are a clinical AI assistant. Generate a realistic but FICTIONAL patient medical history summary for a patient being triaged in an emergency department.
@@ -19,8 +15,8 @@ Include:
 Keep it concise (3-4 sentences) and clinically relevant. This is for demo purposes only.`;
 
     try {
-        const result = await model.generateContent(prompt);
-        return result.response.text();
+        const { text } = await callModel("med-gemma", { task: "longitudinal-context", prompt });
+        return text;
     } catch (error) {
         console.error("Context Retrieval Error:", error);
         return "Patient history unavailable - recommend obtaining comprehensive history during encounter.";
@@ -28,8 +24,6 @@ Keep it concise (3-4 sentences) and clinically relevant. This is for demo purpos
 }
 
 export async function generateICD10Codes(summary: string): Promise<string[]> {
-    const model = genAI.getGenerativeModel({ model: "gemini-3-pro-preview" });
-
     const prompt = `Based on the following clinical summary, suggest 2-4 relevant ICD-10 codes.
 
 Clinical Summary: ${summary}
@@ -40,8 +34,7 @@ Respond with ONLY a JSON array of strings, each in format "CODE - Description".
 No markdown, no explanation, just the array.`;
 
     try {
-        const result = await model.generateContent(prompt);
-        const response = result.response.text();
+        const { text: response } = await callModel("med-gemma", { task: "icd10-suggestions", prompt });
         const parsed = JSON.parse(response.replace(/```json\n?|\n?```/g, "").trim());
         return Array.isArray(parsed) ? parsed : [];
     } catch {
@@ -50,8 +43,6 @@ No markdown, no explanation, just the array.`;
 }
 
 export async function generateCPTCodes(actions: string): Promise<string[]> {
-    const model = genAI.getGenerativeModel({ model: "gemini-3-pro-preview" });
-
     const prompt = `Based on the following recommended clinical actions, suggest 2-3 relevant CPT codes for billing.
 
 Actions: ${actions}
@@ -62,11 +53,11 @@ Respond with ONLY a JSON array of strings, each in format "CODE - Description".
 No markdown, no explanation, just the array.`;
 
     try {
-        const result = await model.generateContent(prompt);
-        const response = result.response.text();
+        const { text: response } = await callModel("med-gemma", { task: "cpt-suggestions", prompt });
         const parsed = JSON.parse(response.replace(/```json\n?|\n?```/g, "").trim());
         return Array.isArray(parsed) ? parsed : [];
     } catch {
-        return ["99201 - Office visit, minimal"];
+        // No placeholder code - the coder must code manually
+        return [];
     }
 }
@@ -1,6 +1,4 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
-
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || "");
+import { callModel } from "@/lib/ai/providers";
 
 export async function analyzeSymptoms(symptoms: string, context: string): Promise<{
     summary: string;
@@ -8,8 +6,6 @@ export async function analyzeSymptoms(symptoms: string, context: string): Promis
     actions: string;
     reasoning: string;
 }> {
-    const model = genAI.getGenerativeModel({ model: "gemini-3-pro-preview" });
-
     const prompt = `You are Med-Gemma, a clinical AI triage assistant. Analyze the following patient presentation and provide a structured clinical assessment.
 
 ## Patient Context
@@ -30,8 +26,7 @@ Provide a JSON response with EXACTLY this structure (no markdown, just raw JSON)
 Respond ONLY with the JSON object, no additional text.`;
 
     try {
-        const result = await model.generateContent(prompt);
-        const response = result.response.text();
+        const { text: response } = await callModel("med-gemma", { task: "symptom-analysis", prompt });
 
         // Parse JSON from response
         const jsonMatch = response.match(/\{[\s\S]*\}/);
@@ -61,8 +56,6 @@ Respond ONLY with the JSON object, no additional text.`;
 }
 
 export async function analyzeScan(imageUrl: string, scanType: string): Promise<string> {
-    const model = genAI.getGenerativeModel({ model: "gemini-3-pro-preview" });
-
     const prompt = `You are Med-Gemma, a clinical AI assistant specializing in medical imaging analysis.
 
 A ${scanType} scan has been uploaded for analysis.
@@ -76,8 +69,8 @@ Since the actual image cannot be processed in this context, provide a template r
 Keep the response clinical and professional.`;
 
     try {
-        const result = await model.generateContent(prompt);
-        return result.response.text();
+        const { text } = await callModel("med-gemma", { task: "scan-template", prompt });
+        return text;
     } catch (error) {
         console.error("Scan Analysis Error:", error);
         return `${scanType} analysis pending - manual radiologist review recommended.`;
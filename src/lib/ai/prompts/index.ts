@@ -0,0 +1,16 @@
+/**
+ * Prompt Module - versioned agent prompt templates
+ */
+
+export {
+    definePrompt,
+    getPromptDefinition,
+    listPromptDefinitions,
+    validateTemplate,
+    renderTemplate,
+    renderPrompt,
+    invalidatePromptCache,
+} from "./registry";
+export type { PromptDefinition, RenderedPrompt } from "./registry";
+
+export * from "./templates";
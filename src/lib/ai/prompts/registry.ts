@@ -0,0 +1,172 @@
+/**
+ * Prompt Registry - named, versioned prompt templates
+ *
+ * Every agent prompt is a template registered here under a stable name, with
+ * the variables it is rendered with. The version in code is the default; new
+ * versions are stored in the PromptVersion table and rolled out to a
+ * percentage of calls, so prompt wording can change without a deploy.
+ *
+ * Template syntax:
+ * - {{variable}} is replaced with the variable's value
+ * - {{#variable}}...{{/variable}} is kept only when the variable is non-empty
+ *
+ * The rendered prompt carries `name@version`, which callModel records on the
+ * agent trace of the call.
+ */
+
+import { createHash } from "crypto";
+
+export interface PromptDefinition<V extends string = string> {
+    name: string;
+    version: string;
+    description: string;
+    variables: readonly V[];
+    template: string;
+}
+
+export interface RenderedPrompt {
+    text: string;
+    // "name@version", recorded as the promptVersion of the model call
+    promptVersion: string;
+}
+
+interface StoredPromptVersion {
+    version: string;
+    template: string;
+    rolloutPercent: number;
+}
+
+// How long rollout settings are cached before the database is checked again
+const ROLLOUT_CACHE_TTL_MS = 60 * 1000;
+
+const registry = new Map<string, PromptDefinition>();
+const rolloutCache = new Map<string, { expiresAt: number; versions: StoredPromptVersion[] }>();
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+const SECTION_PATTERN = /\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g;
+
+/**
+ * Register a prompt template (called once per prompt at module load)
+ */
+export function definePrompt<const V extends string>(definition: PromptDefinition<V>): PromptDefinition<V> {
+    const problems = validateTemplate(definition, definition.template);
+    if (problems.length > 0) {
+        throw new Error(`Invalid prompt template "${definition.name}": ${problems.join("; ")}`);
+    }
+    registry.set(definition.name, definition);
+    return definition;
+}
+
+export function getPromptDefinition(name: string): PromptDefinition | undefined {
+    return registry.get(name);
+}
+
+export function listPromptDefinitions(): PromptDefinition[] {
+    return [...registry.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Variables a template uses that its prompt does not declare
+ */
+export function validateTemplate(definition: PromptDefinition, template: string): string[] {
+    const used = new Set<string>();
+    for (const match of template.matchAll(SECTION_PATTERN)) used.add(match[1]);
+    for (const match of template.matchAll(VARIABLE_PATTERN)) used.add(match[1]);
+
+    return [...used]
+        .filter(variable => !definition.variables.includes(variable))
+        .map(variable => `unknown variable "${variable}"`);
+}
+
+/**
+ * Substitute variables into a template
+ */
+export function renderTemplate(template: string, variables: Record<string, string>): string {
+    return template
+        .replace(SECTION_PATTERN, (_, name: string, body: string) => (variables[name] ? body : ""))
+        .replace(VARIABLE_PATTERN, (_, name: string) => variables[name] ?? "");
+}
+
+/**
+ * Stable bucket in [0, 100) for a rollout key, so the same patient keeps
+ * getting the same prompt version
+ */
+function rolloutBucket(name: string, rolloutKey: string): number {
+    const hash = createHash("sha256").update(`${name}:${rolloutKey}`).digest();
+    return hash.readUInt32BE(0) % 100;
+}
+
+async function loadRolloutVersions(name: string): Promise<StoredPromptVersion[]> {
+    const cached = rolloutCache.get(name);
+    if (cached && cached.expiresAt > Date.now()) {
+        return cached.versions;
+    }
+
+    // Without a database (e.g. offline stub runs) only the defaults in code are used
+    if (!process.env.DATABASE_URL) {
+        return [];
+    }
+
+    let versions: StoredPromptVersion[] = [];
+    try {
+        // Loaded on first use so the registry can be imported without a database
+        const { prisma } = await import("@/lib/db");
+        versions = await prisma.promptVersion.findMany({
+            where: { name, rolloutPercent: { gt: 0 } },
+            orderBy: { createdAt: "desc" },
+            select: { version: true, template: true, rolloutPercent: true },
+        });
+    } catch (error) {
+        console.warn(`[Prompts] Failed to load rollout for "${name}", using the default version:`, error);
+    }
+
+    rolloutCache.set(name, { expiresAt: Date.now() + ROLLOUT_CACHE_TTL_MS, versions });
+    return versions;
+}
+
+/**
+ * Drop cached rollout settings (after versions are created or re-weighted)
+ */
+export function invalidatePromptCache(name?: string): void {
+    if (name) {
+        rolloutCache.delete(name);
+    } else {
+        rolloutCache.clear();
+    }
+}
+
+/**
+ * Render a prompt with the version selected for this call: a stored version
+ * when the rollout key falls into its share, otherwise the default in code
+ */
+export async function renderPrompt<V extends string>(
+    definition: PromptDefinition<V>,
+    variables: Record<V, string>,
+    options: { rolloutKey?: string } = {}
+): Promise<RenderedPrompt> {
+    let selected: { version: string; template: string } = definition;
+
+    const versions = await loadRolloutVersions(definition.name);
+    if (versions.length > 0) {
+        const bucket = rolloutBucket(definition.name, options.rolloutKey ?? crypto.randomUUID());
+        let threshold = 0;
+        for (const version of versions) {
+            threshold += version.rolloutPercent;
+            if (bucket < threshold) {
+                selected = version;
+                break;
+            }
+        }
+    }
+
+    // Stored versions are validated when created; guard against edits made directly in the database
+    if (selected !== definition && validateTemplate(definition, selected.template).length > 0) {
+        console.warn(`[Prompts] ${definition.name}@${selected.version} uses unknown variables, using the default version`);
+        selected = definition;
+    }
+
+    return {
+        text: renderTemplate(selected.template, variables),
+        promptVersion: `${definition.name}@${selected.version}`,
+    };
+}
@@ -0,0 +1,528 @@
+/**
+ * Default Prompt Templates
+ *
+ * The code version of every registered agent prompt. Bump `version` when the
+ * wording changes here; versions created through /api/prompts are rolled out
+ * on top of these defaults.
+ */
+
+import { definePrompt } from "./registry";
+import { UNTRUSTED_INPUT_NOTICE } from "@/lib/untrusted-content";
+
+// ============================================================================
+// Scan Agent
+// ============================================================================
+
+const SCAN_OUTPUT_FORMAT = `{{#bodyPart}}This is a {{scanType}} scan of the {{bodyPart}}.{{/bodyPart}}
+{{#clinicalContext}}
+Clinical Context:
+{{clinicalContext}}{{/clinicalContext}}
+
+Provide your analysis in the following JSON format (respond ONLY with valid JSON, no markdown):
+{
+    "findings": "Detailed description of all findings",
+    "abnormalities": ["List of specific abnormalities found"],
+    "severity": "One of: NORMAL, MILD, MODERATE, SEVERE",
+    "confidence": 0.0-1.0,
+    "recommendations": ["List of clinical recommendations"],
+    "detailedAnalysis": "Step-by-step radiological analysis"
+}`;
+
+const SCAN_VARIABLES = ["scanType", "bodyPart", "clinicalContext"] as const;
+
+// Keyed by scan type; unknown types use the X-ray prompt
+export const SCAN_ANALYSIS_PROMPTS = {
+    "X-RAY": definePrompt({
+        name: "scan-analysis-xray",
+        version: "v1",
+        description: "Scan Agent system prompt for X-rays",
+        variables: SCAN_VARIABLES,
+        template: `You are an expert radiologist AI assistant specializing in X-ray analysis. 
+Analyze this X-ray image and provide a detailed clinical assessment.
+
+Focus on:
+- Bone structure and alignment
+- Soft tissue abnormalities
+- Cardiac silhouette (if chest X-ray)
+- Lung fields and parenchyma (if chest X-ray)
+- Joint spaces and articular surfaces (if extremity)
+- Any foreign bodies or implants
+- Signs of fractures, dislocations, or degenerative changes
+
+${SCAN_OUTPUT_FORMAT}`,
+    }),
+
+    "MRI": definePrompt({
+        name: "scan-analysis-mri",
+        version: "v1",
+        description: "Scan Agent system prompt for MRI",
+        variables: SCAN_VARIABLES,
+        template: `You are an expert radiologist AI assistant specializing in MRI analysis.
+Analyze this MRI image and provide a detailed clinical assessment.
+
+Focus on:
+- Tissue contrast and signal intensity
+- Anatomical structures and their boundaries
+- Any masses, lesions, or abnormal findings
+- Edema or inflammation patterns
+- Vascular structures
+- Neural structures (if applicable)
+- Comparison with normal anatomy
+
+${SCAN_OUTPUT_FORMAT}`,
+    }),
+
+    "CT": definePrompt({
+        name: "scan-analysis-ct",
+        version: "v1",
+        description: "Scan Agent system prompt for CT",
+        variables: SCAN_VARIABLES,
+        template: `You are an expert radiologist AI assistant specializing in CT scan analysis.
+Analyze this CT image and provide a detailed clinical assessment.
+
+Focus on:
+- Cross-sectional anatomy
+- Density measurements and contrast enhancement
+- Organ morphology and size
+- Vascular structures and patency
+- Any masses, nodules, or lesions
+- Bone windows analysis (if applicable)
+- Signs of acute pathology
+
+${SCAN_OUTPUT_FORMAT}`,
+    }),
+
+    "DERM": definePrompt({
+        name: "scan-analysis-derm",
+        version: "v1",
+        description: "Scan Agent system prompt for dermatology images",
+        variables: SCAN_VARIABLES,
+        template: `You are an expert dermatologist AI assistant specializing in skin lesion analysis.
+Analyze this dermatological image and provide a detailed clinical assessment.
+
+Focus on:
+- ABCDE criteria (Asymmetry, Border, Color, Diameter, Evolution)
+- Lesion morphology and characteristics
+- Distribution pattern
+- Surface texture and features
+- Color variations within the lesion
+- Comparison to common benign vs malignant patterns
+- Signs requiring urgent attention
+
+${SCAN_OUTPUT_FORMAT}`,
+    }),
+
+    "ULTRASOUND": definePrompt({
+        name: "scan-analysis-ultrasound",
+        version: "v1",
+        description: "Scan Agent system prompt for ultrasound",
+        variables: SCAN_VARIABLES,
+        template: `You are an expert sonographer AI assistant specializing in ultrasound analysis.
+Analyze this ultrasound image and provide a detailed clinical assessment.
+
+Focus on:
+- Echogenicity patterns
+- Anatomical landmarks and orientation
+- Fluid collections or cysts
+- Solid masses and their characteristics
+- Blood flow patterns (if Doppler)
+- Organ size and morphology
+- Comparison with normal sonographic appearance
+
+${SCAN_OUTPUT_FORMAT}`,
+    }),
+};
+
+// ============================================================================
+// Clinical History Agent
+// ============================================================================
+
+export const HISTORY_ANALYSIS_PROMPT = definePrompt({
+    name: "history-analysis",
+    version: "v5",
+    description: "Clinical History Agent analysis of the complete patient record",
+    variables: [
+        "patientName",
+        "patientAge",
+        "patientGender",
+        "dateOfBirth",
+        "mrn",
+        "medicalHistory",
+        "medications",
+        "interactionAlerts",
+        "externalReports",
+        "legacySummary",
+        "symptoms",
+        "voiceTranscript",
+        "encounterHistory",
+        "previousTriageReports",
+        "olderRecordsSummary",
+    ],
+    template: `You are a clinical history analyst AI. Your role is to thoroughly analyze a patient's complete medical record and identify all clinically relevant factors that could influence diagnosis and treatment.
+
+${UNTRUSTED_INPUT_NOTICE}
+
+## Patient Information
+- **Name**: {{patientName}}
+- **Age**: {{patientAge}} years old
+- **Gender**: {{patientGender}}
+- **Date of Birth**: {{dateOfBirth}}
+{{#mrn}}- **MRN**: {{mrn}}{{/mrn}}
+
+## Structured Medical History (EHR)
+{{medicalHistory}}
+
+## Current Medications
+{{medications}}
+
+## Rule-Based Interaction Alerts
+These come from a deterministic interaction checker; include each one in "medicationInteractions" and add only concerns it does not cover.
+{{interactionAlerts}}
+
+## External Medical Reports (Lab, Pathology, Radiology, etc.)
+{{externalReports}}
+
+## Legacy Medical History Summary
+{{legacySummary}}
+
+## Current Presentation
+- **Presenting Symptoms**: {{symptoms}}
+{{#voiceTranscript}}- **Patient's Own Words**: {{voiceTranscript}}{{/voiceTranscript}}
+
+## Previous Encounters
+{{encounterHistory}}
+
+## Previous Triage Reports (for trend analysis)
+{{previousTriageReports}}
+
+{{#olderRecordsSummary}}## Summary of Remaining Records
+The records above were selected by relevance to the current presentation and recency. These records did not fit and are summarized; cite them by the references in the summary.
+{{olderRecordsSummary}}
+
+{{/olderRecordsSummary}}## Task
+Analyze ALL available information (medical history, medications, external reports, encounters) and provide a comprehensive clinical context assessment. Consider:
+1. How the patient's age affects risk profiles and differential diagnoses
+2. Gender-specific health considerations
+3. Patterns in their medical history
+4. Previous conditions that may be recurring or related
+5. Medication interactions and contraindications
+6. Lab findings and report insights that are relevant to the current presentation
+7. Red flags or warning signs based on their complete record
+
+Records are tagged with a reference such as [MedicalHistory/abc123]. For every finding that comes from a record (a condition, medication, lab value, report conclusion, previous encounter or scan), add a citation with the record's reference and a short quote copied exactly from that record. Only cite references listed above.
+
+Respond with ONLY valid JSON in this exact format:
+{
+    "riskFactors": ["List of identified risk factors based on complete history"],
+    "relevantConditions": ["Pre-existing conditions relevant to current presentation"],
+    "medicationInteractions": ["Potential medication concerns based on current meds and presentation"],
+    "contraindications": ["Treatment approaches to avoid based on history and medications"],
+    "contextSummary": "A narrative summary of clinically relevant context (2-3 paragraphs)",
+    "ageRelatedConsiderations": ["Specific considerations based on the patient's age group"],
+    "genderSpecificFactors": ["Any gender-specific health factors to consider"],
+    "relevantLabFindings": ["Key lab values or test results from external reports that are relevant"],
+    "reportInsights": ["Important insights from external reports that should inform diagnosis"],
+    "previousTriageAnalysis": "Analysis of previous triage reports - whether condition is improving, stable, or declining. Include specific observations about trends.",
+    "citations": [
+        {"claim": "The finding as stated above", "source": "MedicalHistory/abc123", "quote": "Exact text from the cited record"}
+    ]
+}`,
+});
+
+export const LONGITUDINAL_SUMMARY_PROMPT = definePrompt({
+    name: "longitudinal-summary",
+    version: "v2",
+    description: "Clinical History Agent summary stored as the patient's medical history summary",
+    variables: [
+        "patientName",
+        "patientAge",
+        "patientGender",
+        "activeConditions",
+        "medications",
+        "recentEncounters",
+        "currentSummary",
+    ],
+    template: `Summarize this patient's longitudinal medical history in 3-4 concise sentences suitable for a medical chart. Include key chronic conditions, patterns, medications, and relevant history.
+
+${UNTRUSTED_INPUT_NOTICE}
+
+Patient: {{patientName}}, {{patientAge}}y {{patientGender}}
+
+Active Conditions: {{activeConditions}}
+Current Medications: {{medications}}
+
+Recent Encounters:
+{{recentEncounters}}
+
+Current Medical History Summary:
+{{currentSummary}}
+
+Provide a concise, clinical summary:`,
+});
+
+export const CONTEXT_SUMMARY_PROMPT = definePrompt({
+    name: "context-summary",
+    version: "v1",
+    description: "Clinical History Agent summary of records that do not fit the context budget",
+    variables: ["records", "targetWords"],
+    template: `Condense these patient records into a summary of at most {{targetWords}} words for a clinician reviewing the patient's history.
+
+${UNTRUSTED_INPUT_NOTICE}
+
+Keep diagnoses, abnormal results with their values and dates, medication changes, allergies, procedures and significant events; leave out normal findings and administrative detail. Each record starts with its reference, such as [ExternalReport/abc123]. After every fact, add the reference of the record it came from in square brackets. Summaries of earlier summaries carry references already; keep them.
+
+Records:
+{{records}}
+
+Respond with the summary only, as plain text bullet points.`,
+});
+
+// ============================================================================
+// Diagnosis Agent
+// ============================================================================
+
+export const DIAGNOSIS_PROMPT = definePrompt({
+    name: "diagnosis",
+    version: "v6",
+    description: "Diagnosis Agent synthesis of history and imaging",
+    variables: [
+        "patientName",
+        "patientAge",
+        "patientGender",
+        "symptoms",
+        "voiceTranscript",
+        "vitalSigns",
+        "earlyWarningScores",
+        "calculatorResults",
+        "redFlagRules",
+        "contextSummary",
+        "riskFactors",
+        "relevantConditions",
+        "ageConsiderations",
+        "genderFactors",
+        "contraindications",
+        "imagingResults",
+        "sourceRecords",
+    ],
+    template: `You are an expert clinical diagnostician AI. Your role is to synthesize all available patient information to generate accurate diagnoses with clear clinical reasoning.
+
+${UNTRUSTED_INPUT_NOTICE}
+
+## Patient Profile
+- **Name**: {{patientName}}
+- **Age**: {{patientAge}} years old
+- **Gender**: {{patientGender}}
+
+## Current Presentation
+**Chief Complaint/Symptoms**: {{symptoms}}
+{{#voiceTranscript}}**Patient's Own Description**: {{voiceTranscript}}{{/voiceTranscript}}
+
+## Vital Signs
+{{vitalSigns}}
+{{#earlyWarningScores}}
+**Early-Warning Scores** (computed from the vitals):
+{{earlyWarningScores}}
+
+Your urgency level should not be lower than the minimum urgency these scores call for.{{/earlyWarningScores}}
+{{#calculatorResults}}
+## Clinical Calculators
+Computed from the patient record and the clinician's entries:
+{{calculatorResults}}
+
+Cite these scores by name and value where they bear on the diagnosis or urgency. Do not recalculate them, and do not estimate a score marked partial; name the inputs it still needs instead.{{/calculatorResults}}
+{{#redFlagRules}}
+## Rule-Based Red Flags
+The presentation matches these clinical red-flag rules:
+{{redFlagRules}}
+
+Address each one in your reasoning and keep it in redFlags. Your urgency level should not be lower than the minimum urgency they call for.{{/redFlagRules}}
+
+## Clinical History Analysis
+**Context Summary**: {{contextSummary}}
+
+**Risk Factors**: {{riskFactors}}
+
+**Relevant Pre-existing Conditions**: {{relevantConditions}}
+
+**Age-Related Considerations**: {{ageConsiderations}}
+
+**Gender-Specific Factors**: {{genderFactors}}
+
+**Contraindications**: {{contraindications}}
+
+## Imaging Results
+{{imagingResults}}
+{{#sourceRecords}}
+## Source Records
+The patient's records, with the reference to cite them by:
+{{sourceRecords}}{{/sourceRecords}}
+
+## Diagnostic Task
+Based on ALL available information, provide a comprehensive diagnostic assessment. Your reasoning should:
+1. Consider the patient's age, gender, and risk profile
+2. Integrate vital signs, computed clinical scores and imaging findings with clinical presentation
+3. Account for the patient's medical history
+4. Identify any red flags requiring immediate attention
+5. Suggest appropriate follow-up
+
+For each fact from the patient's record that your diagnosis or reasoning relies on (e.g. a history of CKD, an elevated troponin), add a citation with the source record's reference and a short quote copied exactly from it. Only cite references listed under Source Records.
+
+Respond with ONLY valid JSON in this exact format:
+{
+    "primaryDiagnosis": "Most likely diagnosis with brief supporting rationale",
+    "differentialDiagnoses": ["Second most likely", "Third most likely", "Fourth possibility"],
+    "confidence": 0.0-1.0,
+    "reasoning": "Detailed step-by-step clinical reasoning explaining how you arrived at this diagnosis (3-4 paragraphs)",
+    "urgencyLevel": "One of: LOW, MEDIUM, HIGH, CRITICAL",
+    "recommendedActions": [
+        "**IMMEDIATE:** [Most urgent action - use this format for critical items]",
+        "**DIAGNOSTIC:** [Lab tests or imaging to order]",
+        "**THERAPEUTIC:** [Treatment to initiate]",
+        "**MONITORING:** [What to watch for]"
+    ],
+    "followUpRecommendations": ["When to follow up", "What to monitor", "Specialist referrals if needed"],
+    "redFlags": ["Any warning signs that require immediate attention - empty array if none"],
+    "citations": [
+        {"claim": "The fact as used in your reasoning", "source": "ExternalReport/abc123", "quote": "Exact text from the cited record"}
+    ]
+}
+
+IMPORTANT: For recommendedActions, format each action as "**CATEGORY:** action details" where CATEGORY is one of: IMMEDIATE, DIAGNOSTIC, THERAPEUTIC, MONITORING, CONSULT. This helps physicians quickly scan priorities.`,
+});
+
+export const QUICK_ASSESSMENT_PROMPT = definePrompt({
+    name: "quick-assessment",
+    version: "v2",
+    description: "Diagnosis Agent preliminary urgency for urgent cases",
+    variables: ["patientAge", "patientGender", "symptoms"],
+    template: `Quick triage assessment for a {{patientAge}}y {{patientGender}} patient presenting with: {{symptoms}}
+
+${UNTRUSTED_INPUT_NOTICE}
+
+Provide a brief JSON response:
+{
+    "urgency": "LOW/MEDIUM/HIGH/CRITICAL",
+    "keyConsiderations": ["List 2-3 key clinical considerations"]
+}`,
+});
+
+// ============================================================================
+// Coding Agent
+// ============================================================================
+
+export const MEDICAL_CODING_PROMPT = definePrompt({
+    name: "medical-coding",
+    version: "v2",
+    description: "Coding Agent ICD-10 and CPT codes for a diagnosis",
+    variables: [
+        "primaryDiagnosis",
+        "differentialDiagnoses",
+        "recommendedActions",
+        "imagingStudies",
+        "additionalProcedures",
+        "urgencyLevel",
+    ],
+    template: `You are a medical coding specialist AI. Generate accurate ICD-10 and CPT codes based on the clinical information provided.
+
+## Primary Diagnosis
+{{primaryDiagnosis}}
+
+## Differential Diagnoses
+{{differentialDiagnoses}}
+
+## Recommended Actions/Procedures
+{{recommendedActions}}
+
+## Imaging Studies Performed
+{{imagingStudies}}
+
+## Additional Procedures
+{{additionalProcedures}}
+
+## Urgency Level
+{{urgencyLevel}}
+
+## Coding Requirements
+Generate appropriate medical codes for billing and documentation purposes.
+
+Respond with ONLY valid JSON in this exact format:
+{
+    "icd10Codes": [
+        {"code": "CODE", "description": "Description", "isPrimary": true},
+        {"code": "CODE", "description": "Description", "isPrimary": false}
+    ],
+    "cptCodes": [
+        {"code": "CODE", "description": "Description", "units": 1}
+    ],
+    "confidence": 0.0-1.0
+}
+
+Include:
+- Primary ICD-10 diagnosis code (isPrimary: true)
+- 2-4 secondary ICD-10 codes for documented conditions
+- CPT codes for all imaging studies and procedures
+
+Do NOT include evaluation and management (E/M) codes (99202-99215, 99281-99285); the visit level is calculated separately.`,
+});
+
+export const IMAGING_CODES_PROMPT = definePrompt({
+    name: "imaging-codes",
+    version: "v1",
+    description: "Coding Agent CPT code for a single imaging study",
+    variables: ["scanType", "bodyPart", "withContrast"],
+    template: `Generate the appropriate CPT code for this imaging study:
+- Type: {{scanType}}
+- Body Part: {{bodyPart}}
+- With Contrast: {{withContrast}}
+
+Respond with ONLY a JSON array:
+[{"code": "XXXXX", "description": "Description", "units": 1}]`,
+});
+
+// ============================================================================
+// Orchestrator Agent
+// ============================================================================
+
+export const EXECUTIVE_SUMMARY_PROMPT = definePrompt({
+    name: "executive-summary",
+    version: "v2",
+    description: "Orchestrator Agent executive summary for physicians",
+    variables: [
+        "patientName",
+        "patientAge",
+        "patientGender",
+        "symptoms",
+        "keyHistory",
+        "medications",
+        "labFindings",
+        "imaging",
+        "primaryDiagnosis",
+        "urgencyLevel",
+        "keyActions",
+        "redFlags",
+    ],
+    template: `Generate a clinical summary for a physician using Markdown formatting. Make it scannable and efficient to read.
+
+${UNTRUSTED_INPUT_NOTICE}
+
+**Patient:** {{patientName}}, {{patientAge}}y {{patientGender}}
+**Presenting Symptoms:** {{symptoms}}
+**Key History:** {{keyHistory}}
+**Current Medications:** {{medications}}
+**Recent Lab Findings:** {{labFindings}}
+**Imaging:** {{imaging}}
+**Primary Diagnosis:** {{primaryDiagnosis}}
+**Urgency:** {{urgencyLevel}}
+**Key Actions:** {{keyActions}}
+{{#redFlags}}**RED FLAGS:** {{redFlags}}{{/redFlags}}
+
+FORMAT REQUIREMENTS:
+1. Start with "**Executive Summary: [Urgency Level] Alert**" if HIGH/CRITICAL, otherwise "**Executive Summary:**"
+2. Use "**Patient:**" to introduce the patient info briefly
+3. Use "**Primary Impression:**" followed by the main diagnosis in bold
+4. Include a brief clinical context paragraph
+5. Create a "**Key Clinical Points:**" section with 3-5 bullet points
+6. If there are red flags, highlight them with "⚠️ **Warning:**"
+7. Use **bold** for critical values, diagnoses, and action items
+8. Keep it concise - physicians need to read this quickly`,
+});
@@ -0,0 +1,72 @@
+/**
+ * Per-agent provider/model configuration
+ *
+ * Resolution order for each agent:
+ * 1. LLM_PROVIDER_<AGENT> / LLM_MODEL_<AGENT> (e.g. LLM_PROVIDER_DIAGNOSIS=openai)
+ * 2. LLM_PROVIDER / LLM_MODEL (global override, e.g. LLM_PROVIDER=stub in CI)
+ * 3. The agent's built-in default below
+ *
+ * When only the provider is overridden, the model falls back to the agent's
+ * default model if the provider is unchanged, otherwise to the provider default.
+ */
+
+import { AgentId, AgentModelConfig, ProviderName } from "./types";
+
+const PROVIDERS: ProviderName[] = ["gemini", "openai", "stub"];
+
+const AGENT_DEFAULTS: Record<AgentId, AgentModelConfig> = {
+    "orchestrator": { provider: "gemini", model: "gemini-3-pro-preview" },
+    "history": { provider: "gemini", model: "gemini-3-pro-preview" },
+    "scan": { provider: "openai", model: "gpt-4o" },
+    "diagnosis": { provider: "gemini", model: "gemini-3-pro-preview" },
+    "coding": { provider: "gemini", model: "gemini-3-flash-preview" },
+    "extraction": { provider: "gemini", model: "gemini-3-pro-preview" },
+    "med-gemma": { provider: "gemini", model: "gemini-3-pro-preview" },
+};
+
+const PROVIDER_DEFAULT_MODELS: Record<ProviderName, string> = {
+    gemini: "gemini-3-pro-preview",
+    openai: "gpt-4o",
+    stub: "stub",
+};
+
+function envKey(agent: AgentId): string {
+    return agent.toUpperCase().replace(/-/g, "_");
+}
+
+function parseProvider(value: string | undefined, variable: string): ProviderName | undefined {
+    if (!value) return undefined;
+    const provider = value.trim().toLowerCase() as ProviderName;
+    if (!PROVIDERS.includes(provider)) {
+        throw new Error(`Invalid ${variable} "${value}". Expected one of: ${PROVIDERS.join(", ")}`);
+    }
+    return provider;
+}
+
+/**
+ * Resolve which provider and model an agent should use
+ */
+export function resolveAgentModel(agent: AgentId): AgentModelConfig {
+    const key = envKey(agent);
+    const defaults = AGENT_DEFAULTS[agent];
+
+    const provider =
+        parseProvider(process.env[`LLM_PROVIDER_${key}`], `LLM_PROVIDER_${key}`) ??
+        parseProvider(process.env.LLM_PROVIDER, "LLM_PROVIDER") ??
+        defaults.provider;
+
+    const model =
+        process.env[`LLM_MODEL_${key}`] ||
+        process.env.LLM_MODEL ||
+        (provider === defaults.provider ? defaults.model : PROVIDER_DEFAULT_MODELS[provider]);
+
+    return { provider, model };
+}
+
+/**
+ * Human-readable label for the model backing an agent, e.g. "gemini/gemini-3-pro-preview"
+ */
+export function describeAgentModel(agent: AgentId): string {
+    const { provider, model } = resolveAgentModel(agent);
+    return `${provider}/${model}`;
+}
@@ -0,0 +1,324 @@
+/**
+ * PHI De-identification - keeps patient identifiers out of outbound model calls
+ *
+ * Before a request leaves for a provider, `callModel` replaces protected
+ * health information in its text with surrogates, and puts the real values
+ * back into the response:
+ * - names, MRNs, SSNs, phone numbers, emails and street addresses become
+ *   tokens such as "[NAME-3f9a1c]"
+ * - exact dates are shifted by a fixed number of days per patient, so
+ *   intervals between dates (and ages) stay meaningful to the model
+ *
+ * Surrogates are stable: the same value always gets the same token, and a
+ * patient's dates always the same shift (keyed by PHI_SURROGATE_SECRET, or a
+ * per-process key when it is unset). The patient's own identifiers are known
+ * inside a `withPatientIdentifiers` scope; outside one, and for other people,
+ * identifiers are found by pattern.
+ *
+ * Which categories are replaced is set per provider with
+ * PHI_POLICY_<PROVIDER> ("all", "none" or a list such as "name,mrn,date").
+ * Hosted providers replace everything by default; the offline stub nothing.
+ * Images and attached documents are sent as they are.
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import { createHmac, randomBytes } from "crypto";
+import { ModelContentPart, ModelRequest, ProviderName } from "./types";
+
+export type PhiCategory = "name" | "mrn" | "ssn" | "phone" | "email" | "address" | "date";
+
+export const PHI_CATEGORIES: PhiCategory[] = ["name", "mrn", "ssn", "phone", "email", "address", "date"];
+
+const PROVIDER_POLICY_DEFAULTS: Record<ProviderName, PhiCategory[]> = {
+    gemini: PHI_CATEGORIES,
+    openai: PHI_CATEGORIES,
+    stub: [],
+};
+
+// Identifiers of the patient an analysis is about
+export interface PatientIdentifiers {
+    // Keys the date shift (the patient ID)
+    subjectId: string;
+    name?: string | null;
+    mrn?: string | null;
+    ssn?: string | null;
+    phone?: string | null;
+    email?: string | null;
+    address?: string | null;
+}
+
+export interface DeidentifiedRequest {
+    request: ModelRequest;
+    // Number of values replaced
+    replaced: number;
+    // Put the real values back into model output
+    reidentify(text: string): string;
+}
+
+// Dates are shifted back by 1 to this many days
+const MAX_DATE_SHIFT_DAYS = 365;
+
+const MONTHS = ["January", "February", "March", "April", "May", "June", "July", "August", "September", "October", "November", "December"];
+const WEEKDAYS = ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday", "Sunday"];
+
+// Name parts that are also calendar words ("May", "June") aren't replaced on their own
+const CALENDAR_WORDS = new Set([...MONTHS, ...WEEKDAYS].map(word => word.toLowerCase()));
+
+// Between the parts of a full name: "Jane Smith", "SMITH^JANE" (HL7/DICOM), "Smith, Jane"
+const NAME_SEPARATOR = "(?:\\s*[\\^,]\\s*|\\s+)";
+
+// Patterns for identifiers that aren't known up front
+const SSN_PATTERN = /\b\d{3}-\d{2}-\d{4}\b/g;
+const MRN_PATTERN = /\b(?:MRN|medical record (?:number|no\.?)|record #)\s*[:#]?\s*([A-Z0-9][A-Z0-9-]{3,})\b/gi;
+const PHONE_PATTERN = /(?<![\w-])(?:\+?1[\s.-]?)?(?:\(\d{3}\)\s?|\d{3}[\s.-])\d{3}[\s.-]\d{4}(?![\w-])/g;
+const EMAIL_PATTERN = /\b[\w.+-]+@[\w-]+(?:\.[\w-]+)+\b/g;
+const ADDRESS_PATTERN = /\b\d{1,6}\s+(?:[A-Z][a-z]*\.?\s+){1,4}(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Terrace|Parkway|Pkwy|Circle|Cir)\b\.?(?:,?\s*(?:Apt|Suite|Unit|#)\s*[\w-]+)?/g;
+const HONORIFIC_NAME_PATTERN = /\b(?:Mr|Mrs|Ms|Miss|Mx)\.?\s+([A-Z][a-z]+(?:[- ][A-Z][a-z]+)?)/g;
+
+const ISO_DATE_PATTERN = /\b(\d{4})-(\d{2})-(\d{2})(?=T|\b)/g;
+const US_DATE_PATTERN = /\b(\d{1,2})\/(\d{1,2})\/(\d{4})\b/g;
+// DICOM dates (YYYYMMDD)
+const COMPACT_DATE_PATTERN = /\b((?:19|20)\d{2})(\d{2})(\d{2})\b/g;
+const LONG_DATE_PATTERN = new RegExp(`\\b(${MONTHS.join("|")}) (\\d{1,2}),? (\\d{4})\\b`, "g");
+
+const identifierScope = new AsyncLocalStorage<PatientIdentifiers>();
+
+let processKey: Buffer | null = null;
+
+function surrogateKey(): string | Buffer {
+    if (process.env.PHI_SURROGATE_SECRET) return process.env.PHI_SURROGATE_SECRET;
+    processKey ??= randomBytes(32);
+    return processKey;
+}
+
+function keyedHash(value: string): string {
+    return createHmac("sha256", surrogateKey()).update(value).digest("hex");
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Run `fn` with the patient's identifiers known to every model call it makes
+ */
+export function withPatientIdentifiers<T>(identifiers: PatientIdentifiers, fn: () => Promise<T>): Promise<T> {
+    return identifierScope.run(identifiers, fn);
+}
+
+/**
+ * Patient whose identifiers are in scope for the current call, if any
+ */
+export function getScopedPatientId(): string | null {
+    return identifierScope.getStore()?.subjectId ?? null;
+}
+
+/**
+ * Categories to replace for a provider, from PHI_POLICY_<PROVIDER>
+ */
+export function getPhiPolicy(provider: ProviderName): PhiCategory[] {
+    const variable = `PHI_POLICY_${provider.toUpperCase()}`;
+    const value = process.env[variable]?.trim().toLowerCase();
+    if (!value) return PROVIDER_POLICY_DEFAULTS[provider];
+    if (value === "all") return PHI_CATEGORIES;
+    if (value === "none") return [];
+
+    const categories = value.split(",").map(c => c.trim()).filter(Boolean);
+    const invalid = categories.filter(c => !PHI_CATEGORIES.includes(c as PhiCategory));
+    if (invalid.length > 0) {
+        throw new Error(`Invalid ${variable} "${value}". Expected all, none or a list of: ${PHI_CATEGORIES.join(", ")}`);
+    }
+    return categories as PhiCategory[];
+}
+
+/**
+ * Replaces PHI in text, remembering each surrogate so responses can be re-identified
+ */
+class Deidentifier {
+    private readonly surrogates = new Map<string, string>();
+    private readonly dateShiftDays: number;
+    replaced = 0;
+
+    constructor(
+        private readonly categories: Set<PhiCategory>,
+        private readonly identifiers: PatientIdentifiers | undefined
+    ) {
+        const hash = keyedHash(`date-shift:${identifiers?.subjectId ?? ""}`);
+        this.dateShiftDays = -(1 + (parseInt(hash.slice(0, 8), 16) % MAX_DATE_SHIFT_DAYS));
+    }
+
+    private token(category: PhiCategory, value: string): string {
+        const normalized = value.trim().replace(/\s+/g, " ");
+        const token = `[${category.toUpperCase()}-${keyedHash(`${category}:${normalized}`).slice(0, 6)}]`;
+        this.surrogates.set(token, normalized);
+        this.replaced++;
+        return token;
+    }
+
+    // Replace every whole-word match of a pattern, ignoring case
+    private replaceWord(text: string, category: PhiCategory, pattern: string): string {
+        return text.replace(new RegExp(`(?<![\\w-])${pattern}(?![\\w-])`, "gi"), match => this.token(category, match));
+    }
+
+    // Replace every occurrence of a known value, ignoring case and spacing
+    private replaceKnown(text: string, category: PhiCategory, value: string | null | undefined): string {
+        const trimmed = value?.trim();
+        if (!trimmed || trimmed.length < 3) return text;
+        return this.replaceWord(text, category, trimmed.split(/\s+/).map(escapeRegExp).join("\\s+"));
+    }
+
+    private replaceNames(text: string): string {
+        const parts = (this.identifiers?.name?.trim().split(/\s+/) ?? [])
+            .map(part => part.replace(/[^\p{L}'-]/gu, ""))
+            .filter(Boolean);
+        if (parts.length > 0) {
+            // The full name, given or family name first
+            const family = parts[parts.length - 1];
+            const orders = parts.length > 1 ? [parts, [family, ...parts.slice(0, -1)]] : [parts];
+            for (const order of orders) {
+                text = this.replaceWord(text, "name", order.map(escapeRegExp).join(NAME_SEPARATOR));
+            }
+            // Then single parts ("Mr. Smith")
+            for (const part of parts) {
+                if (part.length >= 3 && !CALENDAR_WORDS.has(part.toLowerCase())) {
+                    text = this.replaceWord(text, "name", escapeRegExp(part));
+                }
+            }
+        }
+        // Other people are only found by title
+        return text.replace(HONORIFIC_NAME_PATTERN, (match, name: string) =>
+            match.slice(0, match.length - name.length) + this.token("name", name)
+        );
+    }
+
+    private shiftDate(year: number, month: number, day: number): Date | null {
+        const date = new Date(Date.UTC(year, month - 1, day));
+        if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+        date.setUTCDate(date.getUTCDate() + this.dateShiftDays);
+        return date;
+    }
+
+    private replaceDates(text: string): string {
+        const remember = (original: string, shifted: string) => {
+            this.surrogates.set(shifted, original);
+            this.replaced++;
+            return shifted;
+        };
+
+        return text
+            .replace(ISO_DATE_PATTERN, (match, y: string, m: string, d: string) => {
+                const date = this.shiftDate(Number(y), Number(m), Number(d));
+                return date ? remember(match, date.toISOString().slice(0, 10)) : match;
+            })
+            .replace(US_DATE_PATTERN, (match, m: string, d: string, y: string) => {
+                const date = this.shiftDate(Number(y), Number(m), Number(d));
+                return date
+                    ? remember(match, `${date.getUTCMonth() + 1}/${date.getUTCDate()}/${date.getUTCFullYear()}`)
+                    : match;
+            })
+            .replace(COMPACT_DATE_PATTERN, (match, y: string, m: string, d: string) => {
+                const date = this.shiftDate(Number(y), Number(m), Number(d));
+                return date ? remember(match, date.toISOString().slice(0, 10).replace(/-/g, "")) : match;
+            })
+            .replace(LONG_DATE_PATTERN, (match, month: string, d: string, y: string) => {
+                const date = this.shiftDate(Number(y), MONTHS.indexOf(month) + 1, Number(d));
+                return date
+                    ? remember(match, `${MONTHS[date.getUTCMonth()]} ${date.getUTCDate()}, ${date.getUTCFullYear()}`)
+                    : match;
+            });
+    }
+
+    deidentify(text: string): string {
+        const has = (category: PhiCategory) => this.categories.has(category);
+        const ids = this.identifiers;
+
+        // Longer identifiers first, so an address isn't split up by the name inside it
+        if (has("address")) {
+            text = this.replaceKnown(text, "address", ids?.address);
+            text = text.replace(ADDRESS_PATTERN, match => this.token("address", match));
+        }
+        if (has("email")) {
+            text = this.replaceKnown(text, "email", ids?.email);
+            text = text.replace(EMAIL_PATTERN, match => this.token("email", match));
+        }
+        if (has("ssn")) {
+            text = this.replaceKnown(text, "ssn", ids?.ssn);
+            text = text.replace(SSN_PATTERN, match => this.token("ssn", match));
+        }
+        if (has("mrn")) {
+            text = this.replaceKnown(text, "mrn", ids?.mrn);
+            text = text.replace(MRN_PATTERN, (match, mrn: string) =>
+                match.slice(0, match.length - mrn.length) + this.token("mrn", mrn)
+            );
+        }
+        if (has("phone")) {
+            text = this.replaceKnown(text, "phone", ids?.phone);
+            text = text.replace(PHONE_PATTERN, match => this.token("phone", match));
+        }
+        // Dates before names, so a month in a date isn't taken for a patient's name
+        if (has("date")) {
+            text = this.replaceDates(text);
+        }
+        if (has("name")) {
+            text = this.replaceNames(text);
+        }
+        return text;
+    }
+
+    reidentify(text: string): string {
+        if (this.surrogates.size === 0) return text;
+
+        // JSON output is re-identified value by value, so restored text can't break it
+        try {
+            const parsed: unknown = JSON.parse(text);
+            if (typeof parsed === "object" && parsed !== null) {
+                return JSON.stringify(this.reidentifyValue(parsed));
+            }
+        } catch {
+            // Plain text
+        }
+        return this.reidentifyText(text);
+    }
+
+    private reidentifyValue(value: unknown): unknown {
+        if (typeof value === "string") return this.reidentifyText(value);
+        if (Array.isArray(value)) return value.map(v => this.reidentifyValue(v));
+        if (typeof value === "object" && value !== null) {
+            return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, this.reidentifyValue(v)]));
+        }
+        return value;
+    }
+
+    private reidentifyText(text: string): string {
+        const surrogates = [...this.surrogates.keys()].sort((a, b) => b.length - a.length);
+        const pattern = new RegExp(surrogates.map(escapeRegExp).join("|"), "g");
+        return text.replace(pattern, match => this.surrogates.get(match) ?? match);
+    }
+}
+
+/**
+ * De-identify the text of a request (prompt and system instruction) for a
+ * provider's policy, using the identifiers of the current scope
+ */
+export function deidentifyRequest(request: ModelRequest, categories: PhiCategory[]): DeidentifiedRequest {
+    if (categories.length === 0) {
+        return { request, replaced: 0, reidentify: text => text };
+    }
+
+    const deidentifier = new Deidentifier(new Set(categories), identifierScope.getStore());
+    const prompt = typeof request.prompt === "string"
+        ? deidentifier.deidentify(request.prompt)
+        : request.prompt.map((part): ModelContentPart =>
+            part.type === "text" ? { ...part, text: deidentifier.deidentify(part.text) } : part
+        );
+
+    return {
+        request: {
+            ...request,
+            prompt,
+            system: request.system === undefined ? undefined : deidentifier.deidentify(request.system),
+        },
+        replaced: deidentifier.replaced,
+        reidentify: text => deidentifier.reidentify(text),
+    };
+}
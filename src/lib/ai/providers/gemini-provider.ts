@@ -0,0 +1,68 @@
+/**
+ * Gemini Provider - Google Generative AI
+ */
+
+import { GoogleGenerativeAI, Part } from "@google/generative-ai";
+import { LLMProvider, ModelContentPart, ModelRequest, ModelResponse } from "./types";
+
+export class GeminiProvider implements LLMProvider {
+    readonly name = "gemini" as const;
+    private client: GoogleGenerativeAI;
+
+    constructor(apiKey: string = process.env.GEMINI_API_KEY || "") {
+        this.client = new GoogleGenerativeAI(apiKey);
+    }
+
+    async generate(model: string, request: ModelRequest): Promise<ModelResponse> {
+        const generativeModel = this.client.getGenerativeModel({
+            model,
+            systemInstruction: request.system,
+            generationConfig: {
+                maxOutputTokens: request.maxOutputTokens,
+                responseMimeType: request.responseSchema ? "application/json" : undefined,
+            },
+        });
+
+        const parts = typeof request.prompt === "string"
+            ? request.prompt
+            : await Promise.all(request.prompt.map(toGeminiPart));
+
+        const result = await generativeModel.generateContent(parts);
+        const usage = result.response.usageMetadata;
+
+        return {
+            text: result.response.text(),
+            provider: this.name,
+            model,
+            usage: usage
+                ? { inputTokens: usage.promptTokenCount, outputTokens: usage.candidatesTokenCount }
+                : undefined,
+        };
+    }
+}
+
+/**
+ * Convert a generic content part into a Gemini part.
+ * Gemini cannot fetch remote images itself, so image URLs are inlined.
+ */
+async function toGeminiPart(part: ModelContentPart): Promise<Part> {
+    switch (part.type) {
+        case "text":
+            return { text: part.text };
+        case "inline_data":
+            return { inlineData: { mimeType: part.mimeType, data: part.data } };
+        case "image_url": {
+            const response = await fetch(part.url);
+            if (!response.ok) {
+                throw new Error(`Failed to fetch image for Gemini: ${response.status} ${response.statusText}`);
+            }
+            const buffer = await response.arrayBuffer();
+            return {
+                inlineData: {
+                    mimeType: response.headers.get("content-type") || "image/png",
+                    data: Buffer.from(buffer).toString("base64"),
+                },
+            };
+        }
+    }
+}
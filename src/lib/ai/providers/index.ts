@@ -0,0 +1,125 @@
+/**
+ * LLM Provider Module
+ *
+ * Single entry point for model calls. Agents call `callModel(agent, request)`
+ * and the configured provider (Gemini, OpenAI or the offline stub) handles it.
+ * Provider clients are created lazily, so agents that are configured for the
+ * stub never need API keys.
+ */
+
+import { resolveAgentModel } from "./config";
+import { GeminiProvider } from "./gemini-provider";
+import { OpenAIProvider } from "./openai-provider";
+import { StubProvider } from "./stub-provider";
+import { recordAgentTrace, hashModelInput } from "./tracing";
+import { estimateCostUsd } from "./pricing";
+import { recordModelUsage } from "./usage";
+import { deidentifyRequest, getPhiPolicy, getScopedPatientId } from "./deidentify";
+import { isResponseCacheEnabled, readCachedResponse, responseCacheKey, writeCachedResponse } from "./response-cache";
+import { AgentId, CallModelOptions, CallModelResponse, LLMProvider, ModelRequest, ModelUsage, ProviderName } from "./types";
+
+export * from "./types";
+export { resolveAgentModel, describeAgentModel } from "./config";
+export { withAgentTracing } from "./tracing";
+export type { AgentTraceRecord } from "./tracing";
+export { estimateCostUsd } from "./pricing";
+export { getUsageSummary, getMonthlyBudget, getBudgetStatus } from "./usage";
+export type { BudgetStatus, MonthlyBudget } from "./usage";
+export { withPatientIdentifiers, getPhiPolicy, deidentifyRequest, PHI_CATEGORIES } from "./deidentify";
+export type { PatientIdentifiers, PhiCategory } from "./deidentify";
+export { invalidatePatientResponses } from "./response-cache";
+
+const providers = new Map<ProviderName, LLMProvider>();
+
+function createProvider(name: ProviderName): LLMProvider {
+    switch (name) {
+        case "gemini":
+            return new GeminiProvider();
+        case "openai":
+            return new OpenAIProvider();
+        case "stub":
+            return new StubProvider();
+    }
+}
+
+export function getProvider(name: ProviderName): LLMProvider {
+    let provider = providers.get(name);
+    if (!provider) {
+        provider = createProvider(name);
+        providers.set(name, provider);
+    }
+    return provider;
+}
+
+/**
+ * Run a model request for an agent using its configured provider and model.
+ * PHI is replaced with surrogates as the provider's policy requires, and the
+ * response is re-identified; traces record what was actually sent and received.
+ * A response cached for the same normalized request is returned without
+ * calling the provider. With `deferCache`, a new response is only cached once
+ * the caller commits it, so output that fails validation is never served again.
+ */
+export async function callModel(
+    agent: AgentId,
+    request: ModelRequest,
+    options: CallModelOptions = {}
+): Promise<CallModelResponse> {
+    const { provider, model } = resolveAgentModel(agent);
+    const startedAt = new Date();
+    const outbound = deidentifyRequest(request, getPhiPolicy(provider));
+    // Keyed on the request before de-identification, whose surrogates can differ between processes
+    const cacheKey = isResponseCacheEnabled(provider) ? responseCacheKey(agent, provider, model, request) : null;
+
+    // Trace the call and add it to the usage roll-up (cache hits cost nothing and aren't provider calls)
+    const account = async (rawOutput: string | null, error: string | null, usage: ModelUsage, cached = false) => {
+        const latencyMs = Date.now() - startedAt.getTime();
+        const costUsd = estimateCostUsd(model, usage);
+
+        recordAgentTrace({
+            agent,
+            task: request.task,
+            provider,
+            model,
+            promptVersion: request.promptVersion ?? "inline",
+            inputHash: hashModelInput(agent, provider, model, outbound.request),
+            rawOutput,
+            latencyMs,
+            error,
+            startedAt: startedAt.toISOString(),
+            inputTokens: usage.inputTokens,
+            outputTokens: usage.outputTokens,
+            costUsd,
+            context: request.context ?? null,
+            cached,
+        });
+        if (!cached) {
+            await recordModelUsage({ agent, provider, model, usage, costUsd, latencyMs, failed: error !== null });
+        }
+    };
+
+    const hit = cacheKey ? await readCachedResponse(cacheKey) : null;
+    if (hit) {
+        await account(hit.rawOutput, null, { inputTokens: 0, outputTokens: 0 }, true);
+        return { text: hit.text, provider, model, commitCache: async () => {} };
+    }
+
+    try {
+        const response = await getProvider(provider).generate(model, outbound.request);
+        const usage = response.usage ?? { inputTokens: 0, outputTokens: 0 };
+        await account(response.text, null, usage);
+        const text = outbound.reidentify(response.text);
+        const patientId = getScopedPatientId();
+        const commitCache = async () => {
+            if (!cacheKey) return;
+            await writeCachedResponse({ cacheKey, agent, provider, model, request, patientId, rawOutput: response.text, text, usage });
+        };
+        if (!options.deferCache) {
+            await commitCache();
+            return { ...response, text, commitCache: async () => {} };
+        }
+        return { ...response, text, commitCache };
+    } catch (error) {
+        await account(null, error instanceof Error ? error.message : String(error), { inputTokens: 0, outputTokens: 0 });
+        throw error;
+    }
+}
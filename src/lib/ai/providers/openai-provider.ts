@@ -0,0 +1,88 @@
+/**
+ * OpenAI Provider - Chat Completions API
+ */
+
+import OpenAI from "openai";
+import type {
+    ChatCompletionContentPart,
+    ChatCompletionMessageParam,
+} from "openai/resources/chat/completions";
+import { LLMProvider, ModelContentPart, ModelRequest, ModelResponse } from "./types";
+
+export class OpenAIProvider implements LLMProvider {
+    readonly name = "openai" as const;
+    private client: OpenAI;
+
+    constructor(apiKey: string = process.env.OPENAI_API_KEY || "") {
+        this.client = new OpenAI({ apiKey });
+    }
+
+    async generate(model: string, request: ModelRequest): Promise<ModelResponse> {
+        const messages: ChatCompletionMessageParam[] = [];
+        if (request.system) {
+            messages.push({ role: "system", content: request.system });
+        }
+        messages.push({
+            role: "user",
+            content: typeof request.prompt === "string"
+                ? request.prompt
+                : request.prompt.map(toOpenAIPart),
+        });
+
+        const response = await this.client.chat.completions.create({
+            model,
+            messages,
+            max_completion_tokens: request.maxOutputTokens,
+            response_format: request.responseSchema
+                ? {
+                    type: "json_schema",
+                    json_schema: {
+                        name: request.responseSchema.name,
+                        strict: true,
+                        schema: request.responseSchema.schema,
+                    },
+                }
+                : undefined,
+        });
+
+        const message = response.choices[0]?.message;
+        if (message?.refusal) {
+            throw new Error(`Model refusal: ${message.refusal}`);
+        }
+        if (!message?.content) {
+            throw new Error("Empty response content from AI model");
+        }
+
+        return {
+            text: message.content,
+            provider: this.name,
+            model,
+            usage: response.usage
+                ? { inputTokens: response.usage.prompt_tokens, outputTokens: response.usage.completion_tokens }
+                : undefined,
+        };
+    }
+}
+
+function toOpenAIPart(part: ModelContentPart): ChatCompletionContentPart {
+    switch (part.type) {
+        case "text":
+            return { type: "text", text: part.text };
+        case "image_url":
+            return { type: "image_url", image_url: { url: part.url, detail: part.detail } };
+        case "inline_data":
+            if (part.mimeType.startsWith("image/")) {
+                return {
+                    type: "image_url",
+                    image_url: { url: `data:${part.mimeType};base64,${part.data}` },
+                };
+            }
+            return {
+                type: "file",
+                file: {
+                    filename: `document.${part.mimeType.split("/")[1] || "bin"}`,
+                    file_data: `data:${part.mimeType};base64,${part.data}`,
+                },
+            };
+    }
+}
@@ -0,0 +1,53 @@
+/**
+ * Model pricing - estimates the cost of a model call from its token usage
+ *
+ * Prices are list prices in USD per million tokens. Set LLM_PRICING to a JSON
+ * object to override or add models, e.g.
+ *   LLM_PRICING='{"gpt-4o": {"input": 2.5, "output": 10}}'
+ * Models without a price are counted at zero cost (and logged once).
+ */
+
+import { ModelUsage } from "./types";
+
+interface ModelPrice {
+    input: number;
+    output: number;
+}
+
+const DEFAULT_PRICING: Record<string, ModelPrice> = {
+    "gemini-3-pro-preview": { input: 2, output: 12 },
+    "gemini-3-flash-preview": { input: 0.5, output: 3 },
+    "gpt-4o": { input: 2.5, output: 10 },
+    "gpt-5-mini": { input: 0.25, output: 2 },
+    "stub": { input: 0, output: 0 },
+};
+
+const unpricedModels = new Set<string>();
+
+function loadPricing(): Record<string, ModelPrice> {
+    const override = process.env.LLM_PRICING;
+    if (!override) return DEFAULT_PRICING;
+
+    try {
+        return { ...DEFAULT_PRICING, ...(JSON.parse(override) as Record<string, ModelPrice>) };
+    } catch (error) {
+        console.warn("[Pricing] Ignoring invalid LLM_PRICING:", error);
+        return DEFAULT_PRICING;
+    }
+}
+
+/**
+ * Estimated cost in USD of a call to `model` with the given usage
+ */
+export function estimateCostUsd(model: string, usage: ModelUsage): number {
+    const price = loadPricing()[model];
+    if (!price) {
+        if (!unpricedModels.has(model)) {
+            unpricedModels.add(model);
+            console.warn(`[Pricing] No price configured for model "${model}", counting its calls at zero cost`);
+        }
+        return 0;
+    }
+
+    return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+}
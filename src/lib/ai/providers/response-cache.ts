@@ -0,0 +1,167 @@
+/**
+ * Response Cache - content-addressed model responses in Postgres
+ *
+ * `callModel` looks every request up by a hash of the agent, provider, model,
+ * prompt version and normalized request before calling the provider, so
+ * analysing an unchanged patient again returns at once and at no cost.
+ * Entries made for a patient (inside `withPatientIdentifiers`) are tagged with
+ * them and removed by `invalidatePatientResponses` when their records change;
+ * every entry expires after the TTL.
+ *
+ * Configuration:
+ * - LLM_CACHE_TTL_HOURS: hours an entry is served (default 24; 0 disables the cache)
+ *
+ * Stub calls are never cached. The cache is best-effort: when the database is
+ * unavailable the call goes to the provider.
+ */
+
+import { createHash } from "crypto";
+import { AgentId, ModelContentPart, ModelRequest, ModelUsage, ProviderName } from "./types";
+
+export interface CachedResponse {
+    rawOutput: string;
+    text: string;
+}
+
+const DEFAULT_TTL_HOURS = 24;
+
+// Loaded on first use so stub runs of the provider layer need no database
+async function getPrisma() {
+    const { prisma } = await import("@/lib/db");
+    return prisma;
+}
+
+function getTtlHours(): number {
+    const value = process.env.LLM_CACHE_TTL_HOURS;
+    if (value === undefined || value === "") return DEFAULT_TTL_HOURS;
+    const hours = Number(value);
+    return Number.isFinite(hours) && hours > 0 ? hours : 0;
+}
+
+export function isResponseCacheEnabled(provider: ProviderName): boolean {
+    return provider !== "stub" && getTtlHours() > 0;
+}
+
+// Line endings and trailing whitespace don't change what the model is asked
+function normalizeText(text: string): string {
+    return text
+        .replace(/\r\n?/g, "\n")
+        .replace(/[ \t]+$/gm, "")
+        .replace(/\n{3,}/g, "\n\n")
+        .trim();
+}
+
+function normalizePart(part: ModelContentPart): unknown {
+    switch (part.type) {
+        case "text":
+            return { type: "text", text: normalizeText(part.text) };
+        case "image_url":
+            // Signed URLs differ on every request; the object path identifies the image
+            return { type: "image_url", url: part.url.split("?")[0], detail: part.detail ?? null };
+        case "inline_data":
+            return { type: "inline_data", mimeType: part.mimeType, sha256: createHash("sha256").update(part.data).digest("hex") };
+    }
+}
+
+/**
+ * Cache key for a request: the same agent, model and normalized input give the same key
+ */
+export function responseCacheKey(
+    agent: AgentId,
+    provider: ProviderName,
+    model: string,
+    request: ModelRequest
+): string {
+    return createHash("sha256")
+        .update(JSON.stringify({
+            agent,
+            provider,
+            model,
+            task: request.task,
+            promptVersion: request.promptVersion ?? null,
+            system: request.system ? normalizeText(request.system) : null,
+            prompt: typeof request.prompt === "string"
+                ? normalizeText(request.prompt)
+                : request.prompt.map(normalizePart),
+            responseSchema: request.responseSchema ?? null,
+            maxOutputTokens: request.maxOutputTokens ?? null,
+        }))
+        .digest("hex");
+}
+
+/**
+ * The cached response for a key, or null when there is none or it has expired
+ */
+export async function readCachedResponse(cacheKey: string): Promise<CachedResponse | null> {
+    try {
+        const prisma = await getPrisma();
+        const entry = await prisma.modelResponseCache.findUnique({ where: { cacheKey } });
+        if (!entry || entry.expiresAt <= new Date()) return null;
+
+        await prisma.modelResponseCache.update({
+            where: { cacheKey },
+            data: { hits: { increment: 1 }, lastHitAt: new Date() },
+        });
+        return { rawOutput: entry.rawOutput, text: entry.text };
+    } catch (error) {
+        console.warn("[ResponseCache] Lookup failed, calling the provider:", error);
+        return null;
+    }
+}
+
+export async function writeCachedResponse(entry: {
+    cacheKey: string;
+    agent: AgentId;
+    provider: ProviderName;
+    model: string;
+    request: ModelRequest;
+    patientId: string | null;
+    rawOutput: string;
+    text: string;
+    usage: ModelUsage;
+}): Promise<void> {
+    const data = {
+        expiresAt: new Date(Date.now() + getTtlHours() * 60 * 60 * 1000),
+        agent: entry.agent,
+        provider: entry.provider,
+        model: entry.model,
+        task: entry.request.task,
+        promptVersion: entry.request.promptVersion ?? "inline",
+        patientId: entry.patientId,
+        rawOutput: entry.rawOutput,
+        text: entry.text,
+        inputTokens: entry.usage.inputTokens,
+        outputTokens: entry.usage.outputTokens,
+        hits: 0,
+        lastHitAt: null,
+    };
+
+    try {
+        const prisma = await getPrisma();
+        await prisma.modelResponseCache.upsert({
+            where: { cacheKey: entry.cacheKey },
+            create: { cacheKey: entry.cacheKey, ...data },
+            update: data,
+        });
+    } catch (error) {
+        console.warn(`[ResponseCache] Failed to store the ${entry.request.task} response:`, error);
+    }
+}
+
+/**
+ * Remove a patient's cached responses, after their records change. Returns
+ * the number of entries removed.
+ */
+export async function invalidatePatientResponses(patientId: string): Promise<number> {
+    try {
+        const prisma = await getPrisma();
+        const { count } = await prisma.modelResponseCache.deleteMany({ where: { patientId } });
+        if (count > 0) {
+            console.log(`[ResponseCache] Invalidated ${count} cached responses for patient ${patientId}`);
+        }
+        return count;
+    } catch (error) {
+        console.warn(`[ResponseCache] Failed to invalidate cached responses for patient ${patientId}:`, error);
+        return 0;
+    }
+}
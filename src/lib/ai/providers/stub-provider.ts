@@ -0,0 +1,88 @@
+/**
+ * Stub Provider - Offline, deterministic model responses
+ *
+ * Returns canned fixture responses keyed by the request's task, so the full
+ * agent pipeline can run in CI and on air-gapped machines without API keys.
+ *
+ * Fixtures are bundled from ./fixtures. Set LLM_STUB_FIXTURES_DIR to a
+ * directory of `<task>.json` files to override them (e.g. per test scenario).
+ * Each fixture is `{ "response": ... }`: a string response is returned as-is,
+ * anything else is returned serialized as JSON.
+ */
+
+import { readFile } from "fs/promises";
+import path from "path";
+import { LLMProvider, ModelRequest, ModelResponse } from "./types";
+
+import contextSummary from "./fixtures/context-summary.json";
+import cptSuggestions from "./fixtures/cpt-suggestions.json";
+import diagnosis from "./fixtures/diagnosis.json";
+import executiveSummary from "./fixtures/executive-summary.json";
+import historyAnalysis from "./fixtures/history-analysis.json";
+import icd10Suggestions from "./fixtures/icd10-suggestions.json";
+import imagingCodes from "./fixtures/imaging-codes.json";
+import longitudinalContext from "./fixtures/longitudinal-context.json";
+import longitudinalSummary from "./fixtures/longitudinal-summary.json";
+import medicalCoding from "./fixtures/medical-coding.json";
+import quickAssessment from "./fixtures/quick-assessment.json";
+import reportExtraction from "./fixtures/report-extraction.json";
+import scanAnalysis from "./fixtures/scan-analysis.json";
+import scanTemplate from "./fixtures/scan-template.json";
+import symptomAnalysis from "./fixtures/symptom-analysis.json";
+
+interface StubFixture {
+    response: unknown;
+}
+
+const BUNDLED_FIXTURES: Record<string, StubFixture> = {
+    "context-summary": contextSummary,
+    "cpt-suggestions": cptSuggestions,
+    "diagnosis": diagnosis,
+    "executive-summary": executiveSummary,
+    "history-analysis": historyAnalysis,
+    "icd10-suggestions": icd10Suggestions,
+    "imaging-codes": imagingCodes,
+    "longitudinal-context": longitudinalContext,
+    "longitudinal-summary": longitudinalSummary,
+    "medical-coding": medicalCoding,
+    "quick-assessment": quickAssessment,
+    "report-extraction": reportExtraction,
+    "scan-analysis": scanAnalysis,
+    "scan-template": scanTemplate,
+    "symptom-analysis": symptomAnalysis,
+};
+
+export class StubProvider implements LLMProvider {
+    readonly name = "stub" as const;
+
+    constructor(private fixturesDir: string | undefined = process.env.LLM_STUB_FIXTURES_DIR) { }
+
+    async generate(model: string, request: ModelRequest): Promise<ModelResponse> {
+        const { response } = await this.loadFixture(request.task);
+
+        return {
+            text: typeof response === "string" ? response : JSON.stringify(response),
+            provider: this.name,
+            model,
+        };
+    }
+
+    private async loadFixture(task: string): Promise<StubFixture> {
+        if (this.fixturesDir) {
+            try {
+                const raw = await readFile(path.join(this.fixturesDir, `${task}.json`), "utf-8");
+                return JSON.parse(raw) as StubFixture;
+            } catch (error) {
+                // Fall back to the bundled fixture when the override directory doesn't have one
+                if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+                    throw error;
+                }
+            }
+        }
+
+        if (!(task in BUNDLED_FIXTURES)) {
+            throw new Error(`No stub fixture for task "${task}"`);
+        }
+        return BUNDLED_FIXTURES[task];
+    }
+}
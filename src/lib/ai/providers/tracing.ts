@@ -0,0 +1,70 @@
+/**
+ * Agent Tracing - records every model invocation made during an analysis
+ *
+ * `withAgentTracing` opens a trace scope (via AsyncLocalStorage), and every
+ * `callModel` made inside it - however deep in the agent code - appends a
+ * trace record. Calls made outside a scope are not recorded.
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import { createHash } from "crypto";
+import { AgentId, ContextManifest, ModelRequest, ProviderName } from "./types";
+
+export interface AgentTraceRecord {
+    agent: AgentId;
+    task: string;
+    provider: ProviderName;
+    model: string;
+    promptVersion: string;
+    inputHash: string;
+    rawOutput: string | null;
+    latencyMs: number;
+    error: string | null;
+    startedAt: string;
+    inputTokens: number;
+    outputTokens: number;
+    costUsd: number;
+    context: ContextManifest | null;
+    // Served from the response cache
+    cached: boolean;
+}
+
+const traceScope = new AsyncLocalStorage<AgentTraceRecord[]>();
+
+/**
+ * Run `fn` and collect the traces of all model calls it makes
+ */
+export async function withAgentTracing<T>(
+    fn: () => Promise<T>
+): Promise<{ result: T; traces: AgentTraceRecord[] }> {
+    const traces: AgentTraceRecord[] = [];
+    const result = await traceScope.run(traces, fn);
+    return { result, traces };
+}
+
+export function recordAgentTrace(trace: AgentTraceRecord): void {
+    traceScope.getStore()?.push(trace);
+}
+
+/**
+ * Stable hash of everything that determines a model's output for a request
+ */
+export function hashModelInput(
+    agent: AgentId,
+    provider: ProviderName,
+    model: string,
+    request: ModelRequest
+): string {
+    return createHash("sha256")
+        .update(JSON.stringify({
+            agent,
+            provider,
+            model,
+            task: request.task,
+            promptVersion: request.promptVersion ?? null,
+            system: request.system ?? null,
+            prompt: request.prompt,
+            responseSchema: request.responseSchema ?? null,
+        }))
+        .digest("hex");
+}
@@ -0,0 +1,93 @@
+/**
+ * LLM Provider Layer - Type Definitions
+ *
+ * Every agent talks to a model through the same provider interface, so the
+ * backing model (Gemini, OpenAI or the offline stub) can be selected per agent
+ * through configuration instead of being hard-coded in each agent module.
+ */
+
+// Providers that can back an agent
+export type ProviderName = "gemini" | "openai" | "stub";
+
+// Agents (and other model consumers) that can be configured independently
+export type AgentId =
+    | "orchestrator"
+    | "history"
+    | "scan"
+    | "diagnosis"
+    | "coding"
+    | "extraction"
+    | "med-gemma";
+
+// A single piece of multimodal input
+export type ModelContentPart =
+    | { type: "text"; text: string }
+    | { type: "image_url"; url: string; detail?: "low" | "high" | "auto" }
+    | { type: "inline_data"; mimeType: string; data: string }; // base64 payload
+
+export interface ModelRequest {
+    // Stable identifier for the call (e.g. "diagnosis", "executive-summary").
+    // Used for logging and to select the stub fixture.
+    task: string;
+    // Version of the prompt template that built this request (recorded in traces)
+    promptVersion?: string;
+    prompt: string | ModelContentPart[];
+    system?: string;
+    // Ask the provider for JSON matching this schema where supported
+    responseSchema?: {
+        name: string;
+        schema: Record<string, unknown>;
+    };
+    maxOutputTokens?: number;
+    // Records a context builder selected for the prompt (recorded in traces, not sent)
+    context?: ContextManifest;
+}
+
+// Which records of the patient went into a prompt, by reference ([Type/id])
+export interface ContextManifest {
+    budgetTokens: number;
+    // Estimated tokens of the records and summary placed in the prompt
+    usedTokens: number;
+    // Records included in full
+    included: string[];
+    // Records represented only by the summary of overflow records
+    summarized: string[];
+    // Records left out entirely
+    dropped: string[];
+}
+
+// Token counts reported by the provider for one call
+export interface ModelUsage {
+    inputTokens: number;
+    outputTokens: number;
+}
+
+export interface ModelResponse {
+    text: string;
+    provider: ProviderName;
+    model: string;
+    // Missing when the provider does not report usage (e.g. the stub)
+    usage?: ModelUsage;
+}
+
+export interface CallModelOptions {
+    // Leave the response out of the response cache until the caller has
+    // validated it and calls `commitCache`
+    deferCache?: boolean;
+}
+
+export interface CallModelResponse extends ModelResponse {
+    // With deferCache, store the response in the cache (otherwise does nothing)
+    commitCache(): Promise<void>;
+}
+
+export interface LLMProvider {
+    readonly name: ProviderName;
+    generate(model: string, request: ModelRequest): Promise<ModelResponse>;
+}
+
+// Resolved provider + model for an agent
+export interface AgentModelConfig {
+    provider: ProviderName;
+    model: string;
+}
@@ -0,0 +1,198 @@
+/**
+ * Model Usage Accounting
+ *
+ * Every provider call is added to a daily roll-up (ModelUsageDaily) per agent
+ * and model, which the dashboard reads for response times, token counts, cost
+ * and the monthly budget. Per-report usage comes from the agent traces.
+ *
+ * Budget configuration:
+ * - LLM_MONTHLY_BUDGET_USD: monthly model spend budget (no alerts when unset)
+ * - LLM_BUDGET_ALERT_THRESHOLD: fraction of the budget that raises a warning (default 0.8)
+ *
+ * The call that moves month-to-date spend into "warning" or "exceeded" logs a
+ * structured alert and sends a `usage.budget.alert` event; the dashboard also
+ * shows a banner while spend stays there.
+ */
+
+import { AgentId, ModelUsage, ProviderName } from "./types";
+
+export type BudgetStatus = "ok" | "warning" | "exceeded";
+
+export interface MonthlyBudget {
+    budgetUsd: number;
+    alertThreshold: number;
+}
+
+// Loaded on first use so stub runs of the provider layer need no database
+async function getPrisma() {
+    const { prisma } = await import("@/lib/db");
+    return prisma;
+}
+
+function startOfUtcDay(date: Date): Date {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/**
+ * Add one provider call to the daily usage roll-up. Accounting is best-effort
+ * and never fails the model call; stub calls are free and not recorded.
+ */
+export async function recordModelUsage(call: {
+    agent: AgentId;
+    provider: ProviderName;
+    model: string;
+    usage: ModelUsage;
+    costUsd: number;
+    latencyMs: number;
+    failed: boolean;
+}): Promise<void> {
+    if (call.provider === "stub") return;
+
+    const counters = {
+        calls: 1,
+        failedCalls: call.failed ? 1 : 0,
+        inputTokens: call.usage.inputTokens,
+        outputTokens: call.usage.outputTokens,
+        costUsd: call.costUsd,
+        totalLatencyMs: call.latencyMs,
+    };
+
+    try {
+        const prisma = await getPrisma();
+        await prisma.modelUsageDaily.upsert({
+            where: {
+                date_agent_provider_model: {
+                    date: startOfUtcDay(new Date()),
+                    agent: call.agent,
+                    provider: call.provider,
+                    model: call.model,
+                },
+            },
+            create: {
+                date: startOfUtcDay(new Date()),
+                agent: call.agent,
+                provider: call.provider,
+                model: call.model,
+                ...counters,
+            },
+            update: {
+                calls: { increment: counters.calls },
+                failedCalls: { increment: counters.failedCalls },
+                inputTokens: { increment: counters.inputTokens },
+                outputTokens: { increment: counters.outputTokens },
+                costUsd: { increment: counters.costUsd },
+                totalLatencyMs: { increment: counters.totalLatencyMs },
+            },
+        });
+        await checkBudgetCrossing(call.costUsd);
+    } catch (error) {
+        console.warn(`[Usage] Failed to record usage for ${call.agent}/${call.model}:`, error);
+    }
+}
+
+/**
+ * Alert when the call just recorded moved month-to-date spend to a worse
+ * budget status. Best-effort: concurrent calls can each see the other's cost.
+ */
+async function checkBudgetCrossing(costUsd: number): Promise<void> {
+    const budget = getMonthlyBudget();
+    if (!budget || costUsd <= 0) return;
+
+    const now = new Date();
+    const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    const prisma = await getPrisma();
+    const totals = await prisma.modelUsageDaily.aggregate({
+        where: { date: { gte: monthStart } },
+        _sum: { costUsd: true },
+    });
+
+    const spentUsd = totals._sum.costUsd ?? 0;
+    const status = getBudgetStatus(spentUsd, budget);
+    if (status === "ok" || status === getBudgetStatus(spentUsd - costUsd, budget)) return;
+
+    const alert = {
+        status,
+        spentUsd,
+        budgetUsd: budget.budgetUsd,
+        alertThreshold: budget.alertThreshold,
+        month: monthStart.toISOString().slice(0, 7),
+    };
+    console.warn(`[Usage] Monthly model budget ${status === "exceeded" ? "exceeded" : "alert threshold reached"}`, JSON.stringify(alert));
+
+    try {
+        const { inngest } = await import("@/inngest/client");
+        await inngest.send({ name: "usage.budget.alert", data: alert });
+    } catch (error) {
+        console.warn("[Usage] Failed to send the budget alert event:", error);
+    }
+}
+
+/**
+ * Configured monthly budget, or null when no budget is set
+ */
+export function getMonthlyBudget(): MonthlyBudget | null {
+    const budgetUsd = Number(process.env.LLM_MONTHLY_BUDGET_USD);
+    if (!budgetUsd || budgetUsd <= 0) return null;
+
+    const threshold = Number(process.env.LLM_BUDGET_ALERT_THRESHOLD);
+    return {
+        budgetUsd,
+        alertThreshold: threshold > 0 && threshold <= 1 ? threshold : 0.8,
+    };
+}
+
+/**
+ * Where month-to-date spend stands against the budget
+ */
+export function getBudgetStatus(spentUsd: number, budget: MonthlyBudget | null): BudgetStatus {
+    if (!budget) return "ok";
+    if (spentUsd >= budget.budgetUsd) return "exceeded";
+    if (spentUsd >= budget.budgetUsd * budget.alertThreshold) return "warning";
+    return "ok";
+}
+
+/**
+ * Usage totals from the daily roll-up: today, the current month, and per agent this month
+ */
+export async function getUsageSummary(now: Date = new Date()) {
+    const today = startOfUtcDay(now);
+    const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    const prisma = await getPrisma();
+
+    const [todayTotals, monthTotals, byAgent] = await Promise.all([
+        prisma.modelUsageDaily.aggregate({
+            where: { date: today },
+            _sum: { calls: true, inputTokens: true, outputTokens: true, costUsd: true, totalLatencyMs: true },
+        }),
+        prisma.modelUsageDaily.aggregate({
+            where: { date: { gte: monthStart } },
+            _sum: { costUsd: true },
+        }),
+        prisma.modelUsageDaily.groupBy({
+            by: ["agent"],
+            where: { date: { gte: monthStart } },
+            _sum: { calls: true, inputTokens: true, outputTokens: true, costUsd: true },
+            orderBy: { _sum: { costUsd: "desc" } },
+        }),
+    ]);
+
+    const callsToday = todayTotals._sum.calls ?? 0;
+    const monthCostUsd = monthTotals._sum.costUsd ?? 0;
+    const budget = getMonthlyBudget();
+
+    return {
+        callsToday,
+        tokensToday: (todayTotals._sum.inputTokens ?? 0) + (todayTotals._sum.outputTokens ?? 0),
+        costTodayUsd: todayTotals._sum.costUsd ?? 0,
+        avgLatencyMs: callsToday > 0 ? (todayTotals._sum.totalLatencyMs ?? 0) / callsToday : null,
+        monthCostUsd,
+        budgetUsd: budget?.budgetUsd ?? null,
+        budgetStatus: getBudgetStatus(monthCostUsd, budget),
+        byAgent: byAgent.map(row => ({
+            agent: row.agent,
+            calls: row._sum.calls ?? 0,
+            tokens: (row._sum.inputTokens ?? 0) + (row._sum.outputTokens ?? 0),
+            costUsd: row._sum.costUsd ?? 0,
+        })),
+    };
+}
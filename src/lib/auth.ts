@@ -0,0 +1,10 @@
+import { currentUser } from "@clerk/nextjs/server";
+
+/**
+ * Admins are Clerk users whose public metadata has `role: "admin"`
+ * (set from the Clerk dashboard or the Backend API)
+ */
+export async function isAdmin(): Promise<boolean> {
+    const user = await currentUser();
+    return user?.publicMetadata?.role === "admin";
+}
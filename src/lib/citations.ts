@@ -0,0 +1,293 @@
+/**
+ * Evidence Citations - links agent claims to the patient records they came from
+ *
+ * The history and diagnosis agents see each record tagged with a reference
+ * ("MedicalHistory/<id>", "Medication/<id>", "ExternalReport/<id>",
+ * "Scan/<id>", "Encounter/<id>") and return citations of the form
+ * { claim, source, quote }. Before a citation is shown it is checked:
+ * - the reference must resolve to a record of this patient
+ * - the quote must appear in that record (allowing for punctuation and case)
+ * - any number stated in the claim must appear in the record, so a claimed
+ *   "troponin 2.3" can't cite a report that says 0.09
+ *
+ * Failed citations are kept, marked unverified with the reason, so the
+ * physician can see what the agent asserted without support.
+ */
+
+import type {
+    CitationSourceType,
+    CitedRecord,
+    EvidenceCitation,
+    PatientContext,
+    ScanAnalysisResult,
+    VerifiedCitation,
+} from "@/lib/ai/agents/types";
+
+const SOURCE_TYPES: CitationSourceType[] = ["MedicalHistory", "Medication", "ExternalReport", "Scan", "Encounter"];
+
+// Share of a quote's words that must appear in the record when it isn't found verbatim
+const QUOTE_WORD_MATCH = 0.8;
+
+// Record text given to the diagnosis agent is cut to this length
+const SOURCE_TEXT_LIMIT = 300;
+
+type CitationSources = Map<string, CitedRecord>;
+
+/**
+ * Reference an agent uses to cite a record, e.g. "Medication/clx123"
+ */
+export function recordRef(type: CitationSourceType, id: string): string {
+    return `${type}/${id}`;
+}
+
+/**
+ * DOM id of a record on the patient page, the target of citation links
+ */
+export function recordAnchor(type: CitationSourceType, id: string): string {
+    return `${type.toLowerCase()}-${id}`;
+}
+
+function joinParts(parts: (string | null | undefined)[]): string {
+    return parts
+        .filter((part): part is string => Boolean(part && part.trim()))
+        .map(part => part.trim().replace(/\.$/, ""))
+        .join(". ");
+}
+
+// Leaf values of extracted report data (lab values, measurements) as text
+function flattenValues(value: unknown): string[] {
+    if (value === null || value === undefined) return [];
+    if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") {
+        return [String(value)];
+    }
+    if (Array.isArray(value)) return value.flatMap(flattenValues);
+    if (typeof value === "object") return Object.values(value).flatMap(flattenValues);
+    return [];
+}
+
+// Saved scan analyses are usually the scan agent's JSON
+function scanAnalysisText(analysis: string | null): string | null {
+    if (!analysis) return null;
+    try {
+        return flattenValues(JSON.parse(analysis)).join(" ");
+    } catch {
+        return analysis;
+    }
+}
+
+/**
+ * Every record the agents may cite, keyed by reference. Scan text includes
+ * this run's scan analyses.
+ */
+export function collectCitationSources(
+    patient: Pick<PatientContext, "medicalHistory" | "medications" | "externalReports" | "encounters">,
+    scanAnalyses: ScanAnalysisResult[] = []
+): CitationSources {
+    const sources: CitationSources = new Map();
+
+    for (const h of patient.medicalHistory) {
+        sources.set(recordRef("MedicalHistory", h.id), {
+            label: h.description,
+            date: h.onsetDate ?? null,
+            text: joinParts([
+                h.type,
+                h.description,
+                h.clinicalStatus,
+                h.severity,
+                h.icd10Code && `ICD-10: ${h.icd10Code}`,
+                h.snomedCode && `SNOMED: ${h.snomedCode}`,
+                h.notes,
+            ]),
+        });
+    }
+
+    for (const m of patient.medications) {
+        sources.set(recordRef("Medication", m.id), {
+            label: `${m.name}${m.dosage ? ` ${m.dosage}` : ""}`,
+            date: m.startDate ?? null,
+            text: joinParts([
+                m.name,
+                m.genericName,
+                m.dosage,
+                m.frequency,
+                m.route,
+                m.status,
+                m.reason && `for ${m.reason}`,
+                m.prescribedBy && `prescribed by ${m.prescribedBy}`,
+                m.notes,
+            ]),
+        });
+    }
+
+    for (const r of patient.externalReports) {
+        sources.set(recordRef("ExternalReport", r.id), {
+            label: r.title,
+            date: r.reportDate,
+            text: joinParts([
+                r.type,
+                r.title,
+                r.description,
+                r.providerName,
+                r.findings,
+                r.conclusion,
+                flattenValues(r.extractedData).join(" "),
+            ]),
+        });
+    }
+
+    const analyzed = new Map(scanAnalyses.map(scan => [scan.scanId, scan]));
+    for (const enc of patient.encounters) {
+        sources.set(recordRef("Encounter", enc.id), {
+            label: `Encounter: ${enc.chiefComplaint || enc.symptoms}`.slice(0, 80),
+            date: enc.createdAt,
+            text: joinParts([
+                enc.encounterType,
+                enc.chiefComplaint,
+                enc.symptoms,
+                enc.voiceTranscript,
+                enc.triageReport?.summary,
+                enc.triageReport?.recommendedAction,
+            ]),
+        });
+
+        for (const scan of enc.scans) {
+            const result = analyzed.get(scan.id);
+            sources.set(recordRef("Scan", scan.id), {
+                label: `${scan.type}${scan.bodyPart ? ` (${scan.bodyPart})` : ""}`,
+                date: scan.createdAt,
+                text: joinParts([
+                    scan.type,
+                    scan.bodyPart,
+                    scan.studyDescription,
+                    scanAnalysisText(scan.analysis),
+                    result?.findings,
+                    result?.abnormalities.join(". "),
+                ]),
+            });
+        }
+    }
+
+    // Scans picked from outside the recent encounters are only known from their analysis
+    for (const scan of scanAnalyses) {
+        const ref = recordRef("Scan", scan.scanId);
+        if (sources.has(ref)) continue;
+        sources.set(ref, {
+            label: `${scan.scanType}${scan.bodyPart ? ` (${scan.bodyPart})` : ""}`,
+            date: null,
+            text: joinParts([scan.scanType, scan.bodyPart, scan.findings, scan.abnormalities.join(". ")]),
+        });
+    }
+
+    return sources;
+}
+
+/**
+ * Records with their references and text, for the diagnosis prompt
+ */
+export function formatCitationSources(sources: CitationSources): string {
+    return [...sources.entries()]
+        .map(([ref, record]) => {
+            const text = record.text.length > SOURCE_TEXT_LIMIT
+                ? `${record.text.slice(0, SOURCE_TEXT_LIMIT)}...`
+                : record.text;
+            return `- [${ref}] ${text}`;
+        })
+        .join("\n");
+}
+
+// Lowercase words and numbers, so quotes match across punctuation and spacing
+function normalize(text: string): string {
+    return text.toLowerCase().replace(/[^a-z0-9.]+/g, " ").replace(/(?<!\d)\.|\.(?!\d)/g, " ").replace(/\s+/g, " ").trim();
+}
+
+function numbersIn(text: string): string[] {
+    return text.match(/\d+(?:\.\d+)?/g) ?? [];
+}
+
+function parseRef(source: string): { type: CitationSourceType; id: string } | null {
+    const match = source.trim().replace(/^\[|\]$/g, "").match(/^([A-Za-z]+)\/(\S+)$/);
+    if (!match) return null;
+    const type = SOURCE_TYPES.find(t => t === match[1]);
+    return type ? { type, id: match[2] } : null;
+}
+
+/**
+ * Why the record doesn't support the citation, or null when it does
+ */
+function findCitationIssue(citation: EvidenceCitation, record: CitedRecord): string | null {
+    const recordText = normalize(record.text);
+    const recordWords = new Set(recordText.split(" "));
+    const recordNumbers = new Set(numbersIn(record.text));
+
+    const quote = normalize(citation.quote);
+    if (!quote) {
+        return "No quote from the record was given";
+    }
+    if (!` ${recordText} `.includes(` ${quote} `)) {
+        const words = quote.split(" ");
+        const found = words.filter(word => recordWords.has(word)).length;
+        const missingNumber = numbersIn(citation.quote).some(n => !recordNumbers.has(n));
+        if (missingNumber || found / words.length < QUOTE_WORD_MATCH) {
+            return "Quote not found in the cited record";
+        }
+    }
+
+    const unsupported = numbersIn(citation.claim).filter(n => !recordNumbers.has(n));
+    if (unsupported.length > 0) {
+        return `Claim states ${unsupported.join(", ")}, which the cited record doesn't`;
+    }
+    return null;
+}
+
+/**
+ * Check an agent's citations against the patient's records
+ */
+export function verifyCitations(
+    citations: EvidenceCitation[],
+    agent: VerifiedCitation["agent"],
+    sources: CitationSources
+): VerifiedCitation[] {
+    return citations.map(citation => {
+        const ref = parseRef(citation.source);
+        if (!ref) {
+            return {
+                agent,
+                claim: citation.claim,
+                quote: citation.quote,
+                sourceType: null,
+                sourceId: null,
+                verified: false,
+                issue: `Unrecognized record reference "${citation.source}"`,
+                record: null,
+            };
+        }
+
+        const record = sources.get(recordRef(ref.type, ref.id)) ?? null;
+        const issue = record
+            ? findCitationIssue(citation, record)
+            : `No ${ref.type} record ${ref.id} for this patient`;
+        return {
+            agent,
+            claim: citation.claim,
+            quote: citation.quote,
+            sourceType: ref.type,
+            sourceId: ref.id,
+            verified: issue === null,
+            issue,
+            record,
+        };
+    });
+}
+
+/**
+ * Citations as a markdown list, for the reasoning chain
+ */
+export function formatCitations(citations: VerifiedCitation[]): string {
+    return citations
+        .map(c => {
+            const ref = c.sourceType && c.sourceId ? recordRef(c.sourceType, c.sourceId) : "unresolved";
+            const status = c.verified ? "verified" : `**unverified**: ${c.issue}`;
+            return `- ${c.claim} [${ref}${c.record ? `, ${c.record.label}` : ""}] (${status})`;
+        })
+        .join("\n");
+}
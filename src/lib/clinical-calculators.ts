@@ -0,0 +1,814 @@
+/**
+ * Clinical Calculators - validated scoring tools for the diagnosis agent to cite
+ *
+ * HEART, Wells PE, Wells DVT, CURB-65, CHA2DS2-VASc, Glasgow Coma Scale, PERC
+ * and Centor (McIsaac). Each input is filled from the patient context where the
+ * record settles it:
+ * - Age and sex from demographics
+ * - Conditions from the medical history (description or ICD-10 code); a
+ *   condition missing from a recorded history counts as absent
+ * - Vitals from the current encounter
+ * - Labs from the labValues extracted from external reports, most recent first
+ * - Symptoms the presenting complaint mentions or explicitly denies
+ *
+ * Whatever the record can't settle is left for the clinician, whose entries
+ * (stored per encounter) take precedence over derived values. Until every input
+ * is known a score is partial: the points so far, interpreted only when the
+ * missing inputs couldn't change the interpretation.
+ *
+ * No database access, so the API and the orchestrator share it.
+ */
+
+import type {
+    CalculatorId,
+    CalculatorInputDefinition,
+    CalculatorInputValue,
+    CalculatorInputs,
+    CalculatorResult,
+    MedicalHistoryContext,
+    PatientContext,
+} from "@/lib/ai/agents/types";
+import { affirmedMatch } from "@/lib/negation";
+
+export type CalculatorContext = Pick<
+    PatientContext,
+    "age" | "gender" | "currentSymptoms" | "medicalHistory" | "medications" | "externalReports" | "currentVitalSigns"
+>;
+
+interface DerivedValue {
+    value: CalculatorInputValue;
+    source: string;
+}
+
+interface CalculatorInput extends CalculatorInputDefinition {
+    // Fill the input from the record; undefined when the record doesn't settle it
+    derive?: (context: CalculatorContext) => DerivedValue | undefined;
+}
+
+interface CalculatorDefinition {
+    id: CalculatorId;
+    name: string;
+    // Whether the presentation or history calls for the calculator
+    appliesTo: (context: CalculatorContext) => boolean;
+    inputs: CalculatorInput[];
+    interpret: (score: number, context: CalculatorContext) => string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// Deriving inputs from the record
+// ============================================================================
+
+/**
+ * Whether the presenting symptoms mention a finding: true, false when every
+ * mention is explicitly denied ("no cough", "denies hemoptysis"), undefined
+ * when not mentioned
+ */
+function mentioned(context: CalculatorContext, pattern: RegExp): DerivedValue | undefined {
+    const text = context.currentSymptoms;
+    const match = pattern.exec(text);
+    if (!match) return undefined;
+
+    const affirmed = affirmedMatch(text, pattern);
+    if (affirmed) return { value: true, source: `Symptoms: "${affirmed[0]}"` };
+    return { value: false, source: `Symptoms: "${match[0]}" (denied)` };
+}
+
+function matchesCondition(entry: MedicalHistoryContext, pattern: RegExp, icd10?: RegExp): boolean {
+    return pattern.test(entry.description) || (!!icd10 && !!entry.icd10Code && icd10.test(entry.icd10Code));
+}
+
+// History entries that don't describe the patient's own conditions
+const NOT_PATIENT_CONDITIONS = ["allergy", "family_history", "immunization"];
+
+/**
+ * Whether the medical history records a condition; absent from a recorded
+ * history counts as false, an empty history as unknown
+ */
+function inHistory(
+    context: CalculatorContext,
+    pattern: RegExp,
+    icd10?: RegExp,
+    { activeOnly = false }: { activeOnly?: boolean } = {}
+): DerivedValue | undefined {
+    if (context.medicalHistory.length === 0) return undefined;
+
+    const entry = context.medicalHistory.find(h =>
+        !NOT_PATIENT_CONDITIONS.includes(h.type) &&
+        matchesCondition(h, pattern, icd10) &&
+        (!activeOnly || ["active", "recurrence"].includes(h.clinicalStatus))
+    );
+    return entry
+        ? { value: true, source: `Medical history: ${entry.description}` }
+        : { value: false, source: "Not in medical history" };
+}
+
+/**
+ * A surgery in the medical history within the last `days`
+ */
+function recentSurgery(context: CalculatorContext, days: number): MedicalHistoryContext | undefined {
+    return context.medicalHistory.find(h =>
+        h.type === "surgery" && h.onsetDate && Date.now() - new Date(h.onsetDate).getTime() <= days * DAY_MS
+    );
+}
+
+interface LabValue {
+    testName: string;
+    value: number;
+    unit: string;
+    referenceRange: string | null;
+    source: string;
+}
+
+/**
+ * Most recent numeric lab value whose test name matches, from the labValues
+ * the report extraction stores in extractedData
+ */
+function findLab(context: CalculatorContext, pattern: RegExp): LabValue | undefined {
+    for (const report of context.externalReports) {
+        const labValues = report.extractedData?.labValues;
+        if (!Array.isArray(labValues)) continue;
+
+        for (const lab of labValues as Record<string, unknown>[]) {
+            const testName = typeof lab?.testName === "string" ? lab.testName : "";
+            const value = parseFloat(String(lab?.value ?? "").replace(/[<>]/g, ""));
+            if (!pattern.test(testName) || Number.isNaN(value)) continue;
+
+            const unit = typeof lab.unit === "string" ? lab.unit : "";
+            const referenceRange = typeof lab.referenceRange === "string" ? lab.referenceRange : null;
+            return {
+                testName,
+                value,
+                unit,
+                referenceRange,
+                source: `Lab: ${testName} ${value}${unit ? ` ${unit}` : ""}${referenceRange ? ` (ref ${referenceRange})` : ""}, ${report.title} ${report.reportDate.slice(0, 10)}`,
+            };
+        }
+    }
+    return undefined;
+}
+
+// Upper limit of a reference range such as "<0.04", "0-14" or "0.00 - 0.04 ng/mL"
+function upperReferenceLimit(range: string | null): number | undefined {
+    const numbers = range?.match(/\d+(\.\d+)?/g);
+    return numbers ? parseFloat(numbers[numbers.length - 1]) : undefined;
+}
+
+function vital(context: CalculatorContext, key: "heartRate" | "respiratoryRate" | "oxygenSaturation" | "temperature" | "bloodPressureSystolic" | "bloodPressureDiastolic"): number | undefined {
+    return context.currentVitalSigns?.[key];
+}
+
+function ageBand(context: CalculatorContext, bands: { below: number; value: number }[], otherwise: number): DerivedValue {
+    const band = bands.find(b => context.age < b.below);
+    return { value: band ? band.value : otherwise, source: `Age ${context.age}` };
+}
+
+function isFemale(context: CalculatorContext): boolean {
+    return /^f/i.test(context.gender);
+}
+
+// Conditions used by more than one calculator, as description pattern and ICD-10-CM prefix
+const CONDITIONS = {
+    hypertension: { pattern: /hypertension|\bhtn\b|high blood pressure/i, icd10: /^I1[0-6]/ },
+    diabetes: { pattern: /diabet|\bt[12]dm\b|\bdm\b/i, icd10: /^E(0[89]|1[0-3])/ },
+    hyperlipidemia: { pattern: /hyperlipid|hypercholesterol|dyslipid|high cholesterol/i, icd10: /^E78/ },
+    obesity: { pattern: /obes/i, icd10: /^E66/ },
+    smoking: { pattern: /(?<!non-?)smok|tobacco use|nicotine/i, icd10: /^(F17|Z72\.0)/ },
+    heartFailure: { pattern: /heart failure|\bchf\b|\bhfref\b|\bhfpef\b|cardiomyopathy|reduced ejection fraction/i, icd10: /^I50/ },
+    strokeOrTia: { pattern: /stroke|\bcva\b|\btia\b|transient ischemic|cerebral infarct|arterial thromboembol|systemic embol/i, icd10: /^(I6[3-4]|G45|I69\.3|I74)/ },
+    vascularDisease: { pattern: /myocardial infarction|\bmi\b|heart attack|peripheral (arterial|vascular) disease|\bpad\b|aortic plaque/i, icd10: /^(I2[12]|I25\.2|I70|I73\.9)/ },
+    atheroscleroticDisease: { pattern: /myocardial infarction|\bmi\b|heart attack|coronary|\bcad\b|\bpci\b|stent|\bcabg\b|bypass graft|stroke|\bcva\b|\btia\b|peripheral (arterial|vascular) disease|\bpad\b/i, icd10: /^(I2[0-5]|I6[3-4]|G45|I70|I73\.9)/ },
+    venousThromboembolism: { pattern: /deep vein thrombosis|\bdvt\b|pulmonary embol|\bpe\b|venous thromboembol|\bvte\b/i, icd10: /^(I26|I82\.[4-9]|Z86\.71)/ },
+    deepVeinThrombosis: { pattern: /deep vein thrombosis|\bdvt\b/i, icd10: /^(I82\.[4-9]|Z86\.718)/ },
+    malignancy: { pattern: /cancer|carcinoma|malignan|lymphoma|leukemia|leukaemia|sarcoma|melanoma|myeloma|metasta/i, icd10: /^C/ },
+    paralysis: { pattern: /paralysis|paresis|plegi|\bcast\b|plaster/i, icd10: /^G8[1-3]/ },
+    atrialFibrillation: { pattern: /atrial fibrillation|\ba-?fib\b|\baf\b|atrial flutter/i, icd10: /^I48/ },
+};
+
+function condition(name: keyof typeof CONDITIONS, options?: { activeOnly?: boolean }) {
+    return (context: CalculatorContext) =>
+        inHistory(context, CONDITIONS[name].pattern, CONDITIONS[name].icd10, options);
+}
+
+function symptom(pattern: RegExp) {
+    return (context: CalculatorContext) => mentioned(context, pattern);
+}
+
+const HORMONE_THERAPY = /estr(adiol|ogen)|ethinyl|contracepti|levonorgestrel|norethindrone|norgestimate|drospirenone|desogestrel|premarin|medroxyprogesterone|tamoxifen|raloxifene/i;
+
+const HEMOPTYSIS = /hemoptysis|haemoptysis|coughing (up )?blood|blood in (the )?sputum/i;
+const UNILATERAL_LEG_SWELLING = /(leg|calf|ankle) (swelling|is swollen)|swollen (leg|calf|ankle)|(unilateral|one-sided) (leg )?(swelling|edema|oedema)/i;
+const DVT_SIGNS = /(leg|calf) (swelling|pain|tenderness)|swollen (leg|calf)|calf (is )?(tender|swollen)/i;
+
+// ============================================================================
+// Calculators
+// ============================================================================
+
+const CALCULATORS: CalculatorDefinition[] = [
+    {
+        id: "heart",
+        name: "HEART Score",
+        appliesTo: context => /chest (pain|pressure|tightness|discomfort)|angina|acute coronary|\bacs\b/i.test(context.currentSymptoms),
+        inputs: [
+            {
+                id: "history",
+                label: "History",
+                options: [
+                    { value: 0, label: "Slightly suspicious" },
+                    { value: 1, label: "Moderately suspicious" },
+                    { value: 2, label: "Highly suspicious" },
+                ],
+            },
+            {
+                id: "ecg",
+                label: "ECG",
+                options: [
+                    { value: 0, label: "Normal" },
+                    { value: 1, label: "Non-specific repolarization disturbance" },
+                    { value: 2, label: "Significant ST deviation" },
+                ],
+            },
+            {
+                id: "age",
+                label: "Age",
+                options: [
+                    { value: 0, label: "Under 45" },
+                    { value: 1, label: "45-64" },
+                    { value: 2, label: "65 or older" },
+                ],
+                derive: context => ageBand(context, [{ below: 45, value: 0 }, { below: 65, value: 1 }], 2),
+            },
+            {
+                id: "riskFactors",
+                label: "Risk factors",
+                options: [
+                    { value: 0, label: "No known risk factors" },
+                    { value: 1, label: "1-2 risk factors" },
+                    { value: 2, label: "3 or more risk factors, or atherosclerotic disease" },
+                ],
+                derive: (context) => {
+                    if (context.medicalHistory.length === 0) return undefined;
+
+                    const atherosclerotic = inHistory(context, CONDITIONS.atheroscleroticDisease.pattern, CONDITIONS.atheroscleroticDisease.icd10);
+                    if (atherosclerotic?.value) {
+                        return { value: 2, source: atherosclerotic.source };
+                    }
+
+                    const factors: string[] = (["hypertension", "hyperlipidemia", "diabetes", "smoking"] as const)
+                        .filter(name => condition(name, { activeOnly: true })(context)?.value);
+                    const { weight, height } = context.currentVitalSigns ?? {};
+                    const bmiOver30 = !!weight && !!height && weight / (height / 100) ** 2 > 30;
+                    if (bmiOver30 || condition("obesity", { activeOnly: true })(context)?.value) {
+                        factors.push("obesity");
+                    }
+                    if (context.medicalHistory.some(h => h.type === "family_history" && /coronary|heart attack|myocardial|\bcad\b|cardiac/i.test(h.description))) {
+                        factors.push("family history");
+                    }
+
+                    const value = factors.length >= 3 ? 2 : factors.length >= 1 ? 1 : 0;
+                    return {
+                        value,
+                        source: factors.length > 0 ? `Medical history: ${factors.join(", ")}` : "No risk factors in medical history",
+                    };
+                },
+            },
+            {
+                id: "troponin",
+                label: "Initial troponin",
+                options: [
+                    { value: 0, label: "At or below the normal limit" },
+                    { value: 1, label: "1-3 times the normal limit" },
+                    { value: 2, label: "More than 3 times the normal limit" },
+                ],
+                derive: (context) => {
+                    const lab = findLab(context, /troponin|\bctn[it]\b|\bhs-?tn/i);
+                    const limit = upperReferenceLimit(lab?.referenceRange ?? null);
+                    if (!lab || !limit) return undefined;
+
+                    const ratio = lab.value / limit;
+                    return { value: ratio <= 1 ? 0 : ratio <= 3 ? 1 : 2, source: lab.source };
+                },
+            },
+        ],
+        interpret: (score) => {
+            if (score <= 3) return "Low risk (0-3): 0.9-1.7% risk of a major adverse cardiac event at 6 weeks; candidate for early discharge";
+            if (score <= 6) return "Moderate risk (4-6): 12-16.6% risk of a major adverse cardiac event; admit for observation and further testing";
+            return "High risk (7-10): 50-65% risk of a major adverse cardiac event; early invasive strategy";
+        },
+    },
+    {
+        id: "wells-pe",
+        name: "Wells Criteria for PE",
+        appliesTo: context =>
+            /shortness of breath|dyspn|pleuritic|hemoptysis|haemoptysis|coughing (up )?blood|pulmonary embol|chest pain/i.test(context.currentSymptoms),
+        inputs: [
+            { id: "dvtSigns", label: "Clinical signs and symptoms of DVT", points: 3, derive: symptom(DVT_SIGNS) },
+            { id: "peMostLikely", label: "PE is the most likely diagnosis, or equally likely", points: 3 },
+            {
+                id: "tachycardia",
+                label: "Heart rate over 100",
+                points: 1.5,
+                derive: (context) => {
+                    const hr = vital(context, "heartRate");
+                    return hr === undefined ? undefined : { value: hr > 100, source: `Heart rate ${hr} bpm` };
+                },
+            },
+            {
+                id: "immobilization",
+                label: "Immobilization for 3 or more days, or surgery in the previous 4 weeks",
+                points: 1.5,
+                derive: (context) => {
+                    const surgery = recentSurgery(context, 28);
+                    return surgery ? { value: true, source: `Medical history: ${surgery.description}` } : undefined;
+                },
+            },
+            { id: "previousVte", label: "Previous DVT or PE", points: 1.5, derive: condition("venousThromboembolism") },
+            { id: "hemoptysis", label: "Hemoptysis", points: 1, derive: symptom(HEMOPTYSIS) },
+            {
+                id: "malignancy",
+                label: "Malignancy with treatment within 6 months, or palliative",
+                points: 1,
+                derive: condition("malignancy", { activeOnly: true }),
+            },
+        ],
+        interpret: (score) => {
+            const tier = score < 2 ? "Low probability (under 2)" : score <= 6 ? "Moderate probability (2-6)" : "High probability (over 6)";
+            return score <= 4
+                ? `${tier}; PE unlikely (4 or less): D-dimer, or PERC if the probability is low`
+                : `${tier}; PE likely (over 4): CT pulmonary angiography`;
+        },
+    },
+    {
+        id: "wells-dvt",
+        name: "Wells Criteria for DVT",
+        appliesTo: context => /(leg|calf) (swelling|pain)|swollen (leg|calf)|calf tender|\bdvt\b|deep vein/i.test(context.currentSymptoms),
+        inputs: [
+            { id: "activeCancer", label: "Active cancer (treatment within 6 months, or palliative)", points: 1, derive: condition("malignancy", { activeOnly: true }) },
+            {
+                id: "paralysis",
+                label: "Paralysis, paresis or recent plaster immobilization of the lower extremities",
+                points: 1,
+                derive: (context) => {
+                    const history = condition("paralysis", { activeOnly: true })(context);
+                    return history?.value ? history : undefined;
+                },
+            },
+            {
+                id: "bedridden",
+                label: "Bedridden for 3 or more days, or major surgery within 12 weeks",
+                points: 1,
+                derive: (context) => {
+                    const surgery = recentSurgery(context, 84);
+                    return surgery ? { value: true, source: `Medical history: ${surgery.description}` } : undefined;
+                },
+            },
+            { id: "tenderness", label: "Localized tenderness along the deep venous system", points: 1 },
+            { id: "legSwollen", label: "Entire leg swollen", points: 1 },
+            { id: "calfSwelling", label: "Calf swelling more than 3 cm compared with the other leg", points: 1 },
+            { id: "pittingEdema", label: "Pitting edema confined to the symptomatic leg", points: 1 },
+            { id: "collateralVeins", label: "Collateral superficial veins (non-varicose)", points: 1 },
+            { id: "previousDvt", label: "Previously documented DVT", points: 1, derive: condition("deepVeinThrombosis") },
+            { id: "alternativeDiagnosis", label: "Alternative diagnosis at least as likely as DVT", points: -2 },
+        ],
+        interpret: (score) => {
+            const tier = score <= 0 ? "Low probability (0 or less)" : score <= 2 ? "Moderate probability (1-2)" : "High probability (3 or more)";
+            return score < 2
+                ? `${tier}; DVT unlikely (under 2): D-dimer`
+                : `${tier}; DVT likely (2 or more): compression ultrasound`;
+        },
+    },
+    {
+        id: "curb-65",
+        name: "CURB-65",
+        appliesTo: context => /pneumonia|productive cough|cough[^.]{0,40}fever|fever[^.]{0,40}cough/i.test(context.currentSymptoms),
+        inputs: [
+            {
+                id: "confusion",
+                label: "Confusion",
+                points: 1,
+                derive: (context) => {
+                    const consciousness = context.currentVitalSigns?.consciousness;
+                    if (consciousness) {
+                        return { value: consciousness !== "alert", source: `Consciousness: ${consciousness}` };
+                    }
+                    return mentioned(context, /confus|disorient|altered mental/i);
+                },
+            },
+            {
+                id: "urea",
+                label: "Urea over 7 mmol/L (BUN over 19 mg/dL)",
+                points: 1,
+                derive: (context) => {
+                    const lab = findLab(context, /\bbun\b|urea/i);
+                    if (!lab) return undefined;
+
+                    const mmol = /mmol/i.test(lab.unit);
+                    return { value: mmol ? lab.value > 7 : lab.value > 19, source: lab.source };
+                },
+            },
+            {
+                id: "respiratoryRate",
+                label: "Respiratory rate 30 or more",
+                points: 1,
+                derive: (context) => {
+                    const rr = vital(context, "respiratoryRate");
+                    return rr === undefined ? undefined : { value: rr >= 30, source: `Respiratory rate ${rr}/min` };
+                },
+            },
+            {
+                id: "lowBloodPressure",
+                label: "Systolic BP under 90 or diastolic BP 60 or less",
+                points: 1,
+                derive: (context) => {
+                    const sbp = vital(context, "bloodPressureSystolic");
+                    const dbp = vital(context, "bloodPressureDiastolic");
+                    if (sbp === undefined && dbp === undefined) return undefined;
+
+                    const low = (sbp !== undefined && sbp < 90) || (dbp !== undefined && dbp <= 60);
+                    // Normal on one reading leaves the other unknown
+                    if (!low && (sbp === undefined || dbp === undefined)) return undefined;
+                    return { value: low, source: `BP ${sbp ?? "?"}/${dbp ?? "?"} mmHg` };
+                },
+            },
+            {
+                id: "age65",
+                label: "Age 65 or older",
+                points: 1,
+                derive: context => ({ value: context.age >= 65, source: `Age ${context.age}` }),
+            },
+        ],
+        interpret: (score) => {
+            if (score <= 1) return "Low severity (0-1): 30-day mortality under 3%; consider outpatient treatment";
+            if (score === 2) return "Moderate severity (2): 30-day mortality about 9%; consider a short admission or closely supervised outpatient treatment";
+            return "High severity (3-5): 30-day mortality 15-40%; hospitalize, and assess for ICU care at 4-5";
+        },
+    },
+    {
+        id: "cha2ds2-vasc",
+        name: "CHA2DS2-VASc",
+        appliesTo: context =>
+            /atrial fibrillation|\ba-?fib\b|atrial flutter|palpitation|irregular (heart|pulse)/i.test(context.currentSymptoms) ||
+            context.medicalHistory.some(h => matchesCondition(h, CONDITIONS.atrialFibrillation.pattern, CONDITIONS.atrialFibrillation.icd10)),
+        inputs: [
+            { id: "heartFailure", label: "Congestive heart failure", points: 1, derive: condition("heartFailure") },
+            { id: "hypertension", label: "Hypertension", points: 1, derive: condition("hypertension") },
+            {
+                id: "age",
+                label: "Age",
+                options: [
+                    { value: 0, label: "Under 65" },
+                    { value: 1, label: "65-74" },
+                    { value: 2, label: "75 or older" },
+                ],
+                derive: context => ageBand(context, [{ below: 65, value: 0 }, { below: 75, value: 1 }], 2),
+            },
+            { id: "diabetes", label: "Diabetes mellitus", points: 1, derive: condition("diabetes") },
+            { id: "strokeOrTia", label: "Stroke, TIA or thromboembolism", points: 2, derive: condition("strokeOrTia") },
+            { id: "vascularDisease", label: "Vascular disease (prior MI, peripheral artery disease or aortic plaque)", points: 1, derive: condition("vascularDisease") },
+            {
+                id: "female",
+                label: "Female sex",
+                points: 1,
+                derive: context => ({ value: isFemale(context), source: `Gender: ${context.gender}` }),
+            },
+        ],
+        interpret: (score, context) => {
+            // Annual stroke rate by score (Lip et al., 2010)
+            const strokeRisk = [0, 1.3, 2.2, 3.2, 4.0, 6.7, 9.8, 9.6, 6.7, 15.2][Math.min(score, 9)];
+            // Female sex alone is not a reason to anticoagulate
+            const riskScore = score - (isFemale(context) ? 1 : 0);
+            const recommendation = riskScore <= 0
+                ? "low risk; no antithrombotic therapy"
+                : riskScore === 1
+                    ? "consider oral anticoagulation"
+                    : "oral anticoagulation recommended";
+            return `Annual stroke risk about ${strokeRisk}%; ${recommendation}`;
+        },
+    },
+    {
+        id: "gcs",
+        name: "Glasgow Coma Scale",
+        appliesTo: context =>
+            (context.currentVitalSigns?.consciousness !== undefined && context.currentVitalSigns.consciousness !== "alert") ||
+            /head (injury|trauma)|hit (my|his|her|their) head|fall|fell|syncope|faint|seizure|confus|altered mental|unresponsive|loss of consciousness|passed out/i.test(context.currentSymptoms),
+        inputs: [
+            {
+                id: "eye",
+                label: "Eye opening",
+                options: [
+                    { value: 1, label: "None" },
+                    { value: 2, label: "To pain" },
+                    { value: 3, label: "To voice" },
+                    { value: 4, label: "Spontaneous" },
+                ],
+            },
+            {
+                id: "verbal",
+                label: "Verbal response",
+                options: [
+                    { value: 1, label: "None" },
+                    { value: 2, label: "Incomprehensible sounds" },
+                    { value: 3, label: "Inappropriate words" },
+                    { value: 4, label: "Confused" },
+                    { value: 5, label: "Oriented" },
+                ],
+            },
+            {
+                id: "motor",
+                label: "Motor response",
+                options: [
+                    { value: 1, label: "None" },
+                    { value: 2, label: "Extension to pain" },
+                    { value: 3, label: "Abnormal flexion to pain" },
+                    { value: 4, label: "Withdraws from pain" },
+                    { value: 5, label: "Localizes pain" },
+                    { value: 6, label: "Obeys commands" },
+                ],
+            },
+        ],
+        interpret: (score) => {
+            if (score >= 13) return "Mild (13-15)";
+            if (score >= 9) return "Moderate (9-12)";
+            return "Severe (3-8): consider airway protection";
+        },
+    },
+    {
+        id: "perc",
+        name: "PERC Rule",
+        appliesTo: context =>
+            /shortness of breath|dyspn|pleuritic|hemoptysis|haemoptysis|coughing (up )?blood|pulmonary embol|chest pain/i.test(context.currentSymptoms),
+        inputs: [
+            {
+                id: "age50",
+                label: "Age 50 or older",
+                points: 1,
+                derive: context => ({ value: context.age >= 50, source: `Age ${context.age}` }),
+            },
+            {
+                id: "heartRate100",
+                label: "Heart rate 100 or more",
+                points: 1,
+                derive: (context) => {
+                    const hr = vital(context, "heartRate");
+                    return hr === undefined ? undefined : { value: hr >= 100, source: `Heart rate ${hr} bpm` };
+                },
+            },
+            {
+                id: "hypoxia",
+                label: "SpO2 under 95% on room air",
+                points: 1,
+                derive: (context) => {
+                    const spo2 = vital(context, "oxygenSaturation");
+                    if (spo2 === undefined) return undefined;
+                    // A normal reading on oxygen doesn't show room-air saturation
+                    if (context.currentVitalSigns?.supplementalOxygen && spo2 >= 95) return undefined;
+                    return { value: spo2 < 95, source: `SpO2 ${spo2}%${context.currentVitalSigns?.supplementalOxygen ? " on oxygen" : ""}` };
+                },
+            },
+            { id: "legSwelling", label: "Unilateral leg swelling", points: 1, derive: symptom(UNILATERAL_LEG_SWELLING) },
+            { id: "hemoptysis", label: "Hemoptysis", points: 1, derive: symptom(HEMOPTYSIS) },
+            {
+                id: "recentSurgeryOrTrauma",
+                label: "Surgery or trauma requiring hospitalization within 4 weeks",
+                points: 1,
+                derive: (context) => {
+                    const surgery = recentSurgery(context, 28);
+                    return surgery ? { value: true, source: `Medical history: ${surgery.description}` } : undefined;
+                },
+            },
+            { id: "previousVte", label: "Previous DVT or PE", points: 1, derive: condition("venousThromboembolism") },
+            {
+                id: "hormoneUse",
+                label: "Hormone use (oral contraceptives, hormone replacement or estrogen)",
+                points: 1,
+                derive: (context) => {
+                    if (context.medications.length === 0) return undefined;
+                    const medication = context.medications.find(m =>
+                        m.status === "active" && HORMONE_THERAPY.test(`${m.name} ${m.genericName ?? ""}`)
+                    );
+                    return medication
+                        ? { value: true, source: `Medication: ${medication.name}` }
+                        : { value: false, source: "No hormone therapy in active medications" };
+                },
+            },
+        ],
+        interpret: (score) => score === 0
+            ? "PERC negative: with a low pretest probability (under 15%), PE is ruled out without further testing"
+            : "PERC positive: PE is not ruled out; use Wells and D-dimer",
+    },
+    {
+        id: "centor",
+        name: "Centor Score (McIsaac)",
+        appliesTo: context => /sore throat|pharyngitis|tonsil|strep throat|odynophagia|painful swallow|throat pain/i.test(context.currentSymptoms),
+        inputs: [
+            {
+                id: "fever",
+                label: "Temperature over 38 °C",
+                points: 1,
+                derive: (context) => {
+                    const temperature = vital(context, "temperature");
+                    if (temperature !== undefined) {
+                        return { value: temperature > 38, source: `Temperature ${temperature} °C` };
+                    }
+                    return mentioned(context, /\bfebrile\b|\bfever\b/i);
+                },
+            },
+            {
+                id: "noCough",
+                label: "Absence of cough",
+                points: 1,
+                derive: (context) => {
+                    const cough = mentioned(context, /cough/i);
+                    return cough && { value: !cough.value, source: cough.source };
+                },
+            },
+            {
+                id: "cervicalNodes",
+                label: "Swollen, tender anterior cervical nodes",
+                points: 1,
+                derive: symptom(/swollen (lymph )?(nodes|glands)|lymphadenopathy|tender (lymph )?nodes/i),
+            },
+            {
+                id: "tonsillarExudate",
+                label: "Tonsillar swelling or exudate",
+                points: 1,
+                derive: symptom(/exudate|white (patches|spots)|swollen tonsils|tonsillar (swelling|enlargement)|pus on (the |my )?tonsils/i),
+            },
+            {
+                id: "age",
+                label: "Age",
+                options: [
+                    { value: 1, label: "3-14" },
+                    { value: 0, label: "15-44" },
+                    { value: -1, label: "45 or older" },
+                ],
+                // Not validated under 3
+                derive: context => context.age < 3
+                    ? undefined
+                    : ageBand(context, [{ below: 15, value: 1 }, { below: 45, value: 0 }], -1),
+            },
+        ],
+        interpret: (score) => {
+            if (score <= 1) return "Streptococcal pharyngitis risk 1-10%: no testing or antibiotics";
+            if (score <= 3) return `Streptococcal pharyngitis risk ${score === 2 ? "11-17" : "28-35"}%: rapid strep test, treat if positive`;
+            return "Streptococcal pharyngitis risk 51-53%: rapid strep test; consider empiric antibiotics";
+        },
+    },
+];
+
+// ============================================================================
+// Running calculators
+// ============================================================================
+
+function publicInput({ id, label, points, options }: CalculatorInput): CalculatorInputDefinition {
+    return options ? { id, label, options } : { id, label, points };
+}
+
+function inputPoints(input: CalculatorInput, value: CalculatorInputValue): number {
+    if (input.options) return Number(value);
+    return value === true ? input.points ?? 0 : 0;
+}
+
+function getCalculator(id: string): CalculatorDefinition | undefined {
+    return CALCULATORS.find(c => c.id === id);
+}
+
+/**
+ * The calculators with their inputs, for clinician entry forms
+ */
+export function listCalculators(): { id: CalculatorId; name: string; inputs: CalculatorInputDefinition[] }[] {
+    return CALCULATORS.map(c => ({ id: c.id, name: c.name, inputs: c.inputs.map(publicInput) }));
+}
+
+export function isCalculatorId(id: string): id is CalculatorId {
+    return getCalculator(id) !== undefined;
+}
+
+/**
+ * Check clinician-entered inputs against a calculator: yes/no criteria take
+ * booleans, scored choices one of their option values
+ */
+export function validateCalculatorInputs(
+    calculatorId: CalculatorId,
+    input: unknown
+): { values: Record<string, CalculatorInputValue>; errors: string[] } {
+    const calculator = getCalculator(calculatorId)!;
+    if (typeof input !== "object" || input === null || Array.isArray(input)) {
+        return { values: {}, errors: ["inputs must be an object"] };
+    }
+
+    const values: Record<string, CalculatorInputValue> = {};
+    const errors: string[] = [];
+    for (const [key, value] of Object.entries(input)) {
+        const definition = calculator.inputs.find(i => i.id === key);
+        if (!definition) {
+            errors.push(`${calculator.name} has no input "${key}"`);
+        } else if (definition.options) {
+            if (!definition.options.some(o => o.value === value)) {
+                errors.push(`${definition.label} must be one of ${definition.options.map(o => o.value).join(", ")}`);
+            } else {
+                values[key] = value as number;
+            }
+        } else if (typeof value !== "boolean") {
+            errors.push(`${definition.label} must be true or false`);
+        } else {
+            values[key] = value;
+        }
+    }
+    return { values, errors };
+}
+
+/**
+ * Run one calculator, clinician entries taking precedence over derived values
+ */
+export function runCalculator(
+    calculatorId: CalculatorId,
+    context: CalculatorContext,
+    clinicianInputs: Record<string, CalculatorInputValue> = {}
+): CalculatorResult {
+    const calculator = getCalculator(calculatorId)!;
+    const inputs: CalculatorResult["inputs"] = [];
+    const missingInputs: CalculatorInputDefinition[] = [];
+
+    for (const input of calculator.inputs) {
+        const known: DerivedValue | undefined = clinicianInputs[input.id] !== undefined
+            ? { value: clinicianInputs[input.id], source: "Clinician" }
+            : input.derive?.(context);
+        if (!known) {
+            missingInputs.push(publicInput(input));
+            continue;
+        }
+        inputs.push({
+            id: input.id,
+            label: input.label,
+            value: known.value,
+            points: inputPoints(input, known.value),
+            source: known.source,
+        });
+    }
+
+    const score = inputs.reduce((sum, input) => sum + input.points, 0);
+
+    // A partial score is interpreted when no answer to the missing inputs could change it.
+    // Every reachable score is checked, not only the ends: interpretations need not be
+    // monotonic (the CHA2DS2-VASc stroke risk drops from 9.8% at 6 to 6.7% at 8)
+    const reachable = missingInputs.reduce(
+        (scores, input) => {
+            const points = input.options ? input.options.map(o => o.value) : [0, input.points ?? 0];
+            return new Set([...scores].flatMap(total => points.map(p => total + p)));
+        },
+        new Set([score])
+    );
+    const interpretations = new Set([...reachable].map(total => calculator.interpret(total, context)));
+    return {
+        calculatorId,
+        name: calculator.name,
+        score,
+        complete: missingInputs.length === 0,
+        interpretation: interpretations.size === 1 ? [...interpretations][0] : null,
+        inputs,
+        missingInputs,
+    };
+}
+
+/**
+ * Run the calculators the presentation calls for, plus any the clinician has
+ * entered inputs for
+ */
+export function runApplicableCalculators(context: CalculatorContext, clinicianInputs: CalculatorInputs = {}): CalculatorResult[] {
+    return CALCULATORS
+        .filter(c => c.appliesTo(context) || clinicianInputs[c.id] !== undefined)
+        .map(c => runCalculator(c.id, context, clinicianInputs[c.id]));
+}
+
+function describeValue(input: CalculatorResult["inputs"][number], calculator: CalculatorDefinition): string {
+    const option = calculator.inputs.find(i => i.id === input.id)?.options?.find(o => o.value === input.value);
+    if (option) return option.label;
+    return input.value ? "yes" : "no";
+}
+
+/**
+ * Calculator results as a markdown list, for the diagnosis prompt and the reasoning chain
+ */
+export function formatCalculatorResults(results: CalculatorResult[]): string {
+    return results.map((result) => {
+        const calculator = getCalculator(result.calculatorId)!;
+        const inputs = result.inputs
+            .map(input => `${input.label}: ${describeValue(input, calculator)} (${input.points >= 0 ? "+" : ""}${input.points}; ${input.source})`)
+            .join("; ");
+        const missing = result.missingInputs.map(input => input.label).join("; ");
+
+        if (result.complete) {
+            return `- **${result.name}: ${result.score}** - ${result.interpretation}\n  - Inputs: ${inputs}`;
+        }
+        const interpretation = result.interpretation
+            ? `${result.interpretation} (the missing inputs can't change this)`
+            : "not interpretable until complete";
+        return [
+            `- **${result.name}: partial, ${result.score} from ${result.inputs.length} of ${result.inputs.length + result.missingInputs.length} inputs** - ${interpretation}`,
+            ...(inputs ? [`  - Known: ${inputs}`] : []),
+            `  - Needs from the clinician: ${missing}`,
+        ].join("\n");
+    }).join("\n");
+}
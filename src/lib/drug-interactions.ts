@@ -0,0 +1,287 @@
+/**
+ * Drug Interaction Checker - rule-based drug-drug and drug-allergy alerts
+ *
+ * Checks a patient's active medications against each other and against their
+ * allergy entries using the local interaction dataset (DrugConcept, DrugClass
+ * and DrugInteraction, loaded with scripts/import-drug-interactions.ts):
+ * - Medications resolve to a drug concept by RxNorm code, then by name or
+ *   generic name (including brand names)
+ * - Interactions are defined between drugs or whole drug classes
+ * - Allergy entries resolve to the drugs and classes they name; a medication in
+ *   a cross-reactive class raises a lower-severity alert
+ *
+ * The same alerts feed the history agent prompt, are stored with the report,
+ * and are shown when a medication is added.
+ */
+
+import { prisma } from "@/lib/db";
+import type {
+    InteractionAlert,
+    InteractionSeverity,
+    MedicalHistoryContext,
+    MedicationContext,
+} from "@/lib/ai/agents/types";
+
+// The dataset only changes on import
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+const SEVERITY_ORDER: InteractionSeverity[] = ["contraindicated", "major", "moderate", "minor"];
+
+export interface InteractionDataset {
+    concepts: { name: string; rxcui: string | null; synonyms: string[]; classes: string[] }[];
+    classes: { name: string; synonyms: string[]; crossReactive: string[] }[];
+    interactions: {
+        agentA: string;
+        agentB: string;
+        severity: string;
+        description: string;
+        management: string | null;
+    }[];
+}
+
+type MedicationInput = Pick<MedicationContext, "name" | "genericName" | "rxNormCode">;
+
+interface ResolvedMedication {
+    label: string;
+    concept: string;
+    // The concept name and its classes
+    agents: Set<string>;
+}
+
+let cache: { dataset: InteractionDataset; loadedAt: number } | null = null;
+
+async function loadDataset(): Promise<InteractionDataset> {
+    if (cache && Date.now() - cache.loadedAt < CACHE_TTL_MS) {
+        return cache.dataset;
+    }
+
+    const [concepts, classes, interactions] = await Promise.all([
+        prisma.drugConcept.findMany(),
+        prisma.drugClass.findMany(),
+        prisma.drugInteraction.findMany(),
+    ]);
+    const dataset = { concepts, classes, interactions };
+    cache = { dataset, loadedAt: Date.now() };
+    return dataset;
+}
+
+export function invalidateInteractionDataset(): void {
+    cache = null;
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Whole-word match, so "asa" doesn't match "nasal"
+function mentions(text: string, term: string): boolean {
+    return new RegExp(`(^|[^a-z0-9])${escapeRegExp(term)}($|[^a-z0-9])`).test(text);
+}
+
+function resolveMedication(medication: MedicationInput, dataset: InteractionDataset): ResolvedMedication | null {
+    const rxNormCode = medication.rxNormCode?.trim();
+    const text = [medication.name, medication.genericName].filter(Boolean).join(" ").toLowerCase();
+
+    const concept =
+        (rxNormCode ? dataset.concepts.find(c => c.rxcui === rxNormCode) : undefined) ??
+        dataset.concepts.find(c => [c.name, ...c.synonyms].some(term => mentions(text, term)));
+    if (!concept) return null;
+
+    return {
+        label: medication.name,
+        concept: concept.name,
+        agents: new Set([concept.name, ...concept.classes]),
+    };
+}
+
+function compareSeverity(a: InteractionSeverity, b: InteractionSeverity): number {
+    return SEVERITY_ORDER.indexOf(a) - SEVERITY_ORDER.indexOf(b);
+}
+
+function toSeverity(value: string): InteractionSeverity {
+    return SEVERITY_ORDER.includes(value as InteractionSeverity) ? value as InteractionSeverity : "moderate";
+}
+
+function drugDrugAlerts(medications: ResolvedMedication[], dataset: InteractionDataset): InteractionAlert[] {
+    const alerts: InteractionAlert[] = [];
+    for (let i = 0; i < medications.length; i++) {
+        for (let j = i + 1; j < medications.length; j++) {
+            const [first, second] = [medications[i], medications[j]];
+            if (first.concept === second.concept) continue;
+
+            // A pair can match several rules (e.g. drug and class); the most severe one is reported
+            const matches = dataset.interactions
+                .filter(rule =>
+                    (first.agents.has(rule.agentA) && second.agents.has(rule.agentB)) ||
+                    (first.agents.has(rule.agentB) && second.agents.has(rule.agentA))
+                )
+                .sort((a, b) => compareSeverity(toSeverity(a.severity), toSeverity(b.severity)));
+            if (matches.length === 0) continue;
+
+            alerts.push({
+                kind: "drug-drug",
+                severity: toSeverity(matches[0].severity),
+                medications: [first.label, second.label],
+                description: matches[0].description,
+                management: matches[0].management,
+            });
+        }
+    }
+    return alerts;
+}
+
+function drugAllergyAlerts(
+    medications: ResolvedMedication[],
+    allergies: Pick<MedicalHistoryContext, "description">[],
+    dataset: InteractionDataset
+): InteractionAlert[] {
+    const alerts: InteractionAlert[] = [];
+    for (const allergy of allergies) {
+        const text = allergy.description.toLowerCase();
+        const allergens = new Set<string>([
+            ...dataset.concepts.filter(c => [c.name, ...c.synonyms].some(term => mentions(text, term))).map(c => c.name),
+            ...dataset.classes.filter(c => [c.name, ...c.synonyms].some(term => mentions(text, term))).map(c => c.name),
+        ]);
+        if (allergens.size === 0) continue;
+
+        const crossReactive = new Set(
+            dataset.classes.filter(c => allergens.has(c.name)).flatMap(c => c.crossReactive)
+        );
+
+        for (const medication of medications) {
+            const matched = [...medication.agents].find(agent => allergens.has(agent));
+            if (matched) {
+                alerts.push({
+                    kind: "drug-allergy",
+                    severity: "contraindicated",
+                    medications: [medication.label],
+                    allergy: allergy.description,
+                    description: matched === medication.concept
+                        ? `Documented allergy to ${medication.concept}`
+                        : `${medication.concept} belongs to ${matched}; documented allergy to ${matched}`,
+                    management: "Avoid; choose an agent from an unrelated class",
+                });
+                continue;
+            }
+
+            const related = [...medication.agents].find(agent => crossReactive.has(agent));
+            if (related) {
+                alerts.push({
+                    kind: "drug-allergy",
+                    severity: "moderate",
+                    medications: [medication.label],
+                    allergy: allergy.description,
+                    description: `${medication.concept} (${related}) can cross-react with the documented allergy`,
+                    management: "Use with caution and monitor for hypersensitivity, or choose an unrelated agent",
+                });
+            }
+        }
+    }
+    return alerts;
+}
+
+/**
+ * Check medications against each other and against allergy entries.
+ * Medications the dataset doesn't know are returned as `unrecognized`.
+ */
+export function checkInteractions(
+    medications: MedicationInput[],
+    allergies: Pick<MedicalHistoryContext, "description">[],
+    dataset: InteractionDataset
+): { alerts: InteractionAlert[]; unrecognized: string[] } {
+    const resolved: ResolvedMedication[] = [];
+    const unrecognized: string[] = [];
+    for (const medication of medications) {
+        const match = resolveMedication(medication, dataset);
+        if (match) {
+            resolved.push(match);
+        } else {
+            unrecognized.push(medication.name);
+        }
+    }
+
+    const alerts = [...drugAllergyAlerts(resolved, allergies, dataset), ...drugDrugAlerts(resolved, dataset)]
+        .sort((a, b) => compareSeverity(a.severity, b.severity));
+    return { alerts, unrecognized };
+}
+
+/**
+ * Alerts for a patient's active medications and allergy entries.
+ * Returns no alerts when the dataset cannot be loaded.
+ */
+export async function findInteractionAlerts(
+    medications: MedicationContext[],
+    medicalHistory: MedicalHistoryContext[]
+): Promise<InteractionAlert[]> {
+    try {
+        const dataset = await loadDataset();
+        const { alerts } = checkInteractions(
+            medications.filter(m => m.status === "active"),
+            medicalHistory.filter(h => h.type === "allergy" && h.clinicalStatus === "active"),
+            dataset
+        );
+        return alerts;
+    } catch (error) {
+        console.error("[DrugInteractions] Interaction check unavailable:", error);
+        return [];
+    }
+}
+
+/**
+ * Alerts a new medication would raise for a patient: with their active
+ * medications and against their allergies
+ */
+export async function checkNewMedication(
+    patientId: string,
+    candidate: MedicationInput
+): Promise<{ alerts: InteractionAlert[]; recognized: boolean }> {
+    const [dataset, medications, allergies] = await Promise.all([
+        loadDataset(),
+        prisma.medication.findMany({
+            where: { patientId, status: "active" },
+            select: { name: true, genericName: true, rxNormCode: true },
+        }),
+        prisma.medicalHistory.findMany({
+            where: { patientId, type: "allergy", clinicalStatus: "active" },
+            select: { description: true },
+        }),
+    ]);
+
+    const { alerts, unrecognized } = checkInteractions([candidate, ...medications], allergies, dataset);
+    const recognized = !unrecognized.includes(candidate.name);
+
+    // Only what the new medication adds; existing alerts are not repeated
+    const existing = checkInteractions(medications, allergies, dataset).alerts;
+    const key = (alert: InteractionAlert) => `${alert.kind}|${alert.medications.join("|")}|${alert.allergy ?? ""}`;
+    const existingKeys = new Set(existing.map(key));
+    return { alerts: alerts.filter(alert => !existingKeys.has(key(alert))), recognized };
+}
+
+// Drug names for finding drug mentions in generated text
+export interface DrugMentionVocabulary {
+    // Drug and class names and synonyms, each with the concept or class it names
+    terms: { term: string; agent: string }[];
+    // Concepts and classes the patient's medications resolve to
+    patientAgents: string[];
+}
+
+/**
+ * Drug vocabulary for the hallucination guard, with the agents of the
+ * patient's medications. Empty when the dataset cannot be loaded.
+ */
+export async function loadDrugMentionVocabulary(medications: MedicationInput[]): Promise<DrugMentionVocabulary> {
+    try {
+        const dataset = await loadDataset();
+        const terms = [
+            ...dataset.concepts.flatMap(c => [c.name, ...c.synonyms].map(term => ({ term, agent: c.name }))),
+            ...dataset.classes.flatMap(c => [c.name, ...c.synonyms].map(term => ({ term, agent: c.name }))),
+        ];
+        const patientAgents = medications
+            .map(m => resolveMedication(m, dataset))
+            .flatMap(resolved => resolved ? [...resolved.agents] : []);
+        return { terms, patientAgents: [...new Set(patientAgents)] };
+    } catch (error) {
+        console.error("[DrugInteractions] Drug vocabulary unavailable:", error);
+        return { terms: [], patientAgents: [] };
+    }
+}
@@ -0,0 +1,263 @@
+/**
+ * Early-Warning Scores - NEWS2, qSOFA and shock index from vital signs
+ *
+ * Vitals are entered when a triage is started and stored on the encounter.
+ * The scores are computed deterministically:
+ * - NEWS2 (Royal College of Physicians, 2017), SpO2 scale 1
+ * - qSOFA (Sepsis-3): respiratory rate >= 22, systolic BP <= 100, altered mentation
+ * - Shock index: heart rate / systolic BP
+ *
+ * A deranged score sets a floor on the overall urgency, whatever the diagnosis
+ * agent concluded. Missing parameters score 0, so a partial NEWS2 is a lower
+ * bound and can still escalate.
+ *
+ * No database access, so the triage form can use it to preview the scores.
+ */
+
+import type { ConsciousnessLevel, EarlyWarningScores, VitalSigns } from "@/lib/ai/agents/types";
+
+type Urgency = EarlyWarningScores["urgencyFloor"];
+type NumericVital = Exclude<keyof VitalSigns, "supplementalOxygen" | "consciousness">;
+
+// Physiologically plausible values; anything outside is taken as an entry error
+export const VITAL_SIGN_RANGES: Record<NumericVital, { min: number; max: number; label: string; unit: string }> = {
+    bloodPressureSystolic: { min: 40, max: 300, label: "Systolic BP", unit: "mmHg" },
+    bloodPressureDiastolic: { min: 20, max: 200, label: "Diastolic BP", unit: "mmHg" },
+    heartRate: { min: 20, max: 300, label: "Heart rate", unit: "bpm" },
+    respiratoryRate: { min: 4, max: 80, label: "Respiratory rate", unit: "/min" },
+    temperature: { min: 25, max: 45, label: "Temperature", unit: "°C" },
+    oxygenSaturation: { min: 50, max: 100, label: "SpO2", unit: "%" },
+    weight: { min: 0.5, max: 500, label: "Weight", unit: "kg" },
+    height: { min: 30, max: 272, label: "Height", unit: "cm" },
+};
+
+export const CONSCIOUSNESS_LEVELS: { value: ConsciousnessLevel; label: string }[] = [
+    { value: "alert", label: "Alert" },
+    { value: "confusion", label: "New confusion" },
+    { value: "voice", label: "Responds to voice" },
+    { value: "pain", label: "Responds to pain" },
+    { value: "unresponsive", label: "Unresponsive" },
+];
+
+// The seven NEWS2 parameters
+const NEWS2_PARAMETERS: (keyof VitalSigns)[] = [
+    "respiratoryRate",
+    "oxygenSaturation",
+    "supplementalOxygen",
+    "bloodPressureSystolic",
+    "heartRate",
+    "consciousness",
+    "temperature",
+];
+
+const URGENCY_ORDER: Urgency[] = ["LOW", "MEDIUM", "HIGH", "CRITICAL"];
+
+const SHOCK_INDEX_ELEVATED = 1.0;
+
+/**
+ * Validate vitals from a request body or form. Values may be numbers or
+ * numeric strings; empty values are dropped. Returns null vitals when none
+ * were given.
+ */
+export function validateVitalSigns(input: unknown): { vitals: VitalSigns | null; errors: string[] } {
+    if (input === null || input === undefined) {
+        return { vitals: null, errors: [] };
+    }
+    if (typeof input !== "object" || Array.isArray(input)) {
+        return { vitals: null, errors: ["Vital signs must be an object"] };
+    }
+
+    const raw = input as Record<string, unknown>;
+    const vitals: VitalSigns = {};
+    const errors: string[] = [];
+
+    for (const [key, range] of Object.entries(VITAL_SIGN_RANGES) as [NumericVital, typeof VITAL_SIGN_RANGES[NumericVital]][]) {
+        const value = raw[key];
+        if (value === null || value === undefined || value === "") continue;
+
+        const number = typeof value === "number" ? value : Number(value);
+        if (!Number.isFinite(number)) {
+            errors.push(`${range.label} must be a number`);
+        } else if (number < range.min || number > range.max) {
+            errors.push(`${range.label} must be between ${range.min} and ${range.max} ${range.unit}`);
+        } else {
+            vitals[key] = number;
+        }
+    }
+
+    if (
+        vitals.bloodPressureSystolic !== undefined &&
+        vitals.bloodPressureDiastolic !== undefined &&
+        vitals.bloodPressureDiastolic >= vitals.bloodPressureSystolic
+    ) {
+        errors.push("Diastolic BP must be lower than systolic BP");
+    }
+
+    if (raw.supplementalOxygen !== null && raw.supplementalOxygen !== undefined) {
+        if (typeof raw.supplementalOxygen === "boolean") {
+            vitals.supplementalOxygen = raw.supplementalOxygen;
+        } else {
+            errors.push("Supplemental oxygen must be true or false");
+        }
+    }
+
+    if (raw.consciousness !== null && raw.consciousness !== undefined && raw.consciousness !== "") {
+        const level = CONSCIOUSNESS_LEVELS.find(l => l.value === raw.consciousness);
+        if (level) {
+            vitals.consciousness = level.value;
+        } else {
+            errors.push(`Consciousness must be one of: ${CONSCIOUSNESS_LEVELS.map(l => l.value).join(", ")}`);
+        }
+    }
+
+    return { vitals: Object.keys(vitals).length > 0 ? vitals : null, errors };
+}
+
+function scoreNews2(vitals: VitalSigns): EarlyWarningScores["news2"] {
+    const components: EarlyWarningScores["news2"]["components"] = {};
+    const { respiratoryRate: rr, oxygenSaturation: spo2, bloodPressureSystolic: sbp, heartRate: hr, temperature: temp } = vitals;
+
+    if (rr !== undefined) {
+        components.respiratoryRate = rr <= 8 ? 3 : rr <= 11 ? 1 : rr <= 20 ? 0 : rr <= 24 ? 2 : 3;
+    }
+    if (spo2 !== undefined) {
+        components.oxygenSaturation = spo2 <= 91 ? 3 : spo2 <= 93 ? 2 : spo2 <= 95 ? 1 : 0;
+    }
+    if (vitals.supplementalOxygen !== undefined) {
+        components.supplementalOxygen = vitals.supplementalOxygen ? 2 : 0;
+    }
+    if (sbp !== undefined) {
+        components.bloodPressureSystolic = sbp <= 90 ? 3 : sbp <= 100 ? 2 : sbp <= 110 ? 1 : sbp <= 219 ? 0 : 3;
+    }
+    if (hr !== undefined) {
+        components.heartRate = hr <= 40 ? 3 : hr <= 50 ? 1 : hr <= 90 ? 0 : hr <= 110 ? 1 : hr <= 130 ? 2 : 3;
+    }
+    if (vitals.consciousness !== undefined) {
+        components.consciousness = vitals.consciousness === "alert" ? 0 : 3;
+    }
+    if (temp !== undefined) {
+        components.temperature = temp <= 35 ? 3 : temp <= 36 ? 1 : temp <= 38 ? 0 : temp <= 39 ? 1 : 2;
+    }
+
+    const points = Object.values(components);
+    const score = points.reduce((sum, p) => sum + p, 0);
+    const risk = score >= 7 ? "high" : score >= 5 ? "medium" : points.includes(3) ? "low-medium" : "low";
+
+    return {
+        score,
+        risk,
+        components,
+        missing: NEWS2_PARAMETERS.filter(p => vitals[p] === undefined),
+    };
+}
+
+function scoreQsofa(vitals: VitalSigns): EarlyWarningScores["qsofa"] {
+    const criteria: string[] = [];
+    if (vitals.respiratoryRate !== undefined && vitals.respiratoryRate >= 22) {
+        criteria.push(`Respiratory rate ${vitals.respiratoryRate}/min (>= 22)`);
+    }
+    if (vitals.bloodPressureSystolic !== undefined && vitals.bloodPressureSystolic <= 100) {
+        criteria.push(`Systolic BP ${vitals.bloodPressureSystolic} mmHg (<= 100)`);
+    }
+    if (vitals.consciousness !== undefined && vitals.consciousness !== "alert") {
+        criteria.push(`Altered mentation (${vitals.consciousness})`);
+    }
+
+    const parameters: (keyof VitalSigns)[] = ["respiratoryRate", "bloodPressureSystolic", "consciousness"];
+    return {
+        score: criteria.length,
+        positive: criteria.length >= 2,
+        criteria,
+        missing: parameters.filter(p => vitals[p] === undefined),
+    };
+}
+
+function calculateShockIndex(vitals: VitalSigns): EarlyWarningScores["shockIndex"] {
+    if (vitals.heartRate === undefined || vitals.bloodPressureSystolic === undefined) {
+        return null;
+    }
+    const value = Math.round((vitals.heartRate / vitals.bloodPressureSystolic) * 100) / 100;
+    return { value, elevated: value >= SHOCK_INDEX_ELEVATED };
+}
+
+/**
+ * Compute NEWS2, qSOFA and shock index, and the urgency they call for.
+ * Returns null when no vitals were recorded.
+ */
+export function calculateEarlyWarningScores(vitals: VitalSigns | null | undefined): EarlyWarningScores | null {
+    if (!vitals || NEWS2_PARAMETERS.every(p => vitals[p] === undefined)) {
+        return null;
+    }
+
+    const news2 = scoreNews2(vitals);
+    const qsofa = scoreQsofa(vitals);
+    const shockIndex = calculateShockIndex(vitals);
+
+    // NEWS2 thresholds follow the RCP clinical response: 7+ emergency, 5-6 or a single 3 urgent
+    const escalations: { urgency: Urgency; reason: string }[] = [];
+    if (news2.score >= 7) {
+        escalations.push({ urgency: "CRITICAL", reason: `NEWS2 ${news2.score} (high risk, emergency response)` });
+    } else if (news2.score >= 5) {
+        escalations.push({ urgency: "HIGH", reason: `NEWS2 ${news2.score} (medium risk, urgent response)` });
+    } else if (news2.risk === "low-medium") {
+        const extreme = Object.entries(news2.components).filter(([, p]) => p === 3).map(([parameter]) => parameter);
+        escalations.push({ urgency: "HIGH", reason: `NEWS2 single parameter scoring 3 (${extreme.join(", ")})` });
+    }
+    if (qsofa.positive) {
+        escalations.push({ urgency: "HIGH", reason: `qSOFA ${qsofa.score}/3 (positive sepsis screen)` });
+    }
+    if (shockIndex?.elevated) {
+        escalations.push({ urgency: "HIGH", reason: `Shock index ${shockIndex.value} (>= ${SHOCK_INDEX_ELEVATED.toFixed(1)})` });
+    }
+
+    const urgencyFloor = escalations.reduce<Urgency>(
+        (floor, e) => URGENCY_ORDER.indexOf(e.urgency) > URGENCY_ORDER.indexOf(floor) ? e.urgency : floor,
+        "LOW"
+    );
+
+    return {
+        news2,
+        qsofa,
+        shockIndex,
+        urgencyFloor,
+        escalationReasons: escalations.map(e => e.reason),
+    };
+}
+
+/**
+ * Vitals as one line for prompts, e.g. "BP 92/60 mmHg, HR 118 bpm, RR 24/min, ..."
+ */
+export function formatVitalSigns(vitals: VitalSigns): string {
+    const parts: string[] = [];
+    if (vitals.bloodPressureSystolic !== undefined) {
+        parts.push(`BP ${vitals.bloodPressureSystolic}${vitals.bloodPressureDiastolic !== undefined ? `/${vitals.bloodPressureDiastolic}` : ""} mmHg`);
+    }
+    if (vitals.heartRate !== undefined) parts.push(`HR ${vitals.heartRate} bpm`);
+    if (vitals.respiratoryRate !== undefined) parts.push(`RR ${vitals.respiratoryRate}/min`);
+    if (vitals.oxygenSaturation !== undefined) {
+        parts.push(`SpO2 ${vitals.oxygenSaturation}%${vitals.supplementalOxygen ? " on supplemental O2" : ""}`);
+    }
+    if (vitals.temperature !== undefined) parts.push(`Temp ${vitals.temperature} °C`);
+    if (vitals.consciousness !== undefined) {
+        parts.push(`Consciousness: ${CONSCIOUSNESS_LEVELS.find(l => l.value === vitals.consciousness)?.label ?? vitals.consciousness}`);
+    }
+    if (vitals.weight !== undefined) parts.push(`Weight ${vitals.weight} kg`);
+    if (vitals.height !== undefined) parts.push(`Height ${vitals.height} cm`);
+    return parts.join(", ");
+}
+
+/**
+ * The scores as prompt text
+ */
+export function formatEarlyWarningScores(scores: EarlyWarningScores): string {
+    const lines = [
+        `- NEWS2: ${scores.news2.score} (${scores.news2.risk} risk)` +
+            (scores.news2.missing.length > 0 ? `; not recorded: ${scores.news2.missing.join(", ")}` : ""),
+        `- qSOFA: ${scores.qsofa.score}/3${scores.qsofa.criteria.length > 0 ? ` (${scores.qsofa.criteria.join("; ")})` : ""}`,
+        `- Shock index: ${scores.shockIndex ? scores.shockIndex.value : "not available"}`,
+    ];
+    if (scores.escalationReasons.length > 0) {
+        lines.push(`- Minimum urgency from these scores: ${scores.urgencyFloor} (${scores.escalationReasons.join("; ")})`);
+    }
+    return lines.join("\n");
+}
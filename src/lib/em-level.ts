@@ -0,0 +1,221 @@
+/**
+ * E/M Level Calculator - Evaluation and Management code from medical decision making
+ *
+ * Levels office/outpatient (99202-99205 new, 99212-99215 established) and
+ * emergency department (99282-99285) visits by medical decision making (MDM),
+ * following the AMA 2021/2023 E/M guidelines. MDM has three elements:
+ * - Problems addressed: from the overall urgency (the diagnosis urgency after
+ *   red-flag, early-warning and scan escalation) and the chronic conditions
+ *   relevant to the visit
+ * - Data reviewed: each unique scan and external report reviewed (Category 1)
+ * - Risk of patient management: from the overall urgency
+ * The visit is leveled at the MDM met by two of the three elements.
+ *
+ * The calculation is deterministic and every element carries its rationale,
+ * so the coder can audit the recommendation.
+ */
+
+import type {
+    ClinicalHistoryAnalysis,
+    CodingResult,
+    DiagnosisResult,
+    EMLevelRecommendation,
+    MDMElement,
+    MDMLevel,
+    PatientContext,
+    ScanAnalysisResult,
+} from "@/lib/ai/agents/types";
+
+const MDM_LEVELS: MDMLevel[] = ["STRAIGHTFORWARD", "LOW", "MODERATE", "HIGH"];
+
+const EM_CODES: Record<"new" | "established" | "emergency", Record<MDMLevel, { code: string; description: string }>> = {
+    new: {
+        STRAIGHTFORWARD: { code: "99202", description: "Office or other outpatient visit, new patient, straightforward MDM" },
+        LOW: { code: "99203", description: "Office or other outpatient visit, new patient, low MDM" },
+        MODERATE: { code: "99204", description: "Office or other outpatient visit, new patient, moderate MDM" },
+        HIGH: { code: "99205", description: "Office or other outpatient visit, new patient, high MDM" },
+    },
+    established: {
+        STRAIGHTFORWARD: { code: "99212", description: "Office or other outpatient visit, established patient, straightforward MDM" },
+        LOW: { code: "99213", description: "Office or other outpatient visit, established patient, low MDM" },
+        MODERATE: { code: "99214", description: "Office or other outpatient visit, established patient, moderate MDM" },
+        HIGH: { code: "99215", description: "Office or other outpatient visit, established patient, high MDM" },
+    },
+    emergency: {
+        STRAIGHTFORWARD: { code: "99282", description: "Emergency department visit, straightforward MDM" },
+        LOW: { code: "99283", description: "Emergency department visit, low MDM" },
+        MODERATE: { code: "99284", description: "Emergency department visit, moderate MDM" },
+        HIGH: { code: "99285", description: "Emergency department visit, high MDM" },
+    },
+};
+
+// Office and ED E/M codes, including the deleted 99201; suggestions in this
+// range are replaced by the calculated level
+const EM_CODE_PATTERN = /^99(20[1-5]|21[1-5]|28[1-5])$/;
+
+// A patient seen within this many years is established (AMA "3-year rule")
+const ESTABLISHED_PATIENT_YEARS = 3;
+
+export interface EMLevelInput {
+    encounterType: string; // ambulatory | emergency | inpatient | virtual
+    isNewPatient: boolean;
+    urgencyLevel: DiagnosisResult["urgencyLevel"];
+    // Chronic conditions addressed at the visit
+    chronicConditions: string[];
+    // Unique tests and documents reviewed, e.g. "CT Chest", "Lipid panel (Quest Diagnostics)"
+    dataReviewed: string[];
+}
+
+export function isEMCode(code: string): boolean {
+    return EM_CODE_PATTERN.test(code);
+}
+
+function describeList(items: string[]): string {
+    return items.length > 0 ? `: ${items.join(", ")}` : "";
+}
+
+function levelProblems(input: EMLevelInput): MDMElement {
+    const chronic = input.chronicConditions.length;
+    const candidates: MDMElement[] = [
+        { level: "STRAIGHTFORWARD", rationale: "Self-limited or minor problem (urgency LOW)" },
+    ];
+
+    if (input.urgencyLevel === "CRITICAL") {
+        candidates.push({ level: "HIGH", rationale: "Illness that poses a threat to life or bodily function (urgency CRITICAL)" });
+    } else if (input.urgencyLevel === "HIGH") {
+        candidates.push({ level: "MODERATE", rationale: "Acute illness with systemic symptoms or acute complicated injury (urgency HIGH)" });
+    } else if (input.urgencyLevel === "MEDIUM") {
+        candidates.push({ level: "LOW", rationale: "Acute uncomplicated illness or injury (urgency MEDIUM)" });
+    }
+
+    if (chronic >= 2) {
+        candidates.push({ level: "MODERATE", rationale: `${chronic} chronic illnesses addressed${describeList(input.chronicConditions)}` });
+    } else if (chronic === 1) {
+        candidates.push({ level: "LOW", rationale: `1 chronic illness addressed${describeList(input.chronicConditions)}` });
+    }
+
+    // The highest qualifying level; on a tie the first (urgency-based) rationale is kept
+    return candidates.reduce((best, candidate) =>
+        MDM_LEVELS.indexOf(candidate.level) > MDM_LEVELS.indexOf(best.level) ? candidate : best
+    );
+}
+
+function levelData(input: EMLevelInput): MDMElement {
+    const count = input.dataReviewed.length;
+    const reviewed = `${count} unique test(s)/document(s) reviewed${describeList(input.dataReviewed)}`;
+
+    // Only Category 1 data is known here, which caps the element at moderate
+    if (count >= 3) return { level: "MODERATE", rationale: `${reviewed} (Category 1: 3 or more)` };
+    if (count === 2) return { level: "LOW", rationale: `${reviewed} (Category 1: 2)` };
+    return { level: "STRAIGHTFORWARD", rationale: count === 1 ? `${reviewed} (minimal)` : "No data reviewed (minimal)" };
+}
+
+function levelRisk(input: EMLevelInput): MDMElement {
+    switch (input.urgencyLevel) {
+        case "CRITICAL":
+            return { level: "HIGH", rationale: "Decision regarding hospitalization or escalation of care (urgency CRITICAL)" };
+        case "HIGH":
+            return { level: "MODERATE", rationale: "Moderate risk of morbidity from further diagnostics or treatment (urgency HIGH)" };
+        case "MEDIUM":
+            return { level: "LOW", rationale: "Low risk of morbidity from further diagnostics or treatment (urgency MEDIUM)" };
+        default:
+            return { level: "STRAIGHTFORWARD", rationale: "Minimal risk of morbidity from further diagnostics or treatment (urgency LOW)" };
+    }
+}
+
+/**
+ * Recommend an E/M code from the visit's medical decision making
+ */
+export function calculateEMLevel(input: EMLevelInput): EMLevelRecommendation {
+    const elements = {
+        problems: levelProblems(input),
+        data: levelData(input),
+        risk: levelRisk(input),
+    };
+
+    // Two of three elements must meet or exceed the level: the middle one
+    const ranks = [elements.problems, elements.data, elements.risk]
+        .map(element => MDM_LEVELS.indexOf(element.level))
+        .sort((a, b) => a - b);
+    const mdmLevel = MDM_LEVELS[ranks[1]];
+
+    const setting = input.encounterType === "emergency" ? "emergency" : "office";
+    const patientStatus = setting === "office" ? (input.isNewPatient ? "new" : "established") : undefined;
+    const { code, description } = EM_CODES[patientStatus ?? "emergency"][mdmLevel];
+
+    const explanation =
+        `${mdmLevel.charAt(0)}${mdmLevel.slice(1).toLowerCase()} MDM` +
+        ` (problems ${elements.problems.level.toLowerCase()}, data ${elements.data.level.toLowerCase()},` +
+        ` risk ${elements.risk.level.toLowerCase()}; two of three elements must meet the level)` +
+        (setting === "office" ? `, ${patientStatus} patient` : ", emergency department");
+
+    return { code, description, setting, patientStatus, mdmLevel, elements, explanation };
+}
+
+/**
+ * Put the calculated E/M code first in the CPT codes, replacing any E/M code the model suggested
+ */
+export function applyEMLevel(coding: CodingResult, emLevel: EMLevelRecommendation): CodingResult {
+    const suggested = coding.cptCodes.filter(c => isEMCode(c.code));
+    if (suggested.length > 0) {
+        console.log(`[EMLevel] Replacing suggested E/M code(s) ${suggested.map(c => c.code).join(", ")} with ${emLevel.code}`);
+    }
+
+    return {
+        ...coding,
+        cptCodes: [
+            { code: emLevel.code, description: emLevel.description, units: 1 },
+            ...coding.cptCodes.filter(c => !isEMCode(c.code)),
+        ],
+        emLevel,
+    };
+}
+
+/**
+ * Gather the E/M inputs for an encounter from the analysis results and the
+ * report's overall (escalated) urgency
+ */
+export function emLevelInputFromAnalysis(
+    encounterId: string,
+    patientContext: PatientContext,
+    clinicalHistory: ClinicalHistoryAnalysis,
+    scanAnalyses: ScanAnalysisResult[],
+    urgencyLevel: DiagnosisResult["urgencyLevel"]
+): EMLevelInput {
+    const encounter = patientContext.encounters.find(e => e.id === encounterId);
+    const visitDate = encounter ? new Date(encounter.createdAt) : new Date();
+    const previousEncounters = patientContext.encounters.filter(e => e.id !== encounterId && new Date(e.createdAt) < visitDate);
+
+    const establishedSince = new Date(visitDate);
+    establishedSince.setFullYear(establishedSince.getFullYear() - ESTABLISHED_PATIENT_YEARS);
+    const isNewPatient = !previousEncounters.some(e => new Date(e.createdAt) >= establishedSince);
+
+    // Active chronic conditions from the record that the history agent found relevant to this visit
+    const relevant = clinicalHistory.relevantConditions.map(c => c.trim().toLowerCase()).filter(Boolean);
+    const chronicConditions = patientContext.medicalHistory
+        .filter(h => h.type === "condition" && h.clinicalStatus === "active")
+        .map(h => h.description)
+        .filter(description => {
+            const name = description.toLowerCase();
+            return relevant.some(r => r.includes(name) || name.includes(r));
+        });
+
+    // External reports received since the previous visit (the past year for a first visit)
+    const lastVisit = previousEncounters
+        .map(e => new Date(e.createdAt))
+        .sort((a, b) => b.getTime() - a.getTime())[0];
+    const reportsSince = lastVisit ?? new Date(visitDate.getTime() - 365 * 24 * 60 * 60 * 1000);
+    const reports = patientContext.externalReports
+        .filter(r => new Date(r.reportDate) >= reportsSince)
+        .map(r => `${r.title}${r.providerName ? ` (${r.providerName})` : ""}`);
+
+    const scans = scanAnalyses.map(s => `${s.scanType}${s.bodyPart ? ` ${s.bodyPart}` : ""}`);
+
+    return {
+        encounterType: encounter?.encounterType ?? "ambulatory",
+        isNewPatient,
+        urgencyLevel,
+        chronicConditions,
+        dataReviewed: [...new Set([...scans, ...reports])],
+    };
+}
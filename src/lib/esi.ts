@@ -0,0 +1,223 @@
+/**
+ * Emergency Severity Index - ED triage acuity (ESI v4, levels 1-5)
+ *
+ * Walks the four ESI decision points with what the analysis knows:
+ * - A: Does the patient need an immediate life-saving intervention? (ESI 1)
+ * - B: Is this a high-risk situation, or is the patient confused, lethargic
+ *   or disoriented? (ESI 2)
+ * - C: How many different resources will the visit need? None is ESI 5,
+ *   one is ESI 4, more go on to D
+ * - D: Are the vitals in the danger zone for the patient's age? (ESI 2, else 3)
+ *
+ * Vitals, symptoms and scans are read deterministically; the diagnosis
+ * agent's urgency, red flags and recommended actions stand in for the triage
+ * nurse's judgment of risk and expected resources.
+ *
+ * The level is compared with the report's overall urgency, and a mismatch is
+ * flagged for the clinician instead of being resolved either way.
+ */
+
+import type {
+    DiagnosisResult,
+    EsiAssessment,
+    EsiLevel,
+    PatientContext,
+    ScanAnalysisResult,
+} from "@/lib/ai/agents/types";
+import { affirmedMatch } from "@/lib/negation";
+
+type Urgency = EsiAssessment["urgency"];
+
+// Overall urgencies consistent with each ESI level
+const EXPECTED_URGENCY: Record<EsiLevel, Urgency[]> = {
+    1: ["CRITICAL"],
+    2: ["CRITICAL", "HIGH"],
+    3: ["HIGH", "MEDIUM"],
+    4: ["MEDIUM", "LOW"],
+    5: ["MEDIUM", "LOW"],
+};
+
+const LIFE_THREATENING_PRESENTATIONS =
+    /cardiac arrest|respiratory arrest|not breathing|apneic|apnea|pulseless|unresponsive|agonal|anaphyla|status epilepticus|actively seizing/i;
+
+const LIFE_SAVING_INTERVENTIONS =
+    /intubat|defibrillat|cardiover|\bcpr\b|resuscitat|needle decompression|chest tube|epinephrine|massive transfusion|pericardiocentesis|emergent airway|bag[- ]valve/i;
+
+const HIGH_RISK_PRESENTATIONS: { pattern: RegExp; label: string }[] = [
+    { pattern: /chest pain|chest pressure|chest tightness/i, label: "chest pain" },
+    { pattern: /facial droop|slurred speech|one[- ]sided weakness|hemiparesis|stroke/i, label: "possible stroke" },
+    { pattern: /suicid|homicid|self[- ]harm/i, label: "risk of harm to self or others" },
+    { pattern: /overdose|ingestion/i, label: "overdose or toxic ingestion" },
+    { pattern: /shortness of breath|difficulty breathing|dyspn/i, label: "respiratory distress" },
+    { pattern: /worst headache|thunderclap/i, label: "sudden severe headache" },
+    { pattern: /vomiting blood|hematemesis|melena|rectal bleeding/i, label: "gastrointestinal bleeding" },
+];
+
+// ESI counts each resource type once, however many tests of that type are ordered.
+// Not resources: history and exam, ECG, oral medications, simple wound care, prescriptions.
+const RESOURCE_TYPES: { label: string; pattern: RegExp }[] = [
+    {
+        label: "Laboratory tests",
+        pattern: /\b(labs?|laboratory|cbc|bmp|cmp|troponin|lactate|blood cultures?|urinalysis|urine culture|d-dimer|electrolytes|lipase|blood gas|abg|vbg|coagulation|inr|ketones|hcg|pregnancy test)\b/i,
+    },
+    { label: "Plain radiographs", pattern: /x-?ray|radiograph|\bcxr\b/i },
+    { label: "Advanced imaging (CT/MRI/ultrasound)", pattern: /\bct\b|\bcta\b|\bmri\b|ultrasound|sonogra|echocardiogra|angiogra|doppler/i },
+    { label: "IV fluids", pattern: /\biv fluids?\b|intravenous fluids?|fluid bolus|normal saline|lactated ringer|crystalloid/i },
+    { label: "IV, IM or nebulized medication", pattern: /\b(iv|intravenous|im|intramuscular)\b(?! fluid)|nebuli[sz]|infusion/i },
+    { label: "Specialty consultation", pattern: /\*\*consult:\*\*|\bconsult(ation)?\b/i },
+    {
+        label: "Procedure",
+        pattern: /laceration repair|sutur|incision and drainage|fracture reduction|reduction of|splint|catheteri[sz]|lumbar puncture|procedural sedation|thoracentesis|paracentesis/i,
+    },
+];
+
+// ESI danger-zone heart and respiratory rates by age. Ages are whole years here,
+// so infants under 3 months (HR > 180, RR > 50) fall in the youngest band.
+function dangerZoneLimits(age: number): { heartRate: number; respiratoryRate: number } {
+    if (age < 3) return { heartRate: 160, respiratoryRate: 40 };
+    if (age <= 8) return { heartRate: 140, respiratoryRate: 30 };
+    return { heartRate: 100, respiratoryRate: 20 };
+}
+
+export interface EsiInput {
+    patientContext: Pick<PatientContext, "age" | "currentSymptoms" | "currentVitalSigns" | "earlyWarningScores">;
+    diagnosis: Pick<DiagnosisResult, "urgencyLevel" | "redFlags" | "recommendedActions" | "primaryDiagnosis">;
+    scanAnalyses: Pick<ScanAnalysisResult, "scanType">[];
+    // Overall urgency of the report, compared with the ESI level
+    overallUrgency: Urgency;
+}
+
+function lifeSavingIndicators({ patientContext, diagnosis }: EsiInput): string[] {
+    const indicators: string[] = [];
+    const vitals = patientContext.currentVitalSigns;
+
+    if (vitals?.consciousness === "pain" || vitals?.consciousness === "unresponsive") {
+        indicators.push(vitals.consciousness === "pain" ? "Responds only to pain" : "Unresponsive");
+    }
+    if (vitals?.bloodPressureSystolic !== undefined && vitals.bloodPressureSystolic < 70) {
+        indicators.push(`Systolic BP ${vitals.bloodPressureSystolic} mmHg`);
+    }
+    if (vitals?.oxygenSaturation !== undefined && vitals.oxygenSaturation < 85) {
+        indicators.push(`SpO2 ${vitals.oxygenSaturation}%`);
+    }
+    if (vitals?.heartRate !== undefined && vitals.heartRate < 40) {
+        indicators.push(`Heart rate ${vitals.heartRate} bpm`);
+    }
+
+    const presentation = patientContext.currentSymptoms.match(LIFE_THREATENING_PRESENTATIONS);
+    if (presentation) {
+        indicators.push(`Presentation: ${presentation[0].toLowerCase()}`);
+    }
+
+    const intervention = diagnosis.recommendedActions.find(action => LIFE_SAVING_INTERVENTIONS.test(action));
+    if (intervention && diagnosis.urgencyLevel === "CRITICAL") {
+        indicators.push(`Immediate intervention recommended: ${intervention.replace(/\*\*/g, "")}`);
+    }
+    return indicators;
+}
+
+function highRiskIndicators({ patientContext, diagnosis }: EsiInput): string[] {
+    const indicators: string[] = [];
+    const vitals = patientContext.currentVitalSigns;
+    const scores = patientContext.earlyWarningScores;
+
+    if (vitals?.consciousness === "confusion" || vitals?.consciousness === "voice") {
+        indicators.push("New confusion, lethargy or disorientation");
+    }
+    if (diagnosis.urgencyLevel === "CRITICAL" || diagnosis.urgencyLevel === "HIGH") {
+        indicators.push(`Diagnosis agent assessed urgency ${diagnosis.urgencyLevel}: ${diagnosis.primaryDiagnosis}`);
+    }
+    if (diagnosis.redFlags.length > 0) {
+        indicators.push(`Red flags: ${diagnosis.redFlags.join("; ")}`);
+    }
+    if (scores && scores.news2.score >= 5) {
+        indicators.push(`NEWS2 ${scores.news2.score}`);
+    }
+
+    // Presentations the patient denies ("no shortness of breath") don't count
+    const presentations = HIGH_RISK_PRESENTATIONS
+        .filter(({ pattern }) => affirmedMatch(patientContext.currentSymptoms, pattern))
+        .map(({ label }) => label);
+    if (presentations.length > 0) {
+        indicators.push(`High-risk presentation: ${presentations.join(", ")}`);
+    }
+
+    // Severe pain or distress (7/10 or worse)
+    const pain = patientContext.currentSymptoms.match(/\b(10|[7-9])\s*\/\s*10\b/);
+    if (pain) {
+        indicators.push(`Severe pain (${pain[0].replace(/\s/g, "")})`);
+    }
+    return indicators;
+}
+
+function estimateResources({ diagnosis, scanAnalyses }: EsiInput): string[] {
+    const text = [
+        ...diagnosis.recommendedActions,
+        ...scanAnalyses.map(scan => scan.scanType === "X-RAY" ? "x-ray" : `${scan.scanType} imaging`),
+    ].join("\n");
+    return RESOURCE_TYPES.filter(({ pattern }) => pattern.test(text)).map(({ label }) => label);
+}
+
+function dangerZoneVitals({ patientContext }: EsiInput): string[] {
+    const vitals = patientContext.currentVitalSigns;
+    if (!vitals) return [];
+
+    const limits = dangerZoneLimits(patientContext.age);
+    const findings: string[] = [];
+    if (vitals.heartRate !== undefined && vitals.heartRate > limits.heartRate) {
+        findings.push(`Heart rate ${vitals.heartRate} bpm (> ${limits.heartRate})`);
+    }
+    if (vitals.respiratoryRate !== undefined && vitals.respiratoryRate > limits.respiratoryRate) {
+        findings.push(`Respiratory rate ${vitals.respiratoryRate}/min (> ${limits.respiratoryRate})`);
+    }
+    if (vitals.oxygenSaturation !== undefined && vitals.oxygenSaturation < 92) {
+        findings.push(`SpO2 ${vitals.oxygenSaturation}% (< 92)`);
+    }
+    return findings;
+}
+
+function describeDisagreement(level: EsiLevel, urgency: Urgency): string | null {
+    const expected = EXPECTED_URGENCY[level];
+    if (expected.includes(urgency)) return null;
+    return `ESI ${level} corresponds to ${expected.join(" or ")} urgency, but the report urgency is ${urgency}`;
+}
+
+/**
+ * Assign an ESI level and compare it with the report's overall urgency
+ */
+export function calculateEsiLevel(input: EsiInput): EsiAssessment {
+    const estimatedResources = estimateResources(input);
+    const dangerZone = dangerZoneVitals(input);
+    const base = { estimatedResources, dangerZoneVitals: dangerZone, urgency: input.overallUrgency };
+
+    const assess = (level: EsiLevel, decisionPoint: EsiAssessment["decisionPoint"], rationale: string[]): EsiAssessment => ({
+        ...base,
+        level,
+        decisionPoint,
+        rationale,
+        disagreement: describeDisagreement(level, input.overallUrgency),
+    });
+
+    const lifeSaving = lifeSavingIndicators(input);
+    if (lifeSaving.length > 0) {
+        return assess(1, "A", ["Requires immediate life-saving intervention", ...lifeSaving]);
+    }
+
+    const highRisk = highRiskIndicators(input);
+    if (highRisk.length > 0) {
+        return assess(2, "B", ["High-risk situation", ...highRisk]);
+    }
+
+    if (estimatedResources.length === 0) {
+        return assess(5, "C", ["No resources expected"]);
+    }
+    if (estimatedResources.length === 1) {
+        return assess(4, "C", [`One resource expected: ${estimatedResources[0]}`]);
+    }
+
+    const resources = `${estimatedResources.length} resources expected: ${estimatedResources.join(", ")}`;
+    if (dangerZone.length > 0) {
+        return assess(2, "D", [resources, `Danger-zone vitals: ${dangerZone.join("; ")}`]);
+    }
+    return assess(3, "D", [resources, "Vitals outside the danger zone"]);
+}
@@ -0,0 +1,386 @@
+/**
+ * FHIR Bundle Import - patient records from other systems
+ *
+ * A transaction or collection Bundle is imported in one database
+ * transaction, so it is stored completely or not at all:
+ * - Patient, Condition, AllergyIntolerance, MedicationStatement and
+ *   DiagnosticReport entries become rows through the same mappings as create
+ * - Observations a DiagnosticReport lists as results become its extracted
+ *   lab values; vital-sign Observations of an existing encounter are merged
+ *   into its vital signs; reports with instruction-like text are quarantined
+ * - other Observations and resource types are skipped with a warning
+ *
+ * References resolve to Bundle entries (by fullUrl or "<type>/<id>"), else to
+ * existing records. A resource with an identifier imported before updates
+ * the record it became instead of adding another (see the FhirIdentifier
+ * model); a Patient also matches an existing patient by MRN. Entries without
+ * identifiers are always added.
+ */
+
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { invalidatePatientResponses } from "@/lib/ai/providers";
+import { detectReportInstructions, quarantineReason } from "@/lib/untrusted-content";
+import { FhirError, operationOutcome } from "./outcome";
+import { fromFhirAllergyIntolerance } from "./resources/allergy-intolerance";
+import { referencedId } from "./resources/common";
+import { fromFhirCondition } from "./resources/condition";
+import { fromFhirDiagnosticReport } from "./resources/diagnostic-report";
+import { fromFhirMedicationStatement } from "./resources/medication-statement";
+import {
+    labObservationId,
+    labValueFromObservation,
+    mergeVitalSignObservation,
+    vitalSignObservations,
+} from "./resources/observation";
+import { findMrn, fromFhirPatient } from "./resources/patient";
+import { conceptMatches } from "./search";
+import { SYSTEMS } from "./terminology";
+import type {
+    Bundle,
+    BundleEntry,
+    DiagnosticReport,
+    Identifier,
+    Observation,
+    Patient,
+    Reference,
+} from "./types";
+
+interface ImportContext {
+    tx: Prisma.TransactionClient;
+    entries: BundleEntry[];
+    results: EntryResult[];
+    // Local patient id by the keys Bundle references use for the Patient entry
+    patients: Map<string, string>;
+    // Patients whose records changed, for cache invalidation
+    patientIds: Set<string>;
+}
+
+interface EntryResult {
+    // "<type>/<id>" of the stored resource; absent when the entry was skipped
+    location?: string;
+    created: boolean;
+    warning?: string;
+}
+
+const IMPORT_BUNDLE_TYPES = ["transaction", "collection"];
+const TRANSACTION_METHODS = ["POST", "PUT"];
+const MAX_ENTRIES = 500;
+// A few queries per entry; a full Bundle must fit in one interactive transaction
+const TRANSACTION_TIMEOUT_MS = 60_000;
+
+// Upsert needs a unique `where`; no row has this id, so it creates
+const NO_MATCH = "";
+
+// Import order, so references to patients and report results resolve;
+// unlisted types come last and are skipped
+const IMPORT_ORDER = ["Patient", "Condition", "AllergyIntolerance", "MedicationStatement", "DiagnosticReport", "Observation"];
+
+/**
+ * Import a Bundle, answering with a transaction-response Bundle that has one
+ * entry per imported entry, in order
+ */
+export async function importBundle(body: Record<string, unknown>, baseUrl: string): Promise<Bundle> {
+    const bundle = parseBundle(body);
+    const entries = bundle.entry ?? [];
+    const results: EntryResult[] = [];
+    const patientIds = new Set<string>();
+
+    const order = entries
+        .map((entry, index) => ({ index, rank: rank(entry) }))
+        .sort((a, b) => a.rank - b.rank || a.index - b.index);
+
+    await prisma.$transaction(async tx => {
+        const context: ImportContext = { tx, entries, results, patients: new Map(), patientIds };
+        for (const { index } of order) {
+            // Lab Observations are stored with the DiagnosticReport that lists them
+            if (results[index]) continue;
+            results[index] = await inEntry(context, index, () => importEntry(context, index));
+        }
+    }, { timeout: TRANSACTION_TIMEOUT_MS });
+
+    await Promise.all([...patientIds].map(patientId => invalidatePatientResponses(patientId)));
+
+    return {
+        resourceType: "Bundle",
+        type: "transaction-response",
+        timestamp: new Date().toISOString(),
+        entry: results.map(result => ({
+            response: result.location
+                ? { status: result.created ? "201 Created" : "200 OK", location: `${baseUrl}/${result.location}` }
+                : { status: "200 OK", outcome: operationOutcome("not-supported", result.warning ?? "Not imported", undefined, "warning") },
+        })),
+    };
+}
+
+function parseBundle(body: Record<string, unknown>): Bundle {
+    if (body.resourceType !== "Bundle") {
+        throw new FhirError(400, "invalid", `Expected a Bundle, got ${String(body.resourceType ?? "none")}`, "resourceType");
+    }
+    const bundle = body as unknown as Bundle;
+    if (!IMPORT_BUNDLE_TYPES.includes(bundle.type)) {
+        throw new FhirError(400, "not-supported", `Bundle.type must be one of: ${IMPORT_BUNDLE_TYPES.join(", ")}`, "Bundle.type");
+    }
+    if (bundle.entry !== undefined && !Array.isArray(bundle.entry)) {
+        throw new FhirError(400, "invalid", "Bundle.entry must be an array", "Bundle.entry");
+    }
+    if ((bundle.entry?.length ?? 0) > MAX_ENTRIES) {
+        throw new FhirError(400, "value", `A Bundle can have at most ${MAX_ENTRIES} entries`, "Bundle.entry");
+    }
+
+    bundle.entry?.forEach((entry, index) => {
+        const resource = entry?.resource as { resourceType?: unknown } | undefined;
+        if (!resource || typeof resource !== "object" || typeof resource.resourceType !== "string") {
+            throw new FhirError(400, "required", `Bundle.entry[${index}].resource is required`, `Bundle.entry[${index}].resource`);
+        }
+        if (bundle.type === "transaction" && !TRANSACTION_METHODS.includes(entry.request?.method ?? "")) {
+            throw new FhirError(
+                400,
+                "not-supported",
+                `Bundle.entry[${index}].request.method must be one of: ${TRANSACTION_METHODS.join(", ")}`,
+                `Bundle.entry[${index}].request.method`
+            );
+        }
+    });
+    return bundle;
+}
+
+function rank(entry: BundleEntry): number {
+    const position = IMPORT_ORDER.indexOf(entry.resource?.resourceType ?? "");
+    return position === -1 ? IMPORT_ORDER.length : position;
+}
+
+/**
+ * Run `fn` for an entry, locating its errors in the Bundle: "Condition.code"
+ * becomes "Bundle.entry[3].resource.code"
+ */
+async function inEntry<T>(context: ImportContext, index: number, fn: () => Promise<T> | T): Promise<T> {
+    try {
+        return await fn();
+    } catch (error) {
+        // Errors from a nested entry (a report's results) are already located
+        if (!(error instanceof FhirError) || error.expression?.startsWith("Bundle.")) throw error;
+
+        const type = context.entries[index].resource?.resourceType ?? "";
+        const path = `Bundle.entry[${index}].resource`;
+        const expression = !error.expression
+            ? path
+            : error.expression === type || error.expression.startsWith(`${type}.`)
+                ? `${path}${error.expression.slice(type.length)}`
+                : `${path}.${error.expression}`;
+        throw new FhirError(error.status, error.code, `Bundle.entry[${index}]: ${error.message}`, expression);
+    }
+}
+
+async function importEntry(context: ImportContext, index: number): Promise<EntryResult> {
+    const { tx } = context;
+    const resource = context.entries[index].resource;
+
+    switch (resource?.resourceType) {
+        case "Patient":
+            return importPatient(context, index, resource);
+
+        case "Condition": {
+            const patientId = await resolvePatient(context, resource.subject, "Condition.subject");
+            const data = fromFhirCondition(resource);
+            const matchedId = await matchIdentifier(tx, "Condition", resource.identifier, patientId);
+            const row = await tx.medicalHistory.upsert({ where: { id: matchedId ?? NO_MATCH }, update: data, create: { patientId, ...data } });
+            return saved(context, "Condition", resource, row.id, matchedId, patientId);
+        }
+
+        case "AllergyIntolerance": {
+            const patientId = await resolvePatient(context, resource.patient, "AllergyIntolerance.patient");
+            const data = fromFhirAllergyIntolerance(resource);
+            const matchedId = await matchIdentifier(tx, "AllergyIntolerance", resource.identifier, patientId);
+            const row = await tx.medicalHistory.upsert({ where: { id: matchedId ?? NO_MATCH }, update: data, create: { patientId, ...data } });
+            return saved(context, "AllergyIntolerance", resource, row.id, matchedId, patientId);
+        }
+
+        case "MedicationStatement": {
+            const patientId = await resolvePatient(context, resource.subject, "MedicationStatement.subject");
+            const data = fromFhirMedicationStatement(resource);
+            const matchedId = await matchIdentifier(tx, "MedicationStatement", resource.identifier, patientId);
+            const row = await tx.medication.upsert({ where: { id: matchedId ?? NO_MATCH }, update: data, create: { patientId, ...data } });
+            return saved(context, "MedicationStatement", resource, row.id, matchedId, patientId);
+        }
+
+        case "DiagnosticReport":
+            return importDiagnosticReport(context, resource);
+
+        case "Observation":
+            return importVitalSign(context, resource);
+
+        default:
+            return { created: false, warning: `${resource?.resourceType} resources are not imported` };
+    }
+}
+
+async function importPatient(context: ImportContext, index: number, resource: Patient): Promise<EntryResult> {
+    const { tx } = context;
+    const data = fromFhirPatient(resource);
+    const mrn = findMrn(resource.identifier);
+    const matchedId = await matchIdentifier(tx, "Patient", resource.identifier)
+        ?? (mrn ? (await tx.patient.findUnique({ where: { mrn }, select: { id: true } }))?.id : undefined);
+
+    const patient = await tx.patient.upsert({ where: { id: matchedId ?? NO_MATCH }, update: data, create: data });
+
+    const entry = context.entries[index];
+    for (const key of [entry.fullUrl, resource.id ? `Patient/${resource.id}` : undefined]) {
+        if (key) context.patients.set(key, patient.id);
+    }
+    return saved(context, "Patient", resource, patient.id, matchedId, patient.id);
+}
+
+async function importDiagnosticReport(context: ImportContext, resource: DiagnosticReport): Promise<EntryResult> {
+    const { tx } = context;
+    const patientId = await resolvePatient(context, resource.subject, "DiagnosticReport.subject");
+    const data = fromFhirDiagnosticReport(resource);
+
+    const results = await Promise.all((resource.result ?? []).map(async (reference, position) => {
+        const index = findEntry(context.entries, reference, "Observation");
+        if (index === undefined) {
+            throw new FhirError(
+                422,
+                "processing",
+                `Result ${reference.reference ?? ""} is not an Observation in the Bundle`,
+                `DiagnosticReport.result[${position}]`
+            );
+        }
+        const observation = context.entries[index].resource as Observation;
+        return { index, lab: await inEntry(context, index, () => labValueFromObservation(observation, "Observation")) };
+    }));
+    const extractedData = results.length > 0
+        ? { extractedData: { labValues: results.map(result => result.lab) } as Prisma.InputJsonValue }
+        : {};
+
+    // Instruction-like text quarantines the report, including one that was
+    // approved before, as editing it does; a clean update doesn't lift a quarantine
+    const reason = quarantineReason(detectReportInstructions({ ...data, ...extractedData }));
+    const quarantine = reason
+        ? { quarantined: true, quarantineReason: reason, quarantineReviewedBy: null, quarantineReviewedAt: null }
+        : {};
+
+    const matchedId = await matchIdentifier(tx, "DiagnosticReport", resource.identifier, patientId);
+    const report = await tx.externalReport.upsert({
+        where: { id: matchedId ?? NO_MATCH },
+        update: { ...data, ...extractedData, ...quarantine },
+        create: { patientId, ...data, ...extractedData, ...quarantine },
+    });
+    if (reason) {
+        console.warn(`[FHIR] Quarantining imported report ${report.id} for patient ${patientId}: ${reason}`);
+    }
+
+    const result = await saved(context, "DiagnosticReport", resource, report.id, matchedId, patientId);
+    results.forEach(({ index }, position) => {
+        context.results[index] = { location: `Observation/${labObservationId(report.id, position)}`, created: result.created };
+    });
+    return result;
+}
+
+async function importVitalSign(context: ImportContext, resource: Observation): Promise<EntryResult> {
+    const { tx } = context;
+    if (!resource.encounter || !conceptMatches(resource.category ?? [], { system: SYSTEMS.observationCategory, code: "vital-signs" })) {
+        return {
+            created: false,
+            warning: "Only Observations that are results of a DiagnosticReport in the Bundle or vital signs of an existing encounter are imported",
+        };
+    }
+
+    const encounterId = referencedId(resource.encounter, "Encounter", "Observation.encounter");
+    const encounter = await tx.encounter.findUnique({ where: { id: encounterId } });
+    if (!encounter) {
+        throw new FhirError(422, "processing", `Encounter/${encounterId} not found`, "Observation.encounter");
+    }
+    if (resource.subject && await resolvePatient(context, resource.subject, "Observation.subject") !== encounter.patientId) {
+        throw new FhirError(422, "processing", `Encounter/${encounterId} does not belong to the subject`, "Observation.subject");
+    }
+
+    const { vitalSigns, observationId } = mergeVitalSignObservation(resource, encounter);
+    await tx.encounter.update({ where: { id: encounterId }, data: { vitalSigns } });
+    context.patientIds.add(encounter.patientId);
+
+    return {
+        location: `Observation/${observationId}`,
+        created: !vitalSignObservations(encounter).some(o => o.id === observationId),
+    };
+}
+
+/**
+ * Index of the Bundle entry of `type` a reference points to
+ */
+function findEntry(entries: BundleEntry[], reference: Reference, type: string): number | undefined {
+    const index = entries.findIndex(entry => entry.resource?.resourceType === type && (
+        (entry.fullUrl && entry.fullUrl === reference.reference)
+        || (entry.resource?.id && reference.reference === `${type}/${entry.resource.id}`)
+    ));
+    return index === -1 ? undefined : index;
+}
+
+/**
+ * Local id of the patient a reference points to: a Patient entry of the
+ * Bundle, else an existing patient
+ */
+async function resolvePatient(context: ImportContext, reference: Reference | undefined, expression: string): Promise<string> {
+    const imported = reference?.reference ? context.patients.get(reference.reference) : undefined;
+    if (imported) return imported;
+
+    if (reference?.reference?.startsWith("urn:")) {
+        throw new FhirError(422, "processing", `${reference.reference} is not a Patient in the Bundle`, expression);
+    }
+    const patientId = referencedId(reference, "Patient", expression);
+    const patient = await context.tx.patient.findUnique({ where: { id: patientId }, select: { id: true } });
+    if (!patient) {
+        throw new FhirError(422, "processing", `Patient/${patientId} not found`, expression);
+    }
+    return patientId;
+}
+
+function identifierKeys(identifiers: Identifier[] | undefined): { system: string; value: string }[] {
+    return (identifiers ?? [])
+        .filter((identifier): identifier is Identifier & { value: string } => Boolean(identifier.value))
+        .map(identifier => ({ system: identifier.system ?? "", value: identifier.value }));
+}
+
+/**
+ * Id of the record an earlier import stored a resource with one of these
+ * identifiers as, within the patient's records unless it is the Patient
+ */
+async function matchIdentifier(
+    tx: Prisma.TransactionClient,
+    resourceType: string,
+    identifiers: Identifier[] | undefined,
+    patientId?: string
+): Promise<string | undefined> {
+    const keys = identifierKeys(identifiers);
+    if (keys.length === 0) return undefined;
+
+    const match = await tx.fhirIdentifier.findFirst({
+        where: { resourceType, OR: keys, ...(patientId ? { patientId } : {}) },
+        select: { targetId: true },
+    });
+    return match?.targetId;
+}
+
+/**
+ * Record the stored resource's identifiers and the patient it changed
+ */
+async function saved(
+    context: ImportContext,
+    resourceType: string,
+    resource: { identifier?: Identifier[] },
+    id: string,
+    matchedId: string | undefined,
+    patientId: string
+): Promise<EntryResult> {
+    for (const key of identifierKeys(resource.identifier)) {
+        await context.tx.fhirIdentifier.upsert({
+            where: { resourceType_system_value: { resourceType, ...key } },
+            create: { resourceType, ...key, targetId: id, patientId },
+            update: { targetId: id, patientId },
+        });
+    }
+    context.patientIds.add(patientId);
+
+    // A matched record that no longer exists was created again under a new id
+    return { location: `${resourceType}/${id}`, created: id !== matchedId };
+}
@@ -0,0 +1,33 @@
+/**
+ * FHIR CapabilityStatement - what the server supports, built from the
+ * resource handlers so it cannot drift from them
+ */
+
+import type { ResourceHandler } from "./resources/common";
+import type { CapabilityStatement } from "./types";
+
+export function capabilityStatement(baseUrl: string, handlers: ResourceHandler[]): CapabilityStatement {
+    return {
+        resourceType: "CapabilityStatement",
+        status: "active",
+        date: new Date().toISOString(),
+        kind: "instance",
+        software: { name: "Med-Gemini" },
+        implementation: { description: "Med-Gemini FHIR R4 API", url: baseUrl },
+        fhirVersion: "4.0.1",
+        format: ["application/fhir+json", "json"],
+        rest: [{
+            mode: "server",
+            security: { description: "Requires a signed-in session (Clerk); the metadata endpoint is public" },
+            // Transaction and collection Bundles posted to the base URL are imported
+            interaction: [{ code: "transaction" }],
+            resource: handlers.map(handler => ({
+                type: handler.type,
+                documentation: handler.documentation,
+                interaction: [{ code: "read" }, { code: "search-type" }, { code: "create" }],
+                searchParam: handler.searchParams,
+                operation: handler.operations,
+            })),
+        }],
+    };
+}
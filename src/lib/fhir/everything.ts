@@ -0,0 +1,70 @@
+/**
+ * Patient $everything - the patient's whole record as one Bundle
+ * (https://hl7.org/fhir/R4/operation-patient-everything.html)
+ *
+ * The same mappings as read and search, plus the AI-generated triage reports
+ * as ClinicalImpressions (see ./resources/clinical-impression.ts). The record
+ * is returned in full, without paging.
+ */
+
+import { prisma } from "@/lib/db";
+import { toFhirAllergyIntolerance } from "./resources/allergy-intolerance";
+import { EXPORTED_TRIAGE_STATUSES, toFhirClinicalImpression } from "./resources/clinical-impression";
+import { notFound } from "./resources/common";
+import { toFhirCondition } from "./resources/condition";
+import { toFhirDiagnosticReport } from "./resources/diagnostic-report";
+import { toFhirEncounter } from "./resources/encounter";
+import { toFhirImagingStudy } from "./resources/imaging-study";
+import { toFhirMedicationStatement } from "./resources/medication-statement";
+import { extractedLabValues, labObservation, vitalSignObservations } from "./resources/observation";
+import { toFhirPatient } from "./resources/patient";
+import type { Bundle, FhirResource } from "./types";
+
+export async function patientEverything(patientId: string, baseUrl: string): Promise<Bundle> {
+    const patient = await prisma.patient.findUnique({
+        where: { id: patientId },
+        include: {
+            medicalHistory: { where: { type: { in: ["condition", "allergy"] } }, orderBy: { createdAt: "asc" } },
+            medications: { orderBy: { createdAt: "asc" } },
+            externalReports: { orderBy: { reportDate: "asc" } },
+            encounters: {
+                orderBy: { createdAt: "asc" },
+                include: {
+                    scans: { orderBy: { createdAt: "asc" } },
+                    triageReports: { where: { status: { in: EXPORTED_TRIAGE_STATUSES } }, orderBy: { createdAt: "asc" } },
+                },
+            },
+        },
+    });
+    if (!patient) throw notFound("Patient", patientId);
+
+    const withPatient = { encounter: { patientId } };
+    const resources: FhirResource[] = [
+        toFhirPatient(patient),
+        ...patient.medicalHistory.map(entry => entry.type === "allergy" ? toFhirAllergyIntolerance(entry) : toFhirCondition(entry)),
+        ...patient.medications.map(toFhirMedicationStatement),
+        ...patient.externalReports.flatMap(report => [
+            toFhirDiagnosticReport(report),
+            ...extractedLabValues(report).map(lab => labObservation(report, lab)),
+        ]),
+        ...patient.encounters.flatMap(encounter => [
+            toFhirEncounter(encounter),
+            ...vitalSignObservations(encounter),
+            ...encounter.scans.map(scan => toFhirImagingStudy({ ...scan, ...withPatient })),
+            ...encounter.triageReports.map(report => toFhirClinicalImpression({ ...report, ...withPatient })),
+        ]),
+    ];
+
+    return {
+        resourceType: "Bundle",
+        type: "searchset",
+        timestamp: new Date().toISOString(),
+        total: resources.length,
+        link: [{ relation: "self", url: `${baseUrl}/Patient/${patientId}/$everything` }],
+        entry: resources.map(resource => ({
+            fullUrl: `${baseUrl}/${resource.resourceType}/${resource.id}`,
+            resource,
+            search: { mode: resource.resourceType === "Patient" ? "match" : "include" },
+        })),
+    };
+}
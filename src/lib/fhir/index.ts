@@ -0,0 +1,88 @@
+/**
+ * FHIR R4 API
+ *
+ * Maps the app's Prisma models to FHIR resources for EHR integration:
+ * - Patient <- Patient
+ * - Condition <- MedicalHistory (conditions)
+ * - AllergyIntolerance <- MedicalHistory (allergies)
+ * - MedicationStatement <- Medication
+ * - DiagnosticReport <- ExternalReport
+ * - Encounter <- Encounter
+ * - ImagingStudy <- Scan
+ * - Observation <- Encounter.vitalSigns and extracted lab values
+ *
+ * Each resource supports read, search and create under /fhir/r4 (see
+ * src/app/fhir/r4). Whole records are imported from transaction or
+ * collection Bundles and exported with Patient $everything, which adds the
+ * triage reports as ClinicalImpressions. Errors are OperationOutcomes.
+ */
+
+import { auth } from "@clerk/nextjs/server";
+import { NextRequest } from "next/server";
+import { FhirError } from "./outcome";
+import { allergyIntoleranceHandler } from "./resources/allergy-intolerance";
+import type { ResourceHandler } from "./resources/common";
+import { conditionHandler } from "./resources/condition";
+import { diagnosticReportHandler } from "./resources/diagnostic-report";
+import { encounterHandler } from "./resources/encounter";
+import { imagingStudyHandler } from "./resources/imaging-study";
+import { medicationStatementHandler } from "./resources/medication-statement";
+import { observationHandler } from "./resources/observation";
+import { patientHandler } from "./resources/patient";
+
+export { importBundle } from "./bundle-import";
+export { capabilityStatement } from "./capability";
+export { patientEverything } from "./everything";
+export { FhirError, fhirResponse, withFhirErrors } from "./outcome";
+export { parseSearchQuery, searchsetBundle } from "./search";
+export type { ResourceHandler } from "./resources/common";
+
+export const RESOURCE_HANDLERS: ResourceHandler[] = [
+    patientHandler,
+    conditionHandler,
+    allergyIntoleranceHandler,
+    medicationStatementHandler,
+    diagnosticReportHandler,
+    encounterHandler,
+    imagingStudyHandler,
+    observationHandler,
+];
+
+export function getResourceHandler(resourceType: string): ResourceHandler {
+    const handler = RESOURCE_HANDLERS.find(h => h.type === resourceType);
+    if (!handler) {
+        throw new FhirError(404, "not-supported", `Resource type ${resourceType} is not supported`);
+    }
+    return handler;
+}
+
+/**
+ * Base URL of the FHIR API for a request, e.g. https://host/fhir/r4
+ */
+export function fhirBaseUrl(request: NextRequest): string {
+    return `${request.nextUrl.origin}/fhir/r4`;
+}
+
+export async function requireFhirUser(): Promise<string> {
+    const { userId } = await auth();
+    if (!userId) {
+        throw new FhirError(401, "login", "Authentication required");
+    }
+    return userId;
+}
+
+/**
+ * The JSON resource in a request body
+ */
+export async function readResource(request: NextRequest): Promise<Record<string, unknown>> {
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        throw new FhirError(400, "invalid", "Request body must be a JSON resource");
+    }
+    if (!body || typeof body !== "object" || Array.isArray(body)) {
+        throw new FhirError(400, "invalid", "Request body must be a JSON resource");
+    }
+    return body as Record<string, unknown>;
+}
@@ -0,0 +1,67 @@
+/**
+ * FHIR Responses - OperationOutcome errors and the FHIR JSON content type
+ *
+ * Handlers throw `FhirError`; `withFhirErrors` turns it (and anything
+ * unexpected) into an OperationOutcome with the matching HTTP status, as the
+ * FHIR RESTful API requires.
+ */
+
+import { NextResponse } from "next/server";
+import type { OperationOutcome, OperationOutcomeIssueType } from "./types";
+
+export const FHIR_CONTENT_TYPE = "application/fhir+json; fhirVersion=4.0";
+
+export class FhirError extends Error {
+    constructor(
+        public readonly status: number,
+        public readonly code: OperationOutcomeIssueType,
+        message: string,
+        // FHIRPath of the element at fault, e.g. "Patient.birthDate"
+        public readonly expression?: string
+    ) {
+        super(message);
+        this.name = "FhirError";
+    }
+}
+
+export function operationOutcome(
+    code: OperationOutcomeIssueType,
+    diagnostics: string,
+    expression?: string,
+    severity: OperationOutcome["issue"][number]["severity"] = "error"
+): OperationOutcome {
+    return {
+        resourceType: "OperationOutcome",
+        issue: [{
+            severity,
+            code,
+            diagnostics,
+            ...(expression ? { expression: [expression] } : {}),
+        }],
+    };
+}
+
+/**
+ * JSON response with the FHIR content type
+ */
+export function fhirResponse(body: unknown, init: { status?: number; headers?: Record<string, string> } = {}): NextResponse {
+    return NextResponse.json(body, {
+        status: init.status ?? 200,
+        headers: { "Content-Type": FHIR_CONTENT_TYPE, ...init.headers },
+    });
+}
+
+/**
+ * Run a FHIR handler, answering errors with an OperationOutcome
+ */
+export async function withFhirErrors(handler: () => Promise<NextResponse>): Promise<NextResponse> {
+    try {
+        return await handler();
+    } catch (error) {
+        if (error instanceof FhirError) {
+            return fhirResponse(operationOutcome(error.code, error.message, error.expression), { status: error.status });
+        }
+        console.error("[FHIR] Unexpected error:", error);
+        return fhirResponse(operationOutcome("exception", "Internal server error"), { status: 500 });
+    }
+}
@@ -0,0 +1,173 @@
+/**
+ * MedicalHistory (type "allergy") <-> FHIR AllergyIntolerance
+ *
+ * History entries share the Condition statuses, which are narrowed to the
+ * AllergyIntolerance ones (relapse is active, remission inactive, provisional
+ * unconfirmed). The stored severity is the criticality; on create it comes
+ * from the most severe reaction, else from the criticality, and reaction
+ * manifestations are kept in the notes.
+ */
+
+import type { MedicalHistory, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { invalidatePatientResponses } from "@/lib/ai/providers";
+import { paramValues, parseFhirDate, parseToken } from "../search";
+import {
+    ALLERGY_CLINICAL_STATUSES,
+    ALLERGY_VERIFICATION_STATUSES,
+    concept,
+    conceptText,
+    CRITICALITY_CODES,
+    findCode,
+    SEVERITY_CODES,
+    SYSTEMS,
+} from "../terminology";
+import type { AllergyIntolerance, Coding } from "../types";
+import { codeCondition } from "./condition";
+import {
+    baseConditions,
+    existingPatientId,
+    expectResource,
+    ID_PARAM,
+    meta,
+    notFound,
+    page,
+    PATIENT_PARAM,
+    patientReference,
+    requireOneOf,
+    requireValue,
+    ResourceHandler,
+} from "./common";
+
+const ALLERGY_TYPE = "allergy";
+
+// AllergyIntolerance.clinicalStatus by MedicalHistory.clinicalStatus
+const CLINICAL_STATUSES: Record<string, string> = {
+    active: "active",
+    recurrence: "active",
+    relapse: "active",
+    inactive: "inactive",
+    remission: "inactive",
+    resolved: "resolved",
+};
+
+// AllergyIntolerance.verificationStatus by MedicalHistory.verificationStatus
+const VERIFICATION_STATUSES: Record<string, string> = {
+    unconfirmed: "unconfirmed",
+    provisional: "unconfirmed",
+    differential: "unconfirmed",
+    confirmed: "confirmed",
+    refuted: "refuted",
+    "entered-in-error": "entered-in-error",
+};
+
+// Most severe first
+const REACTION_SEVERITIES = ["severe", "moderate", "mild"];
+
+export function toFhirAllergyIntolerance(entry: MedicalHistory): AllergyIntolerance {
+    const coding: Coding[] = [
+        ...(entry.snomedCode ? [{ system: SYSTEMS.snomed, code: entry.snomedCode }] : []),
+        ...(entry.icd10Code ? [{ system: SYSTEMS.icd10, code: entry.icd10Code }] : []),
+    ];
+
+    return {
+        resourceType: "AllergyIntolerance",
+        id: entry.id,
+        meta: meta(entry.updatedAt),
+        clinicalStatus: concept(SYSTEMS.allergyClinical, CLINICAL_STATUSES[entry.clinicalStatus] ?? "active"),
+        verificationStatus: concept(SYSTEMS.allergyVerification, VERIFICATION_STATUSES[entry.verificationStatus] ?? "confirmed"),
+        criticality: entry.severity ? CRITICALITY_CODES[entry.severity] : undefined,
+        code: { coding: coding.length > 0 ? coding : undefined, text: entry.description },
+        patient: patientReference(entry.patientId),
+        onsetDateTime: entry.onsetDate?.toISOString(),
+        recordedDate: entry.createdAt.toISOString(),
+        note: entry.notes ? [{ text: entry.notes }] : undefined,
+    };
+}
+
+/**
+ * MedicalHistory columns from a FHIR AllergyIntolerance, without the patient
+ */
+export function fromFhirAllergyIntolerance(resource: AllergyIntolerance): Omit<Prisma.MedicalHistoryUncheckedCreateInput, "patientId"> {
+    const reactionSeverities = resource.reaction?.map(r => r.severity) ?? [];
+    const severity = REACTION_SEVERITIES.find(s => reactionSeverities.includes(s))
+        ?? (resource.criticality === "high" ? "severe" : null);
+
+    return {
+        type: ALLERGY_TYPE,
+        description: requireValue(conceptText(resource.code), "AllergyIntolerance.code"),
+        clinicalStatus: requireOneOf(
+            findCode(resource.clinicalStatus, SYSTEMS.allergyClinical) ?? "active",
+            ALLERGY_CLINICAL_STATUSES,
+            "AllergyIntolerance.clinicalStatus"
+        ),
+        verificationStatus: requireOneOf(
+            findCode(resource.verificationStatus, SYSTEMS.allergyVerification) ?? "confirmed",
+            ALLERGY_VERIFICATION_STATUSES,
+            "AllergyIntolerance.verificationStatus"
+        ),
+        icd10Code: findCode(resource.code, SYSTEMS.icd10) ?? null,
+        snomedCode: findCode(resource.code, SYSTEMS.snomed) ?? null,
+        severity: severity && SEVERITY_CODES[severity] ? severity : null,
+        onsetDate: resource.onsetDateTime ? parseFhirDate(resource.onsetDateTime, "AllergyIntolerance.onsetDateTime") : null,
+        notes: [
+            ...(resource.reaction?.flatMap(r => r.manifestation ?? []).map(conceptText).filter(Boolean).map(m => `Reaction: ${m}`) ?? []),
+            ...(resource.note?.map(n => n.text) ?? []),
+        ].join("\n") || null,
+    };
+}
+
+// History statuses that map to any of the searched AllergyIntolerance statuses
+function storedStatuses(mapping: Record<string, string>, values: string[]): string[] {
+    const codes = values.map(v => parseToken(v).code);
+    return Object.entries(mapping).filter(([, code]) => codes.includes(code)).map(([stored]) => stored);
+}
+
+export const allergyIntoleranceHandler: ResourceHandler<AllergyIntolerance> = {
+    type: "AllergyIntolerance",
+    documentation: "Allergies from the patient's medical history",
+    searchParams: [
+        ID_PARAM,
+        PATIENT_PARAM,
+        { name: "code", type: "token", documentation: "SNOMED CT or ICD-10-CM code" },
+        { name: "clinical-status", type: "token" },
+        { name: "verification-status", type: "token" },
+    ],
+
+    async read(id) {
+        const entry = await prisma.medicalHistory.findFirst({ where: { id, type: ALLERGY_TYPE } });
+        if (!entry) throw notFound("AllergyIntolerance", id);
+        return toFhirAllergyIntolerance(entry);
+    },
+
+    async search(query) {
+        const where: Prisma.MedicalHistoryWhereInput = {
+            type: ALLERGY_TYPE,
+            AND: [
+                ...baseConditions<Prisma.MedicalHistoryWhereInput>(query),
+                ...paramValues(query, "code").map(values => ({ OR: values.map(v => codeCondition(parseToken(v))) })),
+                ...paramValues(query, "clinical-status").map(values => ({ clinicalStatus: { in: storedStatuses(CLINICAL_STATUSES, values) } })),
+                ...paramValues(query, "verification-status").map(values => ({
+                    verificationStatus: { in: storedStatuses(VERIFICATION_STATUSES, values) },
+                })),
+            ],
+        };
+
+        const [entries, total] = await Promise.all([
+            prisma.medicalHistory.findMany({ where, orderBy: { createdAt: "desc" }, ...page(query) }),
+            prisma.medicalHistory.count({ where }),
+        ]);
+        return { resources: entries.map(toFhirAllergyIntolerance), total };
+    },
+
+    async create(body) {
+        const resource = expectResource<AllergyIntolerance>(body, "AllergyIntolerance");
+        const patientId = await existingPatientId(resource.patient, "AllergyIntolerance.patient");
+
+        const entry = await prisma.medicalHistory.create({
+            data: { patientId, ...fromFhirAllergyIntolerance(resource) },
+        });
+        await invalidatePatientResponses(patientId);
+        return toFhirAllergyIntolerance(entry);
+    },
+};
@@ -0,0 +1,57 @@
+/**
+ * TriageReport -> FHIR ClinicalImpression
+ *
+ * Export only: the AI-generated assessment of an encounter, tagged AIAST
+ * (artificial intelligence asserted) so receiving systems can tell it from
+ * clinician-authored content. Finalized reports are completed, drafts in
+ * progress; reports still processing, failed or cancelled have no content
+ * and are not exported. Urgency, ESI level and the analysis status travel in
+ * extensions.
+ */
+
+import type { TriageReport } from "@prisma/client";
+import { coding, EXTENSIONS, SYSTEMS } from "../terminology";
+import type { ClinicalImpression, Extension } from "../types";
+import { patientReference } from "./common";
+
+type TriageReportWithPatient = TriageReport & { encounter: { patientId: string } };
+
+export const EXPORTED_TRIAGE_STATUSES = ["DRAFT", "FINALIZED"];
+
+const AI_ASSERTED = coding(SYSTEMS.observationValue, "AIAST", "Artificial Intelligence asserted");
+
+// Suggested codes are stored for display as "<code> - <description>[ (Primary)]"
+const DISPLAY_CODE = /^(\S+) - (.*?)( \(Primary\))?$/;
+
+export function toFhirClinicalImpression(report: TriageReportWithPatient): ClinicalImpression {
+    const extension: Extension[] = [
+        { url: EXTENSIONS.triageUrgency, valueString: report.urgencyLevel },
+        ...(report.esiLevel !== null ? [{ url: EXTENSIONS.esiLevel, valueInteger: report.esiLevel }] : []),
+        { url: EXTENSIONS.analysisStatus, valueString: report.analysisStatus },
+    ];
+
+    return {
+        resourceType: "ClinicalImpression",
+        id: report.id,
+        meta: { lastUpdated: report.createdAt.toISOString(), tag: [AI_ASSERTED] },
+        extension,
+        status: report.status === "FINALIZED" ? "completed" : "in-progress",
+        description: "AI-generated triage assessment",
+        subject: patientReference(report.encounter.patientId),
+        encounter: { reference: `Encounter/${report.encounterId}` },
+        date: report.createdAt.toISOString(),
+        summary: report.summary,
+        finding: report.suggestedICD10.length > 0
+            ? report.suggestedICD10.map(display => {
+                const match = DISPLAY_CODE.exec(display);
+                return {
+                    itemCodeableConcept: match
+                        ? { coding: [coding(SYSTEMS.icd10, match[1], match[2])], text: match[2] }
+                        : { text: display },
+                    basis: match?.[3] ? "Primary diagnosis" : undefined,
+                };
+            })
+            : undefined,
+        note: report.recommendedAction ? [{ text: `Recommended actions:\n${report.recommendedAction}` }] : undefined,
+    };
+}
@@ -0,0 +1,105 @@
+/**
+ * Shared pieces of the FHIR resource handlers
+ */
+
+import { prisma } from "@/lib/db";
+import { FhirError } from "../outcome";
+import { paramValues, parseReference, referenceValues, SearchParamDefinition, SearchQuery } from "../search";
+import type { FhirResource, Meta, OperationDefinitionReference, Reference } from "../types";
+
+export interface SearchResult<R extends FhirResource> {
+    resources: R[];
+    total: number;
+}
+
+/**
+ * Read, search and create for one resource type, backed by a Prisma model
+ */
+export interface ResourceHandler<R extends FhirResource = FhirResource> {
+    type: R["resourceType"];
+    searchParams: SearchParamDefinition[];
+    // Short description of the mapping, for the CapabilityStatement
+    documentation: string;
+    // Operations on the type beyond the REST interactions, e.g. $everything
+    operations?: OperationDefinitionReference[];
+    read(id: string): Promise<R>;
+    search(query: SearchQuery): Promise<SearchResult<R>>;
+    create(body: Record<string, unknown>): Promise<R>;
+}
+
+export const ID_PARAM: SearchParamDefinition = { name: "_id", type: "token" };
+export const PATIENT_PARAM: SearchParamDefinition = { name: "patient", type: "reference" };
+
+export function notFound(type: string, id: string): FhirError {
+    return new FhirError(404, "not-found", `${type}/${id} not found`);
+}
+
+export function meta(updatedAt: Date): Meta {
+    return { lastUpdated: updatedAt.toISOString() };
+}
+
+export function patientReference(patientId: string): Reference {
+    return { reference: `Patient/${patientId}` };
+}
+
+/**
+ * The posted resource, checked to be of the expected type
+ */
+export function expectResource<R extends FhirResource>(body: Record<string, unknown>, type: R["resourceType"]): R {
+    if (body.resourceType !== type) {
+        throw new FhirError(400, "invalid", `Expected a ${type} resource, got ${String(body.resourceType ?? "none")}`, "resourceType");
+    }
+    return body as unknown as R;
+}
+
+export function requireValue<T>(value: T | undefined | null | "", expression: string): T {
+    if (value === undefined || value === null || value === "") {
+        throw new FhirError(400, "required", `${expression} is required`, expression);
+    }
+    return value;
+}
+
+export function requireOneOf(value: string, allowed: string[], expression: string): string {
+    if (!allowed.includes(value)) {
+        throw new FhirError(400, "value", `${expression} must be one of: ${allowed.join(", ")}`, expression);
+    }
+    return value;
+}
+
+/**
+ * Id of the resource a reference points to, which must be of `type`
+ */
+export function referencedId(reference: Reference | undefined, type: string, expression: string): string {
+    const value = requireValue(reference?.reference, `${expression}.reference`);
+    try {
+        return parseReference(value, type, expression);
+    } catch {
+        throw new FhirError(400, "value", `${expression} must reference a ${type}`, expression);
+    }
+}
+
+/**
+ * Id of the referenced patient, which must exist
+ */
+export async function existingPatientId(reference: Reference | undefined, expression: string): Promise<string> {
+    const patientId = referencedId(reference, "Patient", expression);
+    const patient = await prisma.patient.findUnique({ where: { id: patientId }, select: { id: true } });
+    if (!patient) {
+        throw new FhirError(422, "processing", `Patient/${patientId} not found`, expression);
+    }
+    return patientId;
+}
+
+/**
+ * `_id` and patient-compartment conditions shared by the Prisma-backed searches
+ */
+export function baseConditions<W>(query: SearchQuery, patientParams: string[] = ["patient"]): W[] {
+    return [
+        ...paramValues(query, "_id").map(ids => ({ id: { in: ids } }) as W),
+        ...referenceValues(query, patientParams, "Patient").map(ids => ({ patientId: { in: ids } }) as W),
+    ];
+}
+
+export function page(query: SearchQuery): { skip: number; take: number } {
+    return { skip: query.offset, take: query.count };
+}
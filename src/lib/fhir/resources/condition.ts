@@ -0,0 +1,150 @@
+/**
+ * MedicalHistory (type "condition") <-> FHIR Condition
+ *
+ * Allergies are AllergyIntolerance, not Condition; the other history types
+ * (surgery, family and social history, immunizations) have no Condition
+ * equivalent and are not exposed.
+ */
+
+import type { MedicalHistory, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { invalidatePatientResponses } from "@/lib/ai/providers";
+import { dateConditions, paramValues, parseFhirDate, parseToken, Token } from "../search";
+import {
+    concept,
+    conceptText,
+    CONDITION_CLINICAL_STATUSES,
+    CONDITION_VERIFICATION_STATUSES,
+    findCode,
+    SEVERITY_CODES,
+    SYSTEMS,
+} from "../terminology";
+import type { Coding, Condition } from "../types";
+import {
+    baseConditions,
+    existingPatientId,
+    expectResource,
+    ID_PARAM,
+    meta,
+    notFound,
+    page,
+    PATIENT_PARAM,
+    patientReference,
+    requireOneOf,
+    requireValue,
+    ResourceHandler,
+} from "./common";
+
+const CONDITION_TYPE = "condition";
+
+export function toFhirCondition(entry: MedicalHistory): Condition {
+    const coding: Coding[] = [
+        ...(entry.icd10Code ? [{ system: SYSTEMS.icd10, code: entry.icd10Code }] : []),
+        ...(entry.snomedCode ? [{ system: SYSTEMS.snomed, code: entry.snomedCode }] : []),
+    ];
+
+    return {
+        resourceType: "Condition",
+        id: entry.id,
+        meta: meta(entry.updatedAt),
+        clinicalStatus: concept(SYSTEMS.conditionClinical, entry.clinicalStatus),
+        verificationStatus: concept(SYSTEMS.conditionVerification, entry.verificationStatus),
+        category: [concept(SYSTEMS.conditionCategory, "problem-list-item", "Problem List Item")],
+        severity: entry.severity && SEVERITY_CODES[entry.severity]
+            ? { ...concept(SYSTEMS.snomed, SEVERITY_CODES[entry.severity], entry.severity), text: entry.severity }
+            : undefined,
+        code: { coding: coding.length > 0 ? coding : undefined, text: entry.description },
+        subject: patientReference(entry.patientId),
+        onsetDateTime: entry.onsetDate?.toISOString(),
+        abatementDateTime: entry.abatementDate?.toISOString(),
+        recordedDate: entry.createdAt.toISOString(),
+        note: entry.notes ? [{ text: entry.notes }] : undefined,
+    };
+}
+
+/**
+ * MedicalHistory columns from a FHIR Condition, without the patient
+ */
+export function fromFhirCondition(resource: Condition): Omit<Prisma.MedicalHistoryUncheckedCreateInput, "patientId"> {
+    const severity = Object.entries(SEVERITY_CODES).find(([, code]) => code === findCode(resource.severity, SYSTEMS.snomed))?.[0]
+        ?? resource.severity?.text?.toLowerCase();
+
+    return {
+        type: CONDITION_TYPE,
+        description: requireValue(conceptText(resource.code), "Condition.code"),
+        clinicalStatus: requireOneOf(
+            findCode(resource.clinicalStatus, SYSTEMS.conditionClinical) ?? "active",
+            CONDITION_CLINICAL_STATUSES,
+            "Condition.clinicalStatus"
+        ),
+        verificationStatus: requireOneOf(
+            findCode(resource.verificationStatus, SYSTEMS.conditionVerification) ?? "confirmed",
+            CONDITION_VERIFICATION_STATUSES,
+            "Condition.verificationStatus"
+        ),
+        icd10Code: findCode(resource.code, SYSTEMS.icd10) ?? null,
+        snomedCode: findCode(resource.code, SYSTEMS.snomed) ?? null,
+        severity: severity && SEVERITY_CODES[severity] ? severity : null,
+        onsetDate: resource.onsetDateTime ? parseFhirDate(resource.onsetDateTime, "Condition.onsetDateTime") : null,
+        abatementDate: resource.abatementDateTime ? parseFhirDate(resource.abatementDateTime, "Condition.abatementDateTime") : null,
+        notes: resource.note?.map(n => n.text).join("\n") || null,
+    };
+}
+
+// An unsystemed code may be either ICD-10 or SNOMED CT
+export function codeCondition(token: Token): Prisma.MedicalHistoryWhereInput {
+    if (token.system === SYSTEMS.icd10) return { icd10Code: token.code };
+    if (token.system === SYSTEMS.snomed) return { snomedCode: token.code };
+    if (token.system) return { id: { in: [] } };
+    return { OR: [{ icd10Code: token.code }, { snomedCode: token.code }] };
+}
+
+export const conditionHandler: ResourceHandler<Condition> = {
+    type: "Condition",
+    documentation: "Conditions from the patient's medical history",
+    searchParams: [
+        ID_PARAM,
+        PATIENT_PARAM,
+        { name: "subject", type: "reference" },
+        { name: "code", type: "token", documentation: "ICD-10-CM or SNOMED CT code" },
+        { name: "clinical-status", type: "token" },
+        { name: "verification-status", type: "token" },
+        { name: "onset-date", type: "date" },
+    ],
+
+    async read(id) {
+        const entry = await prisma.medicalHistory.findFirst({ where: { id, type: CONDITION_TYPE } });
+        if (!entry) throw notFound("Condition", id);
+        return toFhirCondition(entry);
+    },
+
+    async search(query) {
+        const where: Prisma.MedicalHistoryWhereInput = {
+            type: CONDITION_TYPE,
+            AND: [
+                ...baseConditions<Prisma.MedicalHistoryWhereInput>(query, ["patient", "subject"]),
+                ...paramValues(query, "code").map(values => ({ OR: values.map(v => codeCondition(parseToken(v))) })),
+                ...paramValues(query, "clinical-status").map(values => ({ clinicalStatus: { in: values.map(v => parseToken(v).code) } })),
+                ...paramValues(query, "verification-status").map(values => ({ verificationStatus: { in: values.map(v => parseToken(v).code) } })),
+                ...dateConditions<Prisma.MedicalHistoryWhereInput>(query, "onset-date", "onsetDate"),
+            ],
+        };
+
+        const [entries, total] = await Promise.all([
+            prisma.medicalHistory.findMany({ where, orderBy: { createdAt: "desc" }, ...page(query) }),
+            prisma.medicalHistory.count({ where }),
+        ]);
+        return { resources: entries.map(toFhirCondition), total };
+    },
+
+    async create(body) {
+        const resource = expectResource<Condition>(body, "Condition");
+        const patientId = await existingPatientId(resource.subject, "Condition.subject");
+
+        const entry = await prisma.medicalHistory.create({
+            data: { patientId, ...fromFhirCondition(resource) },
+        });
+        await invalidatePatientResponses(patientId);
+        return toFhirCondition(entry);
+    },
+};
@@ -0,0 +1,176 @@
+/**
+ * ExternalReport <-> FHIR DiagnosticReport
+ *
+ * Lab values extracted from the report are its results, as Observations
+ * (see ./observation.ts). The uploaded file is the presented form.
+ */
+
+import type { ExternalReport, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { invalidatePatientResponses } from "@/lib/ai/providers";
+import { detectReportInstructions, quarantineReason } from "@/lib/untrusted-content";
+import { conceptMatches, dateConditions, paramValues, parseFhirDate, parseToken, Token } from "../search";
+import {
+    coding,
+    conceptText,
+    EXTENSIONS,
+    findCode,
+    REPORT_SERVICE_CODES,
+    REPORT_STATUSES,
+    REPORT_TYPES,
+    SYSTEMS,
+} from "../terminology";
+import type { CodeableConcept, DiagnosticReport } from "../types";
+import {
+    baseConditions,
+    existingPatientId,
+    expectResource,
+    ID_PARAM,
+    meta,
+    notFound,
+    page,
+    PATIENT_PARAM,
+    patientReference,
+    requireOneOf,
+    requireValue,
+    ResourceHandler,
+} from "./common";
+import { extractedLabValues, labObservationId } from "./observation";
+
+const CONTENT_TYPES: Record<string, string> = {
+    pdf: "application/pdf",
+    image: "image/*",
+};
+
+function reportCategory(type: string): CodeableConcept {
+    const serviceCode = REPORT_SERVICE_CODES[type];
+    return {
+        coding: [
+            ...(serviceCode ? [coding(SYSTEMS.diagnosticService, serviceCode)] : []),
+            coding(SYSTEMS.reportType, type),
+        ],
+    };
+}
+
+export function toFhirDiagnosticReport(report: ExternalReport): DiagnosticReport {
+    const labs = extractedLabValues(report);
+
+    return {
+        resourceType: "DiagnosticReport",
+        id: report.id,
+        meta: meta(report.updatedAt),
+        extension: report.findings ? [{ url: EXTENSIONS.reportFindings, valueString: report.findings }] : undefined,
+        status: report.status,
+        category: [reportCategory(report.type)],
+        code: {
+            coding: report.loincCode ? [coding(SYSTEMS.loinc, report.loincCode)] : undefined,
+            text: report.title,
+        },
+        subject: patientReference(report.patientId),
+        effectiveDateTime: report.reportDate.toISOString(),
+        issued: report.createdAt.toISOString(),
+        performer: report.providerName ? [{ display: report.providerName }] : undefined,
+        result: labs.length > 0
+            ? labs.map(lab => ({ reference: `Observation/${labObservationId(report.id, lab.index)}` }))
+            : undefined,
+        conclusion: report.conclusion ?? undefined,
+        presentedForm: report.fileUrl
+            ? [{ url: report.fileUrl, contentType: report.fileType ? CONTENT_TYPES[report.fileType] : undefined, title: report.title }]
+            : undefined,
+    };
+}
+
+/**
+ * ExternalReport columns from a FHIR DiagnosticReport, without the patient
+ */
+export function fromFhirDiagnosticReport(resource: DiagnosticReport): Omit<Prisma.ExternalReportUncheckedCreateInput, "patientId"> {
+    const categories = resource.category ?? [];
+    const type = categories.map(c => findCode(c, SYSTEMS.reportType)).find(Boolean)
+        ?? Object.entries(REPORT_SERVICE_CODES).find(([, code]) => categories.some(c => findCode(c, SYSTEMS.diagnosticService) === code))?.[0]
+        ?? "other";
+    const form = resource.presentedForm?.find(f => f.url);
+
+    return {
+        type: requireOneOf(type, REPORT_TYPES, "DiagnosticReport.category"),
+        title: requireValue(conceptText(resource.code), "DiagnosticReport.code"),
+        reportDate: parseFhirDate(
+            requireValue(resource.effectiveDateTime ?? resource.issued, "DiagnosticReport.effectiveDateTime"),
+            "DiagnosticReport.effectiveDateTime"
+        ),
+        status: requireOneOf(requireValue(resource.status, "DiagnosticReport.status"), REPORT_STATUSES, "DiagnosticReport.status"),
+        loincCode: findCode(resource.code, SYSTEMS.loinc) ?? null,
+        providerName: resource.performer?.find(p => p.display)?.display ?? null,
+        findings: resource.extension?.find(e => e.url === EXTENSIONS.reportFindings)?.valueString ?? null,
+        conclusion: resource.conclusion ?? null,
+        fileUrl: form?.url ?? null,
+        fileType: form?.contentType === "application/pdf" ? "pdf" : form?.contentType?.startsWith("image/") ? "image" : null,
+    };
+}
+
+// Category tokens match the v2-0074 service code or the app's report type
+function categoryCondition(token: Token): Prisma.ExternalReportWhereInput {
+    return { type: { in: REPORT_TYPES.filter(type => conceptMatches([reportCategory(type)], token)) } };
+}
+
+export const diagnosticReportHandler: ResourceHandler<DiagnosticReport> = {
+    type: "DiagnosticReport",
+    documentation: "Uploaded and entered external reports (lab, pathology, radiology, cardiology)",
+    searchParams: [
+        ID_PARAM,
+        PATIENT_PARAM,
+        { name: "subject", type: "reference" },
+        { name: "status", type: "token" },
+        { name: "code", type: "token", documentation: "LOINC code" },
+        { name: "category", type: "token", documentation: `v2-0074 service code or ${SYSTEMS.reportType} type` },
+        { name: "date", type: "date", documentation: "Report date" },
+    ],
+
+    async read(id) {
+        const report = await prisma.externalReport.findUnique({ where: { id } });
+        if (!report) throw notFound("DiagnosticReport", id);
+        return toFhirDiagnosticReport(report);
+    },
+
+    async search(query) {
+        const where: Prisma.ExternalReportWhereInput = {
+            AND: [
+                ...baseConditions<Prisma.ExternalReportWhereInput>(query, ["patient", "subject"]),
+                ...paramValues(query, "status").map(values => ({ status: { in: values.map(v => parseToken(v).code) } })),
+                ...paramValues(query, "code").map(values => ({
+                    loincCode: {
+                        in: values.map(parseToken)
+                            .filter(token => !token.system || token.system === SYSTEMS.loinc)
+                            .map(token => token.code),
+                    },
+                })),
+                ...paramValues(query, "category").map(values => ({ OR: values.map(v => categoryCondition(parseToken(v))) })),
+                ...dateConditions<Prisma.ExternalReportWhereInput>(query, "date", "reportDate"),
+            ],
+        };
+
+        const [reports, total] = await Promise.all([
+            prisma.externalReport.findMany({ where, orderBy: { reportDate: "desc" }, ...page(query) }),
+            prisma.externalReport.count({ where }),
+        ]);
+        return { resources: reports.map(toFhirDiagnosticReport), total };
+    },
+
+    async create(body) {
+        const resource = expectResource<DiagnosticReport>(body, "DiagnosticReport");
+        const patientId = await existingPatientId(resource.subject, "DiagnosticReport.subject");
+
+        const data = fromFhirDiagnosticReport(resource);
+
+        // Reports with instruction-like text are quarantined until a clinician approves them
+        const reason = quarantineReason(detectReportInstructions(data));
+        if (reason) {
+            console.warn(`[FHIR] Quarantining DiagnosticReport "${data.title}" for patient ${patientId}: ${reason}`);
+        }
+
+        const report = await prisma.externalReport.create({
+            data: { patientId, ...data, quarantined: reason !== null, quarantineReason: reason },
+        });
+        await invalidatePatientResponses(patientId);
+        return toFhirDiagnosticReport(report);
+    },
+};
@@ -0,0 +1,113 @@
+/**
+ * Encounter <-> FHIR Encounter
+ *
+ * The chief complaint (or the symptoms when there is none) is the reason;
+ * vital signs are Observations (see ./observation.ts).
+ */
+
+import type { Encounter as EncounterRow, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { invalidatePatientResponses } from "@/lib/ai/providers";
+import { dateConditions, paramValues, parseFhirDate, parseToken } from "../search";
+import { coding, conceptText, ENCOUNTER_CLASS_CODES, ENCOUNTER_STATUSES, SYSTEMS } from "../terminology";
+import type { Encounter } from "../types";
+import {
+    baseConditions,
+    existingPatientId,
+    expectResource,
+    ID_PARAM,
+    meta,
+    notFound,
+    page,
+    PATIENT_PARAM,
+    patientReference,
+    requireOneOf,
+    requireValue,
+    ResourceHandler,
+} from "./common";
+
+export function toFhirEncounter(encounter: EncounterRow): Encounter {
+    return {
+        resourceType: "Encounter",
+        id: encounter.id,
+        meta: meta(encounter.updatedAt),
+        status: encounter.status,
+        class: coding(SYSTEMS.actCode, ENCOUNTER_CLASS_CODES[encounter.encounterType] ?? "AMB", encounter.encounterType),
+        subject: patientReference(encounter.patientId),
+        period: { start: encounter.createdAt.toISOString() },
+        reasonCode: [{ text: encounter.chiefComplaint || encounter.symptoms }],
+    };
+}
+
+/**
+ * Encounter columns from a FHIR Encounter, without the patient
+ */
+export function fromFhirEncounter(resource: Encounter): Omit<Prisma.EncounterUncheckedCreateInput, "patientId"> {
+    const classCode = requireOneOf(
+        requireValue(resource.class?.code, "Encounter.class"),
+        Object.values(ENCOUNTER_CLASS_CODES),
+        "Encounter.class"
+    );
+    const reasons = resource.reasonCode?.map(conceptText).filter((r): r is string => Boolean(r)) ?? [];
+
+    return {
+        encounterType: Object.entries(ENCOUNTER_CLASS_CODES).find(([, code]) => code === classCode)?.[0] ?? "ambulatory",
+        status: requireOneOf(requireValue(resource.status, "Encounter.status"), ENCOUNTER_STATUSES, "Encounter.status"),
+        symptoms: requireValue(reasons.join("; "), "Encounter.reasonCode"),
+        chiefComplaint: reasons[0] ?? null,
+        ...(resource.period?.start ? { createdAt: parseFhirDate(resource.period.start, "Encounter.period.start") } : {}),
+    };
+}
+
+export const encounterHandler: ResourceHandler<Encounter> = {
+    type: "Encounter",
+    documentation: "Triage encounters",
+    searchParams: [
+        ID_PARAM,
+        PATIENT_PARAM,
+        { name: "subject", type: "reference" },
+        { name: "status", type: "token" },
+        { name: "class", type: "token", documentation: "v3-ActCode AMB, EMER, IMP or VR" },
+        { name: "date", type: "date", documentation: "Start of the encounter" },
+    ],
+
+    async read(id) {
+        const encounter = await prisma.encounter.findUnique({ where: { id } });
+        if (!encounter) throw notFound("Encounter", id);
+        return toFhirEncounter(encounter);
+    },
+
+    async search(query) {
+        const where: Prisma.EncounterWhereInput = {
+            AND: [
+                ...baseConditions<Prisma.EncounterWhereInput>(query, ["patient", "subject"]),
+                ...paramValues(query, "status").map(values => ({ status: { in: values.map(v => parseToken(v).code) } })),
+                ...paramValues(query, "class").map(values => ({
+                    encounterType: {
+                        in: Object.entries(ENCOUNTER_CLASS_CODES)
+                            .filter(([, code]) => values.some(v => parseToken(v).code === code))
+                            .map(([type]) => type),
+                    },
+                })),
+                ...dateConditions<Prisma.EncounterWhereInput>(query, "date", "createdAt"),
+            ],
+        };
+
+        const [encounters, total] = await Promise.all([
+            prisma.encounter.findMany({ where, orderBy: { createdAt: "desc" }, ...page(query) }),
+            prisma.encounter.count({ where }),
+        ]);
+        return { resources: encounters.map(toFhirEncounter), total };
+    },
+
+    async create(body) {
+        const resource = expectResource<Encounter>(body, "Encounter");
+        const patientId = await existingPatientId(resource.subject, "Encounter.subject");
+
+        const encounter = await prisma.encounter.create({
+            data: { patientId, ...fromFhirEncounter(resource) },
+        });
+        await invalidatePatientResponses(patientId);
+        return toFhirEncounter(encounter);
+    },
+};
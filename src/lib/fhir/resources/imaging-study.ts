@@ -0,0 +1,143 @@
+/**
+ * Scan <-> FHIR ImagingStudy
+ *
+ * A scan belongs to an encounter, so creating an ImagingStudy needs one. The
+ * stored file and the app's scan type travel in extensions; the AI analysis
+ * is not part of the resource.
+ */
+
+import type { Prisma, Scan } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { FhirError } from "../outcome";
+import { dateCondition, paramValues, parseDateBound, parseFhirDate, parseToken, referenceValues } from "../search";
+import { coding, EXTENSIONS, SYSTEMS } from "../terminology";
+import type { Extension, ImagingStudy } from "../types";
+import {
+    expectResource,
+    ID_PARAM,
+    meta,
+    notFound,
+    page,
+    PATIENT_PARAM,
+    patientReference,
+    referencedId,
+    requireValue,
+    ResourceHandler,
+} from "./common";
+
+type ScanWithPatient = Scan & { encounter: { patientId: string } };
+
+const WITH_PATIENT = { encounter: { select: { patientId: true } } } as const;
+
+export function toFhirImagingStudy(scan: ScanWithPatient): ImagingStudy {
+    const modality = scan.modality ? coding(SYSTEMS.dicom, scan.modality) : undefined;
+    const extension: Extension[] = [
+        { url: EXTENSIONS.scanFileUrl, valueUrl: scan.fileUrl },
+        { url: EXTENSIONS.scanType, valueString: scan.type },
+    ];
+
+    return {
+        resourceType: "ImagingStudy",
+        id: scan.id,
+        meta: meta(scan.analysisCompletedAt ?? scan.createdAt),
+        extension,
+        identifier: scan.studyInstanceUid
+            ? [{ system: SYSTEMS.dicomUid, value: `urn:oid:${scan.studyInstanceUid}` }]
+            : undefined,
+        status: "available",
+        modality: modality ? [modality] : undefined,
+        subject: patientReference(scan.encounter.patientId),
+        encounter: { reference: `Encounter/${scan.encounterId}` },
+        started: (scan.studyDate ?? scan.createdAt).toISOString(),
+        description: scan.studyDescription ?? undefined,
+        note: scan.notes ? [{ text: scan.notes }] : undefined,
+        series: scan.seriesInstanceUid && modality
+            ? [{
+                uid: scan.seriesInstanceUid,
+                modality,
+                bodySite: scan.bodyPart ? { display: scan.bodyPart } : undefined,
+            }]
+            : undefined,
+    };
+}
+
+export const imagingStudyHandler: ResourceHandler<ImagingStudy> = {
+    type: "ImagingStudy",
+    documentation: `Scans uploaded to encounters; the file URL is the ${EXTENSIONS.scanFileUrl} extension`,
+    searchParams: [
+        ID_PARAM,
+        PATIENT_PARAM,
+        { name: "subject", type: "reference" },
+        { name: "encounter", type: "reference" },
+        { name: "modality", type: "token", documentation: "DICOM modality code" },
+        { name: "started", type: "date" },
+    ],
+
+    async read(id) {
+        const scan = await prisma.scan.findUnique({ where: { id }, include: WITH_PATIENT });
+        if (!scan) throw notFound("ImagingStudy", id);
+        return toFhirImagingStudy(scan);
+    },
+
+    async search(query) {
+        const where: Prisma.ScanWhereInput = {
+            AND: [
+                ...paramValues(query, "_id").map(ids => ({ id: { in: ids } })),
+                ...referenceValues(query, ["patient", "subject"], "Patient").map(ids => ({ encounter: { patientId: { in: ids } } })),
+                ...referenceValues(query, ["encounter"], "Encounter").map(ids => ({ encounterId: { in: ids } })),
+                ...paramValues(query, "modality").map(values => ({ modality: { in: values.map(v => parseToken(v).code) } })),
+                // started is the DICOM study date, else the upload time
+                ...paramValues(query, "started").map(values => ({
+                    OR: values.map(value => {
+                        const bound = parseDateBound(value, "started");
+                        return {
+                            OR: [
+                                { AND: [{ studyDate: { not: null } }, dateCondition<Prisma.ScanWhereInput>(bound, "studyDate")] },
+                                { AND: [{ studyDate: null }, dateCondition<Prisma.ScanWhereInput>(bound, "createdAt")] },
+                            ],
+                        };
+                    }),
+                })),
+            ],
+        };
+
+        const [scans, total] = await Promise.all([
+            prisma.scan.findMany({ where, include: WITH_PATIENT, orderBy: { createdAt: "desc" }, ...page(query) }),
+            prisma.scan.count({ where }),
+        ]);
+        return { resources: scans.map(toFhirImagingStudy), total };
+    },
+
+    async create(body) {
+        const resource = expectResource<ImagingStudy>(body, "ImagingStudy");
+        const patientId = referencedId(resource.subject, "Patient", "ImagingStudy.subject");
+        const encounterId = referencedId(resource.encounter, "Encounter", "ImagingStudy.encounter");
+
+        const encounter = await prisma.encounter.findUnique({ where: { id: encounterId }, select: { patientId: true } });
+        if (!encounter || encounter.patientId !== patientId) {
+            throw new FhirError(422, "processing", `Encounter/${encounterId} not found for Patient/${patientId}`, "ImagingStudy.encounter");
+        }
+
+        const modality = resource.modality?.[0]?.code ?? resource.series?.[0]?.modality?.code;
+        const studyUid = resource.identifier?.find(i => i.system === SYSTEMS.dicomUid)?.value?.replace(/^urn:oid:/, "");
+        const scan = await prisma.scan.create({
+            data: {
+                encounterId,
+                fileUrl: requireValue(
+                    resource.extension?.find(e => e.url === EXTENSIONS.scanFileUrl)?.valueUrl,
+                    `ImagingStudy.extension("${EXTENSIONS.scanFileUrl}")`
+                ),
+                type: resource.extension?.find(e => e.url === EXTENSIONS.scanType)?.valueString ?? modality ?? "OTHER",
+                modality: modality ?? null,
+                bodyPart: resource.series?.[0]?.bodySite?.display ?? resource.series?.[0]?.bodySite?.code ?? null,
+                studyInstanceUid: studyUid ?? null,
+                seriesInstanceUid: resource.series?.[0]?.uid ?? null,
+                studyDate: resource.started ? parseFhirDate(resource.started, "ImagingStudy.started") : null,
+                studyDescription: resource.description ?? null,
+                notes: resource.note?.map(n => n.text).join("\n") || null,
+            },
+            include: WITH_PATIENT,
+        });
+        return toFhirImagingStudy(scan);
+    },
+};
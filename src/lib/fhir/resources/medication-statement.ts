@@ -0,0 +1,137 @@
+/**
+ * Medication <-> FHIR MedicationStatement
+ */
+
+import type { Medication, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { invalidatePatientResponses } from "@/lib/ai/providers";
+import { dateConditions, paramValues, parseFhirDate, parseToken } from "../search";
+import { conceptText, findCode, MEDICATION_STATUSES, SYSTEMS } from "../terminology";
+import type { MedicationStatement } from "../types";
+import {
+    baseConditions,
+    existingPatientId,
+    expectResource,
+    ID_PARAM,
+    meta,
+    notFound,
+    page,
+    PATIENT_PARAM,
+    patientReference,
+    requireOneOf,
+    requireValue,
+    ResourceHandler,
+} from "./common";
+
+export function toFhirMedicationStatement(medication: Medication): MedicationStatement {
+    const period = medication.startDate || medication.endDate
+        ? { start: medication.startDate?.toISOString(), end: medication.endDate?.toISOString() }
+        : undefined;
+
+    return {
+        resourceType: "MedicationStatement",
+        id: medication.id,
+        meta: meta(medication.updatedAt),
+        status: medication.status,
+        medicationCodeableConcept: {
+            coding: medication.rxNormCode
+                ? [{ system: SYSTEMS.rxnorm, code: medication.rxNormCode, display: medication.genericName ?? undefined }]
+                : undefined,
+            text: medication.name,
+        },
+        subject: patientReference(medication.patientId),
+        effectivePeriod: period,
+        dateAsserted: (medication.prescriptionDate ?? medication.createdAt).toISOString(),
+        informationSource: medication.prescribedBy ? { display: medication.prescribedBy } : undefined,
+        reasonCode: medication.reason ? [{ text: medication.reason }] : undefined,
+        note: medication.notes ? [{ text: medication.notes }] : undefined,
+        dosage: medication.dosage || medication.frequency || medication.route
+            ? [{
+                text: medication.dosage ?? undefined,
+                timing: medication.frequency ? { code: { text: medication.frequency } } : undefined,
+                route: medication.route ? { text: medication.route } : undefined,
+            }]
+            : undefined,
+    };
+}
+
+/**
+ * Medication columns from a FHIR MedicationStatement, without the patient
+ */
+export function fromFhirMedicationStatement(resource: MedicationStatement): Omit<Prisma.MedicationUncheckedCreateInput, "patientId"> {
+    const concept = resource.medicationCodeableConcept;
+    const dosage = resource.dosage?.[0];
+    const dose = dosage?.doseAndRate?.[0]?.doseQuantity;
+
+    return {
+        name: requireValue(concept?.text || conceptText(concept), "MedicationStatement.medicationCodeableConcept"),
+        genericName: concept?.coding?.find(c => c.system === SYSTEMS.rxnorm)?.display ?? null,
+        rxNormCode: findCode(concept, SYSTEMS.rxnorm) ?? null,
+        status: requireOneOf(requireValue(resource.status, "MedicationStatement.status"), MEDICATION_STATUSES, "MedicationStatement.status"),
+        dosage: dose?.value !== undefined ? `${dose.value}${dose.unit ?? ""}` : dosage?.text ?? null,
+        frequency: conceptText(dosage?.timing?.code) ?? null,
+        route: conceptText(dosage?.route) ?? null,
+        startDate: resource.effectivePeriod?.start
+            ? parseFhirDate(resource.effectivePeriod.start, "MedicationStatement.effectivePeriod.start")
+            : resource.effectiveDateTime ? parseFhirDate(resource.effectiveDateTime, "MedicationStatement.effectiveDateTime") : null,
+        endDate: resource.effectivePeriod?.end
+            ? parseFhirDate(resource.effectivePeriod.end, "MedicationStatement.effectivePeriod.end")
+            : null,
+        prescribedBy: resource.informationSource?.display ?? null,
+        reason: resource.reasonCode?.map(conceptText).filter(Boolean).join("; ") || null,
+        notes: resource.note?.map(n => n.text).join("\n") || null,
+    };
+}
+
+export const medicationStatementHandler: ResourceHandler<MedicationStatement> = {
+    type: "MedicationStatement",
+    documentation: "The patient's medication list",
+    searchParams: [
+        ID_PARAM,
+        PATIENT_PARAM,
+        { name: "subject", type: "reference" },
+        { name: "status", type: "token" },
+        { name: "code", type: "token", documentation: "RxNorm code" },
+        { name: "effective", type: "date", documentation: "Start date" },
+    ],
+
+    async read(id) {
+        const medication = await prisma.medication.findUnique({ where: { id } });
+        if (!medication) throw notFound("MedicationStatement", id);
+        return toFhirMedicationStatement(medication);
+    },
+
+    async search(query) {
+        const where: Prisma.MedicationWhereInput = {
+            AND: [
+                ...baseConditions<Prisma.MedicationWhereInput>(query, ["patient", "subject"]),
+                ...paramValues(query, "status").map(values => ({ status: { in: values.map(v => parseToken(v).code) } })),
+                ...paramValues(query, "code").map(values => ({
+                    rxNormCode: {
+                        in: values.map(parseToken)
+                            .filter(token => !token.system || token.system === SYSTEMS.rxnorm)
+                            .map(token => token.code),
+                    },
+                })),
+                ...dateConditions<Prisma.MedicationWhereInput>(query, "effective", "startDate"),
+            ],
+        };
+
+        const [medications, total] = await Promise.all([
+            prisma.medication.findMany({ where, orderBy: { createdAt: "desc" }, ...page(query) }),
+            prisma.medication.count({ where }),
+        ]);
+        return { resources: medications.map(toFhirMedicationStatement), total };
+    },
+
+    async create(body) {
+        const resource = expectResource<MedicationStatement>(body, "MedicationStatement");
+        const patientId = await existingPatientId(resource.subject, "MedicationStatement.subject");
+
+        const medication = await prisma.medication.create({
+            data: { patientId, ...fromFhirMedicationStatement(resource) },
+        });
+        await invalidatePatientResponses(patientId);
+        return toFhirMedicationStatement(medication);
+    },
+};
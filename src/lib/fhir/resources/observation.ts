@@ -0,0 +1,376 @@
+/**
+ * Vital signs and lab values <-> FHIR Observation
+ *
+ * Observations are not stored as rows; they are derived:
+ * - vital signs from Encounter.vitalSigns, one per measurement, id
+ *   "vs-<encounterId>-<key>" (blood pressure is one panel with systolic and
+ *   diastolic components)
+ * - lab values extracted from an ExternalReport, id "lab-<reportId>-<index>"
+ *
+ * Only vital signs can be created: they are merged into the encounter's
+ * vitals and validated against the same plausible ranges as the triage form.
+ * Lab values are imported with their DiagnosticReport in a Bundle (see
+ * ../bundle-import.ts). Supplemental oxygen has no Observation and is not
+ * exposed.
+ */
+
+import { Prisma, type Encounter as EncounterRow, type ExternalReport } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { invalidatePatientResponses } from "@/lib/ai/providers";
+import type { VitalSigns } from "@/lib/ai/agents/types";
+import { CONSCIOUSNESS_LEVELS, validateVitalSigns } from "@/lib/early-warning";
+import { FhirError } from "../outcome";
+import { conceptMatches, dateMatches, paramValues, parseDateBound, parseToken, referenceValues } from "../search";
+import { concept, conceptText, findCode, INTERPRETATION_CODES, SYSTEMS } from "../terminology";
+import type { Observation, Quantity } from "../types";
+import {
+    expectResource,
+    ID_PARAM,
+    meta,
+    notFound,
+    PATIENT_PARAM,
+    patientReference,
+    referencedId,
+    requireValue,
+    ResourceHandler,
+} from "./common";
+
+type NumericVital = Exclude<keyof VitalSigns, "supplementalOxygen" | "consciousness" | "bloodPressureSystolic" | "bloodPressureDiastolic">;
+
+export interface LabValue {
+    // Position in extractedData.labValues, which the Observation id uses
+    index: number;
+    testName: string;
+    value: string;
+    unit: string | null;
+    referenceRange: string | null;
+    flag: string | null;
+}
+
+const VITAL_SIGNS_CATEGORY = concept(SYSTEMS.observationCategory, "vital-signs", "Vital Signs");
+const LABORATORY_CATEGORY = concept(SYSTEMS.observationCategory, "laboratory", "Laboratory");
+
+const BLOOD_PRESSURE = {
+    key: "bp",
+    loinc: "85354-9",
+    display: "Blood pressure panel",
+    systolic: { loinc: "8480-6", display: "Systolic blood pressure" },
+    diastolic: { loinc: "8462-4", display: "Diastolic blood pressure" },
+};
+
+const CONSCIOUSNESS = { key: "avpu", loinc: "67775-7", display: "Level of responsiveness" };
+
+const NUMERIC_VITALS: { key: string; field: NumericVital; loinc: string; display: string; unit: string }[] = [
+    { key: "hr", field: "heartRate", loinc: "8867-4", display: "Heart rate", unit: "/min" },
+    { key: "rr", field: "respiratoryRate", loinc: "9279-1", display: "Respiratory rate", unit: "/min" },
+    { key: "spo2", field: "oxygenSaturation", loinc: "59408-5", display: "Oxygen saturation by pulse oximetry", unit: "%" },
+    { key: "temp", field: "temperature", loinc: "8310-5", display: "Body temperature", unit: "Cel" },
+    { key: "weight", field: "weight", loinc: "29463-7", display: "Body weight", unit: "kg" },
+    { key: "height", field: "height", loinc: "8302-2", display: "Body height", unit: "cm" },
+];
+
+const VITAL_ID = /^vs-(.+)-([a-z0-9]+)$/;
+const LAB_ID = /^lab-(.+)-(\d+)$/;
+
+export function labObservationId(reportId: string, index: number): string {
+    return `lab-${reportId}-${index}`;
+}
+
+function ucum(value: number, unit: string): Quantity {
+    return { value, unit, system: SYSTEMS.ucum, code: unit };
+}
+
+/**
+ * Lab values the report extraction stored in extractedData, skipping
+ * entries without a test name or value
+ */
+export function extractedLabValues(report: ExternalReport): LabValue[] {
+    const labValues = (report.extractedData as { labValues?: unknown } | null)?.labValues;
+    if (!Array.isArray(labValues)) return [];
+
+    return labValues.flatMap((lab: Record<string, unknown> | null, index): LabValue[] => {
+        const testName = typeof lab?.testName === "string" ? lab.testName.trim() : "";
+        const value = lab?.value === null || lab?.value === undefined ? "" : String(lab.value).trim();
+        if (!testName || !value) return [];
+
+        return [{
+            index,
+            testName,
+            value,
+            unit: typeof lab?.unit === "string" && lab.unit ? lab.unit : null,
+            referenceRange: typeof lab?.referenceRange === "string" && lab.referenceRange ? lab.referenceRange : null,
+            flag: typeof lab?.flag === "string" && lab.flag ? lab.flag.toUpperCase() : null,
+        }];
+    });
+}
+
+export function labObservation(report: ExternalReport, lab: LabValue): Observation {
+    const numeric = /^([<>]=?)?\s*(-?\d+(?:\.\d+)?)$/.exec(lab.value);
+    const interpretation = lab.flag && INTERPRETATION_CODES[lab.flag]
+        ? [concept(SYSTEMS.interpretation, lab.flag, INTERPRETATION_CODES[lab.flag])]
+        : undefined;
+
+    return {
+        resourceType: "Observation",
+        id: labObservationId(report.id, lab.index),
+        meta: meta(report.updatedAt),
+        status: report.status === "preliminary" ? "preliminary" : "final",
+        category: [LABORATORY_CATEGORY],
+        code: { text: lab.testName },
+        subject: patientReference(report.patientId),
+        effectiveDateTime: report.reportDate.toISOString(),
+        valueQuantity: numeric
+            ? {
+                value: parseFloat(numeric[2]),
+                unit: lab.unit ?? undefined,
+                comparator: numeric[1] || undefined,
+            }
+            : undefined,
+        valueString: numeric ? undefined : `${lab.value}${lab.unit ? ` ${lab.unit}` : ""}`,
+        interpretation,
+        referenceRange: lab.referenceRange ? [{ text: lab.referenceRange }] : undefined,
+        derivedFrom: [{ reference: `DiagnosticReport/${report.id}` }],
+    };
+}
+
+/**
+ * One Observation per vital sign recorded on the encounter
+ */
+export function vitalSignObservations(encounter: EncounterRow): Observation[] {
+    const vitals = (encounter.vitalSigns ?? {}) as VitalSigns;
+    const base = (key: string, loinc: string, display: string): Observation => ({
+        resourceType: "Observation",
+        id: `vs-${encounter.id}-${key}`,
+        meta: meta(encounter.updatedAt),
+        status: "final",
+        category: [VITAL_SIGNS_CATEGORY],
+        code: { ...concept(SYSTEMS.loinc, loinc, display), text: display },
+        subject: patientReference(encounter.patientId),
+        encounter: { reference: `Encounter/${encounter.id}` },
+        effectiveDateTime: encounter.createdAt.toISOString(),
+    });
+    const observations: Observation[] = [];
+
+    if (vitals.bloodPressureSystolic !== undefined || vitals.bloodPressureDiastolic !== undefined) {
+        observations.push({
+            ...base(BLOOD_PRESSURE.key, BLOOD_PRESSURE.loinc, BLOOD_PRESSURE.display),
+            component: [
+                { code: concept(SYSTEMS.loinc, BLOOD_PRESSURE.systolic.loinc, BLOOD_PRESSURE.systolic.display), value: vitals.bloodPressureSystolic },
+                { code: concept(SYSTEMS.loinc, BLOOD_PRESSURE.diastolic.loinc, BLOOD_PRESSURE.diastolic.display), value: vitals.bloodPressureDiastolic },
+            ]
+                .filter(c => c.value !== undefined)
+                .map(c => ({ code: c.code, valueQuantity: ucum(c.value as number, "mm[Hg]") })),
+        });
+    }
+
+    for (const vital of NUMERIC_VITALS) {
+        const value = vitals[vital.field];
+        if (value === undefined) continue;
+        observations.push({ ...base(vital.key, vital.loinc, vital.display), valueQuantity: ucum(value, vital.unit) });
+    }
+
+    const level = CONSCIOUSNESS_LEVELS.find(l => l.value === vitals.consciousness);
+    if (level) {
+        observations.push({
+            ...base(CONSCIOUSNESS.key, CONSCIOUSNESS.loinc, CONSCIOUSNESS.display),
+            valueCodeableConcept: { ...concept(SYSTEMS.consciousness, level.value, level.label), text: level.label },
+        });
+    }
+
+    return observations;
+}
+
+/**
+ * Vital signs from a posted vital-signs Observation, in the shape of the
+ * encounter's vitalSigns
+ */
+function vitalsFromObservation(resource: Observation): Record<string, unknown> {
+    const loinc = requireValue(findCode(resource.code, SYSTEMS.loinc), "Observation.code");
+    const quantity = (value: Quantity | undefined, unit: string, expression: string): number => {
+        const number = requireValue(value?.value, `${expression}.value`);
+        if (typeof number !== "number") {
+            throw new FhirError(400, "value", `${expression}.value must be a number`, expression);
+        }
+        const code = value?.code ?? unit;
+        if (code === unit) return number;
+        // Temperatures are stored in Celsius
+        if (unit === "Cel" && code === "[degF]") return Math.round((number - 32) * 5 / 9 * 10) / 10;
+        throw new FhirError(400, "value", `${expression} must be in ${unit}`, expression);
+    };
+
+    if (loinc === BLOOD_PRESSURE.loinc) {
+        const component = (code: string) => resource.component?.find(c => findCode(c.code, SYSTEMS.loinc) === code);
+        const systolic = component(BLOOD_PRESSURE.systolic.loinc);
+        const diastolic = component(BLOOD_PRESSURE.diastolic.loinc);
+        if (!systolic && !diastolic) {
+            throw new FhirError(400, "required", "A blood pressure panel needs a systolic or diastolic component", "Observation.component");
+        }
+        return {
+            ...(systolic ? { bloodPressureSystolic: quantity(systolic.valueQuantity, "mm[Hg]", "Observation.component.valueQuantity") } : {}),
+            ...(diastolic ? { bloodPressureDiastolic: quantity(diastolic.valueQuantity, "mm[Hg]", "Observation.component.valueQuantity") } : {}),
+        };
+    }
+
+    if (loinc === CONSCIOUSNESS.loinc) {
+        const value = resource.valueCodeableConcept;
+        const code = findCode(value, SYSTEMS.consciousness) ?? conceptText(value)?.toLowerCase();
+        const level = CONSCIOUSNESS_LEVELS.find(l => l.value === code || l.label.toLowerCase() === code);
+        return { consciousness: level?.value ?? requireValue(code, "Observation.valueCodeableConcept") };
+    }
+
+    const vital = NUMERIC_VITALS.find(v => v.loinc === loinc);
+    if (!vital) {
+        const supported = [BLOOD_PRESSURE, CONSCIOUSNESS, ...NUMERIC_VITALS].map(v => v.loinc).join(", ");
+        throw new FhirError(400, "not-supported", `Vital sign LOINC code ${loinc} is not supported; use one of ${supported}`, "Observation.code");
+    }
+    return { [vital.field]: quantity(resource.valueQuantity, vital.unit, "Observation.valueQuantity") };
+}
+
+/**
+ * The encounter's vital signs with a vital-signs Observation merged in,
+ * validated against the triage form's ranges, and the id of the Observation
+ * the measurement becomes
+ */
+export function mergeVitalSignObservation(
+    resource: Observation,
+    encounter: EncounterRow
+): { vitalSigns: Prisma.InputJsonValue; observationId: string } {
+    if (!conceptMatches(resource.category ?? [], { system: SYSTEMS.observationCategory, code: "vital-signs" })) {
+        throw new FhirError(400, "not-supported", "Only vital-signs Observations can be created", "Observation.category");
+    }
+
+    const update = vitalsFromObservation(resource);
+    const { vitals, errors } = validateVitalSigns({ ...(encounter.vitalSigns as object | null), ...update });
+    if (errors.length > 0) {
+        throw new FhirError(400, "value", errors.join("; "), "Observation");
+    }
+
+    const key = update.bloodPressureSystolic !== undefined || update.bloodPressureDiastolic !== undefined
+        ? BLOOD_PRESSURE.key
+        : update.consciousness !== undefined ? CONSCIOUSNESS.key : NUMERIC_VITALS.find(v => v.field in update)?.key;
+    return {
+        vitalSigns: vitals as unknown as Prisma.InputJsonValue,
+        observationId: `vs-${encounter.id}-${key}`,
+    };
+}
+
+/**
+ * A laboratory Observation as an entry of ExternalReport.extractedData.labValues
+ * (the inverse of the lab Observations derived from a report)
+ */
+export function labValueFromObservation(resource: Observation, expression: string): Omit<LabValue, "index"> {
+    const quantity = resource.valueQuantity;
+    const value = quantity?.value !== undefined
+        ? `${quantity.comparator ?? ""}${quantity.value}`
+        : resource.valueString ?? conceptText(resource.valueCodeableConcept);
+    const flag = resource.interpretation?.map(i => findCode(i, SYSTEMS.interpretation)).find(Boolean);
+
+    return {
+        testName: requireValue(conceptText(resource.code), `${expression}.code`),
+        value: requireValue(value, `${expression}.value[x]`),
+        unit: quantity?.value !== undefined ? quantity.unit ?? quantity.code ?? null : null,
+        referenceRange: resource.referenceRange?.find(r => r.text)?.text ?? null,
+        flag: flag && INTERPRETATION_CODES[flag] ? flag : null,
+    };
+}
+
+export const observationHandler: ResourceHandler<Observation> = {
+    type: "Observation",
+    documentation: "Vital signs recorded on encounters and lab values extracted from reports; search needs patient or encounter",
+    searchParams: [
+        ID_PARAM,
+        PATIENT_PARAM,
+        { name: "subject", type: "reference" },
+        { name: "encounter", type: "reference", documentation: "Vital signs of one encounter" },
+        { name: "category", type: "token", documentation: "vital-signs or laboratory" },
+        { name: "code", type: "token", documentation: "LOINC code (vital signs)" },
+        { name: "date", type: "date" },
+    ],
+
+    async read(id) {
+        const vital = VITAL_ID.exec(id);
+        if (vital) {
+            const encounter = await prisma.encounter.findUnique({ where: { id: vital[1] } });
+            const observation = encounter && vitalSignObservations(encounter).find(o => o.id === id);
+            if (observation) return observation;
+        }
+
+        const lab = LAB_ID.exec(id);
+        if (lab) {
+            const report = await prisma.externalReport.findUnique({ where: { id: lab[1] } });
+            const value = report && extractedLabValues(report).find(l => l.index === Number(lab[2]));
+            if (report && value) return labObservation(report, value);
+        }
+
+        throw notFound("Observation", id);
+    },
+
+    async search(query) {
+        const patientIds = referenceValues(query, ["patient", "subject"], "Patient");
+        const encounterIds = referenceValues(query, ["encounter"], "Encounter");
+        if (patientIds.length === 0 && encounterIds.length === 0) {
+            throw new FhirError(400, "required", "Observation search needs a patient or encounter parameter");
+        }
+
+        const [encounters, reports] = await Promise.all([
+            prisma.encounter.findMany({
+                where: {
+                    vitalSigns: { not: Prisma.DbNull },
+                    AND: [
+                        ...patientIds.map(ids => ({ patientId: { in: ids } })),
+                        ...encounterIds.map(ids => ({ id: { in: ids } })),
+                    ],
+                },
+            }),
+            // Lab values belong to reports, not encounters
+            encounterIds.length > 0
+                ? []
+                : prisma.externalReport.findMany({
+                    where: {
+                        extractedData: { not: Prisma.DbNull },
+                        AND: patientIds.map(ids => ({ patientId: { in: ids } })),
+                    },
+                }),
+        ]);
+
+        const ids = paramValues(query, "_id");
+        const categories = paramValues(query, "category").map(values => values.map(parseToken));
+        const codes = paramValues(query, "code").map(values => values.map(parseToken));
+        const dates = paramValues(query, "date").map(values => values.map(v => parseDateBound(v, "date")));
+
+        const matches = [
+            ...encounters.flatMap(vitalSignObservations),
+            ...reports.flatMap(report => extractedLabValues(report).map(lab => labObservation(report, lab))),
+        ]
+            .filter(o => ids.every(values => values.includes(o.id ?? "")))
+            .filter(o => categories.every(tokens => tokens.some(token => conceptMatches(o.category ?? [], token))))
+            .filter(o => codes.every(tokens => tokens.some(token => conceptMatches([o.code], token))))
+            .filter(o => dates.every(bounds => bounds.some(bound => dateMatches(o.effectiveDateTime ? new Date(o.effectiveDateTime) : null, bound))))
+            .sort((a, b) => (b.effectiveDateTime ?? "").localeCompare(a.effectiveDateTime ?? ""));
+
+        return { resources: matches.slice(query.offset, query.offset + query.count), total: matches.length };
+    },
+
+    async create(body) {
+        const resource = expectResource<Observation>(body, "Observation");
+        const encounterId = referencedId(resource.encounter, "Encounter", "Observation.encounter");
+        const encounter = await prisma.encounter.findUnique({ where: { id: encounterId } });
+        if (!encounter) {
+            throw new FhirError(422, "processing", `Encounter/${encounterId} not found`, "Observation.encounter");
+        }
+        if (resource.subject && referencedId(resource.subject, "Patient", "Observation.subject") !== encounter.patientId) {
+            throw new FhirError(422, "processing", `Encounter/${encounterId} does not belong to the subject`, "Observation.subject");
+        }
+
+        const { vitalSigns, observationId } = mergeVitalSignObservation(resource, encounter);
+        const updated = await prisma.encounter.update({
+            where: { id: encounterId },
+            data: { vitalSigns },
+        });
+        await invalidatePatientResponses(encounter.patientId);
+
+        const observation = vitalSignObservations(updated).find(o => o.id === observationId);
+        if (!observation) throw new Error(`Vital sign ${observationId} missing after update`);
+        return observation;
+    },
+};
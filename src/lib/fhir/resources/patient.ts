@@ -0,0 +1,146 @@
+/**
+ * Patient <-> FHIR Patient
+ *
+ * The name is stored as one string, so it maps to HumanName.text with the
+ * last word as the family name. The MRN is the medical record identifier;
+ * the SSN is never exposed.
+ */
+
+import type { Patient as PatientRow, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { FhirError } from "../outcome";
+import { dateConditions, paramValues, parseFhirDate, parseToken, stringValues, toFhirDate } from "../search";
+import { GENDERS, SYSTEMS, concept } from "../terminology";
+import type { ContactPoint, HumanName, Identifier, Patient } from "../types";
+import { expectResource, ID_PARAM, meta, notFound, page, requireOneOf, requireValue, ResourceHandler } from "./common";
+
+const MRN_TYPE = concept(SYSTEMS.identifierType, "MR", "Medical record number");
+
+export function toFhirPatient(patient: PatientRow): Patient {
+    const words = patient.name.trim().split(/\s+/);
+    const telecom: ContactPoint[] = [
+        ...(patient.phone ? [{ system: "phone" as const, value: patient.phone }] : []),
+        ...(patient.email ? [{ system: "email" as const, value: patient.email }] : []),
+    ];
+
+    return {
+        resourceType: "Patient",
+        id: patient.id,
+        meta: meta(patient.updatedAt),
+        identifier: patient.mrn
+            ? [{ use: "usual", type: MRN_TYPE, system: SYSTEMS.mrn, value: patient.mrn }]
+            : undefined,
+        name: [{
+            use: "official",
+            text: patient.name,
+            family: words.length > 1 ? words[words.length - 1] : undefined,
+            given: words.length > 1 ? words.slice(0, -1) : words,
+        }],
+        telecom: telecom.length > 0 ? telecom : undefined,
+        gender: patient.gender,
+        birthDate: toFhirDate(patient.dateOfBirth),
+        address: patient.address ? [{ text: patient.address }] : undefined,
+        contact: patient.emergencyContactName || patient.emergencyContactPhone
+            ? [{
+                relationship: [
+                    concept(SYSTEMS.contactRole, "C", "Emergency Contact"),
+                    ...(patient.emergencyContactRelation ? [{ text: patient.emergencyContactRelation }] : []),
+                ],
+                name: patient.emergencyContactName ? { text: patient.emergencyContactName } : undefined,
+                telecom: patient.emergencyContactPhone ? [{ system: "phone", value: patient.emergencyContactPhone }] : undefined,
+            }]
+            : undefined,
+    };
+}
+
+function nameText(name: HumanName | undefined): string | undefined {
+    return name?.text?.trim() || [...(name?.given ?? []), name?.family].filter(Boolean).join(" ") || undefined;
+}
+
+/**
+ * The MRN from a Patient's identifiers: the app's MRN system, or any
+ * identifier typed MR
+ */
+export function findMrn(identifiers: Identifier[] | undefined): string | undefined {
+    const identifier = identifiers?.find(i => i.system === SYSTEMS.mrn)
+        ?? identifiers?.find(i => i.type?.coding?.some(c => c.system === SYSTEMS.identifierType && c.code === "MR"));
+    return identifier?.value;
+}
+
+/**
+ * Patient columns from a FHIR Patient
+ */
+export function fromFhirPatient(resource: Patient): Prisma.PatientCreateInput {
+    const name = requireValue(nameText(resource.name?.find(n => n.use === "official") ?? resource.name?.[0]), "Patient.name");
+    const gender = requireOneOf(requireValue(resource.gender, "Patient.gender"), GENDERS, "Patient.gender");
+    const contact = resource.contact?.[0];
+
+    return {
+        name,
+        gender,
+        dateOfBirth: parseFhirDate(requireValue(resource.birthDate, "Patient.birthDate"), "Patient.birthDate"),
+        mrn: findMrn(resource.identifier) ?? null,
+        phone: resource.telecom?.find(t => t.system === "phone")?.value ?? null,
+        email: resource.telecom?.find(t => t.system === "email")?.value ?? null,
+        address: resource.address?.[0]
+            ? resource.address[0].text ?? [...(resource.address[0].line ?? []), resource.address[0].city, resource.address[0].state, resource.address[0].postalCode]
+                .filter(Boolean).join(", ")
+            : null,
+        emergencyContactName: nameText(contact?.name) ?? null,
+        emergencyContactPhone: contact?.telecom?.find(t => t.system === "phone")?.value ?? null,
+        emergencyContactRelation: contact?.relationship?.find(r => r.text)?.text ?? null,
+    };
+}
+
+export const patientHandler: ResourceHandler<Patient> = {
+    type: "Patient",
+    documentation: "Patients; identifier is the medical record number (MRN)",
+    operations: [{ name: "everything", definition: "http://hl7.org/fhir/OperationDefinition/Patient-everything" }],
+    searchParams: [
+        ID_PARAM,
+        { name: "identifier", type: "token", documentation: `MRN, optionally with the system ${SYSTEMS.mrn}` },
+        { name: "name", type: "string" },
+        { name: "birthdate", type: "date" },
+        { name: "gender", type: "token" },
+    ],
+
+    async read(id) {
+        const patient = await prisma.patient.findUnique({ where: { id } });
+        if (!patient) throw notFound("Patient", id);
+        return toFhirPatient(patient);
+    },
+
+    async search(query) {
+        const where: Prisma.PatientWhereInput = {
+            AND: [
+                ...paramValues(query, "_id").map(ids => ({ id: { in: ids } })),
+                ...paramValues(query, "identifier").map(values => ({
+                    OR: values.map(parseToken)
+                        .filter(token => !token.system || token.system === SYSTEMS.mrn)
+                        .map(token => ({ mrn: token.code })),
+                })),
+                ...stringValues(query, "name").map(({ values, exact }) => ({
+                    OR: values.map(value => ({ name: exact ? { equals: value } : { contains: value, mode: "insensitive" as const } })),
+                })),
+                ...paramValues(query, "gender").map(values => ({ gender: { in: values.map(v => parseToken(v).code) } })),
+                ...dateConditions<Prisma.PatientWhereInput>(query, "birthdate", "dateOfBirth"),
+            ],
+        };
+
+        const [patients, total] = await Promise.all([
+            prisma.patient.findMany({ where, orderBy: { createdAt: "desc" }, ...page(query) }),
+            prisma.patient.count({ where }),
+        ]);
+        return { resources: patients.map(toFhirPatient), total };
+    },
+
+    async create(body) {
+        const data = fromFhirPatient(expectResource<Patient>(body, "Patient"));
+        if (data.mrn && await prisma.patient.findUnique({ where: { mrn: data.mrn }, select: { id: true } })) {
+            throw new FhirError(409, "duplicate", `A patient with MRN ${data.mrn} already exists`, "Patient.identifier");
+        }
+
+        const patient = await prisma.patient.create({ data });
+        return toFhirPatient(patient);
+    },
+};
@@ -0,0 +1,289 @@
+/**
+ * FHIR Search - parameter parsing for the search interaction
+ *
+ * Supports the parameter types the resources use
+ * (https://hl7.org/fhir/R4/search.html):
+ * - date: eq, ne, lt, gt, le, ge, sa and eb prefixes; the value's precision
+ *   sets the range it covers ("2024" is the whole year)
+ * - token: "system|code", "|code" (no system) or "code" (any system)
+ * - reference: "Patient/<id>" or a bare id
+ * - string: case-insensitive contains; ":exact" matches the whole value
+ *
+ * A comma-separated value means any of them (OR); a repeated parameter means
+ * all of them (AND). `_count` (default 50, max 200) and `_offset` page the
+ * results. Unknown parameters are ignored, as the specification allows;
+ * invalid values of known ones are rejected with a 400 OperationOutcome.
+ */
+
+import { FhirError } from "./outcome";
+import type { Bundle, CodeableConcept, Coding, FhirResource, SearchParamType } from "./types";
+
+export interface SearchParamDefinition {
+    name: string;
+    type: SearchParamType;
+    documentation?: string;
+}
+
+export interface SearchQuery {
+    params: URLSearchParams;
+    count: number;
+    offset: number;
+}
+
+export interface DateBound {
+    prefix: DatePrefix;
+    start: Date;
+    // Exclusive end of the range the value covers
+    end: Date;
+}
+
+export interface Token {
+    // undefined: any system; null: no system ("|code")
+    system?: string | null;
+    code: string;
+}
+
+type DatePrefix = "eq" | "ne" | "lt" | "gt" | "le" | "ge" | "sa" | "eb";
+
+const DATE_PREFIXES: DatePrefix[] = ["eq", "ne", "lt", "gt", "le", "ge", "sa", "eb"];
+
+const DEFAULT_COUNT = 50;
+const MAX_COUNT = 200;
+
+// Parameters every resource accepts besides its own
+const RESULT_PARAMS = ["_count", "_offset", "_format", "_sort"];
+
+const DATE_PATTERN = /^(\d{4})(?:-(\d{2})(?:-(\d{2})(?:T(\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?)?)?$/;
+
+/**
+ * Check the query against a resource's search parameters and read the paging
+ */
+export function parseSearchQuery(params: URLSearchParams, definitions: SearchParamDefinition[]): SearchQuery {
+    for (const key of params.keys()) {
+        const [name, modifier] = key.split(":");
+        const definition = definitions.find(d => d.name === name);
+        if (!modifier || !definition) continue;
+
+        if (definition.type !== "string" || (modifier !== "exact" && modifier !== "contains")) {
+            throw new FhirError(400, "not-supported", `Modifier ":${modifier}" is not supported on "${name}"`);
+        }
+    }
+
+    return {
+        params,
+        count: Math.min(parseInteger(params.get("_count"), "_count") ?? DEFAULT_COUNT, MAX_COUNT),
+        offset: parseInteger(params.get("_offset"), "_offset") ?? 0,
+    };
+}
+
+function parseInteger(value: string | null, name: string): number | undefined {
+    if (value === null) return undefined;
+    if (!/^\d+$/.test(value)) {
+        throw new FhirError(400, "value", `${name} must be a non-negative integer`);
+    }
+    return parseInt(value, 10);
+}
+
+/**
+ * Values of a parameter: one entry per occurrence (AND), each split on
+ * commas (OR)
+ */
+export function paramValues(query: SearchQuery, name: string): string[][] {
+    return query.params.getAll(name)
+        .map(value => value.split(",").map(v => v.trim()).filter(Boolean))
+        .filter(values => values.length > 0);
+}
+
+export function parseDateBound(value: string, name: string): DateBound {
+    const prefix = DATE_PREFIXES.find(p => value.startsWith(p)) ?? "eq";
+    const date = value.startsWith(prefix) ? value.slice(2) : value;
+    const match = DATE_PATTERN.exec(date);
+    if (!match) {
+        throw new FhirError(400, "value", `${name} must be a FHIR date or dateTime, got "${value}"`);
+    }
+
+    const [, year, month, day, hour, minute, second, zone] = match;
+    if (hour !== undefined && zone === undefined) {
+        throw new FhirError(400, "value", `${name} with a time must include a timezone, got "${value}"`);
+    }
+
+    const start = parseFhirDate(date, name);
+    const end = new Date(start);
+    if (second !== undefined) end.setUTCSeconds(end.getUTCSeconds() + 1);
+    else if (minute !== undefined) end.setUTCMinutes(end.getUTCMinutes() + 1);
+    else if (day !== undefined) end.setUTCDate(end.getUTCDate() + 1);
+    else if (month !== undefined) end.setUTCMonth(end.getUTCMonth() + 1);
+    else end.setUTCFullYear(Number(year) + 1);
+
+    return { prefix, start, end };
+}
+
+/**
+ * Prisma filter for a date bound on a single-instant field
+ */
+export function dateFilter(bound: DateBound): { gte?: Date; lt?: Date } | { OR: { gte?: Date; lt?: Date }[] } {
+    switch (bound.prefix) {
+        case "eq": return { gte: bound.start, lt: bound.end };
+        case "ne": return { OR: [{ lt: bound.start }, { gte: bound.end }] };
+        case "lt":
+        case "eb": return { lt: bound.start };
+        case "gt":
+        case "sa": return { gte: bound.end };
+        case "le": return { lt: bound.end };
+        case "ge": return { gte: bound.start };
+    }
+}
+
+/**
+ * Prisma condition for a date bound on `field`
+ */
+export function dateCondition<W>(bound: DateBound, field: string): W {
+    const filter = dateFilter(bound);
+    return ("OR" in filter
+        ? { OR: filter.OR.map(f => ({ [field]: f })) }
+        : { [field]: filter }) as W;
+}
+
+/**
+ * Prisma conditions for a date parameter on `field`, to combine with AND
+ */
+export function dateConditions<W>(query: SearchQuery, name: string, field: string): W[] {
+    return paramValues(query, name).map(values => ({
+        OR: values.map(value => dateCondition<W>(parseDateBound(value, name), field)),
+    }) as W);
+}
+
+export function dateMatches(date: Date | null | undefined, bound: DateBound): boolean {
+    if (!date) return false;
+    const time = date.getTime();
+    switch (bound.prefix) {
+        case "eq": return time >= bound.start.getTime() && time < bound.end.getTime();
+        case "ne": return time < bound.start.getTime() || time >= bound.end.getTime();
+        case "lt":
+        case "eb": return time < bound.start.getTime();
+        case "gt":
+        case "sa": return time >= bound.end.getTime();
+        case "le": return time < bound.end.getTime();
+        case "ge": return time >= bound.start.getTime();
+    }
+}
+
+export function parseToken(value: string): Token {
+    const separator = value.indexOf("|");
+    if (separator === -1) return { code: value };
+    return { system: separator === 0 ? null : value.slice(0, separator), code: value.slice(separator + 1) };
+}
+
+export function codingMatches(coding: Coding, token: Token): boolean {
+    if (token.system === null && coding.system) return false;
+    if (token.system && coding.system !== token.system) return false;
+    return !token.code || coding.code?.toLowerCase() === token.code.toLowerCase();
+}
+
+export function conceptMatches(concepts: (CodeableConcept | undefined)[], token: Token): boolean {
+    return concepts.some(concept => concept?.coding?.some(coding => codingMatches(coding, token)));
+}
+
+/**
+ * Id from a reference parameter: "Patient/<id>", a full URL ending in it, or
+ * a bare id
+ */
+export function parseReference(value: string, resourceType: string, name: string): string {
+    const parts = value.split("/");
+    if (parts.length === 1) return value;
+
+    const [type, id] = parts.slice(-2);
+    if (type !== resourceType || !id) {
+        throw new FhirError(400, "value", `${name} must reference a ${resourceType}, got "${value}"`);
+    }
+    return id;
+}
+
+/**
+ * Ids from the first of `names` present, as an OR list per occurrence
+ */
+export function referenceValues(query: SearchQuery, names: string[], resourceType: string): string[][] {
+    const name = names.find(n => query.params.has(n));
+    if (!name) return [];
+    return paramValues(query, name).map(values => values.map(v => parseReference(v, resourceType, name)));
+}
+
+/**
+ * String parameter values with the match mode from the modifier
+ */
+export function stringValues(query: SearchQuery, name: string): { values: string[]; exact: boolean }[] {
+    return [
+        ...paramValues(query, name).map(values => ({ values, exact: false })),
+        ...query.params.getAll(`${name}:contains`).map(v => ({ values: v.split(","), exact: false })),
+        ...query.params.getAll(`${name}:exact`).map(v => ({ values: v.split(","), exact: true })),
+    ];
+}
+
+/**
+ * Parse a FHIR date, dateTime or instant from a resource or parameter
+ */
+export function parseFhirDate(value: unknown, expression: string): Date {
+    const match = typeof value === "string" ? DATE_PATTERN.exec(value) : null;
+    if (!match) {
+        throw new FhirError(400, "value", `${expression} must be a FHIR date or dateTime`, expression);
+    }
+
+    const [, year, month = "01", day = "01", hour, minute, second = "00", zone] = match;
+    const date = hour !== undefined
+        ? new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}${zone ?? "Z"}`)
+        : new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+    // Date.UTC rolls 2024-02-30 over to March
+    if (Number.isNaN(date.getTime()) || (hour === undefined && toFhirDate(date) !== `${year}-${month}-${day}`)) {
+        throw new FhirError(400, "value", `${expression} is not a valid date`, expression);
+    }
+    return date;
+}
+
+/**
+ * FHIR date (YYYY-MM-DD) for a date-only field
+ */
+export function toFhirDate(date: Date): string {
+    return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Search results as a searchset Bundle with self, previous and next links
+ */
+export function searchsetBundle<R extends FhirResource>(
+    url: URL,
+    resources: R[],
+    total: number,
+    query: SearchQuery
+): Bundle<R> {
+    const base = `${url.origin}${url.pathname.replace(/\/[^/]+$/, "")}`;
+    const page = (offset: number) => {
+        const params = new URLSearchParams();
+        for (const [key, value] of query.params) {
+            if (!RESULT_PARAMS.includes(key)) params.append(key, value);
+        }
+        params.set("_count", String(query.count));
+        params.set("_offset", String(offset));
+        return `${url.origin}${url.pathname}?${params}`;
+    };
+
+    const link = [{ relation: "self", url: page(query.offset) }];
+    if (query.offset > 0) {
+        link.push({ relation: "previous", url: page(Math.max(query.offset - query.count, 0)) });
+    }
+    if (query.offset + resources.length < total) {
+        link.push({ relation: "next", url: page(query.offset + query.count) });
+    }
+
+    return {
+        resourceType: "Bundle",
+        type: "searchset",
+        timestamp: new Date().toISOString(),
+        total,
+        link,
+        entry: resources.map(resource => ({
+            fullUrl: `${base}/${resource.resourceType}/${resource.id}`,
+            resource,
+            search: { mode: "match" },
+        })),
+    };
+}
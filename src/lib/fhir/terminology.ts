@@ -0,0 +1,115 @@
+/**
+ * FHIR Terminology - code systems, extension URLs and value mappings
+ *
+ * Values the app stores as plain strings are mapped to the standard code
+ * systems; values with no standard code use the app's own `urn:med-agent`
+ * systems.
+ */
+
+import type { CodeableConcept, Coding } from "./types";
+
+export const SYSTEMS = {
+    icd10: "http://hl7.org/fhir/sid/icd-10-cm",
+    snomed: "http://snomed.info/sct",
+    loinc: "http://loinc.org",
+    rxnorm: "http://www.nlm.nih.gov/research/umls/rxnorm",
+    ucum: "http://unitsofmeasure.org",
+    dicom: "http://dicom.nema.org/resources/ontology/DCM",
+    dicomUid: "urn:dicom:uid",
+    identifierType: "http://terminology.hl7.org/CodeSystem/v2-0203",
+    contactRole: "http://terminology.hl7.org/CodeSystem/v2-0131",
+    diagnosticService: "http://terminology.hl7.org/CodeSystem/v2-0074",
+    actCode: "http://terminology.hl7.org/CodeSystem/v3-ActCode",
+    interpretation: "http://terminology.hl7.org/CodeSystem/v3-ObservationInterpretation",
+    conditionCategory: "http://terminology.hl7.org/CodeSystem/condition-category",
+    conditionClinical: "http://terminology.hl7.org/CodeSystem/condition-clinical",
+    conditionVerification: "http://terminology.hl7.org/CodeSystem/condition-ver-status",
+    allergyClinical: "http://terminology.hl7.org/CodeSystem/allergyintolerance-clinical",
+    allergyVerification: "http://terminology.hl7.org/CodeSystem/allergyintolerance-verification",
+    observationCategory: "http://terminology.hl7.org/CodeSystem/observation-category",
+    observationValue: "http://terminology.hl7.org/CodeSystem/v3-ObservationValue",
+    // App-defined
+    mrn: "urn:med-agent:mrn",
+    reportType: "urn:med-agent:report-type",
+    consciousness: "urn:med-agent:consciousness",
+} as const;
+
+export const EXTENSIONS = {
+    reportFindings: "urn:med-agent:extension:report-findings",
+    scanFileUrl: "urn:med-agent:extension:scan-file-url",
+    scanType: "urn:med-agent:extension:scan-type",
+    triageUrgency: "urn:med-agent:extension:triage-urgency",
+    esiLevel: "urn:med-agent:extension:esi-level",
+    analysisStatus: "urn:med-agent:extension:analysis-status",
+} as const;
+
+export const CONDITION_CLINICAL_STATUSES = ["active", "recurrence", "relapse", "inactive", "remission", "resolved"];
+export const CONDITION_VERIFICATION_STATUSES = ["unconfirmed", "provisional", "differential", "confirmed", "refuted", "entered-in-error"];
+export const ALLERGY_CLINICAL_STATUSES = ["active", "inactive", "resolved"];
+export const ALLERGY_VERIFICATION_STATUSES = ["unconfirmed", "confirmed", "refuted", "entered-in-error"];
+export const MEDICATION_STATUSES = ["active", "completed", "stopped", "on-hold", "unknown"];
+export const REPORT_STATUSES = ["registered", "partial", "preliminary", "final", "amended", "corrected", "cancelled"];
+export const REPORT_TYPES = ["lab", "pathology", "radiology", "cardiology", "other"];
+export const ENCOUNTER_STATUSES = ["planned", "in-progress", "finished", "cancelled"];
+export const GENDERS = ["male", "female", "other", "unknown"];
+
+// Condition.severity (SNOMED CT)
+export const SEVERITY_CODES: Record<string, string> = {
+    mild: "255604002",
+    moderate: "6736007",
+    severe: "24484000",
+};
+
+// AllergyIntolerance.criticality by MedicalHistory.severity
+export const CRITICALITY_CODES: Record<string, string> = {
+    mild: "low",
+    moderate: "low",
+    severe: "high",
+};
+
+// DiagnosticReport.category (v2-0074) by ExternalReport.type
+export const REPORT_SERVICE_CODES: Record<string, string> = {
+    lab: "LAB",
+    pathology: "SP",
+    radiology: "RAD",
+};
+
+// Encounter.class (v3-ActCode) by Encounter.encounterType
+export const ENCOUNTER_CLASS_CODES: Record<string, string> = {
+    ambulatory: "AMB",
+    emergency: "EMER",
+    inpatient: "IMP",
+    virtual: "VR",
+};
+
+// Observation.interpretation by the extracted lab flag
+export const INTERPRETATION_CODES: Record<string, string> = {
+    H: "High",
+    L: "Low",
+    HH: "Critical high",
+    LL: "Critical low",
+    A: "Abnormal",
+    N: "Normal",
+};
+
+export function coding(system: string, code: string, display?: string): Coding {
+    return display ? { system, code, display } : { system, code };
+}
+
+export function concept(system: string, code: string, display?: string): CodeableConcept {
+    return { coding: [coding(system, code, display)] };
+}
+
+/**
+ * First code from `system` in a CodeableConcept
+ */
+export function findCode(value: CodeableConcept | undefined, system: string): string | undefined {
+    return value?.coding?.find(c => c.system === system)?.code;
+}
+
+/**
+ * Human-readable text of a CodeableConcept: its text, else the first display or code
+ */
+export function conceptText(value: CodeableConcept | undefined): string | undefined {
+    return value?.text || value?.coding?.find(c => c.display)?.display || value?.coding?.find(c => c.code)?.code;
+}
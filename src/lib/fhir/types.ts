@@ -0,0 +1,330 @@
+/**
+ * FHIR R4 Types
+ *
+ * The subset of the FHIR R4 data types and resources the API reads and
+ * writes (https://hl7.org/fhir/R4/). Elements the app does not store are
+ * left out.
+ */
+
+export interface Coding {
+    system?: string;
+    code?: string;
+    display?: string;
+}
+
+export interface CodeableConcept {
+    coding?: Coding[];
+    text?: string;
+}
+
+export interface Reference {
+    reference?: string;
+    display?: string;
+}
+
+export interface Identifier {
+    use?: string;
+    type?: CodeableConcept;
+    system?: string;
+    value?: string;
+}
+
+export interface Period {
+    start?: string;
+    end?: string;
+}
+
+export interface Quantity {
+    value?: number;
+    unit?: string;
+    system?: string;
+    code?: string;
+    comparator?: string;
+}
+
+export interface Range {
+    low?: Quantity;
+    high?: Quantity;
+}
+
+export interface Annotation {
+    text: string;
+}
+
+export interface Extension {
+    url: string;
+    valueString?: string;
+    valueUrl?: string;
+    valueInteger?: number;
+}
+
+export interface HumanName {
+    use?: string;
+    text?: string;
+    family?: string;
+    given?: string[];
+}
+
+export interface ContactPoint {
+    system?: "phone" | "email" | "fax" | "pager" | "url" | "sms" | "other";
+    value?: string;
+    use?: string;
+}
+
+export interface Address {
+    use?: string;
+    text?: string;
+    line?: string[];
+    city?: string;
+    state?: string;
+    postalCode?: string;
+    country?: string;
+}
+
+export interface Attachment {
+    contentType?: string;
+    url?: string;
+    title?: string;
+}
+
+export interface Meta {
+    lastUpdated?: string;
+    profile?: string[];
+    tag?: Coding[];
+}
+
+interface ResourceBase {
+    id?: string;
+    meta?: Meta;
+    extension?: Extension[];
+}
+
+export interface Patient extends ResourceBase {
+    resourceType: "Patient";
+    identifier?: Identifier[];
+    name?: HumanName[];
+    telecom?: ContactPoint[];
+    gender?: string;
+    birthDate?: string;
+    address?: Address[];
+    contact?: {
+        relationship?: CodeableConcept[];
+        name?: HumanName;
+        telecom?: ContactPoint[];
+    }[];
+}
+
+export interface Condition extends ResourceBase {
+    resourceType: "Condition";
+    identifier?: Identifier[];
+    clinicalStatus?: CodeableConcept;
+    verificationStatus?: CodeableConcept;
+    category?: CodeableConcept[];
+    severity?: CodeableConcept;
+    code?: CodeableConcept;
+    subject: Reference;
+    onsetDateTime?: string;
+    abatementDateTime?: string;
+    recordedDate?: string;
+    note?: Annotation[];
+}
+
+export interface AllergyIntolerance extends ResourceBase {
+    resourceType: "AllergyIntolerance";
+    identifier?: Identifier[];
+    clinicalStatus?: CodeableConcept;
+    verificationStatus?: CodeableConcept;
+    category?: string[];
+    criticality?: string;
+    code?: CodeableConcept;
+    patient: Reference;
+    onsetDateTime?: string;
+    recordedDate?: string;
+    reaction?: {
+        manifestation?: CodeableConcept[];
+        severity?: string;
+    }[];
+    note?: Annotation[];
+}
+
+export interface Dosage {
+    text?: string;
+    timing?: { code?: CodeableConcept };
+    route?: CodeableConcept;
+    doseAndRate?: { doseQuantity?: Quantity }[];
+}
+
+export interface MedicationStatement extends ResourceBase {
+    resourceType: "MedicationStatement";
+    identifier?: Identifier[];
+    status: string;
+    medicationCodeableConcept?: CodeableConcept;
+    subject: Reference;
+    effectivePeriod?: Period;
+    effectiveDateTime?: string;
+    dateAsserted?: string;
+    informationSource?: Reference;
+    reasonCode?: CodeableConcept[];
+    note?: Annotation[];
+    dosage?: Dosage[];
+}
+
+export interface DiagnosticReport extends ResourceBase {
+    resourceType: "DiagnosticReport";
+    identifier?: Identifier[];
+    status: string;
+    category?: CodeableConcept[];
+    code: CodeableConcept;
+    subject?: Reference;
+    effectiveDateTime?: string;
+    issued?: string;
+    performer?: Reference[];
+    result?: Reference[];
+    conclusion?: string;
+    presentedForm?: Attachment[];
+}
+
+export interface Encounter extends ResourceBase {
+    resourceType: "Encounter";
+    identifier?: Identifier[];
+    status: string;
+    class: Coding;
+    type?: CodeableConcept[];
+    subject?: Reference;
+    period?: Period;
+    reasonCode?: CodeableConcept[];
+}
+
+export interface ImagingStudy extends ResourceBase {
+    resourceType: "ImagingStudy";
+    identifier?: Identifier[];
+    status: string;
+    modality?: Coding[];
+    subject: Reference;
+    encounter?: Reference;
+    started?: string;
+    description?: string;
+    note?: Annotation[];
+    series?: {
+        uid: string;
+        modality: Coding;
+        bodySite?: Coding;
+        instance?: { uid: string; sopClass: Coding }[];
+    }[];
+}
+
+export interface ObservationComponent {
+    code: CodeableConcept;
+    valueQuantity?: Quantity;
+}
+
+export interface Observation extends ResourceBase {
+    resourceType: "Observation";
+    identifier?: Identifier[];
+    status: string;
+    category?: CodeableConcept[];
+    code: CodeableConcept;
+    subject?: Reference;
+    encounter?: Reference;
+    effectiveDateTime?: string;
+    valueQuantity?: Quantity;
+    valueString?: string;
+    valueCodeableConcept?: CodeableConcept;
+    interpretation?: CodeableConcept[];
+    referenceRange?: { text?: string }[];
+    derivedFrom?: Reference[];
+    component?: ObservationComponent[];
+}
+
+export interface ClinicalImpression extends ResourceBase {
+    resourceType: "ClinicalImpression";
+    status: string;
+    subject: Reference;
+    encounter?: Reference;
+    date?: string;
+    summary?: string;
+    description?: string;
+    finding?: { itemCodeableConcept?: CodeableConcept; basis?: string }[];
+    prognosisCodeableConcept?: CodeableConcept[];
+    note?: Annotation[];
+}
+
+export type OperationOutcomeIssueType =
+    | "invalid"
+    | "required"
+    | "value"
+    | "not-found"
+    | "not-supported"
+    | "duplicate"
+    | "processing"
+    | "login"
+    | "exception";
+
+export interface OperationOutcome extends ResourceBase {
+    resourceType: "OperationOutcome";
+    issue: {
+        severity: "fatal" | "error" | "warning" | "information";
+        code: OperationOutcomeIssueType;
+        diagnostics?: string;
+        expression?: string[];
+    }[];
+}
+
+export type FhirResource =
+    | Patient
+    | Condition
+    | AllergyIntolerance
+    | MedicationStatement
+    | DiagnosticReport
+    | Encounter
+    | ImagingStudy
+    | Observation
+    | ClinicalImpression;
+
+export interface BundleEntry<R = FhirResource> {
+    fullUrl?: string;
+    resource?: R;
+    search?: { mode: "match" | "include" };
+    request?: { method: string; url: string };
+    response?: { status: string; location?: string; outcome?: OperationOutcome };
+}
+
+export interface Bundle<R = FhirResource> extends ResourceBase {
+    resourceType: "Bundle";
+    type: "searchset" | "collection" | "transaction" | "transaction-response" | "batch" | "batch-response" | "document";
+    timestamp?: string;
+    total?: number;
+    link?: { relation: string; url: string }[];
+    entry?: BundleEntry<R>[];
+}
+
+export interface CapabilityStatement {
+    resourceType: "CapabilityStatement";
+    status: "active";
+    date: string;
+    kind: "instance";
+    software: { name: string };
+    implementation: { description: string; url: string };
+    fhirVersion: "4.0.1";
+    format: string[];
+    rest: {
+        mode: "server";
+        security?: { description: string };
+        interaction?: { code: "transaction" | "batch" }[];
+        resource: {
+            type: string;
+            documentation?: string;
+            interaction: { code: "read" | "search-type" | "create" }[];
+            searchParam: { name: string; type: SearchParamType; documentation?: string }[];
+            operation?: OperationDefinitionReference[];
+        }[];
+        operation?: OperationDefinitionReference[];
+    }[];
+}
+
+export interface OperationDefinitionReference {
+    name: string;
+    definition: string;
+}
+
+export type SearchParamType = "token" | "reference" | "date" | "string" | "number";
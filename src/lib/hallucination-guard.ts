@@ -0,0 +1,309 @@
+/**
+ * Hallucination Guard - medications and conditions the generated text
+ * attributes to the patient without a matching record
+ *
+ * The executive summary and diagnostic reasoning are scanned for drug mentions
+ * (names and classes from the interaction dataset, plus common drug-name stems
+ * such as -pril and -statin) and for common chronic conditions. A mention only
+ * counts as an assertion about the patient when its sentence says so ("on
+ * warfarin", "her metformin", and for conditions history phrasing such as
+ * "history of CKD"); the current presentation, treatment suggestions,
+ * differentials and denials ("consider heparin", "no history of diabetes")
+ * are left alone. Each assertion is checked against the patient's Medication
+ * and MedicalHistory rows (family history doesn't count).
+ *
+ * HALLUCINATION_GUARD_MODE decides what happens to unsupported assertions:
+ * - annotate (default): marked inline, e.g. "warfarin [unverified: not in medication list]"
+ * - reject: the sentence is removed
+ * - off: no check
+ * Either way they are listed on the report.
+ */
+
+import type {
+    MedicalHistoryContext,
+    MedicationContext,
+    OrchestratedMedicalReport,
+    UnsupportedMention,
+} from "@/lib/ai/agents/types";
+import type { DrugMentionVocabulary } from "@/lib/drug-interactions";
+import { isNegated } from "@/lib/negation";
+
+export type HallucinationGuardMode = "annotate" | "reject" | "off";
+
+type GuardedField = UnsupportedMention["field"];
+
+interface Mention {
+    kind: UnsupportedMention["kind"];
+    term: string;
+    index: number;
+    supported: boolean;
+}
+
+// Drug-name stems for medications the interaction dataset doesn't list
+const DRUG_STEM = /\b[a-z]{3,}(?:pril|sartan|olol|statin|azole|cillin|mycin|floxacin|prazole|gliptin|gliflozin|glutide|parin|xaban|gatran|dipine|tidine|triptan|setron|semide|thiazide|lukast|oxetine|pam|lam)\b/gi;
+
+// Common chronic conditions, with the ICD-10 code prefixes that record them
+const CONDITIONS: { name: string; pattern: RegExp; icd10: string[] }[] = [
+    { name: "hypertension", pattern: /\b(hypertension|hypertensive|htn|high blood pressure)\b/i, icd10: ["I10", "I11", "I12", "I13", "I15", "I16"] },
+    { name: "diabetes", pattern: /\b(diabetes|diabetic|t[12]dm|dm ?[12]|niddm|iddm)\b/i, icd10: ["E08", "E09", "E10", "E11", "E13"] },
+    { name: "chronic kidney disease", pattern: /\b(chronic kidney disease|ckd|chronic renal (failure|insufficiency)|esrd|end[- ]stage renal)\b/i, icd10: ["N18", "N19", "I12", "I13"] },
+    { name: "heart failure", pattern: /\b(heart failure|chf|hfref|hfpef|cardiac failure)\b/i, icd10: ["I50", "I11.0", "I13.0", "I13.2"] },
+    { name: "coronary artery disease", pattern: /\b(coronary artery disease|cad|ischemic heart disease|ischaemic heart disease|ihd)\b/i, icd10: ["I20", "I25"] },
+    { name: "myocardial infarction", pattern: /\b(myocardial infarction|heart attack|nstemi|stemi)\b/i, icd10: ["I21", "I22", "I25.2"] },
+    { name: "atrial fibrillation", pattern: /\b(atrial fibrillation|a-?fib|af)\b/i, icd10: ["I48"] },
+    { name: "stroke", pattern: /\b(stroke|cva|cerebrovascular accident|tia|transient ischa?emic attack)\b/i, icd10: ["I63", "I64", "G45", "Z86.73"] },
+    { name: "COPD", pattern: /\b(copd|chronic obstructive pulmonary disease|emphysema|chronic bronchitis)\b/i, icd10: ["J43", "J44"] },
+    { name: "asthma", pattern: /\basthma(tic)?\b/i, icd10: ["J45"] },
+    { name: "cancer", pattern: /\b(cancer|malignancy|carcinoma|lymphoma|leukemia|leukaemia|melanoma|sarcoma)\b/i, icd10: ["C", "D0", "Z85"] },
+    { name: "venous thromboembolism", pattern: /\b(dvt|deep vein thrombosis|pulmonary embol(ism|us)|vte)\b/i, icd10: ["I26", "I80", "I82", "Z86.71"] },
+    { name: "hypothyroidism", pattern: /\bhypothyroid(ism)?\b/i, icd10: ["E02", "E03"] },
+    { name: "hyperthyroidism", pattern: /\b(hyperthyroid(ism)?|graves'? disease)\b/i, icd10: ["E05"] },
+    { name: "cirrhosis", pattern: /\b(cirrhosis|chronic liver disease)\b/i, icd10: ["K70.3", "K74"] },
+    { name: "HIV", pattern: /\b(hiv|aids)\b/i, icd10: ["B20", "Z21"] },
+    { name: "epilepsy", pattern: /\b(epilepsy|epileptic|seizure disorder)\b/i, icd10: ["G40"] },
+    { name: "dementia", pattern: /\b(dementia|alzheimer'?s)\b/i, icd10: ["F01", "F02", "F03", "G30"] },
+    { name: "depression", pattern: /\b(depression|major depressive disorder|mdd)\b/i, icd10: ["F32", "F33"] },
+    { name: "hyperlipidemia", pattern: /\b(hyperlipid(a)?emia|hypercholesterol(a)?emia|dyslipid(a)?emia)\b/i, icd10: ["E78"] },
+    { name: "obesity", pattern: /\b(obesity|obese)\b/i, icd10: ["E66"] },
+    { name: "osteoporosis", pattern: /\bosteoporo(sis|tic)\b/i, icd10: ["M80", "M81"] },
+    { name: "rheumatoid arthritis", pattern: /\brheumatoid arthritis\b/i, icd10: ["M05", "M06"] },
+    { name: "sleep apnea", pattern: /\b(sleep apno?ea|osa)\b/i, icd10: ["G47.3"] },
+    { name: "pregnancy", pattern: /\bpregnan(t|cy)\b/i, icd10: ["O", "Z33", "Z34"] },
+];
+
+// Phrases that attribute a medication or condition to the patient
+const MEDICATION_CUE = /\b(?:on|taking|takes|took|prescribed|receiving|maintained on|current medications?|home medications?|medications? (?:include|including|list)|regimen of|compliant with|adherent to|continue|continuing|hold|holding|held|discontinue|stopped|his|her|their|patient's|history of|hx of)\b/gi;
+// Conditions only by history phrasing, so the current presentation ("has an acute stroke") isn't checked
+const CONDITION_CUE = /\b(?:history of|hx of|pmh|past medical history|known|diagnosed with|pre-?existing|longstanding|long-standing|background of|comorbidit(?:y|ies)|suffers from|living with)\b/gi;
+// Hedges between the cue and the mention
+const HEDGE = /\b(consider|considering|start|starting|initiate|recommend|give|administer|add|adding|switch|avoid|if|should|would|could|may|might|possible|possibly|suspected|suspect|likely|probable|concern for|concerning for|consistent with|suggest\w*|indicat\w*|rule out|r\/o|exclude|differential|evaluate|evaluation|workup|new|new-onset|newly|develop\w*|versus|vs\.?)\b/i;
+
+const MARKERS: Record<UnsupportedMention["kind"], string> = {
+    medication: "not in medication list",
+    condition: "not in medical history",
+};
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Mode from HALLUCINATION_GUARD_MODE (annotate when unset or unrecognized)
+ */
+export function getHallucinationGuardMode(): HallucinationGuardMode {
+    const mode = process.env.HALLUCINATION_GUARD_MODE?.trim().toLowerCase();
+    return mode === "reject" || mode === "off" ? mode : "annotate";
+}
+
+// Start and end of the sentence around an index; decimal points don't end a sentence
+function sentenceBounds(text: string, index: number): [number, number] {
+    const boundary = /[.!?](?=\s|$)|[;\n]/g;
+    let start = 0;
+    let end = text.length;
+    for (const match of text.matchAll(boundary)) {
+        if (match.index < index) {
+            start = match.index + 1;
+        } else {
+            end = match.index + 1;
+            break;
+        }
+    }
+    return [start, end];
+}
+
+/**
+ * Whether the words before a mention attribute it to the patient
+ */
+function isAssertion(text: string, index: number, cue: RegExp): boolean {
+    const [start] = sentenceBounds(text, index);
+    const before = text.slice(start, index);
+    // Denied anywhere earlier in the mention's own clause
+    if (isNegated(text, index, { window: Infinity })) return false;
+
+    const cues = [...before.matchAll(cue)];
+    const last = cues[cues.length - 1];
+    if (!last) return false;
+    return !HEDGE.test(before.slice(last.index + last[0].length));
+}
+
+// Whole-word, case-insensitive; class names match singular and plural
+function termPattern(term: string): string {
+    return `(?<![a-z0-9])${escapeRegExp(term.toLowerCase().replace(/s$/, ""))}s?(?![a-z0-9])`;
+}
+
+function mentionsTerm(text: string, term: string): boolean {
+    return new RegExp(termPattern(term), "i").test(text);
+}
+
+function findMedicationMentions(
+    text: string,
+    medications: MedicationContext[],
+    vocabulary: DrugMentionVocabulary
+): Mention[] {
+    const agentsByTerm = new Map(vocabulary.terms.map(t => [t.term.toLowerCase(), t.agent]));
+    const terms = [...agentsByTerm.keys()].sort((a, b) => b.length - a.length);
+    const found = new Map<number, string>();
+    if (terms.length > 0) {
+        for (const match of text.matchAll(new RegExp(terms.map(termPattern).join("|"), "gi"))) {
+            found.set(match.index, match[0]);
+        }
+    }
+    for (const match of text.matchAll(DRUG_STEM)) {
+        if (!found.has(match.index)) found.set(match.index, match[0]);
+    }
+
+    const patientAgents = new Set(vocabulary.patientAgents);
+    const medicationNames = medications.map(m => [m.name, m.genericName].filter(Boolean).join(" "));
+
+    return [...found.entries()]
+        .filter(([index]) => isAssertion(text, index, MEDICATION_CUE))
+        .map(([index, term]) => {
+            const lower = term.toLowerCase();
+            const agent = agentsByTerm.get(lower) ?? agentsByTerm.get(lower.replace(/s$/, "")) ?? agentsByTerm.get(`${lower}s`);
+            const supported = (agent !== undefined && patientAgents.has(agent)) ||
+                medicationNames.some(name => mentionsTerm(name, term) || mentionsTerm(term, name));
+            return { kind: "medication" as const, term, index, supported };
+        });
+}
+
+function findConditionMentions(text: string, medicalHistory: MedicalHistoryContext[]): Mention[] {
+    const history = medicalHistory.filter(h => h.type !== "family_history");
+    const mentions: Mention[] = [];
+    for (const condition of CONDITIONS) {
+        const pattern = new RegExp(condition.pattern.source, "gi");
+        for (const match of text.matchAll(pattern)) {
+            if (!isAssertion(text, match.index, CONDITION_CUE)) continue;
+            const supported = history.some(h =>
+                condition.pattern.test(`${h.description} ${h.notes ?? ""}`) ||
+                condition.icd10.some(prefix => h.icd10Code?.toUpperCase().startsWith(prefix))
+            );
+            mentions.push({ kind: "condition", term: match[0], index: match.index, supported });
+        }
+    }
+    return mentions;
+}
+
+/**
+ * Check one generated text, returning it annotated or with unsupported sentences removed
+ */
+export function guardText(
+    text: string,
+    field: GuardedField,
+    patient: { medications: MedicationContext[]; medicalHistory: MedicalHistoryContext[] },
+    vocabulary: DrugMentionVocabulary,
+    mode: Exclude<HallucinationGuardMode, "off">
+): { text: string; unsupported: UnsupportedMention[] } {
+    const mentions = [
+        ...findMedicationMentions(text, patient.medications, vocabulary),
+        ...findConditionMentions(text, patient.medicalHistory),
+    ]
+        .filter(m => !m.supported)
+        .sort((a, b) => a.index - b.index);
+
+    const action = mode === "reject" ? "removed" : "annotated";
+    const unsupported = mentions.map(m => {
+        const [start, end] = sentenceBounds(text, m.index);
+        return {
+            field,
+            kind: m.kind,
+            term: m.term,
+            sentence: text.slice(start, end).trim(),
+            reason: `${m.term} is ${MARKERS[m.kind]}`,
+            action,
+        } satisfies UnsupportedMention;
+    });
+
+    // Edit from the end so earlier indexes stay valid
+    let guarded = text;
+    if (mode === "reject") {
+        const ranges = [...new Map(mentions.map(m => {
+            const bounds = sentenceBounds(text, m.index);
+            return [bounds[0], bounds] as const;
+        })).values()];
+        for (const [start, end] of ranges.reverse()) {
+            guarded = guarded.slice(0, start) + guarded.slice(end);
+        }
+        guarded = guarded.replace(/[ \t]{2,}/g, " ").trim();
+    } else {
+        for (const m of [...mentions].reverse()) {
+            const end = m.index + m.term.length;
+            guarded = `${guarded.slice(0, end)} [unverified: ${MARKERS[m.kind]}]${guarded.slice(end)}`;
+        }
+    }
+
+    return { text: guarded, unsupported };
+}
+
+/**
+ * Patient summary entries must come from active medication and history rows
+ */
+function guardPatientSummary(
+    summary: OrchestratedMedicalReport["patientSummary"],
+    patient: { medications: MedicationContext[]; medicalHistory: MedicalHistoryContext[] },
+    mode: Exclude<HallucinationGuardMode, "off">
+): { summary: OrchestratedMedicalReport["patientSummary"]; unsupported: UnsupportedMention[] } {
+    const unsupported: UnsupportedMention[] = [];
+    const action = mode === "reject" ? "removed" : "annotated";
+
+    const check = (entries: string[], kind: UnsupportedMention["kind"], isRecorded: (entry: string) => boolean) =>
+        entries.flatMap(entry => {
+            if (isRecorded(entry)) return [entry];
+            unsupported.push({ field: "patientSummary", kind, term: entry, sentence: entry, reason: `${entry} is ${MARKERS[kind]}`, action });
+            return mode === "reject" ? [] : [`${entry} [unverified: ${MARKERS[kind]}]`];
+        });
+
+    return {
+        summary: {
+            ...summary,
+            activeMedications: check(summary.activeMedications, "medication", entry =>
+                patient.medications.some(m => m.status === "active" && entry.toLowerCase().startsWith(m.name.toLowerCase()))
+            ),
+            relevantHistory: check(summary.relevantHistory, "condition", entry =>
+                patient.medicalHistory.some(h => h.description.toLowerCase() === entry.toLowerCase())
+            ),
+        },
+        unsupported,
+    };
+}
+
+/**
+ * Check the executive summary, diagnostic reasoning and patient summary of a
+ * compiled report; the reasoning chain gets the guarded reasoning and a list
+ * of what was flagged
+ */
+export function guardReport(
+    report: OrchestratedMedicalReport,
+    patient: { medications: MedicationContext[]; medicalHistory: MedicalHistoryContext[] },
+    vocabulary: DrugMentionVocabulary,
+    mode: HallucinationGuardMode = getHallucinationGuardMode()
+): OrchestratedMedicalReport {
+    if (mode === "off") return report;
+
+    const summary = guardText(report.executiveSummary, "executiveSummary", patient, vocabulary, mode);
+    const reasoning = guardText(report.diagnosis.reasoning, "reasoning", patient, vocabulary, mode);
+    const patientSummary = guardPatientSummary(report.patientSummary, patient, mode);
+    const unsupportedMentions = [...summary.unsupported, ...reasoning.unsupported, ...patientSummary.unsupported];
+
+    let reasoningChain = report.reasoningChain.replace(report.diagnosis.reasoning, () => reasoning.text);
+    if (unsupportedMentions.length > 0) {
+        reasoningChain += `\n\n### Unsupported Mentions\n${formatUnsupportedMentions(unsupportedMentions)}`;
+    }
+
+    return {
+        ...report,
+        executiveSummary: summary.text,
+        diagnosis: { ...report.diagnosis, reasoning: reasoning.text },
+        patientSummary: patientSummary.summary,
+        reasoningChain,
+        unsupportedMentions,
+    };
+}
+
+/**
+ * Unsupported mentions as a markdown list, for the reasoning chain
+ */
+export function formatUnsupportedMentions(mentions: UnsupportedMention[]): string {
+    return mentions
+        .map(m => `- ${m.reason} (${m.field}, ${m.action}): "${m.sentence}"`)
+        .join("\n");
+}
@@ -0,0 +1,227 @@
+/**
+ * Medical Code Tables - ICD-10-CM and CPT reference data
+ *
+ * The tables are loaded from the standard release files with
+ * scripts/import-code-tables.ts:
+ * - ICD-10-CM: the CMS "order" file (icd10cm_order_<year>.txt), which lists
+ *   every code with a flag telling billable codes from header codes
+ * - CPT: the AMA data file, one code and description per line
+ *
+ * Suggested codes are validated against them: unknown codes are rejected, and
+ * so are header codes, which need further characters (e.g. laterality or a
+ * 7th character) before they can be billed. When a table is empty the codes
+ * of that system are passed through unverified.
+ */
+
+import { prisma } from "@/lib/db";
+import type { CodeSystem, CPTCode, ICD10Code, RejectedCode } from "@/lib/ai/agents/types";
+
+// Billable codes offered as alternatives to a header code
+const MAX_ALTERNATIVES = 5;
+
+export interface Icd10CmRow {
+    code: string;
+    billable: boolean;
+    description: string;
+}
+
+export interface CptRow {
+    code: string;
+    description: string;
+}
+
+/**
+ * Strip the dot and whitespace from an ICD-10-CM code ("s93.401a" -> "S93401A")
+ */
+export function normalizeIcd10(code: string): string {
+    return code.toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+/**
+ * Display form of an ICD-10-CM code, with the dot after the category ("S93401A" -> "S93.401A")
+ */
+export function formatIcd10(code: string): string {
+    const normalized = normalizeIcd10(code);
+    return normalized.length > 3 ? `${normalized.slice(0, 3)}.${normalized.slice(3)}` : normalized;
+}
+
+/**
+ * Parse the ICD-10-CM order file. Fixed-width columns: order number (1-5),
+ * code (7-13), header flag (15, "1" = billable), short description (17-76),
+ * long description (78-).
+ */
+export function parseIcd10CmOrderFile(text: string): Icd10CmRow[] {
+    const rows: Icd10CmRow[] = [];
+    for (const line of text.split(/\r?\n/)) {
+        if (line.trim().length === 0) continue;
+
+        const code = line.slice(6, 13).trim();
+        const flag = line.charAt(14);
+        if (!/^[A-Z][0-9A-Z]{2,6}$/.test(code) || (flag !== "0" && flag !== "1")) {
+            throw new Error(`Unrecognized ICD-10-CM order file line: "${line.slice(0, 40)}"`);
+        }
+
+        rows.push({
+            code,
+            billable: flag === "1",
+            description: line.slice(77).trim() || line.slice(16, 76).trim(),
+        });
+    }
+    return rows;
+}
+
+/**
+ * Parse a CPT code file: a code followed by a tab, pipe or spaces and its description
+ */
+export function parseCptFile(text: string): CptRow[] {
+    const rows: CptRow[] = [];
+    for (const line of text.split(/\r?\n/)) {
+        const match = line.trim().match(/^"?([0-9]{4}[0-9FTU])"?[\t|, ]+"?(.+?)"?$/);
+        // Header rows and copyright notices are skipped
+        if (match) {
+            rows.push({ code: match[1], description: match[2].trim() });
+        }
+    }
+    return rows;
+}
+
+/**
+ * Name what a header code is missing, judged from its billable children
+ */
+function describeMissingSpecificity(header: string, children: Icd10CmRow[]): string {
+    const missing: string[] = [];
+    const descriptions = children.map(c => c.description.toLowerCase());
+    if (descriptions.some(d => /\b(right|left)\b/.test(d))) {
+        missing.push("laterality");
+    }
+    if (
+        children.length > 0 &&
+        children.every(c => c.code.length === 7) &&
+        descriptions.some(d => /(initial|subsequent) encounter|sequela/.test(d))
+    ) {
+        missing.push("a 7th character (encounter)");
+    }
+
+    const requirement = missing.length > 0 ? missing.join(" and ") : "further characters";
+    return `${formatIcd10(header)} is a non-billable header code; it requires ${requirement}`;
+}
+
+async function validateIcd10Codes(codes: ICD10Code[]): Promise<{ valid: ICD10Code[]; rejected: RejectedCode[] }> {
+    const normalized = codes.map(c => normalizeIcd10(c.code));
+    const entries = await prisma.icd10CmEntry.findMany({ where: { code: { in: normalized } } });
+    const byCode = new Map(entries.map(entry => [entry.code, entry]));
+
+    const valid: ICD10Code[] = [];
+    const rejected: RejectedCode[] = [];
+    for (const [i, suggestion] of codes.entries()) {
+        const entry = byCode.get(normalized[i]);
+        if (!entry) {
+            rejected.push({
+                system: "ICD-10-CM",
+                code: suggestion.code,
+                description: suggestion.description,
+                reason: `${suggestion.code} is not an ICD-10-CM code`,
+            });
+            continue;
+        }
+
+        if (!entry.billable) {
+            const children = await prisma.icd10CmEntry.findMany({
+                where: { code: { startsWith: entry.code }, billable: true },
+                orderBy: { code: "asc" },
+                take: 100,
+            });
+            rejected.push({
+                system: "ICD-10-CM",
+                code: formatIcd10(entry.code),
+                description: entry.description,
+                reason: describeMissingSpecificity(entry.code, children),
+                alternatives: children
+                    .slice(0, MAX_ALTERNATIVES)
+                    .map(child => `${formatIcd10(child.code)} - ${child.description}`),
+            });
+            continue;
+        }
+
+        // The table's description replaces the model's wording
+        valid.push({ ...suggestion, code: formatIcd10(entry.code), description: entry.description });
+    }
+    return { valid, rejected };
+}
+
+async function validateCptCodes(codes: CPTCode[]): Promise<{ valid: CPTCode[]; rejected: RejectedCode[] }> {
+    const entries = await prisma.cptEntry.findMany({ where: { code: { in: codes.map(c => c.code) } } });
+    const byCode = new Map(entries.map(entry => [entry.code, entry]));
+
+    const valid: CPTCode[] = [];
+    const rejected: RejectedCode[] = [];
+    for (const suggestion of codes) {
+        const entry = byCode.get(suggestion.code);
+        if (entry) {
+            valid.push({ ...suggestion, description: entry.description });
+        } else {
+            rejected.push({
+                system: "CPT",
+                code: suggestion.code,
+                description: suggestion.description,
+                reason: `${suggestion.code} is not a CPT code`,
+            });
+        }
+    }
+    return { valid, rejected };
+}
+
+/**
+ * Validate suggested codes against the code tables. Codes of a system whose
+ * table is empty or unreachable are returned unchanged and unverified.
+ */
+export async function validateSuggestedCodes(
+    icd10Codes: ICD10Code[],
+    cptCodes: CPTCode[]
+): Promise<{
+    icd10Codes: ICD10Code[];
+    cptCodes: CPTCode[];
+    rejectedCodes: RejectedCode[];
+    verifiedCodeSystems: CodeSystem[];
+}> {
+    const result = {
+        icd10Codes,
+        cptCodes,
+        rejectedCodes: [] as RejectedCode[],
+        verifiedCodeSystems: [] as CodeSystem[],
+    };
+
+    try {
+        const [icd10Loaded, cptLoaded] = await Promise.all([
+            prisma.icd10CmEntry.findFirst({ select: { code: true } }),
+            prisma.cptEntry.findFirst({ select: { code: true } }),
+        ]);
+
+        if (icd10Loaded) {
+            const { valid, rejected } = await validateIcd10Codes(icd10Codes);
+            result.icd10Codes = valid;
+            result.rejectedCodes.push(...rejected);
+            result.verifiedCodeSystems.push("ICD-10-CM");
+        } else {
+            console.warn("[MedicalCodes] ICD-10-CM table is empty; codes are not validated");
+        }
+
+        if (cptLoaded) {
+            const { valid, rejected } = await validateCptCodes(cptCodes);
+            result.cptCodes = valid;
+            result.rejectedCodes.push(...rejected);
+            result.verifiedCodeSystems.push("CPT");
+        } else {
+            console.warn("[MedicalCodes] CPT table is empty; codes are not validated");
+        }
+    } catch (error) {
+        console.error("[MedicalCodes] Code validation unavailable:", error);
+        return { icd10Codes, cptCodes, rejectedCodes: [], verifiedCodeSystems: [] };
+    }
+
+    if (result.rejectedCodes.length > 0) {
+        console.log(`[MedicalCodes] Rejected ${result.rejectedCodes.length} suggested code(s):`,
+            result.rejectedCodes.map(c => `${c.system} ${c.code}`));
+    }
+    return result;
+}
@@ -0,0 +1,41 @@
+/**
+ * Negation - whether a mention in clinical text is denied
+ *
+ * A negation word ("no", "denies", "negative for") denies what follows it up
+ * to the end of its clause. Clauses end at punctuation and at words that start
+ * a new statement, so in "no headache but sudden slurred speech" and "denies
+ * fever, has crushing chest pain" only the first finding is denied. Used by
+ * the red-flag rules, clinical calculators, ESI and the hallucination guard.
+ */
+
+// "never" except in "never had/felt/experienced ...", which describes a finding that is present
+const NEGATION = /\b(?:no|not|denies|denied|denying|without|negative for|absence of|nor|never(?!\s+(?:had|felt|experienced)\b))\b/gi;
+// Punctuation and words that end the scope of a negation before them
+const CLAUSE_BOUNDARY = /[.;,:!?\n]|\b(?:but|and|however|although|though|yet|with|except|while|whereas|plus|then|reports?|reporting|presents?|presenting|complains?|complaining|endorses?|endorsing)\b/gi;
+
+// Characters a negation reaches within its clause
+const DEFAULT_WINDOW = 30;
+
+/**
+ * Whether the mention at `index` is denied by a negation earlier in its clause,
+ * ending at most `window` characters before it
+ */
+export function isNegated(text: string, index: number, { window = DEFAULT_WINDOW } = {}): boolean {
+    const before = text.slice(0, index);
+    const boundaries = [...before.matchAll(CLAUSE_BOUNDARY)];
+    const last = boundaries[boundaries.length - 1];
+    const clause = last ? before.slice(last.index + last[0].length) : before;
+
+    return [...clause.matchAll(NEGATION)].some(match => clause.length - (match.index + match[0].length) <= window);
+}
+
+/**
+ * First match of `pattern` in the text that isn't denied
+ */
+export function affirmedMatch(text: string, pattern: RegExp, options: { window?: number } = {}): RegExpMatchArray | null {
+    const global = new RegExp(pattern.source, pattern.flags.includes("g") ? pattern.flags : `${pattern.flags}g`);
+    for (const match of text.matchAll(global)) {
+        if (!isNegated(text, match.index, options)) return match;
+    }
+    return null;
+}
@@ -0,0 +1,465 @@
+/**
+ * Red-Flag Rules - deterministic red flags that don't depend on the model
+ *
+ * Rules are stored in RedFlagRule and edited by admins from the settings page.
+ * A rule matches when all of its conditions hold:
+ * - symptom: the presenting symptoms mention a keyword (not when denied in
+ *   the same clause, e.g. "no chest pain"; see ./negation.ts)
+ * - vital / consciousness: a recorded vital sign crosses a threshold
+ * - age / gender: demographics
+ * - condition / medication: an active history entry or medication matches a
+ *   keyword (ICD-10 code prefixes work for conditions)
+ * - diagnosis: the primary or a differential diagnosis matches a keyword
+ *
+ * The orchestrator evaluates the rules before the diagnosis agent, which is
+ * told which ones fired, and again after it, when diagnosis conditions can
+ * match too. The hits are merged into DiagnosisResult.redFlags and set a
+ * minimum overall urgency, whatever the model concluded.
+ */
+
+import { prisma } from "@/lib/db";
+import { VITAL_SIGN_RANGES } from "@/lib/early-warning";
+import { isNegated } from "@/lib/negation";
+import type {
+    ConsciousnessLevel,
+    DiagnosisResult,
+    PatientContext,
+    RedFlagHit,
+} from "@/lib/ai/agents/types";
+
+// Rules only change when an admin edits them
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+export type RedFlagVital = keyof typeof VITAL_SIGN_RANGES;
+export type ComparisonOperator = "<" | "<=" | ">" | ">=";
+
+export type RedFlagCondition =
+    | { type: "symptom"; keywords: string[] }
+    | { type: "vital"; vital: RedFlagVital; operator: ComparisonOperator; value: number }
+    | { type: "consciousness"; levels: ConsciousnessLevel[] }
+    | { type: "age"; operator: ComparisonOperator; value: number }
+    | { type: "gender"; gender: "male" | "female" }
+    | { type: "condition"; keywords: string[] }
+    | { type: "medication"; keywords: string[] }
+    | { type: "diagnosis"; keywords: string[] };
+
+export interface RedFlagRuleInput {
+    name: string;
+    description: string | null;
+    message: string;
+    minimumUrgency: RedFlagHit["minimumUrgency"];
+    conditions: RedFlagCondition[];
+    enabled: boolean;
+}
+
+export interface RedFlagRule extends RedFlagRuleInput {
+    id: string;
+}
+
+export type RedFlagContext = Pick<
+    PatientContext,
+    "age" | "gender" | "currentSymptoms" | "voiceTranscript" | "currentVitalSigns" | "medicalHistory" | "medications"
+>;
+
+const CONDITION_TYPES: RedFlagCondition["type"][] = [
+    "symptom", "vital", "consciousness", "age", "gender", "condition", "medication", "diagnosis",
+];
+const OPERATORS: ComparisonOperator[] = ["<", "<=", ">", ">="];
+const CONSCIOUSNESS_LEVELS: ConsciousnessLevel[] = ["alert", "confusion", "voice", "pain", "unresponsive"];
+
+// ============================================================================
+// Default rules (scripts/seed-red-flag-rules.ts, or "Restore defaults" in settings)
+// ============================================================================
+
+export const DEFAULT_RED_FLAG_RULES: Omit<RedFlagRuleInput, "enabled">[] = [
+    {
+        name: "Chest pain with diabetes over 50",
+        description: "Diabetic patients often present with atypical acute coronary syndrome",
+        message: "Chest pain in a patient over 50 with diabetes: ECG within 10 minutes and serial troponins",
+        minimumUrgency: "HIGH",
+        conditions: [
+            { type: "symptom", keywords: ["chest pain", "chest pressure", "chest tightness", "chest discomfort"] },
+            { type: "age", operator: ">", value: 50 },
+            { type: "condition", keywords: ["diabet", "E10", "E11"] },
+        ],
+    },
+    {
+        name: "Sudden severe headache",
+        description: null,
+        message: "Sudden severe headache: exclude subarachnoid hemorrhage",
+        minimumUrgency: "CRITICAL",
+        conditions: [{ type: "symptom", keywords: ["worst headache", "thunderclap", "sudden severe headache"] }],
+    },
+    {
+        name: "Focal neurological deficit",
+        description: null,
+        message: "Possible stroke: activate the stroke pathway and establish the last known well time",
+        minimumUrgency: "CRITICAL",
+        conditions: [
+            { type: "symptom", keywords: ["facial droop", "slurred speech", "one-sided weakness", "hemiparesis", "sudden vision loss", "arm weakness"] },
+        ],
+    },
+    {
+        name: "Risk of self-harm",
+        description: null,
+        message: "Risk of self-harm: continuous observation and urgent mental health assessment",
+        minimumUrgency: "HIGH",
+        conditions: [{ type: "symptom", keywords: ["suicid", "self-harm", "self harm", "overdose"] }],
+    },
+    {
+        name: "Hypotension",
+        description: null,
+        message: "Systolic BP below 90 mmHg: assess for shock",
+        minimumUrgency: "CRITICAL",
+        conditions: [{ type: "vital", vital: "bloodPressureSystolic", operator: "<", value: 90 }],
+    },
+    {
+        name: "Hypoxia",
+        description: null,
+        message: "SpO2 below 90%: oxygen and airway and breathing assessment",
+        minimumUrgency: "CRITICAL",
+        conditions: [{ type: "vital", vital: "oxygenSaturation", operator: "<", value: 90 }],
+    },
+    {
+        name: "Head injury on anticoagulation",
+        description: "Intracranial bleeding risk is high even after minor head injury",
+        message: "Head injury on anticoagulation: CT head regardless of symptoms",
+        minimumUrgency: "HIGH",
+        conditions: [
+            { type: "symptom", keywords: ["head injury", "head trauma", "hit my head", "hit his head", "hit her head", "hit their head", "fell", "fall"] },
+            { type: "medication", keywords: ["warfarin", "apixaban", "rivaroxaban", "dabigatran", "edoxaban", "heparin", "enoxaparin"] },
+        ],
+    },
+    {
+        name: "Febrile infant",
+        description: null,
+        message: "Fever in an infant under 1 year: full sepsis evaluation",
+        minimumUrgency: "HIGH",
+        conditions: [
+            { type: "age", operator: "<", value: 1 },
+            { type: "vital", vital: "temperature", operator: ">=", value: 38 },
+        ],
+    },
+    {
+        name: "Abdominal pain in pregnancy",
+        description: null,
+        message: "Abdominal pain in pregnancy: exclude ectopic pregnancy and placental abruption",
+        minimumUrgency: "HIGH",
+        conditions: [
+            { type: "gender", gender: "female" },
+            { type: "symptom", keywords: ["abdominal pain", "pelvic pain", "vaginal bleeding"] },
+            { type: "condition", keywords: ["pregnan"] },
+        ],
+    },
+    {
+        name: "Time-critical diagnosis considered",
+        description: "Checked after the diagnosis agent, against the primary and differential diagnoses",
+        message: "Time-critical condition in the differential: confirm or exclude it before discharge",
+        minimumUrgency: "HIGH",
+        conditions: [
+            {
+                type: "diagnosis",
+                keywords: [
+                    "aortic dissection", "subarachnoid", "meningitis", "ectopic", "pulmonary embolism",
+                    "sepsis", "septic", "testicular torsion", "cauda equina", "myocardial infarction", "stemi",
+                ],
+            },
+        ],
+    },
+];
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+function validateKeywords(value: unknown, label: string, errors: string[]): string[] {
+    if (!Array.isArray(value) || value.length === 0 || value.some(k => typeof k !== "string" || !k.trim())) {
+        errors.push(`${label}: keywords must be a non-empty list of words or phrases`);
+        return [];
+    }
+    return value.map((k: string) => k.trim());
+}
+
+function validateCondition(input: unknown, index: number, errors: string[]): RedFlagCondition | null {
+    const label = `Condition ${index + 1}`;
+    const condition = input as Record<string, unknown> | null;
+    const type = condition?.type as RedFlagCondition["type"];
+    if (!condition || !CONDITION_TYPES.includes(type)) {
+        errors.push(`${label}: type must be one of ${CONDITION_TYPES.join(", ")}`);
+        return null;
+    }
+
+    switch (type) {
+        case "symptom":
+        case "condition":
+        case "medication":
+        case "diagnosis":
+            return { type, keywords: validateKeywords(condition.keywords, label, errors) };
+        case "vital":
+        case "age": {
+            const operator = condition.operator as ComparisonOperator;
+            const value = condition.value;
+            if (!OPERATORS.includes(operator)) {
+                errors.push(`${label}: operator must be one of ${OPERATORS.join(" ")}`);
+            }
+            if (typeof value !== "number" || !Number.isFinite(value)) {
+                errors.push(`${label}: value must be a number`);
+            }
+            if (type === "age") {
+                return { type, operator, value: value as number };
+            }
+            const vital = condition.vital as RedFlagVital;
+            if (!(vital in VITAL_SIGN_RANGES)) {
+                errors.push(`${label}: vital must be one of ${Object.keys(VITAL_SIGN_RANGES).join(", ")}`);
+            }
+            return { type, vital, operator, value: value as number };
+        }
+        case "consciousness": {
+            const levels = condition.levels;
+            if (!Array.isArray(levels) || levels.length === 0 || levels.some(l => !CONSCIOUSNESS_LEVELS.includes(l))) {
+                errors.push(`${label}: levels must be a non-empty list of ${CONSCIOUSNESS_LEVELS.join(", ")}`);
+                return null;
+            }
+            return { type, levels };
+        }
+        case "gender":
+            if (condition.gender !== "male" && condition.gender !== "female") {
+                errors.push(`${label}: gender must be male or female`);
+            }
+            return { type, gender: condition.gender as "male" | "female" };
+    }
+}
+
+/**
+ * Check a rule from the settings page before it is saved
+ */
+export function validateRedFlagRule(input: unknown): { rule: RedFlagRuleInput | null; errors: string[] } {
+    const body = (input ?? {}) as Record<string, unknown>;
+    const errors: string[] = [];
+
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+    const message = typeof body.message === "string" ? body.message.trim() : "";
+    if (!name) errors.push("name is required");
+    if (!message) errors.push("message is required");
+
+    const minimumUrgency = body.minimumUrgency ?? "HIGH";
+    if (minimumUrgency !== "HIGH" && minimumUrgency !== "CRITICAL") {
+        errors.push("minimumUrgency must be HIGH or CRITICAL");
+    }
+
+    if (!Array.isArray(body.conditions) || body.conditions.length === 0) {
+        errors.push("At least one condition is required");
+    }
+    const conditions = Array.isArray(body.conditions)
+        ? body.conditions.map((c, i) => validateCondition(c, i, errors))
+        : [];
+
+    if (errors.length > 0) {
+        return { rule: null, errors };
+    }
+    return {
+        rule: {
+            name,
+            description: typeof body.description === "string" && body.description.trim() ? body.description.trim() : null,
+            message,
+            minimumUrgency: minimumUrgency as RedFlagHit["minimumUrgency"],
+            conditions: conditions as RedFlagCondition[],
+            enabled: body.enabled !== false,
+        },
+        errors,
+    };
+}
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+let cache: { rules: RedFlagRule[]; loadedAt: number } | null = null;
+
+/**
+ * Enabled rules, cached for a few minutes
+ */
+export async function loadRedFlagRules(): Promise<RedFlagRule[]> {
+    if (cache && Date.now() - cache.loadedAt < CACHE_TTL_MS) {
+        return cache.rules;
+    }
+
+    const rows = await prisma.redFlagRule.findMany({
+        where: { enabled: true },
+        orderBy: { createdAt: "asc" },
+    });
+    const rules = rows.map(row => ({
+        id: row.id,
+        name: row.name,
+        description: row.description,
+        message: row.message,
+        minimumUrgency: row.minimumUrgency as RedFlagHit["minimumUrgency"],
+        conditions: row.conditions as unknown as RedFlagCondition[],
+        enabled: row.enabled,
+    }));
+    cache = { rules, loadedAt: Date.now() };
+    return rules;
+}
+
+export function invalidateRedFlagRules(): void {
+    cache = null;
+}
+
+/**
+ * Add the default rules that aren't stored yet (matched by name)
+ */
+export async function seedDefaultRedFlagRules(createdBy: string | null = null): Promise<number> {
+    const existing = await prisma.redFlagRule.findMany({ select: { name: true } });
+    const names = new Set(existing.map(r => r.name));
+    const missing = DEFAULT_RED_FLAG_RULES.filter(rule => !names.has(rule.name));
+
+    if (missing.length > 0) {
+        await prisma.redFlagRule.createMany({
+            data: missing.map(rule => ({
+                ...rule,
+                conditions: rule.conditions,
+                createdBy,
+                updatedBy: createdBy,
+            })),
+            skipDuplicates: true,
+        });
+        invalidateRedFlagRules();
+    }
+    return missing.length;
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * First keyword the text mentions, skipping mentions that are denied
+ */
+function findKeyword(text: string, keywords: string[], { allowNegated = false } = {}): string | null {
+    for (const keyword of keywords) {
+        const pattern = new RegExp(`\\b${escapeRegExp(keyword)}`, "gi");
+        for (const match of text.matchAll(pattern)) {
+            if (allowNegated || !isNegated(text, match.index)) {
+                return keyword;
+            }
+        }
+    }
+    return null;
+}
+
+function compare(actual: number, operator: ComparisonOperator, value: number): boolean {
+    switch (operator) {
+        case "<": return actual < value;
+        case "<=": return actual <= value;
+        case ">": return actual > value;
+        case ">=": return actual >= value;
+    }
+}
+
+/**
+ * What satisfied the condition, or null when it doesn't hold
+ */
+function matchCondition(
+    condition: RedFlagCondition,
+    context: RedFlagContext,
+    diagnosis?: Pick<DiagnosisResult, "primaryDiagnosis" | "differentialDiagnoses">
+): string | null {
+    switch (condition.type) {
+        case "symptom": {
+            const text = [context.currentSymptoms, context.voiceTranscript].filter(Boolean).join("\n");
+            const keyword = findKeyword(text, condition.keywords);
+            return keyword ? `Symptoms mention "${keyword}"` : null;
+        }
+        case "vital": {
+            const actual = context.currentVitalSigns?.[condition.vital];
+            if (actual === undefined || !compare(actual, condition.operator, condition.value)) return null;
+            const { label, unit } = VITAL_SIGN_RANGES[condition.vital];
+            return `${label} ${actual} ${unit} (${condition.operator} ${condition.value})`;
+        }
+        case "consciousness": {
+            const level = context.currentVitalSigns?.consciousness;
+            return level && condition.levels.includes(level) ? `Consciousness: ${level}` : null;
+        }
+        case "age":
+            return compare(context.age, condition.operator, condition.value)
+                ? `Age ${context.age} (${condition.operator} ${condition.value})`
+                : null;
+        case "gender":
+            return context.gender.toLowerCase() === condition.gender ? `Gender: ${context.gender}` : null;
+        case "condition": {
+            const entry = context.medicalHistory.find(h =>
+                h.type !== "family_history" &&
+                ["active", "recurrence"].includes(h.clinicalStatus) &&
+                (findKeyword(h.description, condition.keywords, { allowNegated: true }) ||
+                    condition.keywords.some(k => h.icd10Code?.toUpperCase().startsWith(k.toUpperCase())))
+            );
+            return entry ? `History: ${entry.description}${entry.icd10Code ? ` (${entry.icd10Code})` : ""}` : null;
+        }
+        case "medication": {
+            const medication = context.medications.find(m =>
+                m.status === "active" &&
+                findKeyword(`${m.name} ${m.genericName ?? ""}`, condition.keywords, { allowNegated: true })
+            );
+            return medication ? `Medication: ${medication.name}` : null;
+        }
+        case "diagnosis": {
+            if (!diagnosis) return null;
+            const candidate = [diagnosis.primaryDiagnosis, ...diagnosis.differentialDiagnoses]
+                .find(d => findKeyword(d, condition.keywords, { allowNegated: true }));
+            return candidate ? `Diagnosis considered: ${candidate}` : null;
+        }
+    }
+}
+
+/**
+ * Rules whose conditions all hold, CRITICAL first. Without a diagnosis, rules
+ * with a diagnosis condition don't match.
+ */
+export function evaluateRedFlagRules(
+    rules: RedFlagRule[],
+    context: RedFlagContext,
+    diagnosis?: Pick<DiagnosisResult, "primaryDiagnosis" | "differentialDiagnoses">
+): RedFlagHit[] {
+    const hits: RedFlagHit[] = [];
+    for (const rule of rules) {
+        if (!rule.enabled || rule.conditions.length === 0) continue;
+
+        const matched = rule.conditions.map(condition => matchCondition(condition, context, diagnosis));
+        if (matched.every((m): m is string => m !== null)) {
+            hits.push({
+                ruleId: rule.id,
+                name: rule.name,
+                message: rule.message,
+                minimumUrgency: rule.minimumUrgency,
+                matched,
+            });
+        }
+    }
+    return hits.sort((a, b) => (a.minimumUrgency === b.minimumUrgency ? 0 : a.minimumUrgency === "CRITICAL" ? -1 : 1));
+}
+
+/**
+ * Merge rule hits into the diagnosis red flags (skipping ones the model already listed)
+ */
+export function applyRedFlagHits(diagnosis: DiagnosisResult, hits: RedFlagHit[]): DiagnosisResult {
+    const listed = new Set(diagnosis.redFlags.map(flag => flag.toLowerCase()));
+    const added = hits.map(hit => hit.message).filter(message => !listed.has(message.toLowerCase()));
+    return {
+        ...diagnosis,
+        redFlags: [...added, ...diagnosis.redFlags],
+        ruleBasedRedFlags: hits,
+    };
+}
+
+/**
+ * Rule hits as a markdown list, for the diagnosis prompt and the reasoning chain
+ */
+export function formatRedFlagHits(hits: RedFlagHit[]): string {
+    return hits
+        .map(hit => `- **${hit.name}** (minimum urgency ${hit.minimumUrgency}): ${hit.message}. Matched: ${hit.matched.join("; ")}`)
+        .join("\n");
+}
@@ -0,0 +1,112 @@
+/**
+ * Triage Report Lifecycle
+ *
+ * A triage report moves through a small state machine:
+ *
+ *   PROCESSING ──> DRAFT ──> FINALIZED
+ *       │  ↑
+ *       │  └── retry ──┐
+ *       ├──> FAILED ───┤
+ *       └──> CANCELLED ┘
+ *
+ * Transitions are applied with a conditional update on the current status,
+ * so concurrent writers (e.g. the workflow finishing while a doctor cancels)
+ * cannot move a report out of a state it has already left.
+ */
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { inngest } from "@/inngest/client";
+import type { AnalysisProgressEvent } from "@/lib/ai/agents/types";
+
+export const TRIAGE_STATUSES = ["PROCESSING", "DRAFT", "FAILED", "CANCELLED", "FINALIZED"] as const;
+export type TriageStatus = typeof TRIAGE_STATUSES[number];
+
+const TRANSITIONS: Record<TriageStatus, TriageStatus[]> = {
+    PROCESSING: ["DRAFT", "FAILED", "CANCELLED"],
+    DRAFT: ["FINALIZED"],
+    FAILED: ["PROCESSING"],
+    CANCELLED: ["PROCESSING"],
+    FINALIZED: [],
+};
+
+export function canTransition(from: string, to: TriageStatus): boolean {
+    return (TRANSITIONS[from as TriageStatus] ?? []).includes(to);
+}
+
+/**
+ * Move a triage report to a new status if its current status allows it.
+ * Returns the updated report, or null when the transition is not allowed.
+ */
+export async function transitionTriageReport(
+    id: string,
+    to: TriageStatus,
+    data: Omit<Prisma.TriageReportUpdateManyMutationInput, "status"> = {}
+) {
+    const from = TRIAGE_STATUSES.filter(status => TRANSITIONS[status].includes(to));
+
+    const { count } = await prisma.triageReport.updateMany({
+        where: { id, status: { in: from } },
+        data: { ...data, status: to },
+    });
+
+    if (count === 0) {
+        return null;
+    }
+
+    console.log(`[Triage] Report ${id} -> ${to}`);
+    return prisma.triageReport.findUnique({ where: { id } });
+}
+
+/**
+ * Send the analysis event for a PROCESSING report. If the event cannot be
+ * queued the report is marked FAILED so it can be retried.
+ */
+export async function requestTriageAnalysis(
+    triageReportId: string,
+    data: {
+        encounterId: string;
+        patientId: string;
+        symptoms: string;
+        voiceTranscript?: string;
+        scanIds: string[];
+    }
+): Promise<TriageStatus> {
+    try {
+        await inngest.send({
+            name: "triage.requested",
+            data: { ...data, triageReportId },
+        });
+        return "PROCESSING";
+    } catch (error) {
+        console.error("[Triage] Failed to queue analysis:", error);
+        await transitionTriageReport(triageReportId, "FAILED", {
+            failureReason: `Analysis could not be queued: ${error instanceof Error ? error.message : String(error)}`,
+        });
+        return "FAILED";
+    }
+}
+
+/**
+ * Store a progress event for a running analysis (read by the progress stream)
+ */
+export async function recordTriageProgress(
+    triageReportId: string,
+    event: AnalysisProgressEvent
+): Promise<void> {
+    await prisma.triageProgressEvent.create({
+        data: {
+            triageReportId,
+            step: event.step,
+            message: event.message,
+            data: event.data as Prisma.InputJsonValue | undefined,
+        },
+    });
+}
+
+/**
+ * Drop the progress of a previous run before the analysis is retried
+ */
+export async function clearTriageProgress(triageReportId: string): Promise<void> {
+    await prisma.triageProgressEvent.deleteMany({ where: { triageReportId } });
+}
@@ -8,6 +8,8 @@ const isPublicRoute = createRouteMatcher([
     "/forgot-password(.*)",
     "/api/inngest(.*)",
     "/sso-callback(.*)",
+    // FHIR routes answer unauthenticated requests with an OperationOutcome themselves
+    "/fhir(.*)",
 ]);
 
 export default clerkMiddleware(async (auth, request) => {